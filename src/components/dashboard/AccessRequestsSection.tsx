@@ -0,0 +1,247 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "sonner";
+import { Check, Inbox, Loader2, Send, X } from "lucide-react";
+import {
+  AccessRequest,
+  AccessRequestStatus,
+  ApprovedResource,
+  approveAccessRequest,
+  denyAccessRequest,
+  fetchAccessRequests,
+} from "@/lib/accessRequests";
+import { errorMessage } from "@/lib/utils";
+import ApproveAccessRequestDialog, { ApprovalChoice } from "./ApproveAccessRequestDialog";
+import RequestAccessDialog from "./RequestAccessDialog";
+import ShareFolderDialog from "./ShareFolderDialog";
+import ShareRecordDialog from "./ShareRecordDialog";
+
+interface AccessRequestsSectionProps {
+  profileId: string;
+  onShared?: () => void;
+}
+
+const STATUS_BADGES: Record<AccessRequestStatus, { label: string; variant: "secondary" | "default" | "destructive" }> = {
+  pending: { label: "Pending", variant: "secondary" },
+  approved: { label: "Approved", variant: "default" },
+  denied: { label: "Denied", variant: "destructive" },
+};
+
+const AccessRequestsSection = ({ profileId, onShared }: AccessRequestsSectionProps) => {
+  const [incoming, setIncoming] = useState<AccessRequest[]>([]);
+  const [outgoing, setOutgoing] = useState<AccessRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [requestDialogOpen, setRequestDialogOpen] = useState(false);
+  const [approving, setApproving] = useState<AccessRequest | null>(null);
+  const [shareTarget, setShareTarget] = useState<{ request: AccessRequest; choice: ApprovalChoice } | null>(null);
+  const [denyingId, setDenyingId] = useState<string | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    try {
+      const requests = await fetchAccessRequests(profileId);
+      setIncoming(requests.incoming);
+      setOutgoing(requests.outgoing);
+    } catch (error) {
+      console.error("Error loading access requests:", error);
+      toast.error("Failed to load access requests");
+    } finally {
+      setLoading(false);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    if (profileId) loadRequests();
+  }, [profileId, loadRequests]);
+
+  const handleDeny = async (request: AccessRequest) => {
+    setDenyingId(request.id);
+    try {
+      await denyAccessRequest(request);
+      toast.success("Request denied");
+      await loadRequests();
+    } catch (error) {
+      console.error("Error denying request:", error);
+      toast.error(errorMessage(error, "Failed to deny request"));
+    } finally {
+      setDenyingId(null);
+    }
+  };
+
+  const handleChoose = (choice: ApprovalChoice) => {
+    if (approving) setShareTarget({ request: approving, choice });
+    setApproving(null);
+  };
+
+  // Runs once the share dialog has shared with the requester
+  const handleApproved = async (request: AccessRequest, resource: ApprovedResource) => {
+    try {
+      await approveAccessRequest(request, resource);
+      toast.success(`Request from ${request.requester?.full_name || "the doctor"} approved`);
+      await loadRequests();
+      onShared?.();
+    } catch (error) {
+      console.error("Error approving request:", error);
+      toast.error(errorMessage(error, "Shared, but the request could not be marked approved"));
+    }
+  };
+
+  const statusBadge = (status: string) => {
+    const badge = STATUS_BADGES[status as AccessRequestStatus] || STATUS_BADGES.pending;
+    return <Badge variant={badge.variant}>{badge.label}</Badge>;
+  };
+
+  const pendingCount = incoming.filter((request) => request.status === "pending").length;
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center p-8">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Inbox className="w-5 h-5" />
+                Access Requests
+              </CardTitle>
+              <CardDescription>Ask colleagues for records, and answer their requests</CardDescription>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => setRequestDialogOpen(true)}>
+              <Send className="w-4 h-4 mr-2" />
+              Request Access
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="inbox">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="inbox">Inbox{pendingCount > 0 && ` (${pendingCount})`}</TabsTrigger>
+              <TabsTrigger value="sent">Sent</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="inbox" className="space-y-3">
+              {incoming.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">No one has asked you for access yet.</p>
+              ) : (
+                incoming.map((request) => (
+                  <div key={request.id} className="flex items-start justify-between gap-4 p-4 border rounded-lg">
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <p className="font-medium truncate">{request.subject}</p>
+                      <p className="text-sm text-muted-foreground">
+                        From {request.requester?.full_name || "Unknown Doctor"}
+                        {request.requester?.specialization && ` - ${request.requester.specialization}`}
+                      </p>
+                      {request.reason && <p className="text-sm">{request.reason}</p>}
+                      <p className="text-xs text-muted-foreground">{new Date(request.created_at).toLocaleString()}</p>
+                    </div>
+                    {request.status === "pending" ? (
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={() => setApproving(request)} disabled={denyingId === request.id}>
+                          <Check className="w-4 h-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDeny(request)}
+                          disabled={denyingId === request.id}
+                        >
+                          {denyingId === request.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <>
+                              <X className="w-4 h-4 mr-1" />
+                              Deny
+                            </>
+                          )}
+                        </Button>
+                      </div>
+                    ) : (
+                      statusBadge(request.status)
+                    )}
+                  </div>
+                ))
+              )}
+            </TabsContent>
+
+            <TabsContent value="sent" className="space-y-3">
+              {outgoing.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">You haven't requested access yet.</p>
+              ) : (
+                outgoing.map((request) => (
+                  <div key={request.id} className="flex items-start justify-between gap-4 p-4 border rounded-lg">
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <p className="font-medium truncate">{request.subject}</p>
+                      <p className="text-sm text-muted-foreground">
+                        To {request.owner?.full_name || "Unknown Doctor"}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{new Date(request.created_at).toLocaleString()}</p>
+                    </div>
+                    {statusBadge(request.status)}
+                  </div>
+                ))
+              )}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+
+      <RequestAccessDialog
+        profileId={profileId}
+        open={requestDialogOpen}
+        onOpenChange={setRequestDialogOpen}
+        onSuccess={loadRequests}
+      />
+
+      <ApproveAccessRequestDialog
+        request={approving}
+        profileId={profileId}
+        onOpenChange={(open) => !open && setApproving(null)}
+        onChoose={handleChoose}
+      />
+
+      <ShareRecordDialog
+        record={shareTarget?.choice.type === "record" ? shareTarget.choice.record : null}
+        open={shareTarget?.choice.type === "record"}
+        onOpenChange={(open) => !open && setShareTarget(null)}
+        onSuccess={loadRequests}
+        initialRecipientIds={shareTarget ? [shareTarget.request.requester_id] : []}
+        onShared={(recipientIds) => {
+          if (!shareTarget || shareTarget.choice.type !== "record") return;
+          const { request, choice } = shareTarget;
+          if (recipientIds.includes(request.requester_id)) {
+            handleApproved(request, { type: "record", id: choice.record.id, name: choice.record.file_name });
+          }
+        }}
+      />
+
+      <ShareFolderDialog
+        folder={shareTarget?.choice.type === "folder" ? shareTarget.choice.folder : null}
+        open={shareTarget?.choice.type === "folder"}
+        onOpenChange={(open) => !open && setShareTarget(null)}
+        onSuccess={loadRequests}
+        initialDoctorId={shareTarget?.request.requester_id}
+        onShared={(receiverId) => {
+          if (!shareTarget || shareTarget.choice.type !== "folder") return;
+          const { request, choice } = shareTarget;
+          if (receiverId === request.requester_id) {
+            handleApproved(request, { type: "folder", id: choice.folder.id, name: choice.folder.folder_name });
+          }
+        }}
+      />
+    </>
+  );
+};
+
+export default AccessRequestsSection;
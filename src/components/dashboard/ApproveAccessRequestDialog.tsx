@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { CheckCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { AccessRequest } from "@/lib/accessRequests";
+
+export type ApprovalChoice =
+  | { type: "record"; record: Tables<"medical_records"> }
+  | { type: "folder"; folder: Tables<"encrypted_folders"> };
+
+interface ApproveAccessRequestDialogProps {
+  request: AccessRequest | null;
+  profileId: string;
+  onOpenChange: (open: boolean) => void;
+  onChoose: (choice: ApprovalChoice) => void;
+}
+
+// Step one of approving: pick what to share. The share dialog does the rest.
+const ApproveAccessRequestDialog = ({ request, profileId, onOpenChange, onChoose }: ApproveAccessRequestDialogProps) => {
+  const [records, setRecords] = useState<Tables<"medical_records">[]>([]);
+  const [folders, setFolders] = useState<Tables<"encrypted_folders">[]>([]);
+  const [selected, setSelected] = useState("");
+
+  const loadResources = useCallback(async () => {
+    try {
+      const [recordsResult, foldersResult] = await Promise.all([
+        supabase
+          .from("medical_records")
+          .select("*")
+          .eq("owner_id", profileId)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("encrypted_folders")
+          .select("*")
+          .eq("owner_id", profileId)
+          .order("created_at", { ascending: false }),
+      ]);
+
+      if (recordsResult.error) throw recordsResult.error;
+      if (foldersResult.error) throw foldersResult.error;
+      setRecords(recordsResult.data || []);
+      setFolders(foldersResult.data || []);
+    } catch (error) {
+      console.error("Error loading records and folders:", error);
+      toast.error("Failed to load your records and folders");
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    if (request) {
+      setSelected("");
+      loadResources();
+    }
+  }, [request, loadResources]);
+
+  const handleContinue = () => {
+    const [type, id] = selected.split(":");
+    if (type === "record") {
+      onChoose({ type, record: records.find((record) => record.id === id) });
+    } else if (type === "folder") {
+      onChoose({ type, folder: folders.find((folder) => folder.id === id) });
+    }
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CheckCircle className="w-5 h-5" />
+            Approve Request
+          </DialogTitle>
+          <DialogDescription>
+            {request?.requester?.full_name || "A doctor"} asked for "{request?.subject}". Choose what to share
+            with them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {request?.reason && (
+          <p className="text-sm text-muted-foreground bg-muted/50 p-3 rounded-lg">{request.reason}</p>
+        )}
+
+        <div className="space-y-2 py-2">
+          <Label>Share</Label>
+          <Select value={selected} onValueChange={setSelected}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a record or folder" />
+            </SelectTrigger>
+            <SelectContent>
+              {records.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Records</SelectLabel>
+                  {records.map((record) => (
+                    <SelectItem key={record.id} value={`record:${record.id}`}>
+                      {record.file_name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+              {folders.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Folders</SelectLabel>
+                  {folders.map((folder) => (
+                    <SelectItem key={folder.id} value={`folder:${folder.id}`}>
+                      {folder.folder_name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleContinue} disabled={!selected}>
+            Continue to Share
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ApproveAccessRequestDialog;
@@ -3,11 +3,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { CheckCircle, AlertCircle, Lock } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
-import { Blockchain } from "@/lib/blockchain";
+import { ChainVerification } from "@/lib/blockchain";
+import { verifyLedger } from "@/lib/ledger";
+import { LEDGER_ACTION_LABELS, ledgerEventSubject, parseLedgerEvent } from "@/lib/ledgerEvents";
 
 const BlockchainStatusSection = () => {
   const [blocks, setBlocks] = useState<any[]>([]);
-  const [isValid, setIsValid] = useState<boolean | null>(null);
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -23,9 +25,7 @@ const BlockchainStatusSection = () => {
           setBlocks((prev) => {
             const exists = prev.some((b) => b.id === payload.new.id);
             const next = exists ? prev : [...prev, payload.new];
-            const ordered = [...next].sort((a, b) => a.block_index - b.block_index);
-            setIsValid(validateChain(ordered));
-            return ordered;
+            return [...next].sort((a, b) => a.block_index - b.block_index);
           });
         }
       )
@@ -35,9 +35,7 @@ const BlockchainStatusSection = () => {
         (payload: any) => {
           setBlocks((prev) => {
             const next = prev.map((b) => (b.id === payload.new.id ? payload.new : b));
-            const ordered = [...next].sort((a, b) => a.block_index - b.block_index);
-            setIsValid(validateChain(ordered));
-            return ordered;
+            return [...next].sort((a, b) => a.block_index - b.block_index);
           });
         }
       )
@@ -45,12 +43,7 @@ const BlockchainStatusSection = () => {
         'postgres_changes',
         { event: 'DELETE', schema: 'public', table: 'blockchain_renewed' },
         (payload: any) => {
-          setBlocks((prev) => {
-            const next = prev.filter((b) => b.id !== payload.old.id);
-            const ordered = [...next].sort((a, b) => a.block_index - b.block_index);
-            setIsValid(validateChain(ordered));
-            return ordered;
-          });
+          setBlocks((prev) => prev.filter((b) => b.id !== payload.old.id));
         }
       )
       .subscribe();
@@ -60,6 +53,22 @@ const BlockchainStatusSection = () => {
     };
   }, []);
 
+  // Signature checks are async, so re-verify whenever the blocks change
+  useEffect(() => {
+    if (blocks.length === 0) return;
+
+    let cancelled = false;
+    verifyLedger(blocks)
+      .then((result) => {
+        if (!cancelled) setVerification(result);
+      })
+      .catch((error) => console.error("Error verifying blockchain:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [blocks]);
+
   const loadBlockchain = async () => {
     try {
       const { data, error } = await supabase
@@ -74,13 +83,6 @@ const BlockchainStatusSection = () => {
       if (error) throw error;
 
       setBlocks(data || []);
-      
-      // Validate blockchain
-      if (data && data.length > 0) {
-        const blockchain = new Blockchain();
-        const isChainValid = validateChain(data);
-        setIsValid(isChainValid);
-      }
     } catch (error: any) {
       console.error("Error loading blockchain:", error);
     } finally {
@@ -88,24 +90,7 @@ const BlockchainStatusSection = () => {
     }
   };
 
-  const validateChain = (chainData: any[]): boolean => {
-    // Empty chain is considered valid
-    if (chainData.length === 0) return true;
-    
-    // Validate chain by checking if previous_hash of current block matches current_hash of previous block
-    for (let i = 1; i < chainData.length; i++) {
-      const currentBlock = chainData[i];
-      const previousBlock = chainData[i - 1];
-
-      // Check if previous_hash field of current block equals current_hash field of previous block
-      if (currentBlock.previous_hash !== previousBlock.current_hash) {
-        console.error(`Block ${i}: Chain broken - previous_hash doesn't match`);
-        return false;
-      }
-    }
-    
-    return true;
-  };
+  const isValid = verification ? verification.valid : null;
 
   if (loading) {
     return (
@@ -154,11 +139,18 @@ const BlockchainStatusSection = () => {
           )}
         </div>
 
+        {verification && !verification.valid && (
+          <p className="text-xs text-destructive break-all">
+            {verification.failures[0].message}
+            {verification.failures.length > 1 && ` (+${verification.failures.length - 1} more)`}
+          </p>
+        )}
+
         <div className="space-y-2">
           <p className="text-sm font-semibold">Blockchain Statistics</p>
           <div className="grid grid-cols-2 gap-4">
             <div className="bg-card border rounded-lg p-3">
-              <p className="text-2xl font-bold text-primary">{blocks.length}</p>
+              <p className="text-2xl font-bold text-primary">{verification?.blockCount ?? blocks.length}</p>
               <p className="text-xs text-muted-foreground">Total Blocks</p>
             </div>
             <div className="bg-card border rounded-lg p-3">
@@ -172,22 +164,28 @@ const BlockchainStatusSection = () => {
           <div className="space-y-2">
             <p className="text-sm font-semibold">Recent Blocks</p>
             <div className="space-y-2 max-h-48 overflow-y-auto">
-              {blocks.slice(-5).reverse().map((block) => (
-                <div
-                  key={block.id}
-                  className="text-xs p-3 bg-muted/30 rounded border"
-                >
-                  <div className="flex justify-between mb-1">
-                    <span className="font-mono font-semibold">Block #{block.block_index}</span>
-                    <Badge variant="outline" className="text-xs">
-                      {block.data_json?.fileName || "Record"}
-                    </Badge>
+              {blocks.slice(-5).reverse().map((block) => {
+                const { event } = parseLedgerEvent(block.data_json);
+                return (
+                  <div
+                    key={block.id}
+                    className="text-xs p-3 bg-muted/30 rounded border"
+                  >
+                    <div className="flex justify-between mb-1">
+                      <span className="font-mono font-semibold">Block #{block.block_index}</span>
+                      <Badge variant="outline" className="text-xs">
+                        {event ? LEDGER_ACTION_LABELS[event.action] : "Unrecognized"}
+                      </Badge>
+                    </div>
+                    {event && (
+                      <p className="truncate mb-1">{ledgerEventSubject(event)}</p>
+                    )}
+                    <p className="text-muted-foreground truncate">
+                      Hash: {block.current_hash.substring(0, 24)}...
+                    </p>
                   </div>
-                  <p className="text-muted-foreground truncate">
-                    Hash: {block.current_hash.substring(0, 24)}...
-                  </p>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </div>
         )}
@@ -196,6 +194,7 @@ const BlockchainStatusSection = () => {
           <p className="font-semibold text-accent mb-1">🔒 Security Features</p>
           <ul className="list-disc list-inside space-y-0.5">
             <li>SHA-256 cryptographic hashing</li>
+            <li>ECDSA P-256 block signatures</li>
             <li>AES-256 file encryption</li>
             <li>RSA key exchange protocol</li>
             <li>Immutable blockchain ledger</li>
@@ -3,10 +3,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { CheckCircle, AlertCircle, Shield } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { LedgerVerification, verifyLedger } from "@/lib/ledger";
+import ForensicReportDialog from "./ForensicReportDialog";
+import VerifyFileDialog from "./VerifyFileDialog";
 
 const BlockchainValidation = () => {
   const [blocks, setBlocks] = useState<any[]>([]);
-  const [isValid, setIsValid] = useState<boolean | null>(null);
+  const [verification, setVerification] = useState<LedgerVerification | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -39,7 +42,7 @@ const BlockchainValidation = () => {
       if (error) throw error;
 
       setBlocks(data || []);
-      setIsValid(validateChain(data || []));
+      setVerification(await verifyLedger(data || []));
     } catch (error: any) {
       console.error("Error loading blockchain:", error);
     } finally {
@@ -47,20 +50,7 @@ const BlockchainValidation = () => {
     }
   };
 
-  const validateChain = (chainData: any[]): boolean => {
-    if (chainData.length === 0) return true;
-    
-    for (let i = 1; i < chainData.length; i++) {
-      const currentBlock = chainData[i];
-      const previousBlock = chainData[i - 1];
-
-      if (currentBlock.previous_hash !== previousBlock.current_hash) {
-        return false;
-      }
-    }
-    
-    return true;
-  };
+  const isValid = verification ? verification.valid : null;
 
   if (loading) {
     return (
@@ -99,7 +89,7 @@ const BlockchainValidation = () => {
                     Valid
                   </Badge>
                   <p className="text-sm text-muted-foreground text-center max-w-md">
-                    All blocks are properly linked. The blockchain integrity is intact.
+                    All blocks are properly linked, and the hash and signature of every block you're involved in check out against its author's key{verification.checkpoint ? " and match the latest signed checkpoint" : ""}. The blockchain integrity is intact.
                   </p>
                 </>
               ) : (
@@ -111,8 +101,26 @@ const BlockchainValidation = () => {
                     Invalid
                   </Badge>
                   <p className="text-sm text-muted-foreground text-center max-w-md">
-                    Chain integrity compromised. Hash mismatch detected between blocks.
+                    Chain integrity compromised. {verification.failures.length} problem(s) found:
                   </p>
+                  <ul className="w-full max-w-md space-y-1 text-xs">
+                    {verification.failures.slice(0, 5).map((failure) => (
+                      <li
+                        key={`${failure.position}-${failure.reason}`}
+                        className="p-2 rounded border border-destructive/30 bg-destructive/5 break-all"
+                      >
+                        {failure.message}
+                      </li>
+                    ))}
+                  </ul>
+                  {verification.failures.length > 5 && (
+                    <p className="text-xs text-muted-foreground">
+                      and {verification.failures.length - 5} more
+                    </p>
+                  )}
+                  <div className="w-full max-w-md">
+                    <ForensicReportDialog blocks={blocks} verification={verification} />
+                  </div>
                 </>
               )}
             </>
@@ -122,7 +130,7 @@ const BlockchainValidation = () => {
         <div className="border-t pt-4">
           <div className="grid grid-cols-2 gap-4 text-center">
             <div>
-              <p className="text-3xl font-bold text-primary">{blocks.length}</p>
+              <p className="text-3xl font-bold text-primary">{verification?.blockCount ?? blocks.length}</p>
               <p className="text-xs text-muted-foreground mt-1">Total Blocks</p>
             </div>
             <div>
@@ -133,6 +141,16 @@ const BlockchainValidation = () => {
             </div>
           </div>
         </div>
+
+        {verification?.checkpoint && (
+          <p className="text-xs text-muted-foreground text-center">
+            Last checkpoint at block #{verification.checkpoint.block_index},{" "}
+            {new Date(verification.checkpoint.tsa_time ?? verification.checkpoint.created_at).toLocaleString()}
+            {verification.checkpoint.tsa_time && verification.checkpoint.tsa_url !== "stub" && " (timestamped by TSA)"}
+          </p>
+        )}
+
+        <VerifyFileDialog />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,218 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Loader2, UserX, Users } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { CareTeam, addTeamMembers, createCareTeam, removeTeamMember } from "@/lib/careTeams";
+import { errorMessage } from "@/lib/utils";
+
+type Doctor = Pick<Tables<"profiles">, "id" | "full_name" | "specialization">;
+
+interface CareTeamDialogProps {
+  profileId: string;
+  // null creates a new team
+  team: CareTeam | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+const CareTeamDialog = ({ profileId, team, open, onOpenChange, onSuccess }: CareTeamDialogProps) => {
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [name, setName] = useState("");
+  const [selectedDoctorIds, setSelectedDoctorIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const loadDoctors = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, full_name, specialization")
+        .neq("id", profileId);
+
+      if (error) throw error;
+      setDoctors(data || []);
+    } catch (error) {
+      console.error("Error loading doctors:", error);
+      toast.error("Error loading doctors list");
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    if (open) {
+      setName("");
+      setSelectedDoctorIds([]);
+      loadDoctors();
+    }
+  }, [open, team?.id, loadDoctors]);
+
+  const toggleDoctor = (doctorId: string, checked: boolean) => {
+    setSelectedDoctorIds((ids) => (checked ? [...ids, doctorId] : ids.filter((id) => id !== doctorId)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (team) {
+        await addTeamMembers(team, profileId, selectedDoctorIds);
+        toast.success(`Added ${selectedDoctorIds.length} member${selectedDoctorIds.length === 1 ? "" : "s"} to ${team.name}`);
+      } else {
+        const created = await createCareTeam(profileId, name, selectedDoctorIds);
+        toast.success(`Care team "${created.name}" created`);
+      }
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving care team:", error);
+      toast.error(errorMessage(error, "Failed to save care team"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (memberId: string) => {
+    if (!team) return;
+
+    setRemovingId(memberId);
+    try {
+      await removeTeamMember(team, profileId, memberId);
+      toast.success("Member removed from the team");
+      onSuccess();
+    } catch (error) {
+      console.error("Error removing team member:", error);
+      toast.error(errorMessage(error, "Failed to remove member"));
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const memberIds = new Set(team?.members.map((member) => member.profile_id));
+  const canSave = selectedDoctorIds.length > 0 && (!!team || !!name.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            {team ? team.name : "New Care Team"}
+          </DialogTitle>
+          <DialogDescription>
+            {team
+              ? "Add or remove members. New members can open everything already shared with the team."
+              : "Group the colleagues you share with most, then share folders with the whole team at once."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {team ? (
+            <div className="space-y-2">
+              <Label>Members</Label>
+              <ul className="space-y-1 text-sm">
+                {team.members.map((member) => (
+                  <li key={member.profile_id} className="flex items-center justify-between gap-2">
+                    <span className="flex-1">
+                      {member.profile?.full_name || "Unknown Doctor"}
+                      {member.profile_id === team.created_by && (
+                        <span className="text-xs text-muted-foreground"> (creator)</span>
+                      )}
+                    </span>
+                    {member.profile_id !== team.created_by && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleRemove(member.profile_id)}
+                        disabled={saving || removingId !== null}
+                        title="Remove from team"
+                      >
+                        {removingId === member.profile_id ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <UserX className="w-4 h-4" />
+                        )}
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="team-name">Team name</Label>
+              <Input
+                id="team-name"
+                placeholder="e.g. Cardiology ward B"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>{team ? "Add Doctors" : "Members"}</Label>
+            <div className="max-h-60 overflow-y-auto border rounded-lg divide-y">
+              {doctors
+                .filter((doctor) => !memberIds.has(doctor.id))
+                .map((doctor) => (
+                  <label key={doctor.id} className="flex items-center gap-3 p-3 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={selectedDoctorIds.includes(doctor.id)}
+                      onCheckedChange={(checked) => toggleDoctor(doctor.id, checked === true)}
+                      disabled={saving}
+                    />
+                    <span className="flex-1">
+                      {doctor.full_name} {doctor.specialization && `- ${doctor.specialization}`}
+                    </span>
+                  </label>
+                ))}
+            </div>
+          </div>
+
+          <div className="text-xs text-muted-foreground bg-muted/50 p-3 rounded-lg">
+            <p className="font-semibold mb-1">How team keys work:</p>
+            <ul className="space-y-1">
+              <li>• The team has its own RSA key pair</li>
+              <li>• Each member holds the team private key wrapped with their own key</li>
+              <li>• Removing a member gives the team a new key and re-wraps its file keys</li>
+              <li>• Every change is recorded on the blockchain</li>
+            </ul>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            {team ? "Close" : "Cancel"}
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving}>
+            {saving ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : team ? (
+              "Add Members"
+            ) : (
+              "Create Team"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CareTeamDialog;
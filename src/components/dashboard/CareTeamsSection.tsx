@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { KeyRound, Loader2, LogOut, Plus, Settings, Users } from "lucide-react";
+import { CareTeam, fetchCareTeams, removeTeamMember, rotateTeamKey } from "@/lib/careTeams";
+import { errorMessage } from "@/lib/utils";
+import CareTeamDialog from "./CareTeamDialog";
+
+interface CareTeamsSectionProps {
+  profileId: string;
+}
+
+const CareTeamsSection = ({ profileId }: CareTeamsSectionProps) => {
+  const [teams, setTeams] = useState<CareTeam[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [managedTeamId, setManagedTeamId] = useState<string | null>(null);
+  const [leavingId, setLeavingId] = useState<string | null>(null);
+  const [rotatingId, setRotatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (profileId) loadTeams();
+  }, [profileId]);
+
+  const loadTeams = async () => {
+    try {
+      setTeams(await fetchCareTeams());
+    } catch (error) {
+      console.error("Error loading care teams:", error);
+      toast.error("Failed to load care teams");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (team: CareTeam | null) => {
+    setManagedTeamId(team?.id ?? null);
+    setDialogOpen(true);
+  };
+
+  const handleLeave = async (team: CareTeam) => {
+    setLeavingId(team.id);
+    try {
+      await removeTeamMember(team, profileId, profileId);
+      toast.success(`You left ${team.name}`);
+      await loadTeams();
+    } catch (error) {
+      console.error("Error leaving team:", error);
+      toast.error(errorMessage(error, "Failed to leave team"));
+    } finally {
+      setLeavingId(null);
+    }
+  };
+
+  const handleRotate = async (team: CareTeam) => {
+    setRotatingId(team.id);
+    try {
+      await rotateTeamKey(team, profileId);
+      toast.success(`${team.name} has a new team key`);
+      await loadTeams();
+    } catch (error) {
+      console.error("Error rotating team key:", error);
+      toast.error(errorMessage(error, "Failed to rotate team key"));
+    } finally {
+      setRotatingId(null);
+    }
+  };
+
+  // Look the team up on each render so the dialog sees membership changes
+  const managedTeam = teams.find((team) => team.id === managedTeamId) || null;
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center p-8">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="w-5 h-5" />
+                Care Teams
+              </CardTitle>
+              <CardDescription>Share folders with a whole team through one team key</CardDescription>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => openDialog(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Team
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {teams.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">You aren't in any care teams yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {teams.map((team) => (
+                <div key={team.id} className="flex items-start justify-between gap-4 p-4 border rounded-lg">
+                  <div className="min-w-0 flex-1 space-y-2">
+                    <p className="font-medium truncate">{team.name}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {team.members.map((member) => (
+                        <Badge key={member.profile_id} variant="secondary">
+                          {member.profile?.full_name || "Unknown Doctor"}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  {team.created_by === profileId ? (
+                    <div className="flex gap-2">
+                      {team.key_rotation_due && (
+                        <Button
+                          size="sm"
+                          onClick={() => handleRotate(team)}
+                          disabled={rotatingId === team.id}
+                          title="A member left; give the team a new key"
+                        >
+                          {rotatingId === team.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <>
+                              <KeyRound className="w-4 h-4 mr-1" />
+                              Rotate Key
+                            </>
+                          )}
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => openDialog(team)}>
+                        <Settings className="w-4 h-4 mr-1" />
+                        Manage
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleLeave(team)}
+                      disabled={leavingId === team.id}
+                    >
+                      {leavingId === team.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <>
+                          <LogOut className="w-4 h-4 mr-1" />
+                          Leave
+                        </>
+                      )}
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CareTeamDialog
+        profileId={profileId}
+        team={managedTeam}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSuccess={loadTeams}
+      />
+    </>
+  );
+};
+
+export default CareTeamsSection;
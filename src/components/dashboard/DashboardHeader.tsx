@@ -1,13 +1,17 @@
+import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Shield, LogOut, User } from "lucide-react";
+import { Shield, LogOut, User, Lock, LockOpen, Link2 } from "lucide-react";
 import ContactAdminDialog from "@/components/ContactAdminDialog";
 
 interface DashboardHeaderProps {
   profile: any;
   onSignOut: () => void;
+  vaultUnlocked: boolean;
+  onLockVault: () => void;
+  onUnlockVault: () => void;
 }
 
-const DashboardHeader = ({ profile, onSignOut }: DashboardHeaderProps) => {
+const DashboardHeader = ({ profile, onSignOut, vaultUnlocked, onLockVault, onUnlockVault }: DashboardHeaderProps) => {
   return (
     <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
       <div className="container mx-auto px-4 py-4">
@@ -29,6 +33,19 @@ const DashboardHeader = ({ profile, onSignOut }: DashboardHeaderProps) => {
               <p className="font-semibold">{profile?.full_name || "Doctor"}</p>
               <p className="text-sm text-muted-foreground">{profile?.specialization || "Medical Professional"}</p>
             </div>
+            <Button variant="outline" size="icon" asChild title="Ledger explorer">
+              <Link to="/ledger">
+                <Link2 className="w-4 h-4" />
+              </Link>
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={vaultUnlocked ? onLockVault : onUnlockVault}
+              title={vaultUnlocked ? "Lock key vault" : "Unlock key vault"}
+            >
+              {vaultUnlocked ? <LockOpen className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+            </Button>
             <ContactAdminDialog />
             <Button variant="outline" size="icon" onClick={onSignOut}>
               <LogOut className="w-4 h-4" />
@@ -1,10 +1,18 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
 import { toast } from "sonner";
-import { FolderOpen, Download, Loader2, Lock, FileText, Share2 } from "lucide-react";
-import { decryptKeyWithRSA, decryptWithAES } from "@/lib/encryption";
+import { FolderOpen, Download, Loader2, Lock, FileText, Share2, ShieldCheck, UserX } from "lucide-react";
+import { decryptKeyWithRSA } from "@/lib/encryption";
+import { downloadStoredFile } from "@/lib/encryptedStorage";
+import { CryptoWorkerPool, isAbortError } from "@/lib/cryptoWorkerPool";
+import { Progress } from "@/components/ui/progress";
+import { getVaultKeys } from "@/lib/keyVault";
+import { recordDecryption } from "@/lib/ledger";
+import { revokeFolderShare } from "@/lib/revocation";
+import { describeShareTerms } from "@/lib/shareTerms";
 import {
   Dialog,
   DialogContent,
@@ -13,6 +21,11 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import InclusionProofDialog from "./InclusionProofDialog";
+import ProvenanceTimeline from "./ProvenanceTimeline";
+import RevokeAccessDialog from "./RevokeAccessDialog";
+import ShareFileDialog from "./ShareFileDialog";
 import ShareFolderDialog from "./ShareFolderDialog";
 import JSZip from "jszip";
 
@@ -24,15 +37,24 @@ interface EncryptedFolder {
   created_at: string;
   metadata: any;
   owner_id: string;
+  receiver_id: string | null;
+  receiver: { full_name: string } | null;
+  share_permission: string;
+  share_expires_at: string | null;
 }
 
 interface EncryptedFile {
   id: string;
+  owner_id: string;
+  folder_id: string;
+  receiver_id: string | null;
   file_name: string;
   file_hash: string;
   encrypted_path: string;
   encrypted_aes_key: string;
   metadata: any;
+  merkle_proof: Json | null;
+  ledger_block_id: string | null;
   created_at: string;
 }
 
@@ -46,9 +68,14 @@ const EncryptedFoldersGallery = ({ profileId }: EncryptedFoldersGalleryProps) =>
   const [selectedFolder, setSelectedFolder] = useState<EncryptedFolder | null>(null);
   const [folderFiles, setFolderFiles] = useState<EncryptedFile[]>([]);
   const [decrypting, setDecrypting] = useState(false);
+  const [proofFile, setProofFile] = useState<EncryptedFile | null>(null);
   const [shareDialogOpen, setShareDialogOpen] = useState(false);
   const [folderToShare, setFolderToShare] = useState<EncryptedFolder | null>(null);
+  const [folderToRevoke, setFolderToRevoke] = useState<EncryptedFolder | null>(null);
+  const [fileToShare, setFileToShare] = useState<EncryptedFile | null>(null);
   const [downloadingFolder, setDownloadingFolder] = useState(false);
+  const [downloadProgress, setDownloadProgress] = useState(0);
+  const downloadAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     loadFolders();
@@ -58,7 +85,7 @@ const EncryptedFoldersGallery = ({ profileId }: EncryptedFoldersGalleryProps) =>
     try {
       const { data, error } = await supabase
         .from("encrypted_folders")
-        .select("*")
+        .select("*, receiver:profiles!encrypted_folders_receiver_id_fkey(full_name)")
         .eq("owner_id", profileId)
         .order("created_at", { ascending: false });
 
@@ -96,41 +123,18 @@ const EncryptedFoldersGallery = ({ profileId }: EncryptedFoldersGalleryProps) =>
   const handleDecryptFile = async (file: EncryptedFile) => {
     setDecrypting(true);
     try {
-      // Get user's private key
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("private_key_pem")
-        .eq("id", profileId)
-        .single();
-
-      if (!profile?.private_key_pem) {
-        toast.error("Private key not found");
+      // Get private key from the unlocked key vault
+      const vaultKeys = getVaultKeys();
+      if (!vaultKeys) {
+        toast.error("Key vault is locked. Unlock it to decrypt files.");
         return;
       }
 
-      // Download encrypted file
-      const { data: fileData, error: downloadError } = await supabase.storage
-        .from('encrypted-images')
-        .download(file.encrypted_path);
-
-      if (downloadError) throw downloadError;
-
-      const encryptedContent = await fileData.text();
-
       // Decrypt AES key with RSA private key
-      const aesKey = decryptKeyWithRSA(file.encrypted_aes_key, profile.private_key_pem);
-      
-      if (!aesKey) {
-        toast.error("Failed to decrypt encryption key");
-        return;
-      }
-
-      // Decrypt file content
-      const decryptedBase64 = decryptWithAES(encryptedContent, aesKey);
+      const aesKey = await decryptKeyWithRSA(file.encrypted_aes_key, vaultKeys.privateKey, vaultKeys.legacyKey);
 
-      // Convert base64 to blob and download
-      const response = await fetch(decryptedBase64);
-      const blob = await response.blob();
+      // Download and decrypt file content
+      const blob = await downloadStoredFile(file, aesKey);
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
@@ -141,9 +145,20 @@ const EncryptedFoldersGallery = ({ profileId }: EncryptedFoldersGalleryProps) =>
       window.URL.revokeObjectURL(url);
 
       toast.success("File decrypted and downloaded successfully");
+
+      if (selectedFolder) {
+        await recordDecryption({
+          senderId: profileId,
+          resourceType: "folder",
+          resourceId: selectedFolder.id,
+          resourceName: selectedFolder.folder_name,
+          fileName: file.file_name,
+          fileHash: file.file_hash,
+        });
+      }
     } catch (error: any) {
       console.error("Error decrypting file:", error);
-      toast.error("Failed to decrypt file");
+      toast.error(error.message || "Failed to decrypt file");
     } finally {
       setDecrypting(false);
     }
@@ -156,16 +171,17 @@ const EncryptedFoldersGallery = ({ profileId }: EncryptedFoldersGalleryProps) =>
 
   const handleDownloadFolder = async (folder: EncryptedFolder) => {
     setDownloadingFolder(true);
+    setDownloadProgress(0);
+
+    const controller = new AbortController();
+    downloadAbortRef.current = controller;
+    const pool = new CryptoWorkerPool();
+
     try {
-      // Get user's private key
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("private_key_pem")
-        .eq("id", profileId)
-        .single();
-
-      if (!profile?.private_key_pem) {
-        toast.error("Private key not found");
+      // Get private key from the unlocked key vault
+      const vaultKeys = getVaultKeys();
+      if (!vaultKeys) {
+        toast.error("Key vault is locked. Unlock it to decrypt files.");
         return;
       }
 
@@ -190,40 +206,45 @@ const EncryptedFoldersGallery = ({ profileId }: EncryptedFoldersGalleryProps) =>
         return;
       }
 
-      // Decrypt and add each file to ZIP
-      for (const file of files) {
-        try {
-          // Download encrypted file
-          const { data: fileData, error: downloadError } = await supabase.storage
-            .from('encrypted-images')
-            .download(file.encrypted_path);
-
-          if (downloadError) throw downloadError;
-
-          const encryptedContent = await fileData.text();
-
-          // Decrypt AES key with RSA private key
-          const aesKey = decryptKeyWithRSA(file.encrypted_aes_key, profile.private_key_pem);
-          
-          if (!aesKey) {
-            console.error(`Failed to decrypt key for ${file.file_name}`);
-            continue;
-          }
-
-          // Decrypt file content
-          const decryptedBase64 = decryptWithAES(encryptedContent, aesKey);
-
-          // Convert base64 to blob
-          const response = await fetch(decryptedBase64);
-          const blob = await response.blob();
-
-          // Add to ZIP
-          folderZip.file(file.file_name, blob);
-        } catch (error) {
-          console.error(`Error processing ${file.file_name}:`, error);
-        }
+      // Decrypt in the worker pool, several files at a time, and add each to the ZIP
+      const fileProgress = files.map(() => 0);
+      const reportProgress = () => {
+        const done = fileProgress.reduce((sum, fraction) => sum + fraction, 0);
+        setDownloadProgress(Math.round((done / files.length) * 100));
+      };
+
+      const results = await pool.map(files, async (file, worker, i) => {
+        // Decrypt AES key with RSA private key
+        const aesKey = await worker.decryptKeyWithRSA(file.encrypted_aes_key, vaultKeys.privateKey, vaultKeys.legacyKey);
+
+        // Download and decrypt file content
+        const blob = await downloadStoredFile(
+          file,
+          aesKey,
+          (p) => {
+            fileProgress[i] = p.totalBytes > 0 ? p.loadedBytes / p.totalBytes : 1;
+            reportProgress();
+          },
+          { cipher: worker, signal: controller.signal }
+        );
+
+        // Add to ZIP
+        folderZip.file(file.file_name, blob);
+        fileProgress[i] = 1;
+        reportProgress();
+      }, controller.signal);
+
+      if (controller.signal.aborted) {
+        toast.warning("Download cancelled");
+        return;
       }
 
+      results.forEach((result, i) => {
+        if (result.status === "rejected" && !isAbortError(result.reason)) {
+          console.error(`Error processing ${files[i].file_name}:`, result.reason);
+        }
+      });
+
       // Generate and download ZIP
       const zipBlob = await zip.generateAsync({ type: "blob" });
       const url = window.URL.createObjectURL(zipBlob);
@@ -236,10 +257,19 @@ const EncryptedFoldersGallery = ({ profileId }: EncryptedFoldersGalleryProps) =>
       window.URL.revokeObjectURL(url);
 
       toast.success("Folder downloaded successfully");
+
+      await recordDecryption({
+        senderId: profileId,
+        resourceType: "folder",
+        resourceId: folder.id,
+        resourceName: folder.folder_name,
+      });
     } catch (error: any) {
       console.error("Error downloading folder:", error);
       toast.error("Failed to download folder");
     } finally {
+      pool.terminate();
+      downloadAbortRef.current = null;
       setDownloadingFolder(false);
     }
   };
@@ -289,6 +319,12 @@ const EncryptedFoldersGallery = ({ profileId }: EncryptedFoldersGalleryProps) =>
                     <p className="text-xs text-muted-foreground mb-3">
                       {new Date(folder.created_at).toLocaleDateString()}
                     </p>
+                    {folder.receiver_id && (
+                      <p className="text-xs text-muted-foreground -mt-2 mb-3">
+                        Shared with {folder.receiver?.full_name || "a doctor"} ·{" "}
+                        {describeShareTerms(folder.share_permission, folder.share_expires_at)}
+                      </p>
+                    )}
                     <div className="flex gap-2">
                       <Button
                         size="sm"
@@ -306,6 +342,16 @@ const EncryptedFoldersGallery = ({ profileId }: EncryptedFoldersGalleryProps) =>
                       >
                         <Share2 className="w-3 h-3" />
                       </Button>
+                      {folder.receiver_id && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setFolderToRevoke(folder)}
+                          title="Revoke access"
+                        >
+                          <UserX className="w-3 h-3" />
+                        </Button>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -345,48 +391,115 @@ const EncryptedFoldersGallery = ({ profileId }: EncryptedFoldersGalleryProps) =>
               </Button>
             </div>
           </DialogHeader>
-          
-          <div className="space-y-2">
-            {folderFiles.map((file) => (
-              <Card key={file.id} className="p-3">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3 flex-1 min-w-0">
-                    <FileText className="w-5 h-5 text-muted-foreground flex-shrink-0" />
-                    <div className="min-w-0 flex-1">
-                      <p className="text-sm font-medium truncate">{file.file_name}</p>
-                      <p className="text-xs text-muted-foreground">
-                        {file.metadata?.size ? `${(file.metadata.size / 1024).toFixed(2)} KB` : 'Unknown size'}
-                      </p>
-                    </div>
+
+          <Tabs defaultValue="files">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="files">Files</TabsTrigger>
+              <TabsTrigger value="timeline">Timeline</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="files" className="space-y-4">
+              {downloadingFolder && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Decrypting...</span>
+                    <span className="font-medium">{downloadProgress}%</span>
+                  </div>
+                  <Progress value={downloadProgress} className="w-full" />
+                  <div className="flex justify-end">
+                    <Button variant="ghost" size="sm" onClick={() => downloadAbortRef.current?.abort()}>
+                      Cancel
+                    </Button>
                   </div>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => handleDecryptFile(file)}
-                    disabled={decrypting}
-                  >
-                    {decrypting ? (
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                    ) : (
-                      <>
-                        <Download className="w-4 h-4 mr-1" />
-                        Decrypt
-                      </>
-                    )}
-                  </Button>
                 </div>
-              </Card>
-            ))}
-          </div>
+              )}
+
+              <div className="space-y-2">
+                {folderFiles.map((file) => (
+                  <Card key={file.id} className="p-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3 flex-1 min-w-0">
+                        <FileText className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm font-medium truncate">{file.file_name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {file.metadata?.size ? `${(file.metadata.size / 1024).toFixed(2)} KB` : 'Unknown size'}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setProofFile(file)}
+                          title="Verify inclusion proof"
+                        >
+                          <ShieldCheck className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setFileToShare(file)}
+                          title="Share this file only"
+                        >
+                          <Share2 className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDecryptFile(file)}
+                          disabled={decrypting}
+                        >
+                          {decrypting ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <>
+                              <Download className="w-4 h-4 mr-1" />
+                              Decrypt
+                            </>
+                          )}
+                        </Button>
+                      </div>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="timeline">
+              {selectedFolder && (
+                <ProvenanceTimeline
+                  resource={{ type: "folder", id: selectedFolder.id, hash: selectedFolder.folder_hash }}
+                />
+              )}
+            </TabsContent>
+          </Tabs>
         </DialogContent>
       </Dialog>
 
+      <InclusionProofDialog file={proofFile} onOpenChange={(open) => !open && setProofFile(null)} />
+
+      <ShareFileDialog
+        target={fileToShare && selectedFolder && { type: "file", file: fileToShare, folderName: selectedFolder.folder_name }}
+        onOpenChange={(open) => !open && setFileToShare(null)}
+        onSuccess={() => selectedFolder && loadFolderFiles(selectedFolder.id)}
+      />
+
       <ShareFolderDialog
         folder={folderToShare}
         open={shareDialogOpen}
         onOpenChange={setShareDialogOpen}
         onSuccess={loadFolders}
       />
+
+      <RevokeAccessDialog
+        resourceName={folderToRevoke?.folder_name}
+        recipientName={folderToRevoke?.receiver?.full_name}
+        open={!!folderToRevoke}
+        onOpenChange={(open) => !open && setFolderToRevoke(null)}
+        onRevoke={(rotateKey) => revokeFolderShare(folderToRevoke, rotateKey)}
+        onRevoked={loadFolders}
+      />
     </>
   );
 };
@@ -1,12 +1,23 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
-import { Image as ImageIcon, Lock, Unlock, Download, Calendar } from "lucide-react";
-import { decryptKeyWithRSA, decryptWithAES } from "@/lib/encryption";
+import { Image as ImageIcon, Lock, Unlock, Download, Calendar, ShieldCheck, UserX, Share2 } from "lucide-react";
+import { decryptKeyWithRSA } from "@/lib/encryption";
+import { downloadStoredFile } from "@/lib/encryptedStorage";
+import { getVaultKeys } from "@/lib/keyVault";
+import { recordDecryption } from "@/lib/ledger";
+import { revokeImageShare } from "@/lib/revocation";
+import { describeShareTerms } from "@/lib/shareTerms";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import InclusionProofDialog from "./InclusionProofDialog";
+import ProvenanceTimeline from "./ProvenanceTimeline";
+import RevokeAccessDialog from "./RevokeAccessDialog";
+import ShareFileDialog from "./ShareFileDialog";
 
 interface EncryptedImage {
   id: string;
@@ -15,8 +26,12 @@ interface EncryptedImage {
   encrypted_path: string;
   owner_id: string;
   receiver_id: string | null;
+  share_permission: string;
+  share_expires_at: string | null;
   encrypted_aes_key: string;
   metadata: any;
+  merkle_proof: Json | null;
+  ledger_block_id: string | null;
   created_at: string;
 }
 
@@ -28,18 +43,21 @@ const EncryptedImagesGallery = ({ profile }: EncryptedImagesGalleryProps) => {
   const [images, setImages] = useState<EncryptedImage[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedImage, setSelectedImage] = useState<EncryptedImage | null>(null);
+  const [proofImage, setProofImage] = useState<EncryptedImage | null>(null);
+  const [imageToRevoke, setImageToRevoke] = useState<EncryptedImage | null>(null);
+  const [imageToShare, setImageToShare] = useState<EncryptedImage | null>(null);
   const [decryptedContent, setDecryptedContent] = useState<string | null>(null);
   const [decrypting, setDecrypting] = useState(false);
 
-  useEffect(() => {
-    loadImages();
-  }, [profile]);
+  const profileId = profile?.id;
 
-  const loadImages = async () => {
+  // Only the owner's own images; ones shared with them have their own gallery
+  const loadImages = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from("encrypted_images")
         .select("*")
+        .eq("owner_id", profileId)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -50,39 +68,35 @@ const EncryptedImagesGallery = ({ profile }: EncryptedImagesGalleryProps) => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [profileId]);
+
+  useEffect(() => {
+    if (profileId) loadImages();
+  }, [profileId, loadImages]);
 
   const handleDecrypt = async (image: EncryptedImage) => {
     setDecrypting(true);
     try {
-      // Download encrypted file
-      const { data: fileData, error: downloadError } = await supabase.storage
-        .from('encrypted-images')
-        .download(image.encrypted_path);
-
-      if (downloadError) throw downloadError;
-
-      const encryptedContent = await fileData.text();
-
-      // Get private key
-      const { data: profileData } = await supabase
-        .from("profiles")
-        .select("private_key_pem")
-        .eq("id", profile.id)
-        .single();
-
-      if (!profileData?.private_key_pem) throw new Error("Private key not found");
+      // Get private key from the unlocked key vault
+      const vaultKeys = getVaultKeys();
+      if (!vaultKeys) throw new Error("Key vault is locked. Unlock it to decrypt images.");
 
       // Decrypt AES key
-      const aesKey = decryptKeyWithRSA(image.encrypted_aes_key, profileData.private_key_pem);
-      if (!aesKey) throw new Error("Failed to decrypt AES key");
+      const aesKey = await decryptKeyWithRSA(image.encrypted_aes_key, vaultKeys.privateKey, vaultKeys.legacyKey);
 
-      // Decrypt content
-      const decrypted = decryptWithAES(encryptedContent, aesKey);
-      if (!decrypted) throw new Error("Failed to decrypt content");
+      // Download and decrypt content (throws if the ciphertext was tampered with)
+      const decrypted = await downloadStoredFile(image, aesKey);
 
-      setDecryptedContent(decrypted);
+      setDecryptedContent(URL.createObjectURL(decrypted));
       toast.success("Image decrypted successfully");
+
+      await recordDecryption({
+        senderId: profile.id,
+        resourceType: "image",
+        resourceId: image.id,
+        resourceName: image.file_name,
+        fileHash: image.file_hash,
+      });
     } catch (error: any) {
       console.error("Decryption error:", error);
       toast.error(error.message || "Failed to decrypt image");
@@ -104,6 +118,7 @@ const EncryptedImagesGallery = ({ profile }: EncryptedImagesGalleryProps) => {
   };
 
   const handleCloseDialog = () => {
+    if (decryptedContent) URL.revokeObjectURL(decryptedContent);
     setSelectedImage(null);
     setDecryptedContent(null);
   };
@@ -157,18 +172,51 @@ const EncryptedImagesGallery = ({ profile }: EncryptedImagesGalleryProps) => {
                           {(image.metadata.size / 1024).toFixed(2)} KB
                         </p>
                       )}
+                      {image.receiver_id && (
+                        <p className="text-xs text-muted-foreground">
+                          Shared · {describeShareTerms(image.share_permission, image.share_expires_at)}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        className="flex-1"
+                        onClick={() => {
+                          setSelectedImage(image);
+                          handleDecrypt(image);
+                        }}
+                      >
+                        <Unlock className="w-3 h-3 mr-2" />
+                        Decrypt & View
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setProofImage(image)}
+                        title="Verify inclusion proof"
+                      >
+                        <ShieldCheck className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setImageToShare(image)}
+                        title="Share image"
+                      >
+                        <Share2 className="w-3 h-3" />
+                      </Button>
+                      {image.receiver_id && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setImageToRevoke(image)}
+                          title="Revoke access"
+                        >
+                          <UserX className="w-3 h-3" />
+                        </Button>
+                      )}
                     </div>
-                    <Button
-                      size="sm"
-                      className="w-full"
-                      onClick={() => {
-                        setSelectedImage(image);
-                        handleDecrypt(image);
-                      }}
-                    >
-                      <Unlock className="w-3 h-3 mr-2" />
-                      Decrypt & View
-                    </Button>
                   </CardContent>
                 </Card>
               ))}
@@ -186,42 +234,80 @@ const EncryptedImagesGallery = ({ profile }: EncryptedImagesGalleryProps) => {
             </DialogDescription>
           </DialogHeader>
 
-          <div className="space-y-4">
-            {!decryptedContent && (
-              <Alert>
-                <Lock className="w-4 h-4" />
-                <AlertDescription>
-                  {decrypting ? "Decrypting image..." : "Click decrypt to view the image"}
-                </AlertDescription>
-              </Alert>
-            )}
-
-            {decrypting && (
-              <div className="flex items-center justify-center py-8">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-              </div>
-            )}
+          <Tabs defaultValue="image">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="image">Image</TabsTrigger>
+              <TabsTrigger value="timeline">Timeline</TabsTrigger>
+            </TabsList>
 
-            {decryptedContent && !decrypting && (
+            <TabsContent value="image">
               <div className="space-y-4">
-                <div className="border rounded-lg overflow-hidden bg-muted/50">
-                  <img 
-                    src={decryptedContent} 
-                    alt={selectedImage?.file_name}
-                    className="w-full h-auto max-h-[500px] object-contain"
-                  />
-                </div>
-                <div className="flex gap-2">
-                  <Button onClick={handleDownload} className="flex-1">
-                    <Download className="w-4 h-4 mr-2" />
-                    Download
-                  </Button>
-                </div>
+                {!decryptedContent && (
+                  <Alert>
+                    <Lock className="w-4 h-4" />
+                    <AlertDescription>
+                      {decrypting ? "Decrypting image..." : "Click decrypt to view the image"}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {decrypting && (
+                  <div className="flex items-center justify-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                  </div>
+                )}
+
+                {decryptedContent && !decrypting && (
+                  <div className="space-y-4">
+                    <div className="border rounded-lg overflow-hidden bg-muted/50">
+                      <img 
+                        src={decryptedContent} 
+                        alt={selectedImage?.file_name}
+                        className="w-full h-auto max-h-[500px] object-contain"
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <Button onClick={handleDownload} className="flex-1">
+                        <Download className="w-4 h-4 mr-2" />
+                        Download
+                      </Button>
+                    </div>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
+            </TabsContent>
+
+            <TabsContent value="timeline">
+              {selectedImage && (
+                <ProvenanceTimeline
+                  resource={{
+                    type: "image",
+                    id: selectedImage.id,
+                    hash: selectedImage.file_hash,
+                    ledgerBlockId: selectedImage.ledger_block_id,
+                  }}
+                />
+              )}
+            </TabsContent>
+          </Tabs>
         </DialogContent>
       </Dialog>
+
+      <InclusionProofDialog file={proofImage} onOpenChange={(open) => !open && setProofImage(null)} />
+
+      <RevokeAccessDialog
+        resourceName={imageToRevoke?.file_name}
+        open={!!imageToRevoke}
+        onOpenChange={(open) => !open && setImageToRevoke(null)}
+        onRevoke={(rotateKey) => revokeImageShare(imageToRevoke, rotateKey)}
+        onRevoked={loadImages}
+      />
+
+      <ShareFileDialog
+        target={imageToShare && { type: "image", image: imageToShare }}
+        onOpenChange={(open) => !open && setImageToShare(null)}
+        onSuccess={loadImages}
+      />
     </>
   );
 };
@@ -1,13 +1,19 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { Upload, FolderOpen, Loader2 } from "lucide-react";
-import { generateAESKey, encryptWithAES, encryptKeyWithRSA, hashFile, fileToBase64 } from "@/lib/encryption";
+import { generateAESKey } from "@/lib/encryption";
+import { PLAINTEXT_HASH_SCHEME, uploadEncryptedFile } from "@/lib/encryptedStorage";
+import { CryptoWorkerPool, isAbortError } from "@/lib/cryptoWorkerPool";
+import { appendEvent, attachMerkleProofs } from "@/lib/ledger";
+import { isVaultUnlocked } from "@/lib/keyVault";
+import { buildMerkleTree, createMerkleSalt } from "@/lib/merkle";
 import CryptoJS from "crypto-js";
 import { Progress } from "@/components/ui/progress";
+import PatientSelect from "./PatientSelect";
 
 interface FolderUploadProps {
   profileId: string;
@@ -23,6 +29,8 @@ const FolderUpload = ({ profileId, onUploadComplete }: FolderUploadProps) => {
   const [uploading, setUploading] = useState(false);
   const [progress, setProgress] = useState(0);
   const [currentFile, setCurrentFile] = useState("");
+  const [patientId, setPatientId] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const handleFolderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
@@ -43,9 +51,19 @@ const FolderUpload = ({ profileId, onUploadComplete }: FolderUploadProps) => {
       return;
     }
 
+    // Ledger entries are signed with the key held in the vault
+    if (!isVaultUnlocked()) {
+      toast.error("Key vault is locked. Unlock it to upload folders.");
+      return;
+    }
+
     setUploading(true);
     setProgress(0);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const pool = new CryptoWorkerPool();
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
@@ -53,7 +71,7 @@ const FolderUpload = ({ profileId, onUploadComplete }: FolderUploadProps) => {
       // Get user's public key
       const { data: profile } = await supabase
         .from("profiles")
-        .select("public_key_pem")
+        .select("public_key_pem, full_name")
         .eq("id", profileId)
         .single();
 
@@ -61,44 +79,40 @@ const FolderUpload = ({ profileId, onUploadComplete }: FolderUploadProps) => {
 
       const folderId = crypto.randomUUID();
       const folderName = getFolderName(files);
-      let successCount = 0;
-      const fileHashes: string[] = [];
+      const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+      const loadedBytes = files.map(() => 0);
+      let finishedFiles = 0;
+
+      const reportProgress = () => {
+        const loaded = loadedBytes.reduce((sum, bytes) => sum + bytes, 0);
+        setProgress(Math.round((totalBytes > 0 ? loaded / totalBytes : finishedFiles / files.length) * 100));
+      };
 
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
+      // Crypto runs in the worker pool, several files at a time
+      const results = await pool.map(files, async (file, worker, i) => {
         setCurrentFile(file.name);
-        setProgress(Math.round(((i + 1) / files.length) * 100));
 
         try {
-          // Convert file to base64
-          const base64Content = await fileToBase64(file);
-          
-          // Generate AES key and encrypt file
+          // Generate AES key and encrypt AES key with RSA-OAEP
           const aesKey = generateAESKey();
-          const encryptedContent = encryptWithAES(base64Content, aesKey);
-          
-          // Encrypt AES key with RSA
-          const encryptedAESKey = encryptKeyWithRSA(aesKey, profile.public_key_pem);
-          
-          // Calculate hash
-          const fileHash = hashFile(encryptedContent);
-          fileHashes.push(fileHash);
-
-          // Upload to storage with folder structure
+          const encryptedAESKey = await worker.encryptKeyWithRSA(aesKey, profile.public_key_pem);
+
+          // Encrypt and upload in chunks under the folder structure
           const relativePath = file.webkitRelativePath || file.name;
           const filePath = `${user.id}/${folderId}/${relativePath}`;
-          
-          const { error: uploadError } = await supabase.storage
-            .from('encrypted-images')
-            .upload(filePath, encryptedContent, {
-              contentType: 'text/plain',
-              upsert: false
-            });
-
-          if (uploadError) throw uploadError;
+          const { header, fileHash } = await uploadEncryptedFile(
+            file,
+            aesKey,
+            filePath,
+            (p) => {
+              loadedBytes[i] = p.loadedBytes;
+              reportProgress();
+            },
+            { cipher: worker, signal: controller.signal }
+          );
 
           // Save to database
-          await supabase
+          const { data: fileRecord, error: dbError } = await supabase
             .from("encrypted_files")
             .insert({
               folder_id: folderId,
@@ -111,15 +125,38 @@ const FolderUpload = ({ profileId, onUploadComplete }: FolderUploadProps) => {
                 size: file.size,
                 type: file.type,
                 relativePath: file.webkitRelativePath,
-                uploadedAt: new Date().toISOString()
+                uploadedAt: new Date().toISOString(),
+                encryption: header,
+                hashScheme: PLAINTEXT_HASH_SCHEME
               }
-            });
+            })
+            .select("id")
+            .single();
+
+          if (dbError) throw dbError;
 
-          successCount++;
+          return { id: fileRecord.id, fileHash };
         } catch (error: any) {
-          console.error(`Error uploading ${file.name}:`, error);
-          toast.error(`Failed to upload ${file.name}: ${error.message}`);
+          if (!isAbortError(error)) {
+            console.error(`Error uploading ${file.name}:`, error);
+            toast.error(`Failed to upload ${file.name}: ${error.message}`);
+          }
+          throw error;
+        } finally {
+          loadedBytes[i] = file.size;
+          finishedFiles++;
+          reportProgress();
         }
+      }, controller.signal);
+
+      // Hashes stay in file order however the uploads interleaved
+      const uploaded = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+      const fileHashes = uploaded.map(({ fileHash }) => fileHash);
+      const successCount = uploaded.length;
+      const cancelled = controller.signal.aborted;
+
+      if (cancelled) {
+        toast.warning(`Upload cancelled. ${successCount} of ${files.length} files were stored.`);
       }
 
       if (successCount > 0) {
@@ -132,6 +169,7 @@ const FolderUpload = ({ profileId, onUploadComplete }: FolderUploadProps) => {
           folder_name: folderName,
           folder_hash: folderHash,
           owner_id: profileId,
+          patient_id: patientId,
           file_count: successCount,
           metadata: {
             totalFiles: files.length,
@@ -140,44 +178,32 @@ const FolderUpload = ({ profileId, onUploadComplete }: FolderUploadProps) => {
           }
         });
 
+        // The Merkle root lets any single file be proven part of the folder
+        const { root, proofs } = buildMerkleTree(
+          fileHashes.map((fileHash) => ({ fileHash, salt: createMerkleSalt() }))
+        );
+
         // Add to blockchain
-        const { data: lastBlock } = await supabase
-          .from("blockchain_renewed")
-          .select("*")
-          .order("block_index", { ascending: false })
-          .limit(1)
-          .single();
-
-        const newBlockIndex = lastBlock ? lastBlock.block_index + 1 : 0;
-        const previousHash = lastBlock ? lastBlock.current_hash : "0";
-        const timestamp = new Date().toISOString();
-        
-        const blockData = {
+        const block = await appendEvent({
+          action: "FOLDER_UPLOADED",
           folderId,
           folderName,
           folderHash,
           fileCount: successCount,
+          merkleRoot: root,
           senderId: profileId,
-          receiverId: null,
-          action: "FOLDER_UPLOADED",
-          timestamp
-        };
-
-        const currentHash = CryptoJS.SHA256(
-          newBlockIndex + timestamp + JSON.stringify(blockData) + previousHash
-        ).toString();
-
-        await supabase.from("blockchain_renewed").insert({
-          block_index: newBlockIndex,
-          timestamp,
-          previous_hash: previousHash,
-          current_hash: currentHash,
-          data_json: blockData,
-          sender_id: profileId,
-          receiver_id: null
+          senderName: profile.full_name
         });
 
-        toast.success(`Folder encrypted and stored successfully. ${successCount} of ${files.length} files uploaded. Blockchain record created.`);
+        await attachMerkleProofs(
+          "encrypted_files",
+          block.id,
+          uploaded.map(({ id }, i) => ({ id, proof: proofs[i] }))
+        );
+
+        if (!cancelled) {
+          toast.success(`Folder encrypted and stored successfully. ${successCount} of ${files.length} files uploaded. Blockchain record created.`);
+        }
         setFiles([]);
         setProgress(0);
         setCurrentFile("");
@@ -191,6 +217,8 @@ const FolderUpload = ({ profileId, onUploadComplete }: FolderUploadProps) => {
       console.error("Upload error:", error);
       toast.error(error.message || "Error uploading folder");
     } finally {
+      pool.terminate();
+      abortRef.current = null;
       setUploading(false);
     }
   };
@@ -233,6 +261,8 @@ const FolderUpload = ({ profileId, onUploadComplete }: FolderUploadProps) => {
           )}
         </div>
 
+        <PatientSelect profileId={profileId} value={patientId} onChange={setPatientId} disabled={uploading} />
+
         {uploading && (
           <div className="space-y-2">
             <div className="flex items-center justify-between text-sm">
@@ -240,11 +270,14 @@ const FolderUpload = ({ profileId, onUploadComplete }: FolderUploadProps) => {
               <span className="font-medium">{progress}%</span>
             </div>
             <Progress value={progress} className="w-full" />
-            {currentFile && (
-              <p className="text-xs text-muted-foreground">
-                Processing: {currentFile}
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-muted-foreground truncate">
+                {currentFile && <>Processing: {currentFile}</>}
               </p>
-            )}
+              <Button variant="ghost" size="sm" onClick={() => abortRef.current?.abort()}>
+                Cancel
+              </Button>
+            </div>
           </div>
         )}
 
@@ -270,7 +303,7 @@ const FolderUpload = ({ profileId, onUploadComplete }: FolderUploadProps) => {
           <div className="text-sm">
             <p className="font-medium">Encryption & Blockchain Process:</p>
             <ul className="text-xs text-muted-foreground mt-2 space-y-1">
-              <li>• Each file encrypted with unique AES-256 key</li>
+              <li>• Each file encrypted with unique AES-256-GCM key</li>
               <li>• AES keys encrypted with RSA public key</li>
               <li>• SHA-256 hash computed per file</li>
               <li>• Combined folder hash for integrity</li>
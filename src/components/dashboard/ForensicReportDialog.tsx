@@ -0,0 +1,195 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Download, Loader2, Microscope } from "lucide-react";
+import { LedgerVerification } from "@/lib/ledger";
+import {
+  ForensicBlock,
+  ForensicReport,
+  analyzeLedger,
+  failureLabel,
+  formatIncidentReport,
+  resourceLabel,
+} from "@/lib/forensics";
+import { errorMessage } from "@/lib/utils";
+
+interface ForensicReportDialogProps {
+  blocks: ForensicBlock[];
+  verification: LedgerVerification;
+}
+
+const ForensicReportDialog = ({ blocks, verification }: ForensicReportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [report, setReport] = useState<ForensicReport | null>(null);
+  const [profileNames, setProfileNames] = useState<Record<string, string>>({});
+
+  const handleOpenChange = async (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) return;
+
+    setLoading(true);
+    try {
+      const { data: profiles, error } = await supabase.from("profiles").select("id, full_name");
+      if (error) throw error;
+
+      const names = Object.fromEntries((profiles || []).map((profile) => [profile.id, profile.full_name]));
+      setProfileNames(names);
+      setReport(analyzeLedger(blocks, verification, names));
+    } catch (error) {
+      console.error("Error analyzing ledger:", error);
+      toast.error(errorMessage(error, "Error analyzing ledger"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!report) return;
+
+    const blob = new Blob([formatIncidentReport(report, profileNames)], { type: "text/markdown" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `medichain-incident-${report.generatedAt.replace(/[:.]/g, "-")}.md`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const nameOf = (profileId: string | null | undefined) =>
+    profileId ? profileNames[profileId] || "Unknown" : null;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="destructive" className="w-full">
+          <Microscope className="w-4 h-4 mr-2" />
+          Forensic Mode
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Forensic Report</DialogTitle>
+          <DialogDescription>
+            Where the ledger breaks, which blocks are affected and who they concern.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !report ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+              {[
+                ["Broken links", report.brokenLinks.length],
+                ["Hash mismatches", report.hashMismatches.length],
+                ["Missing indices", report.missingIndices.length],
+                ["Duplicate indices", report.duplicateIndices.length],
+              ].map(([label, count]) => (
+                <div key={label} className="p-2 border rounded-lg">
+                  <p className="text-2xl font-bold text-destructive">{count}</p>
+                  <p className="text-xs text-muted-foreground">{label}</p>
+                </div>
+              ))}
+            </div>
+
+            {(report.missingIndices.length > 0 || report.duplicateIndices.length > 0) && (
+              <div className="space-y-1 text-sm">
+                <h4 className="font-semibold">Block Index Anomalies</h4>
+                {report.missingIndices.length > 0 && (
+                  <p>Missing: {report.missingIndices.map((index) => `#${index}`).join(", ")}</p>
+                )}
+                {report.duplicateIndices.length > 0 && (
+                  <p>
+                    Duplicated:{" "}
+                    {report.duplicateIndices.map(({ blockIndex, count }) => `#${blockIndex} (×${count})`).join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Affected Blocks ({report.affectedBlocks.length})</h4>
+              {report.affectedBlocks.map(({ block, event, subject, resources, failures }) => {
+                const receiver = nameOf(block.receiver_id);
+                return (
+                  <div key={block.id} className="p-3 border border-destructive/30 rounded-lg text-sm space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium truncate">
+                        {event}
+                        {subject && ` · ${subject}`}
+                      </span>
+                      <span className="font-mono text-xs text-muted-foreground">#{block.block_index}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(block.timestamp).toLocaleString()} · {nameOf(block.sender_id) ?? "Unknown"}
+                      {receiver && ` → ${receiver}`}
+                    </p>
+                    <ul className="space-y-1 text-xs">
+                      {failures.map((failure, i) => (
+                        <li key={i} className="flex items-start gap-2 break-all">
+                          <Badge variant="destructive" className="shrink-0">
+                            {failureLabel(failure)}
+                          </Badge>
+                          {failure.message}
+                        </li>
+                      ))}
+                    </ul>
+                    {resources.length > 0 && (
+                      <p className="text-xs break-all">Concerns {resources.map(resourceLabel).join(", ")}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {report.resources.length > 0 && (
+              <div className="space-y-1 text-sm">
+                <h4 className="font-semibold">Affected Records and Folders</h4>
+                <ul className="list-disc pl-5 text-xs break-all">
+                  {report.resources.map((ref) => (
+                    <li key={`${ref.type}-${ref.id ?? ref.name}`}>{resourceLabel(ref)}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report.profiles.length > 0 && (
+              <div className="space-y-1 text-sm">
+                <h4 className="font-semibold">Profiles Involved</h4>
+                <ul className="list-disc pl-5 text-xs">
+                  {report.profiles.map((profile) => (
+                    <li key={profile.id}>
+                      {profile.name}: sender of {profile.sent}, receiver of {profile.received} affected block(s)
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <Button onClick={handleDownload} className="w-full">
+              <Download className="w-4 h-4 mr-2" />
+              Download Incident Report
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ForensicReportDialog;
@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertCircle, CheckCircle, Loader2 } from "lucide-react";
+import { Json } from "@/integrations/supabase/types";
+import { Blockchain } from "@/lib/blockchain";
+import { fetchBlock, loadSigningKeys } from "@/lib/ledger";
+import { parseLedgerEvent } from "@/lib/ledgerEvents";
+import { MerkleProof, merkleRootFromProof, parseMerkleProof } from "@/lib/merkle";
+import { errorMessage } from "@/lib/utils";
+
+export interface ProvableFile {
+  file_name: string;
+  file_hash: string;
+  merkle_proof: Json | null;
+  ledger_block_id: string | null;
+}
+
+interface InclusionProofDialogProps {
+  file: ProvableFile | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface ProofCheck {
+  label: string;
+  passed: boolean;
+  detail?: string;
+}
+
+const InclusionProofDialog = ({ file, onOpenChange }: InclusionProofDialogProps) => {
+  const [checking, setChecking] = useState(false);
+  const [checks, setChecks] = useState<ProofCheck[]>([]);
+  const [proof, setProof] = useState<MerkleProof | null>(null);
+  const [blockIndex, setBlockIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (file) {
+      verifyInclusion(file);
+    }
+  }, [file]);
+
+  const verifyInclusion = async (target: ProvableFile) => {
+    setChecking(true);
+    setChecks([]);
+    setBlockIndex(null);
+
+    const results: ProofCheck[] = [];
+    try {
+      const parsed = parseMerkleProof(target.merkle_proof);
+      setProof(parsed);
+      if (!parsed || !target.ledger_block_id) {
+        results.push({
+          label: "Inclusion proof available",
+          passed: false,
+          detail: "This file was uploaded before Merkle proofs were recorded",
+        });
+        return;
+      }
+
+      const root = merkleRootFromProof(target.file_hash, parsed);
+      results.push({
+        label: "File hash leads to the proof's Merkle root",
+        passed: root === parsed.root,
+        detail: root,
+      });
+
+      const block = await fetchBlock(target.ledger_block_id);
+      if (!block) {
+        results.push({ label: "Committing block found on the ledger", passed: false });
+        return;
+      }
+      setBlockIndex(block.block_index);
+
+      const { event } = parseLedgerEvent(block.data_json);
+      const committedRoot = event && "merkleRoot" in event ? event.merkleRoot : undefined;
+      results.push({
+        label: `Block #${block.block_index} commits this Merkle root`,
+        passed: committedRoot === root,
+        detail: committedRoot ?? "The block records no Merkle root",
+      });
+
+      const failures = await Blockchain.fromRows([block]).verifyBlock(0, await loadSigningKeys());
+      results.push({
+        label: `Block #${block.block_index} is intact${block.signature ? " and signed" : ""}`,
+        passed: failures.length === 0,
+        detail: failures.map((failure) => failure.message).join("; ") || undefined,
+      });
+    } catch (error) {
+      console.error("Error verifying inclusion proof:", error);
+      results.push({ label: "Verification completed", passed: false, detail: errorMessage(error, "Verification failed") });
+    } finally {
+      setChecks(results);
+      setChecking(false);
+    }
+  };
+
+  const included = checks.length > 0 && checks.every((check) => check.passed);
+
+  return (
+    <Dialog open={!!file} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Inclusion Proof</DialogTitle>
+          <DialogDescription>{file?.file_name}</DialogDescription>
+        </DialogHeader>
+
+        {checking ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div
+              className={`p-3 rounded-lg border text-sm ${
+                included ? "bg-primary/5 border-primary/30" : "bg-destructive/5 border-destructive/30"
+              }`}
+            >
+              {included
+                ? `This file's hash is committed in ledger block #${blockIndex}.`
+                : "This file's hash could not be shown to be committed on the ledger."}
+            </div>
+
+            <ul className="space-y-2">
+              {checks.map((check) => (
+                <li key={check.label} className="flex items-start gap-2 text-sm">
+                  {check.passed ? (
+                    <CheckCircle className="w-4 h-4 text-primary shrink-0 mt-0.5" />
+                  ) : (
+                    <AlertCircle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+                  )}
+                  <div className="min-w-0">
+                    <p>{check.label}</p>
+                    {check.detail && (
+                      <p className="text-xs font-mono text-muted-foreground break-all">{check.detail}</p>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {proof && (
+              <p className="text-xs text-muted-foreground">
+                Proven with the file's own hash and {proof.siblings.length} salted sibling hash
+                {proof.siblings.length === 1 ? "" : "es"} (leaf {proof.leafIndex + 1} of {proof.leafCount}). The
+                other files in the batch are not disclosed.
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InclusionProofDialog;
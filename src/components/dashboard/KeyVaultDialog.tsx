@@ -0,0 +1,307 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { KeyRound, Loader2, AlertCircle } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { generateRSAKeyPair, isLegacyKey } from "@/lib/encryption";
+import {
+  MIN_PASSPHRASE_LENGTH,
+  WrappedPrivateKey,
+  unlockVaultSession,
+  unwrapVault,
+  wrapPrivateKey,
+  wrapSigningKey,
+} from "@/lib/keyVault";
+import { SigningKey, generateSigningKeyPair } from "@/lib/signing";
+import { errorMessage } from "@/lib/utils";
+
+// The profile columns the vault reads and may replace
+type VaultProfile = Pick<Tables<"profiles">, "id" | "public_key_pem" | "legacy_public_key_pem">;
+
+interface KeyVaultDialogProps {
+  profile: VaultProfile | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onProfileUpdated: (profile: VaultProfile) => void;
+}
+
+// Generate a block signing key, wrap it into the vault and register its
+// public half. Vaults created before block signing get one on next unlock.
+const registerSigningKey = async (
+  vault: WrappedPrivateKey,
+  passphrase: string
+): Promise<{ signingKey: SigningKey; vault: WrappedPrivateKey }> => {
+  const keyPair = await generateSigningKeyPair();
+  const wrapped = await wrapSigningKey(keyPair.privateKey, passphrase, vault);
+
+  const { data: fingerprint, error } = await supabase.rpc("register_signing_key", {
+    p_public_key_pem: keyPair.publicKey,
+    p_wrapped_signing_key: wrapped.wrapped_signing_key,
+    p_signing_key_iv: wrapped.signing_key_iv,
+  });
+
+  if (error) throw error;
+  return { signingKey: { privateKey: keyPair.privateKey, fingerprint }, vault: { ...vault, ...wrapped } };
+};
+
+const KeyVaultDialog = ({ profile, open, onOpenChange, onProfileUpdated }: KeyVaultDialogProps) => {
+  const [vault, setVault] = useState<WrappedPrivateKey | null>(null);
+  const [loadingVault, setLoadingVault] = useState(true);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const profileId = profile?.id;
+
+  const loadVault = useCallback(async () => {
+    setLoadingVault(true);
+    try {
+      const { data, error } = await supabase
+        .from("key_vaults")
+        .select("wrapped_private_key, wrap_iv, kdf, kdf_salt, kdf_iterations, wrapped_signing_key, signing_key_iv")
+        .eq("profile_id", profileId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setVault(data);
+    } catch (error) {
+      console.error("Error loading key vault:", error);
+      toast.error("Error loading key vault");
+    } finally {
+      setLoadingVault(false);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    if (open && profileId) {
+      loadVault();
+    }
+  }, [open, profileId, loadVault]);
+
+  const resetForm = () => {
+    setPassphrase("");
+    setConfirmPassphrase("");
+    setError(null);
+  };
+
+  const handleUnlock = async () => {
+    setWorking(true);
+    setError(null);
+
+    try {
+      const unwrapped = await unwrapVault(vault!, passphrase);
+      let signingKey = unwrapped.signingKey;
+
+      if (!signingKey) {
+        const registered = await registerSigningKey(vault!, passphrase);
+        signingKey = registered.signingKey;
+        setVault(registered.vault);
+      }
+
+      unlockVaultSession({
+        privateKey: unwrapped.privateKey,
+        legacyKey: profile?.legacy_public_key_pem ?? null,
+        signingKey,
+      });
+      toast.success("Key vault unlocked");
+      resetForm();
+      onOpenChange(false);
+    } catch (error) {
+      setError(errorMessage(error, "Failed to unlock key vault"));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSetup = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError("Passphrases do not match");
+      return;
+    }
+
+    setWorking(true);
+    setError(null);
+
+    try {
+      let privateKey: string | null = null;
+      let publicKey: string | undefined;
+      let legacyPublicKey: string | undefined;
+
+      // Existing RSA-OAEP keys still sitting in plaintext are migrated as-is
+      if (profile?.public_key_pem && !isLegacyKey(profile.public_key_pem)) {
+        const { data, error } = await supabase.rpc("get_own_plaintext_private_key");
+        if (error) throw error;
+        privateKey = data;
+      }
+
+      // Otherwise generate a fresh key pair, retiring any legacy demo key
+      if (!privateKey) {
+        const keyPair = await generateRSAKeyPair();
+        privateKey = keyPair.privateKey;
+        publicKey = keyPair.publicKey;
+        if (isLegacyKey(profile?.public_key_pem)) {
+          legacyPublicKey = profile.public_key_pem;
+        }
+      }
+
+      const wrapped = await wrapPrivateKey(privateKey, passphrase);
+
+      // Stores the wrapped key and clears the plaintext column atomically
+      const { error: storeError } = await supabase.rpc("store_key_vault", {
+        p_wrapped_private_key: wrapped.wrapped_private_key,
+        p_wrap_iv: wrapped.wrap_iv,
+        p_kdf: wrapped.kdf,
+        p_kdf_salt: wrapped.kdf_salt,
+        p_kdf_iterations: wrapped.kdf_iterations,
+        p_public_key_pem: publicKey,
+        p_legacy_public_key_pem: legacyPublicKey,
+      });
+
+      if (storeError) throw storeError;
+      // If registering the signing key fails, unlocking retries it
+      setVault(wrapped);
+
+      const { signingKey, vault: storedVault } = await registerSigningKey(wrapped, passphrase);
+
+      const updatedProfile = {
+        ...profile,
+        public_key_pem: publicKey ?? profile.public_key_pem,
+        legacy_public_key_pem: legacyPublicKey ?? profile.legacy_public_key_pem,
+      };
+
+      setVault(storedVault);
+      unlockVaultSession({ privateKey, legacyKey: updatedProfile.legacy_public_key_pem ?? null, signingKey });
+      onProfileUpdated(updatedProfile);
+      toast.success("Key vault created. Your private key is now protected by your passphrase.");
+      resetForm();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Key vault setup error:", error);
+      setError(errorMessage(error, "Failed to create key vault"));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const isSetup = !vault;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="w-5 h-5" />
+            {isSetup ? "Create Key Vault" : "Unlock Key Vault"}
+          </DialogTitle>
+          <DialogDescription>
+            {isSetup
+              ? "Choose a passphrase to protect your private key. It is encrypted in your browser and never stored in plaintext."
+              : "Enter your passphrase to decrypt and share records during this session."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadingVault ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (isSetup) {
+                handleSetup();
+              } else {
+                handleUnlock();
+              }
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="vault-passphrase">Passphrase</Label>
+              <Input
+                id="vault-passphrase"
+                type="password"
+                autoComplete={isSetup ? "new-password" : "current-password"}
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                disabled={working}
+                autoFocus
+              />
+            </div>
+
+            {isSetup && (
+              <div className="space-y-2">
+                <Label htmlFor="vault-passphrase-confirm">Confirm Passphrase</Label>
+                <Input
+                  id="vault-passphrase-confirm"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  disabled={working}
+                />
+              </div>
+            )}
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {isSetup && (
+              <div className="text-xs text-muted-foreground bg-muted/50 p-3 rounded-lg">
+                <p className="font-semibold mb-1">Key Vault Protection:</p>
+                <ul className="space-y-1">
+                  <li>• Passphrase stretched with PBKDF2-SHA256</li>
+                  <li>• Private key sealed with AES-256-GCM</li>
+                  <li>• ECDSA signing key for your ledger entries</li>
+                  <li>• Vault locks automatically when idle</li>
+                  <li>• A forgotten passphrase cannot be recovered</li>
+                </ul>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={working}>
+                Later
+              </Button>
+              <Button type="submit" disabled={working || !passphrase}>
+                {working ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    {isSetup ? "Securing..." : "Unlocking..."}
+                  </>
+                ) : isSetup ? (
+                  "Create Vault"
+                ) : (
+                  "Unlock"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeyVaultDialog;
@@ -0,0 +1,48 @@
+import { AlertCircle, CheckCircle } from "lucide-react";
+import { LedgerBlock } from "@/lib/ledger";
+import { LEDGER_ACTION_LABELS, ledgerEventSubject, parseLedgerEvent } from "@/lib/ledgerEvents";
+
+interface LedgerHistoryProps {
+  blocks: LedgerBlock[];
+  // Per-block verification, keyed by block id
+  verified: Record<string, boolean>;
+  profileNames: Record<string, string>;
+}
+
+const LedgerHistory = ({ blocks, verified, profileNames }: LedgerHistoryProps) => {
+  const nameOf = (profileId: string | null | undefined) =>
+    profileId ? profileNames[profileId] || "Unknown" : null;
+
+  return (
+    <ol className="space-y-2">
+      {blocks.map((block) => {
+        const { event } = parseLedgerEvent(block.data_json);
+        const receiver = nameOf(block.receiver_id);
+        return (
+          <li key={block.id} className="flex items-start gap-2 p-3 border rounded-lg text-sm">
+            {verified[block.id] ? (
+              <CheckCircle className="w-4 h-4 text-primary shrink-0 mt-0.5" aria-label="Verified" />
+            ) : (
+              <AlertCircle className="w-4 h-4 text-destructive shrink-0 mt-0.5" aria-label="Failed verification" />
+            )}
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">
+                  {event ? LEDGER_ACTION_LABELS[event.action] : "Unrecognized"}
+                </span>
+                <span className="font-mono text-xs text-muted-foreground">#{block.block_index}</span>
+              </div>
+              {event && <p className="truncate">{ledgerEventSubject(event)}</p>}
+              <p className="text-xs text-muted-foreground">
+                {new Date(block.timestamp).toLocaleString()} · {nameOf(block.sender_id)}
+                {receiver && ` → ${receiver}`}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default LedgerHistory;
@@ -2,11 +2,16 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { Upload, Image as ImageIcon, Lock } from "lucide-react";
-import { generateAESKey, encryptWithAES, encryptKeyWithRSA, hashFile, fileToBase64 } from "@/lib/encryption";
-import CryptoJS from "crypto-js";
+import { generateAESKey, encryptKeyWithRSA } from "@/lib/encryption";
+import { PLAINTEXT_HASH_SCHEME, uploadEncryptedFile } from "@/lib/encryptedStorage";
+import { appendEvent, attachMerkleProofs } from "@/lib/ledger";
+import { isVaultUnlocked } from "@/lib/keyVault";
+import { buildMerkleTree, createMerkleSalt } from "@/lib/merkle";
+import PatientSelect from "./PatientSelect";
 
 interface MultiImageUploadProps {
   profileId: string;
@@ -16,6 +21,8 @@ interface MultiImageUploadProps {
 const MultiImageUpload = ({ profileId, onUploadComplete }: MultiImageUploadProps) => {
   const [files, setFiles] = useState<File[]>([]);
   const [uploading, setUploading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [patientId, setPatientId] = useState<string | null>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
@@ -35,7 +42,14 @@ const MultiImageUpload = ({ profileId, onUploadComplete }: MultiImageUploadProps
       return;
     }
 
+    // Ledger entries are signed with the key held in the vault
+    if (!isVaultUnlocked()) {
+      toast.error("Key vault is locked. Unlock it to upload images.");
+      return;
+    }
+
     setUploading(true);
+    setProgress(0);
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -44,39 +58,29 @@ const MultiImageUpload = ({ profileId, onUploadComplete }: MultiImageUploadProps
       // Get user's public key
       const { data: profile } = await supabase
         .from("profiles")
-        .select("public_key_pem")
+        .select("public_key_pem, full_name")
         .eq("id", profileId)
         .single();
 
       if (!profile?.public_key_pem) throw new Error("Public key not found");
 
-      let successCount = 0;
+      const uploaded: { id: string; fileHash: string }[] = [];
+      const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+      let completedBytes = 0;
 
       for (const file of files) {
         try {
-          // Convert file to base64
-          const base64Content = await fileToBase64(file);
-          
-          // Generate AES key and encrypt file
+          // Generate AES key and encrypt AES key with RSA-OAEP
           const aesKey = generateAESKey();
-          const encryptedContent = encryptWithAES(base64Content, aesKey);
-          
-          // Encrypt AES key with RSA
-          const encryptedAESKey = encryptKeyWithRSA(aesKey, profile.public_key_pem);
-          
-          // Calculate hash
-          const fileHash = hashFile(encryptedContent);
-
-          // Upload to storage
-          const filePath = `${user.id}/${Date.now()}-${file.name}`;
-          const { error: uploadError } = await supabase.storage
-            .from('encrypted-images')
-            .upload(filePath, encryptedContent, {
-              contentType: 'text/plain',
-              upsert: false
-            });
+          const encryptedAESKey = await encryptKeyWithRSA(aesKey, profile.public_key_pem);
 
-          if (uploadError) throw uploadError;
+          // Encrypt and upload in chunks, hashing the original bytes along the way
+          const filePath = `${user.id}/${Date.now()}-${file.name}`;
+          const { header, fileHash } = await uploadEncryptedFile(file, aesKey, filePath, (p) => {
+            if (totalBytes > 0) {
+              setProgress(Math.round(((completedBytes + p.loadedBytes) / totalBytes) * 100));
+            }
+          });
 
           // Save to database
           const { data: imageRecord, error: dbError } = await supabase
@@ -87,10 +91,13 @@ const MultiImageUpload = ({ profileId, onUploadComplete }: MultiImageUploadProps
               encrypted_path: filePath,
               owner_id: profileId,
               encrypted_aes_key: encryptedAESKey,
+              patient_id: patientId,
               metadata: {
                 size: file.size,
                 type: file.type,
-                uploadedAt: new Date().toISOString()
+                uploadedAt: new Date().toISOString(),
+                encryption: header,
+                hashScheme: PLAINTEXT_HASH_SCHEME
               }
             })
             .select()
@@ -98,50 +105,35 @@ const MultiImageUpload = ({ profileId, onUploadComplete }: MultiImageUploadProps
 
           if (dbError) throw dbError;
 
-          // Add to blockchain_renewed
-          const { data: lastBlock } = await supabase
-            .from("blockchain_renewed")
-            .select("*")
-            .order("block_index", { ascending: false })
-            .limit(1)
-            .single();
-
-          const newBlockIndex = lastBlock ? lastBlock.block_index + 1 : 0;
-          const previousHash = lastBlock ? lastBlock.current_hash : "0";
-          const timestamp = new Date().toISOString();
-          
-          const blockData = {
-            fileName: file.name,
-            fileHash: fileHash,
-            senderId: profileId,
-            receiverId: null,
-            action: "IMAGE_UPLOADED",
-            timestamp
-          };
-
-          const currentHash = CryptoJS.SHA256(
-            newBlockIndex + timestamp + JSON.stringify(blockData) + previousHash
-          ).toString();
-
-          await supabase.from("blockchain_renewed").insert({
-            block_index: newBlockIndex,
-            timestamp,
-            previous_hash: previousHash,
-            current_hash: currentHash,
-            data_json: blockData,
-            sender_id: profileId,
-            receiver_id: null
-          });
-
-          successCount++;
+          uploaded.push({ id: imageRecord.id, fileHash });
         } catch (error: any) {
           console.error(`Error uploading ${file.name}:`, error);
           toast.error(`Failed to upload ${file.name}: ${error.message}`);
         }
+        completedBytes += file.size;
       }
 
-      if (successCount > 0) {
-        toast.success(`Successfully uploaded ${successCount} of ${files.length} image(s)`);
+      if (uploaded.length > 0) {
+        // One block commits the whole batch; each image keeps its own proof
+        const { root, proofs } = buildMerkleTree(
+          uploaded.map(({ fileHash }) => ({ fileHash, salt: createMerkleSalt() }))
+        );
+
+        const block = await appendEvent({
+          action: "IMAGE_BATCH_UPLOADED",
+          fileCount: uploaded.length,
+          merkleRoot: root,
+          senderId: profileId,
+          senderName: profile.full_name
+        });
+
+        await attachMerkleProofs(
+          "encrypted_images",
+          block.id,
+          uploaded.map(({ id }, i) => ({ id, proof: proofs[i] }))
+        );
+
+        toast.success(`Successfully uploaded ${uploaded.length} of ${files.length} image(s)`);
         setFiles([]);
         if (onUploadComplete) onUploadComplete();
         // Reset file input
@@ -192,6 +184,18 @@ const MultiImageUpload = ({ profileId, onUploadComplete }: MultiImageUploadProps
           )}
         </div>
 
+        <PatientSelect profileId={profileId} value={patientId} onChange={setPatientId} disabled={uploading} />
+
+        {uploading && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">Encrypting...</span>
+              <span className="font-medium">{progress}%</span>
+            </div>
+            <Progress value={progress} className="w-full" />
+          </div>
+        )}
+
         <Button 
           onClick={handleUpload} 
           disabled={uploading || files.length === 0}
@@ -213,7 +217,7 @@ const MultiImageUpload = ({ profileId, onUploadComplete }: MultiImageUploadProps
             <div className="text-sm">
               <p className="font-medium">Encryption Process:</p>
               <ul className="text-xs text-muted-foreground mt-1 space-y-1">
-                <li>• Each image encrypted with AES-256</li>
+                <li>• Each image encrypted in chunks with AES-256-GCM</li>
                 <li>• AES keys encrypted with RSA</li>
                 <li>• SHA-256 hash computed for verification</li>
                 <li>• Stored in secure blockchain ledger</li>
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { createPatient } from "@/lib/patients";
+import { errorMessage } from "@/lib/utils";
+
+interface NewPatientDialogProps {
+  profileId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+const NewPatientDialog = ({ profileId, open, onOpenChange, onSuccess }: NewPatientDialogProps) => {
+  const [name, setName] = useState("");
+  const [dob, setDob] = useState("");
+  const [mrn, setMrn] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName("");
+      setDob("");
+      setMrn("");
+    }
+  }, [open]);
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      await createPatient(profileId, { name, dob, mrn });
+      toast.success("Patient added");
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error creating patient:", error);
+      toast.error(errorMessage(error, "Failed to add patient"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Patient</DialogTitle>
+          <DialogDescription>
+            Demographics are encrypted in your browser. Only you, and doctors you share the patient with, can read
+            them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="patient-name">Full Name</Label>
+            <Input id="patient-name" value={name} onChange={(e) => setName(e.target.value)} disabled={saving} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="patient-dob">Date of Birth</Label>
+            <Input
+              id="patient-dob"
+              type="date"
+              value={dob}
+              onChange={(e) => setDob(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="patient-mrn">MRN</Label>
+            <Input id="patient-mrn" value={mrn} onChange={(e) => setMrn(e.target.value)} disabled={saving} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={!name.trim() || saving}>
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Add Patient"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NewPatientDialog;
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from "react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { PatientEntry, fetchPatientEntries, patientLabel } from "@/lib/patients";
+
+// Select has no empty value, so "no patient" gets its own
+const NO_PATIENT = "none";
+
+interface PatientSelectProps {
+  profileId: string;
+  value: string | null;
+  onChange: (patientId: string | null) => void;
+  disabled?: boolean;
+}
+
+// Pick which of the doctor's own patients an upload is filed under
+const PatientSelect = ({ profileId, value, onChange, disabled }: PatientSelectProps) => {
+  const [entries, setEntries] = useState<PatientEntry[]>([]);
+
+  const loadPatients = useCallback(async () => {
+    try {
+      const all = await fetchPatientEntries(profileId);
+      setEntries(all.filter(({ patient }) => patient.owner_id === profileId));
+    } catch (error) {
+      console.error("Error loading patients:", error);
+      toast.error("Error loading patients");
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    if (profileId) loadPatients();
+  }, [profileId, loadPatients]);
+
+  return (
+    <div className="space-y-2">
+      <Label>Patient</Label>
+      <Select
+        value={value || NO_PATIENT}
+        onValueChange={(patientId) => onChange(patientId === NO_PATIENT ? null : patientId)}
+        disabled={disabled}
+        onOpenChange={(open) => open && loadPatients()}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_PATIENT}>No patient</SelectItem>
+          {entries.map((entry) => (
+            <SelectItem key={entry.patient.id} value={entry.patient.id}>
+              {patientLabel(entry)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default PatientSelect;
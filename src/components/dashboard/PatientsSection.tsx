@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { ClipboardList, Loader2, Plus } from "lucide-react";
+import { PatientEntry, fetchPatientEntries, patientLabel } from "@/lib/patients";
+import NewPatientDialog from "./NewPatientDialog";
+
+interface PatientsSectionProps {
+  profileId: string;
+  // Demographics can only be decrypted once the vault is unlocked
+  vaultUnlocked: boolean;
+}
+
+const PatientsSection = ({ profileId, vaultUnlocked }: PatientsSectionProps) => {
+  const [entries, setEntries] = useState<PatientEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const loadPatients = useCallback(async () => {
+    try {
+      setEntries(await fetchPatientEntries(profileId));
+    } catch (error) {
+      console.error("Error loading patients:", error);
+      toast.error("Failed to load patients");
+    } finally {
+      setLoading(false);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    if (profileId) loadPatients();
+  }, [profileId, vaultUnlocked, loadPatients]);
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center p-8">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardList className="w-5 h-5" />
+                Patients
+              </CardTitle>
+              <CardDescription>Each patient's records, images and folders in one chart</CardDescription>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => setDialogOpen(true)} disabled={!vaultUnlocked}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Patient
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!vaultUnlocked && entries.length > 0 && (
+            <p className="text-xs text-muted-foreground mb-3">Unlock your key vault to see patient names.</p>
+          )}
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No patients yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {entries.map((entry) => (
+                <div key={entry.patient.id} className="flex items-center justify-between gap-4 p-4 border rounded-lg">
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium truncate">{patientLabel(entry)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {entry.demographics?.dob && `Born ${entry.demographics.dob} · `}
+                      {entry.patient.owner_id === profileId ? "Your patient" : "Shared with you"}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="outline" asChild>
+                    <Link to={`/patients/${entry.patient.id}`}>Open Chart</Link>
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <NewPatientDialog
+        profileId={profileId}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSuccess={loadPatients}
+      />
+    </>
+  );
+};
+
+export default PatientsSection;
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { LedgerBlock } from "@/lib/ledger";
+import { TimelineResource, fetchResourceTimeline, verifyEachBlock } from "@/lib/provenance";
+import { errorMessage } from "@/lib/utils";
+import LedgerHistory from "./LedgerHistory";
+
+interface ProvenanceTimelineProps {
+  resource: TimelineResource;
+}
+
+const ProvenanceTimeline = ({ resource }: ProvenanceTimelineProps) => {
+  const { type, id, hash, ledgerBlockId } = resource;
+  const [blocks, setBlocks] = useState<LedgerBlock[]>([]);
+  const [verified, setVerified] = useState<Record<string, boolean>>({});
+  const [profileNames, setProfileNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTimeline = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [timeline, { data: profiles, error: profilesError }] = await Promise.all([
+        fetchResourceTimeline({ type, id, hash, ledgerBlockId }),
+        supabase.from("profiles").select("id, full_name"),
+      ]);
+
+      if (profilesError) throw profilesError;
+
+      setVerified(await verifyEachBlock(timeline));
+      setProfileNames(Object.fromEntries((profiles || []).map((profile) => [profile.id, profile.full_name])));
+      setBlocks(timeline);
+    } catch (error) {
+      console.error("Error loading timeline:", error);
+      setError(errorMessage(error, "Failed to load timeline"));
+    } finally {
+      setLoading(false);
+    }
+  }, [type, id, hash, ledgerBlockId]);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [loadTimeline]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive text-center py-4">{error}</p>;
+  }
+
+  if (blocks.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No ledger entries mention this item.</p>;
+  }
+
+  return <LedgerHistory blocks={blocks} verified={verified} profileNames={profileNames} />;
+};
+
+export default ProvenanceTimeline;
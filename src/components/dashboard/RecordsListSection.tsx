@@ -3,10 +3,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { FileText, Share2, Eye } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
 import { toast } from "sonner";
+import { RESHARE_POLICY_LABELS, ResharePolicy, canReshare, describeShareTerms, isExpired } from "@/lib/shareTerms";
 import ShareRecordDialog from "./ShareRecordDialog";
 import ViewRecordDialog from "./ViewRecordDialog";
 
+type ListedShare = Pick<
+  Tables<"record_shares">,
+  "id" | "recipient_id" | "permission" | "expires_at" | "reshare_policy"
+> & { recipient: { full_name: string } | null };
+
 interface RecordsListSectionProps {
   profile: any;
 }
@@ -27,14 +34,15 @@ const RecordsListSection = ({ profile }: RecordsListSectionProps) => {
 
   const loadRecords = async () => {
     try {
+      // RLS returns the doctor's own records and those shared with them. A
+      // recipient sees their own unexpired share and the shares they made.
       const { data, error } = await supabase
         .from("medical_records")
         .select(`
           *,
           owner:profiles!owner_id(full_name, specialization),
-          shared_with:profiles!shared_with_id(full_name, specialization)
+          shares:record_shares(id, recipient_id, permission, expires_at, reshare_policy, recipient:profiles!record_shares_recipient_id_fkey(full_name))
         `)
-        .or(`owner_id.eq.${profileId},shared_with_id.eq.${profileId}`)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -52,6 +60,10 @@ const RecordsListSection = ({ profile }: RecordsListSectionProps) => {
     setShareDialogOpen(true);
   };
 
+  // The share this doctor holds, for records shared with them
+  const ownShare = (record: { shares?: ListedShare[] }) =>
+    record.shares?.find((share) => share.recipient_id === profileId);
+
   const handleView = (record: any) => {
     setSelectedRecord(record);
     setViewDialogOpen(true);
@@ -91,47 +103,67 @@ const RecordsListSection = ({ profile }: RecordsListSectionProps) => {
             </div>
           ) : (
             <div className="space-y-3">
-              {records.map((record) => (
-                <div
-                  key={record.id}
-                  className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors"
-                >
-                  <div className="flex items-center gap-3 flex-1">
-                    <div className="p-2 bg-primary/10 rounded-lg">
-                      <FileText className="w-5 h-5 text-primary" />
-                    </div>
-                    <div className="flex-1">
-                      <p className="font-medium">{record.file_name}</p>
-                      <p className="text-sm text-muted-foreground">
-                        {record.owner_id === profileId ? "Owned by you" : `Shared by ${record.owner?.full_name}`}
-                      </p>
-                      <p className="text-xs text-muted-foreground">
-                        Hash: {record.file_hash.substring(0, 16)}...
-                      </p>
+              {records.map((record) => {
+                const heldShare = ownShare(record);
+                return (
+                  <div
+                    key={record.id}
+                    className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors"
+                  >
+                    <div className="flex items-center gap-3 flex-1">
+                      <div className="p-2 bg-primary/10 rounded-lg">
+                        <FileText className="w-5 h-5 text-primary" />
+                      </div>
+                      <div className="flex-1">
+                        <p className="font-medium">{record.file_name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {record.owner_id === profileId ? "Owned by you" : `Shared by ${record.owner?.full_name}`}
+                        </p>
+                        {record.owner_id === profileId && record.shares?.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            Shared with{" "}
+                            {record.shares
+                              .map((share: ListedShare) =>
+                                `${share.recipient?.full_name || "Unknown Doctor"}${isExpired(share.expires_at) ? " (expired)" : ""}`
+                              )
+                              .join(", ")}
+                          </p>
+                        )}
+                        {record.owner_id !== profileId && heldShare && (
+                          <p className="text-xs text-muted-foreground">
+                            {describeShareTerms(heldShare.permission, heldShare.expires_at)}
+                            {canReshare(heldShare.reshare_policy) &&
+                              ` · ${RESHARE_POLICY_LABELS[heldShare.reshare_policy as ResharePolicy]}`}
+                          </p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          Hash: {record.file_hash.substring(0, 16)}...
+                        </p>
+                      </div>
                     </div>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleView(record)}
-                    >
-                      <Eye className="w-4 h-4 mr-1" />
-                      View
-                    </Button>
-                    {record.owner_id === profileId && (
+                    <div className="flex items-center gap-2">
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => handleShare(record)}
+                        onClick={() => handleView(record)}
                       >
-                        <Share2 className="w-4 h-4 mr-1" />
-                        Share
+                        <Eye className="w-4 h-4 mr-1" />
+                        View
                       </Button>
-                    )}
+                      {(record.owner_id === profileId || canReshare(heldShare?.reshare_policy)) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleShare(record)}
+                        >
+                          <Share2 className="w-4 h-4 mr-1" />
+                          {record.owner_id === profileId ? "Share" : "Re-share"}
+                        </Button>
+                      )}
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </CardContent>
@@ -139,6 +171,7 @@ const RecordsListSection = ({ profile }: RecordsListSectionProps) => {
 
       <ShareRecordDialog
         record={selectedRecord}
+        profileId={profileId}
         open={shareDialogOpen}
         onOpenChange={setShareDialogOpen}
         onSuccess={loadRecords}
@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Send } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { requestAccess } from "@/lib/accessRequests";
+import { errorMessage } from "@/lib/utils";
+
+type Doctor = Pick<Tables<"profiles">, "id" | "full_name" | "specialization">;
+
+interface RequestAccessDialogProps {
+  profileId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+const RequestAccessDialog = ({ profileId, open, onOpenChange, onSuccess }: RequestAccessDialogProps) => {
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [ownerId, setOwnerId] = useState("");
+  const [subject, setSubject] = useState("");
+  const [reason, setReason] = useState("");
+  const [sending, setSending] = useState(false);
+
+  const loadDoctors = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, full_name, specialization")
+        .neq("id", profileId);
+
+      if (error) throw error;
+      setDoctors(data || []);
+    } catch (error) {
+      console.error("Error loading doctors:", error);
+      toast.error("Error loading doctors list");
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    if (open) {
+      setOwnerId("");
+      setSubject("");
+      setReason("");
+      loadDoctors();
+    }
+  }, [open, loadDoctors]);
+
+  const handleSend = async () => {
+    if (!ownerId || !subject.trim()) return;
+
+    setSending(true);
+    try {
+      await requestAccess(profileId, ownerId, subject, reason);
+      toast.success("Access request sent");
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error requesting access:", error);
+      toast.error(errorMessage(error, "Failed to send access request"));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Send className="w-5 h-5" />
+            Request Access
+          </DialogTitle>
+          <DialogDescription>
+            Ask another doctor to share a record or a patient's files with you. They choose what to share
+            when they approve.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label>Doctor</Label>
+            <Select value={ownerId} onValueChange={setOwnerId} disabled={sending}>
+              <SelectTrigger>
+                <SelectValue placeholder="Who holds the record?" />
+              </SelectTrigger>
+              <SelectContent>
+                {doctors.map((doctor) => (
+                  <SelectItem key={doctor.id} value={doctor.id}>
+                    {doctor.full_name}
+                    {doctor.specialization && ` - ${doctor.specialization}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="request-subject">Record or patient</Label>
+            <Input
+              id="request-subject"
+              placeholder="e.g. chest X-ray from March, or the patient's name"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              disabled={sending}
+            />
+            <p className="text-xs text-muted-foreground">
+              Only you and this doctor see it; the blockchain records just the request.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="request-reason">Reason (optional)</Label>
+            <Textarea
+              id="request-reason"
+              placeholder="e.g. cardiology consult on referral"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              disabled={sending}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={sending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={!ownerId || !subject.trim() || sending}>
+            {sending ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              "Send Request"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RequestAccessDialog;
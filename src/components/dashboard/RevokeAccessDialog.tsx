@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Loader2, UserX } from "lucide-react";
+import { RevokeOutcome } from "@/lib/revocation";
+import { errorMessage } from "@/lib/utils";
+
+interface RevokeAccessDialogProps {
+  resourceName: string | null;
+  recipientName?: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRevoke: (rotateKey: boolean) => Promise<RevokeOutcome>;
+  onRevoked: () => void;
+}
+
+const RevokeAccessDialog = ({
+  resourceName,
+  recipientName,
+  open,
+  onOpenChange,
+  onRevoke,
+  onRevoked,
+}: RevokeAccessDialogProps) => {
+  const [rotateKey, setRotateKey] = useState(false);
+  const [revoking, setRevoking] = useState(false);
+
+  useEffect(() => {
+    if (open) setRotateKey(false);
+  }, [open]);
+
+  const handleRevoke = async () => {
+    setRevoking(true);
+    try {
+      const outcome = await onRevoke(rotateKey);
+
+      if (outcome.rotationError) {
+        toast.error(`Access revoked, but the key could not be rotated: ${outcome.rotationError}`);
+      } else if (outcome.keyRotated) {
+        toast.success(`Access revoked for ${outcome.recipientName} and the content re-encrypted`);
+      } else {
+        toast.success(`Access revoked for ${outcome.recipientName}`);
+      }
+
+      onRevoked();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error revoking access:", error);
+      toast.error(errorMessage(error, "Failed to revoke access"));
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !revoking && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserX className="w-5 h-5" />
+            Revoke Access
+          </DialogTitle>
+          <DialogDescription>
+            Stop sharing "{resourceName}" with {recipientName || "the recipient"}. Their copy of the
+            encryption key is deleted and the revocation is recorded on the blockchain.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-start gap-3 py-2">
+          <Checkbox
+            id="rotate-key"
+            checked={rotateKey}
+            onCheckedChange={(checked) => setRotateKey(checked === true)}
+            disabled={revoking}
+          />
+          <div className="space-y-1">
+            <Label htmlFor="rotate-key">Rotate the encryption key</Label>
+            <p className="text-xs text-muted-foreground">
+              Re-encrypts the content under a new key, so a key the recipient kept no longer opens it.
+              Large files take longer.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={revoking}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleRevoke} disabled={revoking}>
+            {revoking ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                {rotateKey ? "Re-encrypting..." : "Revoking..."}
+              </>
+            ) : (
+              "Revoke Access"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RevokeAccessDialog;
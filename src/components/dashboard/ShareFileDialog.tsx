@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { Loader2, Shield, UserX } from "lucide-react";
+import { FileShare, ShareableImage, fetchFileShares, shareFolderFile, shareImage } from "@/lib/fileShares";
+import { RevocableFolderFile, revokeFileShare } from "@/lib/revocation";
+import { DEFAULT_SHARE_TERMS, ShareTerms, describeShareTerms, isExpired } from "@/lib/shareTerms";
+import { errorMessage } from "@/lib/utils";
+import RevokeAccessDialog from "./RevokeAccessDialog";
+import ShareTermsFields from "./ShareTermsFields";
+
+type Doctor = Pick<Tables<"profiles">, "id" | "full_name" | "specialization">;
+
+// A single image, or a single file out of one of the owner's folders
+export type ShareFileTarget =
+  | { type: "image"; image: ShareableImage & { receiver_id: string | null } }
+  | { type: "file"; file: RevocableFolderFile; folderName: string };
+
+interface ShareFileDialogProps {
+  target: ShareFileTarget | null;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+const ShareFileDialog = ({ target, onOpenChange, onSuccess }: ShareFileDialogProps) => {
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [selectedDoctor, setSelectedDoctor] = useState("");
+  const [terms, setTerms] = useState<ShareTerms>(DEFAULT_SHARE_TERMS);
+  const [shares, setShares] = useState<FileShare[]>([]);
+  const [sharing, setSharing] = useState(false);
+  const [revokeShare, setRevokeShare] = useState<FileShare | null>(null);
+
+  const item = target?.type === "image" ? target.image : target?.file;
+  const itemKey = item ? `${target.type}:${item.id}` : null;
+  const ownerId = item?.owner_id;
+  const fileId = target?.type === "file" ? target.file.id : null;
+
+  const loadDoctors = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, full_name, specialization")
+        .neq("id", ownerId);
+
+      if (error) throw error;
+      setDoctors(data || []);
+    } catch (error) {
+      console.error("Error loading doctors:", error);
+      toast.error("Failed to load doctors");
+    }
+  }, [ownerId]);
+
+  const loadShares = async (fileId: string) => {
+    try {
+      setShares(await fetchFileShares(fileId));
+    } catch (error) {
+      console.error("Error loading file shares:", error);
+      toast.error("Failed to load who this file is shared with");
+    }
+  };
+
+  // Callers build the target inline, so reset on the item rather than the object
+  useEffect(() => {
+    if (itemKey) {
+      setSelectedDoctor("");
+      setTerms(DEFAULT_SHARE_TERMS);
+      setShares([]);
+      loadDoctors();
+      if (fileId) loadShares(fileId);
+    }
+  }, [itemKey, fileId, loadDoctors]);
+
+  const handleShare = async () => {
+    if (!selectedDoctor || !target) return;
+    if (isExpired(terms.expiresAt)) {
+      toast.error("The expiry must be in the future");
+      return;
+    }
+
+    setSharing(true);
+    try {
+      const receiverName =
+        target.type === "image"
+          ? await shareImage(target.image, selectedDoctor, terms)
+          : await shareFolderFile(target.file, target.folderName, selectedDoctor, terms);
+
+      toast.success(`${target.type === "image" ? "Image" : "File"} securely shared with ${receiverName}`);
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error sharing file:", error);
+      toast.error(errorMessage(error, "Failed to share file"));
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  // Rotation replaces the file's key, so close rather than keep a stale copy
+  const handleRevoked = () => {
+    onSuccess();
+    onOpenChange(false);
+  };
+
+  const currentReceiver =
+    target?.type === "image" ? doctors.find((doctor) => doctor.id === target.image.receiver_id) : null;
+  const sharedWith = new Set(shares.map((share) => share.recipient_id));
+
+  return (
+    <Dialog open={!!target} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Shield className="w-5 h-5" />
+            Secure Share {target?.type === "image" ? "Image" : "File"}
+          </DialogTitle>
+          <DialogDescription>
+            Share "{item?.file_name}" securely with another verified doctor. Its key will be re-encrypted with
+            the recipient's public key.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {currentReceiver && (
+            <p className="text-sm text-muted-foreground bg-muted/50 p-3 rounded-lg">
+              Currently shared with {currentReceiver.full_name}. Revoke their access before sharing with someone else.
+            </p>
+          )}
+
+          {shares.length > 0 && (
+            <div className="space-y-2">
+              <Label>Shared With</Label>
+              <ul className="space-y-1 text-sm">
+                {shares.map((share) => (
+                  <li key={share.id} className="flex items-center justify-between gap-2">
+                    <span className="flex-1">{share.recipient?.full_name || "Unknown Doctor"}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {describeShareTerms(share.permission, share.expires_at)}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setRevokeShare(share)}
+                      disabled={sharing}
+                      title="Revoke access"
+                    >
+                      <UserX className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Select Doctor</Label>
+            <Select value={selectedDoctor} onValueChange={setSelectedDoctor} disabled={sharing}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a verified doctor" />
+              </SelectTrigger>
+              <SelectContent>
+                {doctors.map((doctor) => (
+                  <SelectItem key={doctor.id} value={doctor.id}>
+                    {doctor.full_name}
+                    {doctor.specialization && ` - ${doctor.specialization}`}
+                    {sharedWith.has(doctor.id) && " (renew share)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <ShareTermsFields terms={terms} onChange={setTerms} disabled={sharing} />
+
+          <div className="bg-muted p-3 rounded-lg text-sm">
+            <p className="font-medium mb-1">🔒 Security Features:</p>
+            <ul className="text-muted-foreground space-y-1 text-xs">
+              <li>• End-to-end encryption with RSA-2048</li>
+              <li>• Blockchain audit trail</li>
+              <li>• Only this {target?.type === "image" ? "image" : "file"} is shared, nothing else</li>
+            </ul>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1" disabled={sharing}>
+            Cancel
+          </Button>
+          <Button onClick={handleShare} disabled={!selectedDoctor || sharing} className="flex-1">
+            {sharing ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Sharing...
+              </>
+            ) : (
+              "Share Securely"
+            )}
+          </Button>
+        </div>
+
+        {target?.type === "file" && (
+          <RevokeAccessDialog
+            resourceName={target.file.file_name}
+            recipientName={revokeShare?.recipient?.full_name}
+            open={!!revokeShare}
+            onOpenChange={(isOpen) => !isOpen && setRevokeShare(null)}
+            onRevoke={(rotateKey) => revokeFileShare(target.file, target.folderName, revokeShare.recipient_id, rotateKey)}
+            onRevoked={handleRevoked}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareFileDialog;
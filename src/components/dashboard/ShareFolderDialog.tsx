@@ -14,11 +14,15 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { Loader2, Shield } from "lucide-react";
-import { encryptKeyWithRSA, decryptKeyWithRSA } from "@/lib/encryption";
-import { Blockchain, BlockData } from "@/lib/blockchain";
+import { CareTeam, fetchCareTeams, shareFolderWithTeam } from "@/lib/careTeams";
+import { shareFolder } from "@/lib/fileShares";
+import { DEFAULT_SHARE_TERMS, ShareTerms, isExpired } from "@/lib/shareTerms";
+import { errorMessage } from "@/lib/utils";
+import ShareTermsFields from "./ShareTermsFields";
 
 interface ShareFolderDialogProps {
   folder: {
@@ -30,6 +34,9 @@ interface ShareFolderDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess: () => void;
+  // Doctor to preselect, e.g. the requester when approving an access request
+  initialDoctorId?: string;
+  onShared?: (receiverId: string) => void;
 }
 
 interface Doctor {
@@ -43,14 +50,25 @@ const ShareFolderDialog = ({
   open,
   onOpenChange,
   onSuccess,
+  initialDoctorId,
+  onShared,
 }: ShareFolderDialogProps) => {
   const [doctors, setDoctors] = useState<Doctor[]>([]);
   const [selectedDoctor, setSelectedDoctor] = useState<string>("");
+  const [teams, setTeams] = useState<CareTeam[]>([]);
+  const [selectedTeam, setSelectedTeam] = useState<string>("");
+  const [target, setTarget] = useState<"doctor" | "team">("doctor");
+  const [terms, setTerms] = useState<ShareTerms>(DEFAULT_SHARE_TERMS);
   const [sharing, setSharing] = useState(false);
 
   useEffect(() => {
     if (open && folder) {
+      setSelectedDoctor(initialDoctorId || "");
+      setSelectedTeam("");
+      setTarget("doctor");
+      setTerms(DEFAULT_SHARE_TERMS);
       loadDoctors();
+      loadTeams();
     }
   }, [open, folder]);
 
@@ -69,166 +87,55 @@ const ShareFolderDialog = ({
     }
   };
 
-  const handleShare = async () => {
-    if (!selectedDoctor || !folder) return;
-
-    setSharing(true);
+  const loadTeams = async () => {
     try {
-      // Get receiver's public and private keys, sender's name, and owner's private key
-      const [receiverResult, senderResult, ownerResult] = await Promise.all([
-        supabase
-          .from("profiles")
-          .select("public_key_pem, private_key_pem, full_name")
-          .eq("id", selectedDoctor)
-          .single(),
-        supabase
-          .from("profiles")
-          .select("full_name")
-          .eq("id", folder.owner_id)
-          .single(),
-        supabase
-          .from("profiles")
-          .select("private_key_pem")
-          .eq("id", folder.owner_id)
-          .single(),
-      ]);
-
-      if (receiverResult.error) throw receiverResult.error;
-      if (senderResult.error) throw senderResult.error;
-      if (ownerResult.error) throw ownerResult.error;
-
-      const receiverPublicKey = receiverResult.data.public_key_pem;
-      const receiverPrivateKey = receiverResult.data.private_key_pem;
-      const receiverName = receiverResult.data.full_name;
-      const senderName = senderResult.data.full_name;
-      const ownerPrivateKey = ownerResult.data.private_key_pem;
-
-      if (!receiverPublicKey) {
-        toast.error("Receiver's public key not found");
-        return;
-      }
-
-      if (!receiverPrivateKey) {
-        toast.error("Receiver's private key not found");
-        return;
-      }
-
-      if (!ownerPrivateKey) {
-        toast.error("Owner's private key not found");
-        return;
-      }
-
-      // Get all files in the folder with their encrypted AES keys
-      const { data: files, error: filesError } = await supabase
-        .from("encrypted_files")
-        .select("id, encrypted_aes_key")
-        .eq("folder_id", folder.id);
-
-      if (filesError) throw filesError;
-
-      if (!files || files.length === 0) {
-        toast.error("No files found in folder");
-        return;
-      }
-
-      // Re-encrypt each file's AES key with receiver's public key and verify
-      for (const file of files) {
-        // Decrypt the AES key with owner's private key
-        const aesKey = decryptKeyWithRSA(file.encrypted_aes_key, ownerPrivateKey);
-        
-        if (!aesKey) {
-          console.error(`Failed to decrypt AES key for file ${file.id}`);
-          toast.error(`Failed to decrypt AES key for file ${file.id}`);
-          continue;
-        }
+      setTeams(await fetchCareTeams());
+    } catch (error) {
+      console.error("Error loading care teams:", error);
+      toast.error("Failed to load care teams");
+    }
+  };
 
-        // Re-encrypt with receiver's public key
-        const receiverEncryptedKey = encryptKeyWithRSA(aesKey, receiverPublicKey);
+  // One copy of each file key, wrapped with the team's public key
+  const handleShareWithTeam = async () => {
+    if (!selectedTeam || !folder) return;
 
-        // Verify encryption/decryption cycle by decrypting with receiver's private key
-        const verifiedKey = decryptKeyWithRSA(receiverEncryptedKey, receiverPrivateKey);
-        
-        if (!verifiedKey || verifiedKey !== aesKey) {
-          console.error(`Encryption verification failed for file ${file.id}`);
-          toast.error("Encryption verification failed. Please try again.");
-          return;
-        }
+    setSharing(true);
+    try {
+      const teamName = await shareFolderWithTeam(folder, folder.owner_id, selectedTeam, terms);
+      toast.success(`Folder securely shared with ${teamName}`);
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error sharing folder with team:", error);
+      toast.error(errorMessage(error, "Failed to share folder with team"));
+    } finally {
+      setSharing(false);
+    }
+  };
 
-        // Update file with receiver info and receiver's encrypted key
-        const { error: updateError } = await supabase
-          .from("encrypted_files")
-          .update({
-            receiver_id: selectedDoctor,
-            receiver_encrypted_aes_key: receiverEncryptedKey,
-          })
-          .eq("id", file.id);
+  const handleShare = async () => {
+    if (!selectedDoctor || !folder) return;
+    if (isExpired(terms.expiresAt)) {
+      toast.error("The expiry must be in the future");
+      return;
+    }
 
-        if (updateError) {
-          console.error(`Error updating file ${file.id}:`, updateError);
-          throw updateError;
-        }
+    setSharing(true);
+    try {
+      const { receiverName, skippedFiles } = await shareFolder(folder, selectedDoctor, terms);
+      for (const fileName of skippedFiles) {
+        toast.error(`Failed to decrypt AES key for ${fileName}`);
       }
 
-      // Update folder with receiver information
-      const { error: folderError } = await supabase
-        .from("encrypted_folders")
-        .update({ receiver_id: selectedDoctor })
-        .eq("id", folder.id);
-
-      if (folderError) throw folderError;
-
-      // Create blockchain entry for folder sharing
-      const blockData: BlockData = {
-        fileName: `Folder: ${folder.folder_name} (${files.length} files)`,
-        fileHash: folder.folder_hash,
-        senderId: folder.owner_id,
-        senderName: senderName,
-        receiverId: selectedDoctor,
-        receiverName: receiverName,
-        timestamp: new Date().toISOString(),
-      };
-
-      // Get the latest block to calculate new hash
-      const { data: latestBlock } = await supabase
-        .from("blockchain_renewed")
-        .select("block_index, current_hash")
-        .order("block_index", { ascending: false })
-        .limit(1)
-        .maybeSingle();
-
-      const newBlockIndex = latestBlock ? latestBlock.block_index + 1 : 0;
-      const previousHash = latestBlock?.current_hash || "0";
-
-      // Calculate new hash
-      const blockchain = new Blockchain();
-      const newHash = blockchain.calculateHash(
-        newBlockIndex,
-        new Date().toISOString(),
-        blockData,
-        previousHash
-      );
-
-      // Insert blockchain entry
-      const { error: blockchainError } = await supabase
-        .from("blockchain_renewed")
-        .insert([{
-          block_index: newBlockIndex,
-          previous_hash: previousHash,
-          current_hash: newHash,
-          data_json: blockData as any,
-          sender_id: folder.owner_id,
-          receiver_id: selectedDoctor,
-        }]);
-
-      if (blockchainError) throw blockchainError;
-
       toast.success(`Folder securely shared with ${receiverName}`);
       onSuccess();
+      onShared?.(selectedDoctor);
       onOpenChange(false);
       setSelectedDoctor("");
     } catch (error: any) {
       console.error("Error sharing folder:", error);
-      toast.error("Failed to share folder");
+      toast.error(error.message || "Failed to share folder");
     } finally {
       setSharing(false);
     }
@@ -243,35 +150,64 @@ const ShareFolderDialog = ({
             Secure Share Folder
           </DialogTitle>
           <DialogDescription>
-            Share "{folder?.folder_name}" securely with another verified doctor.
-            All files will be re-encrypted with the recipient's public key.
+            Share "{folder?.folder_name}" securely with another verified doctor or one of your care teams.
+            All file keys will be re-encrypted with the recipient's or the team's public key.
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4 py-4">
-          <div className="space-y-2">
-            <label className="text-sm font-medium">Select Doctor</label>
-            <Select value={selectedDoctor} onValueChange={setSelectedDoctor}>
-              <SelectTrigger>
-                <SelectValue placeholder="Choose a verified doctor" />
-              </SelectTrigger>
-              <SelectContent>
-                {doctors.map((doctor) => (
-                  <SelectItem key={doctor.id} value={doctor.id}>
-                    {doctor.full_name}
-                    {doctor.specialization && ` - ${doctor.specialization}`}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+          <Tabs value={target} onValueChange={(value) => setTarget(value as "doctor" | "team")}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="doctor">Doctor</TabsTrigger>
+              <TabsTrigger value="team">Care Team</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="doctor">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Select Doctor</label>
+                <Select value={selectedDoctor} onValueChange={setSelectedDoctor}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a verified doctor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {doctors.map((doctor) => (
+                      <SelectItem key={doctor.id} value={doctor.id}>
+                        {doctor.full_name}
+                        {doctor.specialization && ` - ${doctor.specialization}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="team">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Select Team</label>
+                <Select value={selectedTeam} onValueChange={setSelectedTeam}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={teams.length > 0 ? "Choose a care team" : "You aren't in any care teams"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {teams.map((team) => (
+                      <SelectItem key={team.id} value={team.id}>
+                        {team.name} ({team.members.length} members)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </TabsContent>
+          </Tabs>
+
+          <ShareTermsFields terms={terms} onChange={setTerms} disabled={sharing} />
 
           <div className="bg-muted p-3 rounded-lg text-sm">
             <p className="font-medium mb-1">🔒 Security Features:</p>
             <ul className="text-muted-foreground space-y-1 text-xs">
               <li>• End-to-end encryption with RSA-2048</li>
               <li>• Blockchain audit trail</li>
-              <li>• Keys re-encrypted per recipient</li>
+              <li>• Keys re-encrypted per recipient, or once per care team</li>
             </ul>
           </div>
         </div>
@@ -286,8 +222,8 @@ const ShareFolderDialog = ({
             Cancel
           </Button>
           <Button
-            onClick={handleShare}
-            disabled={!selectedDoctor || sharing}
+            onClick={target === "team" ? handleShareWithTeam : handleShare}
+            disabled={(target === "team" ? !selectedTeam : !selectedDoctor) || sharing}
             className="flex-1"
           >
             {sharing ? (
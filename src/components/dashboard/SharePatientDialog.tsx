@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { Loader2, Shield, UserX } from "lucide-react";
+import { Patient, PatientShare, fetchPatientShares, revokePatientShare, sharePatient } from "@/lib/patients";
+import { DEFAULT_SHARE_TERMS, ShareTerms, describeShareTerms, isExpired } from "@/lib/shareTerms";
+import { errorMessage } from "@/lib/utils";
+import ShareTermsFields from "./ShareTermsFields";
+
+type Doctor = Pick<Tables<"profiles">, "id" | "full_name" | "specialization">;
+
+// Items a share or revocation left out, each with the reason
+interface LeftOut {
+  heading: string;
+  reasons: string[];
+}
+
+interface SharePatientDialogProps {
+  patient: Patient | null;
+  patientName: string;
+  itemCount: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+const SharePatientDialog = ({ patient, patientName, itemCount, open, onOpenChange, onSuccess }: SharePatientDialogProps) => {
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [shares, setShares] = useState<PatientShare[]>([]);
+  const [selectedDoctor, setSelectedDoctor] = useState("");
+  const [terms, setTerms] = useState<ShareTerms>(DEFAULT_SHARE_TERMS);
+  const [sharing, setSharing] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [leftOut, setLeftOut] = useState<LeftOut | null>(null);
+
+  const patientId = patient?.id;
+  const ownerId = patient?.owner_id;
+
+  const loadDoctors = useCallback(async () => {
+    try {
+      const [{ data, error }, patientShares] = await Promise.all([
+        supabase.from("profiles").select("id, full_name, specialization").neq("id", ownerId),
+        fetchPatientShares(patientId),
+      ]);
+
+      if (error) throw error;
+      setDoctors(data || []);
+      setShares(patientShares);
+    } catch (error) {
+      console.error("Error loading doctors:", error);
+      toast.error("Failed to load doctors");
+    }
+  }, [patientId, ownerId]);
+
+  useEffect(() => {
+    if (open && patientId) {
+      setSelectedDoctor("");
+      setTerms(DEFAULT_SHARE_TERMS);
+      setLeftOut(null);
+      loadDoctors();
+    }
+  }, [open, patientId, loadDoctors]);
+
+  const handleShare = async () => {
+    if (!selectedDoctor || !patient) return;
+    if (isExpired(terms.expiresAt)) {
+      toast.error("The expiry must be in the future");
+      return;
+    }
+
+    setSharing(true);
+    try {
+      const result = await sharePatient(patient, selectedDoctor, terms);
+      onSuccess();
+
+      if (result.skipped.length === 0) {
+        toast.success(`${patientName} securely shared with ${result.receiverName}`);
+        onOpenChange(false);
+      } else {
+        // Stay open so the owner can see what was left out
+        toast.warning(`Shared with ${result.receiverName}, but ${result.skipped.length} item(s) were skipped`);
+        setLeftOut({ heading: "Not shared:", reasons: result.skipped });
+        setShares(await fetchPatientShares(patient.id));
+      }
+    } catch (error) {
+      console.error("Error sharing patient:", error);
+      toast.error(errorMessage(error, "Failed to share patient"));
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleRevoke = async (share: PatientShare) => {
+    if (!patient) return;
+
+    setRevokingId(share.recipient_id);
+    setLeftOut(null);
+    try {
+      const result = await revokePatientShare(patient, share.recipient_id);
+      if (result.failed.length === 0) {
+        toast.success(`Access revoked for ${result.recipientName}`);
+      } else {
+        toast.warning(`Revoked for ${result.recipientName}, but ${result.failed.length} item(s) could not be revoked`);
+        setLeftOut({ heading: "Still shared:", reasons: result.failed });
+      }
+      setShares(await fetchPatientShares(patient.id));
+      onSuccess();
+    } catch (error) {
+      console.error("Error revoking patient share:", error);
+      toast.error(errorMessage(error, "Failed to revoke access"));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const sharedWith = new Set(shares.map((share) => share.recipient_id));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Shield className="w-5 h-5" />
+            Share Patient
+          </DialogTitle>
+          <DialogDescription>
+            Share {patientName} and the {itemCount} item(s) in their chart now with another verified doctor.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {shares.length > 0 && (
+            <div className="space-y-2">
+              <Label>Shared With</Label>
+              <ul className="space-y-1 text-sm">
+                {shares.map((share) => (
+                  <li key={share.id} className="flex items-center justify-between gap-2">
+                    <span className="flex-1">{share.recipient?.full_name || "Unknown Doctor"}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {describeShareTerms(share.permission, share.expires_at)}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRevoke(share)}
+                      disabled={sharing || revokingId !== null}
+                      title="Revoke access"
+                    >
+                      {revokingId === share.recipient_id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <UserX className="w-4 h-4" />
+                      )}
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Select Doctor</Label>
+            <Select value={selectedDoctor} onValueChange={setSelectedDoctor} disabled={sharing || revokingId !== null}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a verified doctor" />
+              </SelectTrigger>
+              <SelectContent>
+                {doctors.map((doctor) => (
+                  <SelectItem key={doctor.id} value={doctor.id}>
+                    {doctor.full_name}
+                    {doctor.specialization && ` - ${doctor.specialization}`}
+                    {sharedWith.has(doctor.id) && " (share again)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <ShareTermsFields terms={terms} onChange={setTerms} disabled={sharing} />
+
+          {leftOut && (
+            <div className="space-y-1 text-xs bg-destructive/10 p-3 rounded-lg">
+              <p className="font-medium">{leftOut.heading}</p>
+              <ul className="text-muted-foreground space-y-1">
+                {leftOut.reasons.map((reason) => (
+                  <li key={reason}>• {reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="bg-muted p-3 rounded-lg text-sm">
+            <p className="font-medium mb-1">🔒 How patient sharing works:</p>
+            <ul className="text-muted-foreground space-y-1 text-xs">
+              <li>• Demographics and every item key re-encrypted for the recipient</li>
+              <li>• Each item's share recorded on the blockchain, plus one patient entry</li>
+              <li>• Images and folders already shared with someone else are left out</li>
+              <li>• Only items filed now are shared; items filed later need the patient shared again</li>
+              <li>• Revoking here removes the patient and the items this share gave that doctor; items shared with them on their own stay</li>
+            </ul>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1" disabled={sharing}>
+            {leftOut ? "Close" : "Cancel"}
+          </Button>
+          <Button onClick={handleShare} disabled={!selectedDoctor || sharing || revokingId !== null} className="flex-1">
+            {sharing ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Sharing...
+              </>
+            ) : (
+              "Share Securely"
+            )}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SharePatientDialog;
@@ -8,139 +8,160 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { UserX } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
-import { encryptKeyWithRSA } from "@/lib/encryption";
-import { Blockchain, BlockData } from "@/lib/blockchain";
+import { RecordShare, downstreamShares, fetchRecordShares, shareRecord } from "@/lib/recordShares";
+import { revokeRecordShare } from "@/lib/revocation";
+import {
+  DEFAULT_SHARE_TERMS,
+  RESHARE_POLICY_HINTS,
+  RESHARE_POLICY_LABELS,
+  ResharePolicy,
+  ShareTerms,
+  canReshare,
+  delegablePolicies,
+  delegationError,
+  describeShareTerms,
+  isExpired,
+} from "@/lib/shareTerms";
+import RevokeAccessDialog from "./RevokeAccessDialog";
+import ShareTermsFields from "./ShareTermsFields";
 
 interface ShareRecordDialogProps {
   record: any;
+  // The doctor sharing; a recipient other than the owner re-shares. Defaults to the owner.
+  profileId?: string;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess: () => void;
+  // Doctors to preselect, e.g. the requester when approving an access request
+  initialRecipientIds?: string[];
+  onShared?: (recipientIds: string[]) => void;
 }
 
-const ShareRecordDialog = ({ record, open, onOpenChange, onSuccess }: ShareRecordDialogProps) => {
+// The owner sees every share, with re-shares under the share they came from
+const shareTree = (shares: RecordShare[]): { share: RecordShare; depth: number }[] => {
+  const ids = new Set(shares.map((share) => share.id));
+  const branch = (share: RecordShare, depth: number): { share: RecordShare; depth: number }[] => [
+    { share, depth },
+    ...shares.filter((child) => child.parent_share_id === share.id).flatMap((child) => branch(child, depth + 1)),
+  ];
+  return shares
+    .filter((share) => !share.parent_share_id || !ids.has(share.parent_share_id))
+    .flatMap((share) => branch(share, 0));
+};
+
+const ShareRecordDialog = ({
+  record: initialRecord,
+  profileId,
+  open,
+  onOpenChange,
+  onSuccess,
+  initialRecipientIds,
+  onShared,
+}: ShareRecordDialogProps) => {
+  // Revoking with rotation replaces the record's key, so keep a fresh copy of the row
+  const [record, setRecord] = useState(initialRecord);
   const [doctors, setDoctors] = useState<any[]>([]);
-  const [selectedDoctorId, setSelectedDoctorId] = useState("");
+  const [shares, setShares] = useState<RecordShare[]>([]);
+  const [selectedDoctorIds, setSelectedDoctorIds] = useState<string[]>([]);
+  const [terms, setTerms] = useState<ShareTerms>(DEFAULT_SHARE_TERMS);
+  const [resharePolicy, setResharePolicy] = useState<ResharePolicy>("none");
   const [sharing, setSharing] = useState(false);
+  const [revokeShare, setRevokeShare] = useState<RecordShare | null>(null);
+
+  const senderId = profileId || record?.owner_id;
+  const isOwner = senderId === record?.owner_id;
+  // The share a delegate re-shares from, and the shares they made from it
+  const heldShare = isOwner ? null : shares.find((share) => share.recipient_id === senderId);
+  const listedShares = isOwner
+    ? shareTree(shares)
+    : shares.filter((share) => share.shared_by === senderId).map((share) => ({ share, depth: 0 }));
+  const policies: ResharePolicy[] = isOwner ? ["none", "once", "free"] : delegablePolicies(heldShare?.reshare_policy);
+  const downstreamCount = revokeShare ? downstreamShares(shares, revokeShare.id).length : 0;
+
+  useEffect(() => {
+    setRecord(initialRecord);
+  }, [initialRecord]);
 
   useEffect(() => {
-    if (open) {
+    if (open && record) {
+      setSelectedDoctorIds(initialRecipientIds || []);
+      setTerms(DEFAULT_SHARE_TERMS);
+      setResharePolicy("none");
       loadDoctors();
     }
-  }, [open]);
+  }, [open, record?.id]);
 
   const loadDoctors = async () => {
     try {
-      const { data, error } = await supabase
-        .from("profiles")
-        .select("id, full_name, specialization")
-        .neq("id", record?.owner_id);
+      const [{ data, error }, recordShares] = await Promise.all([
+        supabase
+          .from("profiles")
+          .select("id, full_name, specialization")
+          .neq("id", record?.owner_id)
+          .neq("id", senderId),
+        fetchRecordShares(record.id),
+      ]);
 
       if (error) throw error;
       setDoctors(data || []);
+      setShares(recordShares);
     } catch (error: any) {
       console.error("Error loading doctors:", error);
       toast.error("Error loading doctors list");
     }
   };
 
+  const toggleDoctor = (doctorId: string, checked: boolean) => {
+    setSelectedDoctorIds((ids) => (checked ? [...ids, doctorId] : ids.filter((id) => id !== doctorId)));
+  };
+
   const handleShare = async () => {
-    if (!selectedDoctorId) {
-      toast.error("Please select a doctor to share with");
+    if (selectedDoctorIds.length === 0) {
+      toast.error("Please select at least one doctor to share with");
+      return;
+    }
+    // RLS enforces the same limits; checking here gives a clearer message
+    const termsError = heldShare && delegationError(heldShare, terms);
+    if (termsError) {
+      toast.error(termsError);
       return;
     }
 
     setSharing(true);
 
     try {
-      // Get receiver's public key
-      const { data: receiverProfile } = await supabase
-        .from("profiles")
-        .select("public_key_pem, full_name")
-        .eq("id", selectedDoctorId)
-        .single();
-
-      // Get sender's profile
-      const { data: senderProfile } = await supabase
-        .from("profiles")
-        .select("full_name")
-        .eq("id", record.owner_id)
-        .single();
-
-      // Encrypt the AES key with receiver's public key (simplified for demo)
-      const encryptedKey = receiverProfile?.public_key_pem 
-        ? encryptKeyWithRSA(record.encrypted_aes_key, receiverProfile.public_key_pem)
-        : record.encrypted_aes_key;
-
-      // Update the record with sharing information
-      const { error: updateError } = await supabase
-        .from("medical_records")
-        .update({
-          shared_with_id: selectedDoctorId,
-          encrypted_aes_key: encryptedKey,
-        })
-        .eq("id", record.id);
-
-      if (updateError) throw updateError;
-
-      // Add blockchain entry for the sharing event
-      const blockData: BlockData = {
-        fileName: record.file_name,
-        fileHash: record.file_hash,
-        senderId: record.owner_id,
-        senderName: senderProfile?.full_name || "Doctor",
-        receiverId: selectedDoctorId,
-        receiverName: receiverProfile?.full_name || "Doctor",
-        timestamp: new Date().toISOString()
-      };
-
-      // Get the latest block index
-      const { data: latestBlock } = await supabase
-        .from("blockchain_renewed")
-        .select("block_index")
-        .order("block_index", { ascending: false })
-        .limit(1)
-        .single();
-
-      const newBlockIndex = latestBlock ? latestBlock.block_index + 1 : 0;
-
-      // Get previous hash
-      const { data: previousBlock } = await supabase
-        .from("blockchain_renewed")
-        .select("current_hash")
-        .eq("block_index", newBlockIndex - 1)
-        .single();
-
-      const previousHash = previousBlock?.current_hash || "0";
-
-      // Calculate new hash using blockchain.ts
-      const blockchain = new Blockchain();
-      const timestamp = new Date().toISOString();
-      const calculatedHash = blockchain.calculateHash(
-        newBlockIndex,
-        timestamp,
-        blockData,
-        previousHash
-      );
-
-      // Insert blockchain record with all calculated values
-      await supabase.from("blockchain_renewed").insert([{
-        block_index: newBlockIndex,
-        timestamp: timestamp,
-        previous_hash: previousHash,
-        current_hash: calculatedHash,
-        data_json: blockData as any,
-        sender_id: record.owner_id,
-        receiver_id: selectedDoctorId,
-      }]);
-
-      toast.success("Medical record shared securely!");
-      onSuccess();
-      onOpenChange(false);
+      const outcomes = await shareRecord(record, senderId, selectedDoctorIds, terms, resharePolicy);
+      const shared = outcomes.filter((outcome) => !outcome.error);
+      const failed = outcomes.filter((outcome) => outcome.error);
+
+      if (shared.length > 0) {
+        toast.success(`Medical record shared securely with ${shared.map((outcome) => outcome.recipientName).join(", ")}`);
+        onSuccess();
+        onShared?.(shared.map((outcome) => outcome.recipientId));
+      }
+      for (const outcome of failed) {
+        toast.error(`Could not share with ${outcome.recipientName}: ${outcome.error}`);
+      }
+
+      if (failed.length === 0) {
+        onOpenChange(false);
+      } else {
+        // Keep the dialog open with only the failed recipients selected
+        setSelectedDoctorIds(failed.map((outcome) => outcome.recipientId));
+        setShares(await fetchRecordShares(record.id));
+      }
     } catch (error: any) {
       console.error("Share error:", error);
       toast.error(error.message || "Error sharing record");
@@ -149,39 +170,137 @@ const ShareRecordDialog = ({ record, open, onOpenChange, onSuccess }: ShareRecor
     }
   };
 
+  const handleRevoked = async () => {
+    try {
+      const [{ data, error }, recordShares] = await Promise.all([
+        supabase.from("medical_records").select("*").eq("id", record.id).single(),
+        fetchRecordShares(record.id),
+      ]);
+
+      if (error) throw error;
+      setRecord(data);
+      setShares(recordShares);
+    } catch (error: any) {
+      console.error("Error reloading record:", error);
+    }
+    onSuccess();
+  };
+
+  // Doctors whose share has expired can be shared with again
+  const sharedWith = new Set(
+    shares.filter((share) => !isExpired(share.expires_at)).map((share) => share.recipient_id)
+  );
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent>
         <DialogHeader>
-          <DialogTitle>Share Medical Record</DialogTitle>
+          <DialogTitle>{isOwner ? "Share Medical Record" : "Re-share Medical Record"}</DialogTitle>
           <DialogDescription>
-            Select a doctor to securely share "{record?.file_name}" with using encryption
+            Select the doctors to securely share "{record?.file_name}" with using encryption
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4 py-4">
+          {heldShare && (
+            <p className="text-xs text-muted-foreground bg-muted/50 p-3 rounded-lg">
+              Your access: {describeShareTerms(heldShare.permission, heldShare.expires_at)}. Re-shares can't go beyond
+              it, and the owner can see and revoke them.
+            </p>
+          )}
+
+          {listedShares.length > 0 && (
+            <div className="space-y-2">
+              <Label>{isOwner ? "Shared With" : "Re-shared By You"}</Label>
+              <ul className="space-y-1 text-sm">
+                {listedShares.map(({ share, depth }) => (
+                  <li
+                    key={share.id}
+                    className="flex items-center justify-between gap-2"
+                    style={{ paddingLeft: `${depth * 1.25}rem` }}
+                  >
+                    <span className="flex-1">
+                      {share.recipient?.full_name || "Unknown Doctor"}
+                      {depth > 0 && (
+                        <span className="text-xs text-muted-foreground"> via {share.sharer?.full_name || "Unknown Doctor"}</span>
+                      )}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {describeShareTerms(share.permission, share.expires_at)}
+                      {canReshare(share.reshare_policy) && ` · ${RESHARE_POLICY_LABELS[share.reshare_policy as ResharePolicy]}`}
+                    </span>
+                    {isOwner && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setRevokeShare(share)}
+                        disabled={sharing}
+                        title="Revoke access"
+                      >
+                        <UserX className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="space-y-2">
-            <Label htmlFor="doctor-select">Select Doctor</Label>
-            <Select value={selectedDoctorId} onValueChange={setSelectedDoctorId}>
-              <SelectTrigger id="doctor-select">
-                <SelectValue placeholder="Choose a doctor" />
+            <Label>Select Doctors</Label>
+            <div className="max-h-60 overflow-y-auto border rounded-lg divide-y">
+              {doctors.map((doctor) => {
+                const alreadyShared = sharedWith.has(doctor.id);
+                return (
+                  <label
+                    key={doctor.id}
+                    className={`flex items-center gap-3 p-3 text-sm ${alreadyShared ? "opacity-60" : "cursor-pointer"}`}
+                  >
+                    <Checkbox
+                      checked={alreadyShared || selectedDoctorIds.includes(doctor.id)}
+                      onCheckedChange={(checked) => toggleDoctor(doctor.id, checked === true)}
+                      disabled={alreadyShared || sharing}
+                    />
+                    <span className="flex-1">
+                      {doctor.full_name} {doctor.specialization && `- ${doctor.specialization}`}
+                    </span>
+                    {alreadyShared && <span className="text-xs text-muted-foreground">Already shared</span>}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          <ShareTermsFields terms={terms} onChange={setTerms} disabled={sharing} />
+
+          <div className="space-y-2">
+            <Label>Re-sharing</Label>
+            <Select
+              value={resharePolicy}
+              onValueChange={(policy) => setResharePolicy(policy as ResharePolicy)}
+              disabled={sharing || policies.length < 2}
+            >
+              <SelectTrigger>
+                <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {doctors.map((doctor) => (
-                  <SelectItem key={doctor.id} value={doctor.id}>
-                    {doctor.full_name} {doctor.specialization && `- ${doctor.specialization}`}
+                {policies.map((policy) => (
+                  <SelectItem key={policy} value={policy}>
+                    {RESHARE_POLICY_LABELS[policy]}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
+            <p className="text-xs text-muted-foreground">{RESHARE_POLICY_HINTS[resharePolicy]}</p>
           </div>
 
           <div className="text-xs text-muted-foreground bg-muted/50 p-3 rounded-lg">
             <p className="font-semibold mb-1">Secure Sharing Process:</p>
             <ol className="list-decimal list-inside space-y-1">
-              <li>AES key encrypted with receiver's RSA public key</li>
-              <li>Only receiver can decrypt with their private key</li>
-              <li>Sharing event recorded on blockchain</li>
+              <li>AES key encrypted separately with each receiver's RSA public key</li>
+              <li>Only each receiver can decrypt their copy with their private key</li>
+              <li>Each sharing event recorded on blockchain, re-shares included</li>
+              <li>Access ends automatically when a share expires</li>
               <li>Complete audit trail maintained</li>
             </ol>
           </div>
@@ -191,10 +310,28 @@ const ShareRecordDialog = ({ record, open, onOpenChange, onSuccess }: ShareRecor
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
-          <Button onClick={handleShare} disabled={!selectedDoctorId || sharing}>
-            {sharing ? "Sharing..." : "Share Securely"}
+          <Button onClick={handleShare} disabled={selectedDoctorIds.length === 0 || sharing}>
+            {sharing
+              ? "Sharing..."
+              : `Share Securely${selectedDoctorIds.length > 1 ? ` with ${selectedDoctorIds.length} Doctors` : ""}`}
           </Button>
         </DialogFooter>
+
+        <RevokeAccessDialog
+          resourceName={record?.file_name}
+          recipientName={
+            revokeShare &&
+            `${revokeShare.recipient?.full_name || "the recipient"}${
+              downstreamCount > 0
+                ? ` and the ${downstreamCount} doctor${downstreamCount === 1 ? "" : "s"} they re-shared it with`
+                : ""
+            }`
+          }
+          open={!!revokeShare}
+          onOpenChange={(isOpen) => !isOpen && setRevokeShare(null)}
+          onRevoke={(rotateKey) => revokeRecordShare(record, revokeShare.recipient_id, rotateKey)}
+          onRevoked={handleRevoked}
+        />
       </DialogContent>
     </Dialog>
   );
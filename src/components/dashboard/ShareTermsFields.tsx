@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SHARE_PERMISSION_LABELS, SharePermission, ShareTerms } from "@/lib/shareTerms";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Preset consult windows, in hours from now
+const EXPIRY_PRESETS: Record<string, { label: string; hours: number | null }> = {
+  never: { label: "Never", hours: null },
+  "24h": { label: "24 hours", hours: 24 },
+  "7d": { label: "7 days", hours: 7 * 24 },
+  "30d": { label: "30 days", hours: 30 * 24 },
+};
+
+interface ShareTermsFieldsProps {
+  terms: ShareTerms;
+  onChange: (terms: ShareTerms) => void;
+  disabled?: boolean;
+}
+
+// A datetime-local input value in the browser's time zone
+const toLocalInputValue = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+const ShareTermsFields = ({ terms, onChange, disabled }: ShareTermsFieldsProps) => {
+  const [expiryPreset, setExpiryPreset] = useState(terms.expiresAt ? "custom" : "never");
+
+  const handlePresetChange = (preset: string) => {
+    setExpiryPreset(preset);
+    if (preset === "custom") {
+      onChange({ ...terms, expiresAt: terms.expiresAt || new Date(Date.now() + 24 * HOUR_MS).toISOString() });
+      return;
+    }
+    const hours = EXPIRY_PRESETS[preset].hours;
+    onChange({ ...terms, expiresAt: hours === null ? null : new Date(Date.now() + hours * HOUR_MS).toISOString() });
+  };
+
+  const handleCustomChange = (value: string) => {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) onChange({ ...terms, expiresAt: date.toISOString() });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-2">
+        <Label>Permission</Label>
+        <Select
+          value={terms.permission}
+          onValueChange={(permission) => onChange({ ...terms, permission: permission as SharePermission })}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SHARE_PERMISSION_LABELS) as SharePermission[]).map((permission) => (
+              <SelectItem key={permission} value={permission}>
+                {SHARE_PERMISSION_LABELS[permission]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Expires</Label>
+        <Select value={expiryPreset} onValueChange={handlePresetChange} disabled={disabled}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(EXPIRY_PRESETS).map(([preset, { label }]) => (
+              <SelectItem key={preset} value={preset}>
+                {label}
+              </SelectItem>
+            ))}
+            <SelectItem value="custom">Custom...</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {expiryPreset === "custom" && terms.expiresAt && (
+        <Input
+          type="datetime-local"
+          className="col-span-2"
+          value={toLocalInputValue(terms.expiresAt)}
+          min={toLocalInputValue(new Date().toISOString())}
+          onChange={(e) => handleCustomChange(e.target.value)}
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ShareTermsFields;
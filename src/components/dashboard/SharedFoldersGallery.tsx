@@ -1,10 +1,20 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
 import { toast } from "sonner";
-import { FolderOpen, Download, Loader2, Lock, FileText, UserCircle } from "lucide-react";
-import { decryptKeyWithRSA, decryptWithAES } from "@/lib/encryption";
+import { FolderOpen, Download, Loader2, Lock, FileText, UserCircle, ShieldCheck, Eye, Users } from "lucide-react";
+import { decryptKeyWithRSA } from "@/lib/encryption";
+import { downloadStoredFile } from "@/lib/encryptedStorage";
+import { CryptoWorkerPool, isAbortError } from "@/lib/cryptoWorkerPool";
+import { Progress } from "@/components/ui/progress";
+import { VaultKeys, getVaultKeys } from "@/lib/keyVault";
+import { fetchTeamFileKeys, unwrapTeamKey } from "@/lib/careTeams";
+import { unwrapWithVault } from "@/lib/recordShares";
+import { recordDecryption } from "@/lib/ledger";
+import { describeShareTerms, isViewOnly } from "@/lib/shareTerms";
+import { errorMessage } from "@/lib/utils";
 import {
   Dialog,
   DialogContent,
@@ -13,6 +23,9 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import InclusionProofDialog from "./InclusionProofDialog";
+import ProvenanceTimeline from "./ProvenanceTimeline";
 import JSZip from "jszip";
 
 interface SharedFolder {
@@ -24,6 +37,11 @@ interface SharedFolder {
   metadata: any;
   owner_id: string;
   sender_name: string;
+  share_permission: string;
+  share_expires_at: string | null;
+  // Set when the folder reached this doctor through a care team
+  team_id: string | null;
+  team_name: string | null;
 }
 
 interface EncryptedFile {
@@ -34,20 +52,50 @@ interface EncryptedFile {
   encrypted_aes_key: string;
   receiver_encrypted_aes_key: string | null;
   metadata: any;
+  merkle_proof: Json | null;
+  ledger_block_id: string | null;
   created_at: string;
 }
 
+// A single file shared on its own, outside of any folder share
+interface SharedFile {
+  id: string;
+  wrapped_key: string;
+  permission: string;
+  expires_at: string | null;
+  sender_name: string;
+  file: EncryptedFile & { folder_id: string };
+}
+
+// The private key that opens a folder's file keys, and where each key is
+interface FileKeyring {
+  privateKey: string;
+  legacyKey: string | null;
+  wrappedKeyFor: (file: Pick<EncryptedFile, "id" | "encrypted_aes_key" | "receiver_encrypted_aes_key">) => string;
+}
+
+interface FilePreview {
+  name: string;
+  url: string;
+  type: string;
+}
+
 interface SharedFoldersGalleryProps {
   profileId: string;
 }
 
 const SharedFoldersGallery = ({ profileId }: SharedFoldersGalleryProps) => {
   const [folders, setFolders] = useState<SharedFolder[]>([]);
+  const [sharedFiles, setSharedFiles] = useState<SharedFile[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedFolder, setSelectedFolder] = useState<SharedFolder | null>(null);
   const [folderFiles, setFolderFiles] = useState<EncryptedFile[]>([]);
   const [decrypting, setDecrypting] = useState(false);
+  const [proofFile, setProofFile] = useState<EncryptedFile | null>(null);
+  const [preview, setPreview] = useState<FilePreview | null>(null);
   const [downloadingFolder, setDownloadingFolder] = useState(false);
+  const [downloadProgress, setDownloadProgress] = useState(0);
+  const downloadAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     loadSharedFolders();
@@ -55,23 +103,77 @@ const SharedFoldersGallery = ({ profileId }: SharedFoldersGalleryProps) => {
 
   const loadSharedFolders = async () => {
     try {
-      const { data, error } = await supabase
-        .from("encrypted_folders")
-        .select(`
-          *,
-          sender:profiles!encrypted_folders_owner_id_fkey(full_name)
-        `)
-        .eq("receiver_id", profileId)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-
-      const formattedData = (data || []).map((folder: any) => ({
+      const [direct, viaTeams, individual] = await Promise.all([
+        supabase
+          .from("encrypted_folders")
+          .select(`
+            *,
+            sender:profiles!encrypted_folders_owner_id_fkey(full_name)
+          `)
+          .eq("receiver_id", profileId)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("folder_team_shares")
+          .select(`
+            team_id,
+            permission,
+            expires_at,
+            team:care_teams(name),
+            folder:encrypted_folders(*, sender:profiles!encrypted_folders_owner_id_fkey(full_name))
+          `),
+        supabase
+          .from("file_shares")
+          .select(`
+            *,
+            file:encrypted_files(*),
+            sharer:profiles!file_shares_shared_by_fkey(full_name)
+          `)
+          .eq("recipient_id", profileId)
+          .order("created_at", { ascending: false }),
+      ]);
+
+      if (direct.error) throw direct.error;
+      if (viaTeams.error) throw viaTeams.error;
+      if (individual.error) throw individual.error;
+
+      const formattedData: SharedFolder[] = (direct.data || []).map((folder) => ({
         ...folder,
-        sender_name: folder.sender?.full_name || "Unknown Doctor"
+        sender_name: folder.sender?.full_name || "Unknown Doctor",
+        team_id: null,
+        team_name: null,
       }));
 
+      // A folder shared directly as well as through a team is listed once.
+      // Shares of this doctor's own folders come back too and are skipped.
+      for (const share of viaTeams.data || []) {
+        const folder = share.folder;
+        if (!folder || folder.owner_id === profileId) continue;
+        if (formattedData.some((listed) => listed.id === folder.id)) continue;
+        formattedData.push({
+          ...folder,
+          sender_name: folder.sender?.full_name || "Unknown Doctor",
+          share_permission: share.permission,
+          share_expires_at: share.expires_at,
+          team_id: share.team_id,
+          team_name: share.team?.name || "Care team",
+        });
+      }
+
+      formattedData.sort((a, b) => b.created_at.localeCompare(a.created_at));
       setFolders(formattedData);
+
+      setSharedFiles(
+        (individual.data || [])
+          .filter((share) => share.file)
+          .map((share) => ({
+            id: share.id,
+            wrapped_key: share.wrapped_key,
+            permission: share.permission,
+            expires_at: share.expires_at,
+            sender_name: share.sharer?.full_name || "Unknown Doctor",
+            file: share.file,
+          }))
+      );
     } catch (error: any) {
       console.error("Error loading shared folders:", error);
       toast.error("Failed to load shared folders");
@@ -96,6 +198,51 @@ const SharedFoldersGallery = ({ profileId }: SharedFoldersGalleryProps) => {
     }
   };
 
+  // Folders shared with a care team open with the team key, which is
+  // unwrapped from this doctor's copy; direct shares use the vault key
+  const loadKeyring = async (folder: SharedFolder, fileIds: string[], vaultKeys: VaultKeys): Promise<FileKeyring> => {
+    if (!folder.team_id) {
+      return {
+        privateKey: vaultKeys.privateKey,
+        legacyKey: vaultKeys.legacyKey,
+        wrappedKeyFor: (file) => file.receiver_encrypted_aes_key || file.encrypted_aes_key,
+      };
+    }
+
+    const [privateKey, wrappedKeys] = await Promise.all([
+      unwrapTeamKey(folder.team_id, profileId),
+      fetchTeamFileKeys(folder.team_id, fileIds),
+    ]);
+    return {
+      privateKey,
+      legacyKey: null,
+      wrappedKeyFor: (file) => {
+        if (!wrappedKeys[file.id]) throw new Error("This file was added after the folder was shared with your team");
+        return wrappedKeys[file.id];
+      },
+    };
+  };
+
+  // View-only shares are shown in the browser instead of saved
+  const deliverFile = (name: string, blob: Blob, permission: string | null | undefined) => {
+    if (isViewOnly(permission)) {
+      setPreview({ name, url: URL.createObjectURL(blob), type: blob.type });
+      toast.success("File decrypted successfully");
+      return;
+    }
+
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+
+    toast.success("File decrypted and downloaded successfully");
+  };
+
   const handleViewFolder = async (folder: SharedFolder) => {
     setSelectedFolder(folder);
     await loadFolderFiles(folder.id);
@@ -104,72 +251,87 @@ const SharedFoldersGallery = ({ profileId }: SharedFoldersGalleryProps) => {
   const handleDecryptFile = async (file: EncryptedFile) => {
     setDecrypting(true);
     try {
-      // Get current user's private key (receiver)
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("private_key_pem")
-        .eq("id", profileId)
-        .single();
-
-      if (!profile?.private_key_pem) {
-        toast.error("Private key not found");
+      // Get private key from the unlocked key vault
+      const vaultKeys = getVaultKeys();
+      if (!vaultKeys) {
+        toast.error("Key vault is locked. Unlock it to decrypt files.");
         return;
       }
 
-      // Download encrypted file
-      const { data: fileData, error: downloadError } = await supabase.storage
-        .from('encrypted-images')
-        .download(file.encrypted_path);
-
-      if (downloadError) throw downloadError;
-
-      const encryptedContent = await fileData.text();
-
-      // Decrypt AES key with receiver's RSA private key (use receiver_encrypted_aes_key for shared files)
-      const encryptedKey = file.receiver_encrypted_aes_key || file.encrypted_aes_key;
-      const aesKey = decryptKeyWithRSA(encryptedKey, profile.private_key_pem);
-      
-      if (!aesKey) {
-        toast.error("Failed to decrypt encryption key");
-        return;
+      // Decrypt AES key with the receiver's or the team's RSA private key
+      const keyring = await loadKeyring(selectedFolder, [file.id], vaultKeys);
+      const aesKey = await decryptKeyWithRSA(keyring.wrappedKeyFor(file), keyring.privateKey, keyring.legacyKey);
+
+      // Download and decrypt file content
+      const blob = await downloadStoredFile(file, aesKey);
+      deliverFile(file.file_name, blob, selectedFolder?.share_permission);
+
+      if (selectedFolder) {
+        await recordDecryption({
+          senderId: profileId,
+          resourceType: "folder",
+          resourceId: selectedFolder.id,
+          resourceName: selectedFolder.folder_name,
+          fileName: file.file_name,
+          fileHash: file.file_hash,
+        });
       }
-
-      // Decrypt file content
-      const decryptedBase64 = decryptWithAES(encryptedContent, aesKey);
-
-      // Convert base64 to blob and download
-      const response = await fetch(decryptedBase64);
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = file.file_name;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
-
-      toast.success("File decrypted and downloaded successfully");
     } catch (error: any) {
       console.error("Error decrypting file:", error);
-      toast.error("Failed to decrypt file");
+      toast.error(error.message || "Failed to decrypt file");
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  // Individually shared files carry their own wrapped copy of the key
+  const handleDecryptSharedFile = async (share: SharedFile) => {
+    setDecrypting(true);
+    try {
+      const aesKey = await unwrapWithVault(share.wrapped_key);
+
+      const blob = await downloadStoredFile(share.file, aesKey);
+      deliverFile(share.file.file_name, blob, share.permission);
+
+      // The folder itself isn't shared, so its name isn't readable here
+      await recordDecryption({
+        senderId: profileId,
+        resourceType: "folder",
+        resourceId: share.file.folder_id,
+        resourceName: share.file.file_name,
+        fileHash: share.file.file_hash,
+      });
+    } catch (error) {
+      console.error("Error decrypting shared file:", error);
+      toast.error(errorMessage(error, "Failed to decrypt file"));
     } finally {
       setDecrypting(false);
     }
   };
 
+  const handleClosePreview = () => {
+    if (preview) URL.revokeObjectURL(preview.url);
+    setPreview(null);
+  };
+
   const handleDownloadFolder = async (folder: SharedFolder) => {
+    if (isViewOnly(folder.share_permission)) {
+      toast.error("This folder was shared view-only");
+      return;
+    }
+
     setDownloadingFolder(true);
+    setDownloadProgress(0);
+
+    const controller = new AbortController();
+    downloadAbortRef.current = controller;
+    const pool = new CryptoWorkerPool();
+
     try {
-      // Get current user's private key (receiver)
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("private_key_pem")
-        .eq("id", profileId)
-        .single();
-
-      if (!profile?.private_key_pem) {
-        toast.error("Private key not found");
+      // Get private key from the unlocked key vault
+      const vaultKeys = getVaultKeys();
+      if (!vaultKeys) {
+        toast.error("Key vault is locked. Unlock it to decrypt files.");
         return;
       }
 
@@ -185,6 +347,8 @@ const SharedFoldersGallery = ({ profileId }: SharedFoldersGalleryProps) => {
         return;
       }
 
+      const keyring = await loadKeyring(folder, files.map((file) => file.id), vaultKeys);
+
       // Create ZIP file
       const zip = new JSZip();
       const folderZip = zip.folder(folder.folder_name);
@@ -194,41 +358,45 @@ const SharedFoldersGallery = ({ profileId }: SharedFoldersGalleryProps) => {
         return;
       }
 
-      // Decrypt and add each file to ZIP
-      for (const file of files) {
-        try {
-          // Download encrypted file
-          const { data: fileData, error: downloadError } = await supabase.storage
-            .from('encrypted-images')
-            .download(file.encrypted_path);
-
-          if (downloadError) throw downloadError;
-
-          const encryptedContent = await fileData.text();
-
-          // Decrypt AES key with receiver's RSA private key (use receiver_encrypted_aes_key for shared files)
-          const encryptedKey = file.receiver_encrypted_aes_key || file.encrypted_aes_key;
-          const aesKey = decryptKeyWithRSA(encryptedKey, profile.private_key_pem);
-          
-          if (!aesKey) {
-            console.error(`Failed to decrypt key for ${file.file_name}`);
-            continue;
-          }
-
-          // Decrypt file content
-          const decryptedBase64 = decryptWithAES(encryptedContent, aesKey);
-
-          // Convert base64 to blob
-          const response = await fetch(decryptedBase64);
-          const blob = await response.blob();
-
-          // Add to ZIP
-          folderZip.file(file.file_name, blob);
-        } catch (error) {
-          console.error(`Error processing ${file.file_name}:`, error);
-        }
+      // Decrypt in the worker pool, several files at a time, and add each to the ZIP
+      const fileProgress = files.map(() => 0);
+      const reportProgress = () => {
+        const done = fileProgress.reduce((sum, fraction) => sum + fraction, 0);
+        setDownloadProgress(Math.round((done / files.length) * 100));
+      };
+
+      const results = await pool.map(files, async (file, worker, i) => {
+        // Decrypt AES key with the receiver's or the team's RSA private key
+        const aesKey = await worker.decryptKeyWithRSA(keyring.wrappedKeyFor(file), keyring.privateKey, keyring.legacyKey);
+
+        // Download and decrypt file content
+        const blob = await downloadStoredFile(
+          file,
+          aesKey,
+          (p) => {
+            fileProgress[i] = p.totalBytes > 0 ? p.loadedBytes / p.totalBytes : 1;
+            reportProgress();
+          },
+          { cipher: worker, signal: controller.signal }
+        );
+
+        // Add to ZIP
+        folderZip.file(file.file_name, blob);
+        fileProgress[i] = 1;
+        reportProgress();
+      }, controller.signal);
+
+      if (controller.signal.aborted) {
+        toast.warning("Download cancelled");
+        return;
       }
 
+      results.forEach((result, i) => {
+        if (result.status === "rejected" && !isAbortError(result.reason)) {
+          console.error(`Error processing ${files[i].file_name}:`, result.reason);
+        }
+      });
+
       // Generate and download ZIP
       const zipBlob = await zip.generateAsync({ type: "blob" });
       const url = window.URL.createObjectURL(zipBlob);
@@ -241,10 +409,19 @@ const SharedFoldersGallery = ({ profileId }: SharedFoldersGalleryProps) => {
       window.URL.revokeObjectURL(url);
 
       toast.success("Folder downloaded successfully");
+
+      await recordDecryption({
+        senderId: profileId,
+        resourceType: "folder",
+        resourceId: folder.id,
+        resourceName: folder.folder_name,
+      });
     } catch (error: any) {
       console.error("Error downloading folder:", error);
       toast.error("Failed to download folder");
     } finally {
+      pool.terminate();
+      downloadAbortRef.current = null;
       setDownloadingFolder(false);
     }
   };
@@ -259,6 +436,21 @@ const SharedFoldersGallery = ({ profileId }: SharedFoldersGalleryProps) => {
     );
   }
 
+  const downloadProgressBar = (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">Decrypting...</span>
+        <span className="font-medium">{downloadProgress}%</span>
+      </div>
+      <Progress value={downloadProgress} className="w-full" />
+      <div className="flex justify-end">
+        <Button variant="ghost" size="sm" onClick={() => downloadAbortRef.current?.abort()}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
   return (
     <>
       <Card>
@@ -268,18 +460,20 @@ const SharedFoldersGallery = ({ profileId }: SharedFoldersGalleryProps) => {
             Shared With Me
           </CardTitle>
           <CardDescription>
-            Folders securely shared with you by other verified doctors
+            Folders and files securely shared with you by other verified doctors
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {folders.length === 0 ? (
+          {downloadingFolder && !selectedFolder && <div className="mb-4">{downloadProgressBar}</div>}
+          {folders.length === 0 && sharedFiles.length === 0 && (
             <div className="text-center py-8">
               <FolderOpen className="w-12 h-12 mx-auto text-muted-foreground mb-3" />
               <p className="text-sm text-muted-foreground">
                 No folders have been shared with you yet.
               </p>
             </div>
-          ) : (
+          )}
+          {folders.length > 0 && (
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
               {folders.map((folder) => (
                 <Card key={folder.id} className="hover:bg-muted/50 transition-colors">
@@ -295,9 +489,18 @@ const SharedFoldersGallery = ({ profileId }: SharedFoldersGalleryProps) => {
                       <UserCircle className="w-3 h-3" />
                       <span className="truncate">From: {folder.sender_name}</span>
                     </div>
-                    <p className="text-xs text-muted-foreground mb-3">
+                    {folder.team_name && (
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                        <Users className="w-3 h-3" />
+                        <span className="truncate">Via team: {folder.team_name}</span>
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground mb-1">
                       {new Date(folder.created_at).toLocaleDateString()}
                     </p>
+                    <p className="text-xs text-muted-foreground mb-3">
+                      {describeShareTerms(folder.share_permission, folder.share_expires_at)}
+                    </p>
                     <div className="flex gap-2">
                       <Button
                         size="sm"
@@ -308,20 +511,72 @@ const SharedFoldersGallery = ({ profileId }: SharedFoldersGalleryProps) => {
                         <Lock className="w-3 h-3 mr-2" />
                         View Files
                       </Button>
+                      {!isViewOnly(folder.share_permission) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDownloadFolder(folder)}
+                          disabled={downloadingFolder}
+                        >
+                          {downloadingFolder ? (
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                          ) : (
+                            <Download className="w-3 h-3" />
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+          {sharedFiles.length > 0 && (
+            <div className={folders.length > 0 ? "mt-6 space-y-2" : "space-y-2"}>
+              <h3 className="text-sm font-medium">Individual Files</h3>
+              {sharedFiles.map((share) => (
+                <Card key={share.id} className="p-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3 flex-1 min-w-0">
+                      <FileText className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium truncate">{share.file.file_name}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          From: {share.sender_name} • {describeShareTerms(share.permission, share.expires_at)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setProofFile(share.file)}
+                        title="Verify inclusion proof"
+                      >
+                        <ShieldCheck className="w-4 h-4" />
+                      </Button>
                       <Button
                         size="sm"
                         variant="outline"
-                        onClick={() => handleDownloadFolder(folder)}
-                        disabled={downloadingFolder}
+                        onClick={() => handleDecryptSharedFile(share)}
+                        disabled={decrypting}
                       >
-                        {downloadingFolder ? (
-                          <Loader2 className="w-3 h-3 animate-spin" />
+                        {decrypting ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : isViewOnly(share.permission) ? (
+                          <>
+                            <Eye className="w-4 h-4 mr-1" />
+                            View
+                          </>
                         ) : (
-                          <Download className="w-3 h-3" />
+                          <>
+                            <Download className="w-4 h-4 mr-1" />
+                            Decrypt
+                          </>
                         )}
                       </Button>
                     </div>
-                  </CardContent>
+                  </div>
                 </Card>
               ))}
             </div>
@@ -339,61 +594,122 @@ const SharedFoldersGallery = ({ profileId }: SharedFoldersGalleryProps) => {
                   {selectedFolder?.folder_name}
                 </DialogTitle>
                 <DialogDescription>
-                  Shared by {selectedFolder?.sender_name} • {folderFiles.length} encrypted files
+                  Shared by {selectedFolder?.sender_name}
+                  {selectedFolder?.team_name && ` with ${selectedFolder.team_name}`} • {folderFiles.length} encrypted files
                 </DialogDescription>
               </div>
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={() => selectedFolder && handleDownloadFolder(selectedFolder)}
-                disabled={downloadingFolder}
-              >
-                {downloadingFolder ? (
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                ) : (
-                  <>
-                    <Download className="w-4 h-4 mr-2" />
-                    Download All
-                  </>
-                )}
-              </Button>
+              {selectedFolder && !isViewOnly(selectedFolder.share_permission) && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleDownloadFolder(selectedFolder)}
+                  disabled={downloadingFolder}
+                >
+                  {downloadingFolder ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <>
+                      <Download className="w-4 h-4 mr-2" />
+                      Download All
+                    </>
+                  )}
+                </Button>
+              )}
             </div>
           </DialogHeader>
-          
-          <div className="space-y-2">
-            {folderFiles.map((file) => (
-              <Card key={file.id} className="p-3">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3 flex-1 min-w-0">
-                    <FileText className="w-5 h-5 text-muted-foreground flex-shrink-0" />
-                    <div className="min-w-0 flex-1">
-                      <p className="text-sm font-medium truncate">{file.file_name}</p>
-                      <p className="text-xs text-muted-foreground">
-                        {file.metadata?.size ? `${(file.metadata.size / 1024).toFixed(2)} KB` : 'Unknown size'}
-                      </p>
+
+          <Tabs defaultValue="files">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="files">Files</TabsTrigger>
+              <TabsTrigger value="timeline">Timeline</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="files" className="space-y-4">
+              {downloadingFolder && downloadProgressBar}
+
+              <div className="space-y-2">
+                {folderFiles.map((file) => (
+                  <Card key={file.id} className="p-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3 flex-1 min-w-0">
+                        <FileText className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm font-medium truncate">{file.file_name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {file.metadata?.size ? `${(file.metadata.size / 1024).toFixed(2)} KB` : 'Unknown size'}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setProofFile(file)}
+                          title="Verify inclusion proof"
+                        >
+                          <ShieldCheck className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDecryptFile(file)}
+                          disabled={decrypting}
+                        >
+                          {decrypting ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : isViewOnly(selectedFolder?.share_permission) ? (
+                            <>
+                              <Eye className="w-4 h-4 mr-1" />
+                              View
+                            </>
+                          ) : (
+                            <>
+                              <Download className="w-4 h-4 mr-1" />
+                              Decrypt
+                            </>
+                          )}
+                        </Button>
+                      </div>
                     </div>
-                  </div>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => handleDecryptFile(file)}
-                    disabled={decrypting}
-                  >
-                    {decrypting ? (
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                    ) : (
-                      <>
-                        <Download className="w-4 h-4 mr-1" />
-                        Decrypt
-                      </>
-                    )}
-                  </Button>
-                </div>
-              </Card>
-            ))}
-          </div>
+                  </Card>
+                ))}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="timeline">
+              {selectedFolder && (
+                <ProvenanceTimeline
+                  resource={{ type: "folder", id: selectedFolder.id, hash: selectedFolder.folder_hash }}
+                />
+              )}
+            </TabsContent>
+          </Tabs>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && handleClosePreview()}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{preview?.name}</DialogTitle>
+            <DialogDescription>View-only share: this file can't be downloaded</DialogDescription>
+          </DialogHeader>
+          {preview && (
+            <div className="border rounded-lg overflow-hidden bg-muted/50" onContextMenu={(e) => e.preventDefault()}>
+              {preview.type.startsWith("image/") ? (
+                <img src={preview.url} alt={preview.name} className="w-full h-auto max-h-[500px] object-contain" />
+              ) : preview.type === "application/pdf" || preview.type.startsWith("text/") ? (
+                <iframe src={`${preview.url}#toolbar=0`} title={preview.name} className="w-full h-[500px]" />
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  This file type can't be previewed in the browser.
+                </p>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <InclusionProofDialog file={proofFile} onOpenChange={(open) => !open && setProofFile(null)} />
     </>
   );
 };
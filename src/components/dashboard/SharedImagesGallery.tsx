@@ -0,0 +1,295 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { toast } from "sonner";
+import { Image as ImageIcon, Lock, Unlock, Download, Calendar, ShieldCheck, UserCircle } from "lucide-react";
+import { downloadStoredFile } from "@/lib/encryptedStorage";
+import { recordDecryption } from "@/lib/ledger";
+import { unwrapWithVault } from "@/lib/recordShares";
+import { describeShareTerms, isViewOnly } from "@/lib/shareTerms";
+import { errorMessage } from "@/lib/utils";
+import InclusionProofDialog from "./InclusionProofDialog";
+import ProvenanceTimeline from "./ProvenanceTimeline";
+
+interface SharedImage {
+  id: string;
+  file_name: string;
+  file_hash: string;
+  encrypted_path: string;
+  owner_id: string;
+  receiver_encrypted_aes_key: string | null;
+  share_permission: string;
+  share_expires_at: string | null;
+  metadata: Json;
+  merkle_proof: Json | null;
+  ledger_block_id: string | null;
+  created_at: string;
+  sender_name: string;
+}
+
+interface SharedImagesGalleryProps {
+  profileId: string;
+}
+
+const SharedImagesGallery = ({ profileId }: SharedImagesGalleryProps) => {
+  const [images, setImages] = useState<SharedImage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedImage, setSelectedImage] = useState<SharedImage | null>(null);
+  const [proofImage, setProofImage] = useState<SharedImage | null>(null);
+  const [decryptedContent, setDecryptedContent] = useState<string | null>(null);
+  const [decrypting, setDecrypting] = useState(false);
+
+  const loadImages = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("encrypted_images")
+        .select("*")
+        .eq("receiver_id", profileId)
+        .neq("owner_id", profileId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      // encrypted_images has no foreign key to profiles to embed the sender through
+      const ownerIds = [...new Set((data || []).map((image) => image.owner_id))];
+      const senders: Record<string, string> = {};
+      if (ownerIds.length > 0) {
+        const { data: profiles, error: profilesError } = await supabase
+          .from("profiles")
+          .select("id, full_name")
+          .in("id", ownerIds);
+
+        if (profilesError) throw profilesError;
+        for (const sender of profiles || []) senders[sender.id] = sender.full_name;
+      }
+
+      setImages(
+        (data || []).map((image) => ({ ...image, sender_name: senders[image.owner_id] || "Unknown Doctor" }))
+      );
+    } catch (error) {
+      console.error("Error loading shared images:", error);
+      toast.error("Failed to load shared images");
+    } finally {
+      setLoading(false);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    if (profileId) loadImages();
+  }, [profileId, loadImages]);
+
+  const handleDecrypt = async (image: SharedImage) => {
+    setDecrypting(true);
+    try {
+      if (!image.receiver_encrypted_aes_key) throw new Error("No key was shared with you for this image");
+
+      // Decrypt the AES key wrapped for this doctor
+      const aesKey = await unwrapWithVault(image.receiver_encrypted_aes_key);
+
+      // Download and decrypt content (throws if the ciphertext was tampered with)
+      const decrypted = await downloadStoredFile(image, aesKey);
+
+      setDecryptedContent(URL.createObjectURL(decrypted));
+      toast.success("Image decrypted successfully");
+
+      await recordDecryption({
+        senderId: profileId,
+        resourceType: "image",
+        resourceId: image.id,
+        resourceName: image.file_name,
+        fileHash: image.file_hash,
+      });
+    } catch (error) {
+      console.error("Decryption error:", error);
+      toast.error(errorMessage(error, "Failed to decrypt image"));
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!decryptedContent || !selectedImage || isViewOnly(selectedImage.share_permission)) return;
+
+    const link = document.createElement('a');
+    link.href = decryptedContent;
+    link.download = selectedImage.file_name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    toast.success("Image downloaded");
+  };
+
+  const handleCloseDialog = () => {
+    if (decryptedContent) URL.revokeObjectURL(decryptedContent);
+    setSelectedImage(null);
+    setDecryptedContent(null);
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const viewOnly = isViewOnly(selectedImage?.share_permission);
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ImageIcon className="w-5 h-5" />
+            Images Shared With Me
+          </CardTitle>
+          <CardDescription>
+            Encrypted images securely shared with you by other verified doctors
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {images.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <ImageIcon className="w-12 h-12 mx-auto mb-2 opacity-50" />
+              <p>No images have been shared with you yet</p>
+            </div>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {images.map((image) => (
+                <Card key={image.id} className="overflow-hidden hover:shadow-lg transition-shadow">
+                  <CardContent className="p-4 space-y-3">
+                    <div className="aspect-video bg-muted rounded-lg flex items-center justify-center">
+                      <Lock className="w-8 h-8 text-muted-foreground" />
+                    </div>
+                    <div className="space-y-1">
+                      <p className="font-medium text-sm truncate" title={image.file_name}>
+                        {image.file_name}
+                      </p>
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <UserCircle className="w-3 h-3" />
+                        <span className="truncate">From: {image.sender_name}</span>
+                      </div>
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <Calendar className="w-3 h-3" />
+                        {new Date(image.created_at).toLocaleDateString()}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {describeShareTerms(image.share_permission, image.share_expires_at)}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        className="flex-1"
+                        onClick={() => {
+                          setSelectedImage(image);
+                          handleDecrypt(image);
+                        }}
+                      >
+                        <Unlock className="w-3 h-3 mr-2" />
+                        Decrypt & View
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setProofImage(image)}
+                        title="Verify inclusion proof"
+                      >
+                        <ShieldCheck className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedImage} onOpenChange={(open) => !open && handleCloseDialog()}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Decrypt Image</DialogTitle>
+            <DialogDescription>
+              {selectedImage?.file_name} • Shared by {selectedImage?.sender_name}
+              {viewOnly && " • View only"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Tabs defaultValue="image">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="image">Image</TabsTrigger>
+              <TabsTrigger value="timeline">Timeline</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="image">
+              <div className="space-y-4">
+                {!decryptedContent && (
+                  <Alert>
+                    <Lock className="w-4 h-4" />
+                    <AlertDescription>
+                      {decrypting ? "Decrypting image..." : "Click decrypt to view the image"}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {decrypting && (
+                  <div className="flex items-center justify-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                  </div>
+                )}
+
+                {decryptedContent && !decrypting && (
+                  <div className="space-y-4">
+                    <div
+                      className="border rounded-lg overflow-hidden bg-muted/50"
+                      onContextMenu={(e) => viewOnly && e.preventDefault()}
+                    >
+                      <img
+                        src={decryptedContent}
+                        alt={selectedImage?.file_name}
+                        className="w-full h-auto max-h-[500px] object-contain"
+                      />
+                    </div>
+                    {!viewOnly && (
+                      <div className="flex gap-2">
+                        <Button onClick={handleDownload} className="flex-1">
+                          <Download className="w-4 h-4 mr-2" />
+                          Download
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="timeline">
+              {selectedImage && (
+                <ProvenanceTimeline
+                  resource={{
+                    type: "image",
+                    id: selectedImage.id,
+                    hash: selectedImage.file_hash,
+                    ledgerBlockId: selectedImage.ledger_block_id,
+                  }}
+                />
+              )}
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+
+      <InclusionProofDialog file={proofImage} onOpenChange={(open) => !open && setProofImage(null)} />
+    </>
+  );
+};
+
+export default SharedImagesGallery;
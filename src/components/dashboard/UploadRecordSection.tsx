@@ -3,11 +3,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import { Upload, FileText } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
-import { generateAESKey, encryptWithAES, hashFile, fileToBase64 } from "@/lib/encryption";
-import { Blockchain, BlockData } from "@/lib/blockchain";
+import { encryptKeyWithRSA, generateAESKey } from "@/lib/encryption";
+import { PLAINTEXT_HASH_SCHEME, toPercent, uploadEncryptedFile } from "@/lib/encryptedStorage";
+import { appendEvent } from "@/lib/ledger";
+import { isVaultUnlocked } from "@/lib/keyVault";
+import PatientSelect from "./PatientSelect";
 
 interface UploadRecordSectionProps {
   profileId: string;
@@ -17,6 +21,8 @@ interface UploadRecordSectionProps {
 const UploadRecordSection = ({ profileId, onUploadComplete }: UploadRecordSectionProps) => {
   const [file, setFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [patientId, setPatientId] = useState<string | null>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -30,42 +36,54 @@ const UploadRecordSection = ({ profileId, onUploadComplete }: UploadRecordSectio
       return;
     }
 
+    // Ledger entries are signed with the key held in the vault
+    if (!isVaultUnlocked()) {
+      toast.error("Key vault is locked. Unlock it to upload records.");
+      return;
+    }
+
     setUploading(true);
+    setProgress(0);
 
     try {
-      // Convert file to base64
-      const fileContent = await fileToBase64(file);
-      
-      // Generate AES key and encrypt file
-      const aesKey = generateAESKey();
-      const encryptedContent = encryptWithAES(fileContent, aesKey);
-      
-      // Hash the file
-      const fileHash = hashFile(fileContent);
-
-      // For now, store encrypted AES key directly (in production, encrypt with receiver's public key)
-      const encryptedAesKey = aesKey; // Simplified for demo
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
 
       // Get profile info
       const { data: profileData } = await supabase
         .from("profiles")
-        .select("full_name")
+        .select("full_name, public_key_pem")
         .eq("id", profileId)
         .single();
 
+      if (!profileData?.public_key_pem) throw new Error("Public key not found");
+
+      // Generate AES key, then encrypt and upload the file in chunks
+      const aesKey = generateAESKey();
+      const storagePath = `${user.id}/records/${crypto.randomUUID()}`;
+      const { header, fileHash } = await uploadEncryptedFile(file, aesKey, storagePath, (p) =>
+        setProgress(toPercent(p))
+      );
+
+      // Wrap the AES key with the owner's public key; recipients get their own copies
+      const encryptedAesKey = await encryptKeyWithRSA(aesKey, profileData.public_key_pem);
+
       // Create medical record
       const { data: recordData, error: recordError } = await supabase
         .from("medical_records")
         .insert({
           file_name: file.name,
           file_hash: fileHash,
-          encrypted_file_path: encryptedContent,
+          encrypted_file_path: storagePath,
           owner_id: profileId,
           encrypted_aes_key: encryptedAesKey,
+          patient_id: patientId,
           metadata: {
             size: file.size,
             type: file.type,
-            uploadedAt: new Date().toISOString()
+            uploadedAt: new Date().toISOString(),
+            encryption: header,
+            hashScheme: PLAINTEXT_HASH_SCHEME
           }
         })
         .select()
@@ -74,56 +92,18 @@ const UploadRecordSection = ({ profileId, onUploadComplete }: UploadRecordSectio
       if (recordError) throw recordError;
 
       // Add to blockchain
-      const blockData: BlockData = {
+      await appendEvent({
+        action: "RECORD_UPLOADED",
+        recordId: recordData.id,
         fileName: file.name,
         fileHash: fileHash,
         senderId: profileId,
-        senderName: profileData?.full_name || "Doctor",
-        timestamp: new Date().toISOString()
-      };
-
-      // Get the latest block index
-      const { data: latestBlock } = await supabase
-        .from("blockchain_renewed")
-        .select("block_index")
-        .order("block_index", { ascending: false })
-        .limit(1)
-        .single();
-
-      const newBlockIndex = latestBlock ? latestBlock.block_index + 1 : 0;
-
-      // Get previous hash
-      const { data: previousBlock } = await supabase
-        .from("blockchain_renewed")
-        .select("current_hash")
-        .eq("block_index", newBlockIndex - 1)
-        .single();
-
-      const previousHash = previousBlock?.current_hash || "0";
-
-      // Calculate new hash using blockchain.ts
-      const blockchain = new Blockchain();
-      const timestamp = new Date().toISOString();
-      const calculatedHash = blockchain.calculateHash(
-        newBlockIndex,
-        timestamp,
-        blockData,
-        previousHash
-      );
-
-      // Insert blockchain record with all calculated values
-      await supabase.from("blockchain_renewed").insert([{
-        block_index: newBlockIndex,
-        timestamp: timestamp,
-        previous_hash: previousHash,
-        current_hash: calculatedHash,
-        data_json: blockData as any,
-        sender_id: profileId,
-        receiver_id: null,
-      }]);
+        senderName: profileData?.full_name || "Doctor"
+      });
 
       toast.success("Medical record uploaded and added to blockchain!");
       setFile(null);
+      setProgress(0);
       
       // Reset file input
       const fileInput = document.getElementById("file-upload") as HTMLInputElement;
@@ -169,6 +149,18 @@ const UploadRecordSection = ({ profileId, onUploadComplete }: UploadRecordSectio
           )}
         </div>
 
+        <PatientSelect profileId={profileId} value={patientId} onChange={setPatientId} disabled={uploading} />
+
+        {uploading && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">Encrypting...</span>
+              <span className="font-medium">{progress}%</span>
+            </div>
+            <Progress value={progress} className="w-full" />
+          </div>
+        )}
+
         <Button 
           onClick={handleUpload} 
           disabled={!file || uploading}
@@ -180,7 +172,7 @@ const UploadRecordSection = ({ profileId, onUploadComplete }: UploadRecordSectio
         <div className="text-xs text-muted-foreground bg-muted/50 p-3 rounded-lg">
           <p className="font-semibold mb-1">Encryption Process:</p>
           <ol className="list-decimal list-inside space-y-1">
-            <li>File encrypted with AES-256</li>
+            <li>File encrypted in chunks with AES-256-GCM</li>
             <li>File hash calculated with SHA-256</li>
             <li>Record added to blockchain</li>
             <li>Verification complete</li>
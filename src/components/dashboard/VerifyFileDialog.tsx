@@ -0,0 +1,179 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { FileSearch, Loader2, Upload } from "lucide-react";
+import {
+  FileProvenance,
+  HASH_SCHEME_LABELS,
+  ProvenanceSource,
+  fetchFileProvenance,
+  verifyEachBlock,
+} from "@/lib/provenance";
+import { errorMessage } from "@/lib/utils";
+import LedgerHistory from "./LedgerHistory";
+
+const SOURCE_LABELS: Record<ProvenanceSource, string> = {
+  medical_records: "Medical record",
+  encrypted_images: "Encrypted image",
+  encrypted_files: "Folder file",
+};
+
+const VerifyFileDialog = () => {
+  const [open, setOpen] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [provenance, setProvenance] = useState<FileProvenance | null>(null);
+  const [verified, setVerified] = useState<Record<string, boolean>>({});
+  const [profileNames, setProfileNames] = useState<Record<string, string>>({});
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setChecking(true);
+    setFileName(file.name);
+    setProvenance(null);
+    try {
+      const [result, { data: profiles, error }] = await Promise.all([
+        fetchFileProvenance(file),
+        supabase.from("profiles").select("id, full_name"),
+      ]);
+
+      if (error) throw error;
+
+      setVerified(await verifyEachBlock(result.blocks));
+      setProfileNames(Object.fromEntries((profiles || []).map((profile) => [profile.id, profile.full_name])));
+      setProvenance(result);
+    } catch (error) {
+      console.error("Error verifying file:", error);
+      toast.error(errorMessage(error, "Error verifying file"));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
+
+  const nameOf = (profileId: string | null | undefined) =>
+    profileId ? profileNames[profileId] || "Unknown" : null;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          <FileSearch className="w-4 h-4 mr-2" />
+          Verify a File
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Verify a File</DialogTitle>
+          <DialogDescription>
+            Check a file you received elsewhere against MediChain. It is hashed in your browser and never uploaded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <label
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
+            dragging ? "border-primary bg-primary/5" : "border-muted-foreground/25"
+          }`}
+        >
+          {checking ? (
+            <Loader2 className="w-6 h-6 animate-spin" />
+          ) : (
+            <Upload className="w-6 h-6 text-muted-foreground" />
+          )}
+          <p className="text-sm text-muted-foreground">
+            {fileName ? fileName : "Drop a file here or click to choose one"}
+          </p>
+          <input
+            type="file"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+            disabled={checking}
+          />
+        </label>
+
+        {provenance && (
+          <div className="space-y-4">
+            <div
+              className={`p-3 rounded-lg border text-sm ${
+                provenance.matches.length > 0
+                  ? "bg-primary/5 border-primary/30"
+                  : "bg-destructive/5 border-destructive/30"
+              }`}
+            >
+              {provenance.matches.length > 0
+                ? `This file matches ${provenance.matches.length} file${
+                    provenance.matches.length === 1 ? "" : "s"
+                  } on MediChain.`
+                : "No file you can access on MediChain has this hash."}
+            </div>
+
+            <div className="space-y-1 text-xs">
+              <p className="text-muted-foreground">SHA-256 of the file</p>
+              <p className="font-mono break-all">{provenance.hashes.bytes}</p>
+              {provenance.hashes.dataUrl && (
+                <>
+                  <p className="text-muted-foreground pt-1">SHA-256 of its data URL</p>
+                  <p className="font-mono break-all">{provenance.hashes.dataUrl}</p>
+                </>
+              )}
+            </div>
+
+            {provenance.matches.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Matching Files</h4>
+                {provenance.matches.map((match) => (
+                  <div key={`${match.source}-${match.id}`} className="p-3 border rounded-lg text-sm space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium truncate">{match.fileName}</span>
+                      <Badge variant="outline">{SOURCE_LABELS[match.source]}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Owned by {nameOf(match.ownerId)}
+                      {match.createdAt && ` · uploaded ${new Date(match.createdAt).toLocaleString()}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">Matched by {HASH_SCHEME_LABELS[match.scheme]}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {provenance.blocks.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Ledger History</h4>
+                <LedgerHistory blocks={provenance.blocks} verified={verified} profileNames={profileNames} />
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VerifyFileDialog;
@@ -7,10 +7,20 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Eye, Download, AlertCircle } from "lucide-react";
 import { toast } from "sonner";
-import { decryptKeyWithRSA, decryptWithAES } from "@/lib/encryption";
+import { Tables } from "@/integrations/supabase/types";
+import { decryptWithAES, isChunkedHeader } from "@/lib/encryption";
+import { downloadEncryptedFile, toPercent } from "@/lib/encryptedStorage";
+import { recordDecryption } from "@/lib/ledger";
+import { unwrapRecordKey } from "@/lib/recordShares";
+import { isViewOnly } from "@/lib/shareTerms";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import ProvenanceTimeline from "./ProvenanceTimeline";
+
+type RecordSharePermission = Pick<Tables<"record_shares">, "recipient_id" | "permission">;
 
 interface ViewRecordDialogProps {
   record: any;
@@ -23,52 +33,47 @@ const ViewRecordDialog = ({ record, profile, open, onOpenChange }: ViewRecordDia
   const profileId = profile?.id;
   const [decryptedContent, setDecryptedContent] = useState<string | null>(null);
   const [decrypting, setDecrypting] = useState(false);
+  const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
 
   const handleDecrypt = async () => {
     if (!record) return;
     
     setDecrypting(true);
+    setProgress(0);
     setError(null);
     
     try {
-      let aesKey: string;
-      
-      // Determine if user is owner or receiver
-      const isOwner = record.owner_id === profileId;
-      const isReceiver = record.shared_with_id === profileId;
+      // The owner's own copy of the key, or the one wrapped for this recipient
+      const aesKey = await unwrapRecordKey(record, profileId);
       
-      if (!isOwner && !isReceiver) {
-        throw new Error("You don't have permission to view this record");
-      }
-      
-      if (isOwner) {
-        // Owner can directly access the AES key (it's stored unencrypted for owned records)
-        aesKey = record.encrypted_aes_key;
+      // Decrypt the file content with the AES key (throws if tampered with).
+      // Chunked records live in storage; older records hold ciphertext inline.
+      const header = record.metadata?.encryption;
+      let decrypted: string;
+      if (isChunkedHeader(header)) {
+        const blob = await downloadEncryptedFile(
+          record.encrypted_file_path,
+          header,
+          aesKey,
+          record.metadata?.type || undefined,
+          (p) => setProgress(toPercent(p))
+        );
+        decrypted = URL.createObjectURL(blob);
       } else {
-        // Receiver needs to decrypt the AES key with their private key
-        const privateKey = profile?.private_key_pem;
-        if (!privateKey) {
-          throw new Error("Private key not found. Please sign out and sign in again to generate keys.");
-        }
-        
-        // Decrypt the AES key using RSA private key
-        aesKey = decryptKeyWithRSA(record.encrypted_aes_key, privateKey);
-        
-        if (!aesKey) {
-          throw new Error("Failed to decrypt AES key. The record may have been shared with an incompatible key.");
-        }
-      }
-      
-      // Decrypt the file content with the AES key
-      const decrypted = decryptWithAES(record.encrypted_file_path, aesKey);
-      
-      if (!decrypted) {
-        throw new Error("Failed to decrypt file content");
+        decrypted = await decryptWithAES(record.encrypted_file_path, aesKey);
       }
       
       setDecryptedContent(decrypted);
       toast.success("Record decrypted successfully!");
+
+      await recordDecryption({
+        senderId: profileId,
+        resourceType: "record",
+        resourceId: record.id,
+        resourceName: record.file_name,
+        fileHash: record.file_hash,
+      });
       
     } catch (error: any) {
       console.error("Decryption error:", error);
@@ -98,6 +103,9 @@ const ViewRecordDialog = ({ record, profile, open, onOpenChange }: ViewRecordDia
   };
 
   const handleClose = () => {
+    if (decryptedContent?.startsWith("blob:")) {
+      URL.revokeObjectURL(decryptedContent);
+    }
     setDecryptedContent(null);
     setError(null);
     onOpenChange(false);
@@ -106,6 +114,8 @@ const ViewRecordDialog = ({ record, profile, open, onOpenChange }: ViewRecordDia
   if (!record) return null;
 
   const isOwner = record.owner_id === profileId;
+  // A recipient's list row carries only their own share
+  const viewOnly = !isOwner && isViewOnly(record.shares?.find((share: RecordSharePermission) => share.recipient_id === profileId)?.permission);
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
@@ -120,71 +130,98 @@ const ViewRecordDialog = ({ record, profile, open, onOpenChange }: ViewRecordDia
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-4">
-          <div className="space-y-2">
-            <p className="text-sm font-medium">File Name:</p>
-            <p className="text-sm text-muted-foreground">{record.file_name}</p>
-          </div>
-
-          <div className="space-y-2">
-            <p className="text-sm font-medium">File Hash (SHA-256):</p>
-            <p className="text-xs text-muted-foreground font-mono break-all">
-              {record.file_hash}
-            </p>
-          </div>
-
-          {error && (
-            <Alert variant="destructive">
-              <AlertCircle className="h-4 w-4" />
-              <AlertDescription>{error}</AlertDescription>
-            </Alert>
-          )}
-
-          {!decryptedContent && !error && (
-            <Alert>
-              <AlertCircle className="h-4 w-4" />
-              <AlertDescription>
-                Click the button below to decrypt and view this medical record. 
-                {!isOwner && " You'll need your private key to decrypt the shared content."}
-              </AlertDescription>
-            </Alert>
-          )}
-
-          {!decryptedContent ? (
-            <Button 
-              onClick={handleDecrypt} 
-              disabled={decrypting}
-              className="w-full"
-            >
-              {decrypting ? "Decrypting..." : "Decrypt & View"}
-            </Button>
-          ) : (
-            <>
-              <div className="border rounded-lg p-4 bg-muted/20">
-                <p className="text-sm font-medium mb-3">Decrypted Content:</p>
-                <div className="max-h-96 overflow-auto">
-                  <img 
-                    src={decryptedContent} 
-                    alt={record.file_name}
-                    className="w-full h-auto rounded"
-                    onError={() => {
-                      setError("Unable to display image. The file may be corrupted or in an unsupported format.");
-                    }}
-                  />
+        <Tabs defaultValue="record">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="record">Record</TabsTrigger>
+            <TabsTrigger value="timeline">Timeline</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="record" className="space-y-4">
+            <div className="space-y-2">
+              <p className="text-sm font-medium">File Name:</p>
+              <p className="text-sm text-muted-foreground">{record.file_name}</p>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">File Hash (SHA-256):</p>
+              <p className="text-xs text-muted-foreground font-mono break-all">
+                {record.file_hash}
+              </p>
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {!decryptedContent && !error && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Click the button below to decrypt and view this medical record. 
+                  {!isOwner && " You'll need your private key to decrypt the shared content."}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {decrypting && progress > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Decrypting...</span>
+                  <span className="font-medium">{progress}%</span>
                 </div>
+                <Progress value={progress} className="w-full" />
               </div>
-              
+            )}
+
+            {!decryptedContent ? (
               <Button 
-                onClick={handleDownload}
-                variant="outline"
+                onClick={handleDecrypt} 
+                disabled={decrypting}
                 className="w-full"
               >
-                <Download className="w-4 h-4 mr-2" />
-                Download Decrypted File
+                {decrypting ? "Decrypting..." : "Decrypt & View"}
               </Button>
-            </>
-          )}
-        </div>
+            ) : (
+              <>
+                <div className="border rounded-lg p-4 bg-muted/20" onContextMenu={(e) => viewOnly && e.preventDefault()}>
+                  <p className="text-sm font-medium mb-3">Decrypted Content:</p>
+                  <div className="max-h-96 overflow-auto">
+                    <img 
+                      src={decryptedContent} 
+                      alt={record.file_name}
+                      className="w-full h-auto rounded"
+                      onError={() => {
+                        setError("Unable to display image. The file may be corrupted or in an unsupported format.");
+                      }}
+                    />
+                  </div>
+                </div>
+              
+                {viewOnly ? (
+                  <p className="text-xs text-muted-foreground text-center">
+                    This record was shared view-only and can't be downloaded.
+                  </p>
+                ) : (
+                  <Button 
+                    onClick={handleDownload}
+                    variant="outline"
+                    className="w-full"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Download Decrypted File
+                  </Button>
+                )}
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="timeline">
+            <ProvenanceTimeline resource={{ type: "record", id: record.id, hash: record.file_hash }} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
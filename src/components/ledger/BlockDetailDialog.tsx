@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, ArrowDown, CheckCircle, Loader2 } from "lucide-react";
+import { Blockchain, ChainFailure, ChainLink, RegisteredSigningKey } from "@/lib/blockchain";
+import { LedgerBlock, fetchNeighbourBlocks } from "@/lib/ledger";
+import { LEDGER_ACTION_LABELS, parseLedgerEvent } from "@/lib/ledgerEvents";
+
+interface BlockDetailDialogProps {
+  block: LedgerBlock | null;
+  profileNames: Record<string, string>;
+  signingKeys: RegisteredSigningKey[];
+  onOpenChange: (open: boolean) => void;
+}
+
+const HashLink = ({ label, hash, linked }: { label: string; hash: string; linked: boolean }) => (
+  <div className="flex items-start gap-2 text-xs">
+    {linked ? (
+      <CheckCircle className="w-4 h-4 text-primary shrink-0" />
+    ) : (
+      <AlertCircle className="w-4 h-4 text-destructive shrink-0" />
+    )}
+    <div className="min-w-0">
+      <p className="font-medium">{label}</p>
+      <p className="font-mono text-muted-foreground break-all">{hash}</p>
+    </div>
+  </div>
+);
+
+const BlockDetailDialog = ({ block, profileNames, signingKeys, onOpenChange }: BlockDetailDialogProps) => {
+  const [loading, setLoading] = useState(false);
+  const [failures, setFailures] = useState<ChainFailure[]>([]);
+  const [previous, setPrevious] = useState<ChainLink[]>([]);
+  const [next, setNext] = useState<ChainLink[]>([]);
+
+  const loadDetails = useCallback(async (current: LedgerBlock) => {
+    setLoading(true);
+    try {
+      const [neighbours, blockFailures] = await Promise.all([
+        fetchNeighbourBlocks(current.block_index),
+        Blockchain.fromRows([current]).verifyBlock(0, signingKeys),
+      ]);
+      setPrevious(neighbours.previous);
+      setNext(neighbours.next);
+      setFailures(blockFailures);
+    } catch (error) {
+      console.error("Error loading block details:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [signingKeys]);
+
+  useEffect(() => {
+    if (block) {
+      loadDetails(block);
+    }
+  }, [block, loadDetails]);
+
+  if (!block) return null;
+
+  const { event } = parseLedgerEvent(block.data_json);
+  const signer = signingKeys.find((key) => key.fingerprint === block.signer_fingerprint);
+  const nameOf = (profileId: string | null) => (profileId ? profileNames[profileId] || profileId : "—");
+
+  return (
+    <Dialog open={!!block} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Block #{block.block_index}
+            <Badge variant="outline">{event ? LEDGER_ACTION_LABELS[event.action] : "Unrecognized"}</Badge>
+          </DialogTitle>
+          <DialogDescription>{new Date(block.timestamp).toLocaleString()}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <p className="text-sm font-semibold">Verification</p>
+              {failures.length === 0 ? (
+                <div className="flex items-center gap-2 text-sm text-primary">
+                  <CheckCircle className="w-4 h-4" />
+                  Hash recomputed{block.signature ? " and signature verified" : ""}
+                </div>
+              ) : (
+                <ul className="space-y-1 text-xs">
+                  {failures.map((failure) => (
+                    <li
+                      key={failure.reason}
+                      className="p-2 rounded border border-destructive/30 bg-destructive/5 break-all"
+                    >
+                      {failure.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {block.signature
+                  ? `Signed by ${nameOf(signer?.profile_id ?? null)} with key ${block.signer_fingerprint}`
+                  : "Unsigned: written before block signing was introduced"}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-semibold">Hash Linkage</p>
+              <div className="space-y-2 p-3 bg-muted/30 rounded border">
+                {block.block_index === 0 ? (
+                  <HashLink label="Genesis block" hash={block.previous_hash} linked={block.previous_hash === "0"} />
+                ) : previous.length === 0 ? (
+                  <HashLink label={`Block #${block.block_index - 1} is missing`} hash={block.previous_hash} linked={false} />
+                ) : (
+                  previous.map((neighbour) => (
+                    <HashLink
+                      key={neighbour.current_hash}
+                      label={`Block #${neighbour.block_index}`}
+                      hash={neighbour.current_hash}
+                      linked={neighbour.current_hash === block.previous_hash}
+                    />
+                  ))
+                )}
+                <ArrowDown className="w-4 h-4 text-muted-foreground ml-0.5" />
+                <HashLink
+                  label={`Block #${block.block_index} (this block)`}
+                  hash={block.current_hash}
+                  linked={!failures.some((failure) => failure.reason === "hash")}
+                />
+                {next.length > 0 && <ArrowDown className="w-4 h-4 text-muted-foreground ml-0.5" />}
+                {next.map((neighbour) => (
+                  <HashLink
+                    key={neighbour.current_hash}
+                    label={`Block #${neighbour.block_index} links back with`}
+                    hash={neighbour.previous_hash}
+                    linked={neighbour.previous_hash === block.current_hash}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Sender</p>
+                <p className="font-medium">{nameOf(block.sender_id)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Receiver</p>
+                <p className="font-medium">{nameOf(block.receiver_id)}</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-semibold">Raw Data</p>
+              <pre className="text-xs bg-muted p-3 rounded overflow-auto max-h-64">
+                {JSON.stringify(block.data_json, null, 2)}
+              </pre>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BlockDetailDialog;
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { AlertCircle, Anchor, CheckCircle, Loader2 } from "lucide-react";
+import { Blockchain } from "@/lib/blockchain";
+import {
+  LedgerBlock,
+  LegacyChainSummary,
+  anchorLegacyChain,
+  fetchLegacyAnchor,
+  fetchLegacyBlocks,
+  fetchLegacyChainSummary,
+} from "@/lib/ledger";
+import { parseLedgerEvent } from "@/lib/ledgerEvents";
+import { errorMessage } from "@/lib/utils";
+
+interface LegacyChainCardProps {
+  profileId: string | null;
+  onAnchored: () => void;
+}
+
+interface LegacyCheck {
+  label: string;
+  passed: boolean;
+  detail?: string;
+}
+
+// Whether the archive still matches what the anchor block committed to
+function anchorMatches(anchor: LedgerBlock, summary: LegacyChainSummary): boolean {
+  const { event } = parseLedgerEvent(anchor.data_json);
+  return (
+    event?.action === "LEGACY_CHAIN_ANCHORED" &&
+    event.legacyBlockCount === summary.blockCount &&
+    event.legacyGenesisHash === summary.genesisHash &&
+    event.legacyTipHash === summary.tipHash &&
+    event.legacyChainDigest === summary.chainDigest
+  );
+}
+
+const LegacyChainCard = ({ profileId, onAnchored }: LegacyChainCardProps) => {
+  const [summary, setSummary] = useState<LegacyChainSummary | null>(null);
+  const [anchor, setAnchor] = useState<LedgerBlock | null>(null);
+  const [checks, setChecks] = useState<LegacyCheck[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [anchoring, setAnchoring] = useState(false);
+
+  useEffect(() => {
+    loadLegacyChain();
+  }, []);
+
+  const loadLegacyChain = async () => {
+    setLoading(true);
+    try {
+      const [legacySummary, legacyAnchor, ownBlocks] = await Promise.all([
+        fetchLegacyChainSummary(),
+        fetchLegacyAnchor(),
+        fetchLegacyBlocks(),
+      ]);
+
+      const intact = await Promise.all(
+        ownBlocks.map(async (block) => {
+          const failures = await Blockchain.fromRows([block]).verifyBlock(0, []);
+          return failures.length === 0;
+        })
+      );
+
+      const results: LegacyCheck[] = [
+        {
+          label: "Every legacy block links to the one before it",
+          passed: legacySummary.linked,
+        },
+        {
+          label: `${intact.filter(Boolean).length} of your ${ownBlocks.length} legacy blocks reproduce their hashes`,
+          passed: intact.every(Boolean),
+        },
+      ];
+      if (legacyAnchor) {
+        results.push({
+          label: `Archive unchanged since it was anchored in block #${legacyAnchor.block_index}`,
+          passed: anchorMatches(legacyAnchor, legacySummary),
+          detail: legacySummary.chainDigest ?? undefined,
+        });
+      }
+
+      setSummary(legacySummary);
+      setAnchor(legacyAnchor);
+      setChecks(results);
+    } catch (error) {
+      console.error("Error loading legacy chain:", error);
+      toast.error(errorMessage(error, "Error loading legacy chain"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAnchor = async () => {
+    if (!profileId) return;
+
+    setAnchoring(true);
+    try {
+      const block = await anchorLegacyChain(profileId);
+      toast.success(`Legacy chain anchored in block #${block.block_index}`);
+      await loadLegacyChain();
+      onAnchored();
+    } catch (error) {
+      console.error("Error anchoring legacy chain:", error);
+      toast.error(errorMessage(error, "Error anchoring legacy chain"));
+    } finally {
+      setAnchoring(false);
+    }
+  };
+
+  // Nothing to migrate
+  if (!loading && summary?.blockCount === 0 && !anchor) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Anchor className="w-5 h-5" />
+          Legacy Chain
+        </CardTitle>
+        <CardDescription>
+          Blocks from the original ledger table, archived read-only and anchored into this chain
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <p className="text-sm">
+              {summary?.blockCount} legacy block{summary?.blockCount === 1 ? "" : "s"}
+              {anchor ? ` · anchored in block #${anchor.block_index}` : " · not yet anchored"}
+            </p>
+
+            <ul className="space-y-2">
+              {checks.map((check) => (
+                <li key={check.label} className="flex items-start gap-2 text-sm">
+                  {check.passed ? (
+                    <CheckCircle className="w-4 h-4 text-primary shrink-0 mt-0.5" />
+                  ) : (
+                    <AlertCircle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+                  )}
+                  <div className="min-w-0">
+                    <p>{check.label}</p>
+                    {check.detail && (
+                      <p className="text-xs font-mono text-muted-foreground break-all">{check.detail}</p>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {!anchor && (
+              <Button onClick={handleAnchor} disabled={anchoring || !profileId}>
+                {anchoring ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Anchor className="w-4 h-4 mr-2" />}
+                Anchor Legacy Chain
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LegacyChainCard;
@@ -0,0 +1,7 @@
+import * as React from "react";
+import { isVaultUnlocked, lockVault, subscribeToVault } from "@/lib/keyVault";
+
+export function useKeyVault() {
+  const unlocked = React.useSyncExternalStore(subscribeToVault, isVaultUnlocked);
+  return { unlocked, lock: lockVault };
+}
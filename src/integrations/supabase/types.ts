@@ -14,6 +14,60 @@ export type Database = {
   }
   public: {
     Tables: {
+      access_requests: {
+        Row: {
+          created_at: string
+          id: string
+          owner_id: string
+          reason: string | null
+          requester_id: string
+          resource_id: string | null
+          resource_type: string | null
+          responded_at: string | null
+          status: string
+          subject: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          owner_id: string
+          reason?: string | null
+          requester_id: string
+          resource_id?: string | null
+          resource_type?: string | null
+          responded_at?: string | null
+          status?: string
+          subject: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          owner_id?: string
+          reason?: string | null
+          requester_id?: string
+          resource_id?: string | null
+          resource_type?: string | null
+          responded_at?: string | null
+          status?: string
+          subject?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "access_requests_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "access_requests_requester_id_fkey"
+            columns: ["requester_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       admin_messages: {
         Row: {
           created_at: string
@@ -47,7 +101,7 @@ export type Database = {
         }
         Relationships: []
       }
-      blockchain: {
+      blockchain_legacy: {
         Row: {
           block_index: number
           created_at: string | null
@@ -83,14 +137,14 @@ export type Database = {
         }
         Relationships: [
           {
-            foreignKeyName: "blockchain_receiver_id_fkey"
+            foreignKeyName: "blockchain_legacy_receiver_id_fkey"
             columns: ["receiver_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "blockchain_sender_id_fkey"
+            foreignKeyName: "blockchain_legacy_sender_id_fkey"
             columns: ["sender_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -104,10 +158,13 @@ export type Database = {
           created_at: string
           current_hash: string
           data_json: Json
+          event_action: string | null
           id: string
           previous_hash: string
           receiver_id: string | null
           sender_id: string
+          signature: string | null
+          signer_fingerprint: string | null
           timestamp: string
         }
         Insert: {
@@ -115,10 +172,13 @@ export type Database = {
           created_at?: string
           current_hash: string
           data_json: Json
+          event_action?: string | null
           id?: string
           previous_hash: string
           receiver_id?: string | null
           sender_id: string
+          signature?: string | null
+          signer_fingerprint?: string | null
           timestamp?: string
         }
         Update: {
@@ -126,13 +186,115 @@ export type Database = {
           created_at?: string
           current_hash?: string
           data_json?: Json
+          event_action?: string | null
           id?: string
           previous_hash?: string
           receiver_id?: string | null
           sender_id?: string
+          signature?: string | null
+          signer_fingerprint?: string | null
           timestamp?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "blockchain_renewed_receiver_id_fkey"
+            columns: ["receiver_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blockchain_renewed_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      care_team_members: {
+        Row: {
+          added_by: string | null
+          created_at: string
+          encrypted_private_key: string
+          profile_id: string
+          team_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          added_by?: string | null
+          created_at?: string
+          encrypted_private_key: string
+          profile_id: string
+          team_id: string
+          wrapped_key: string
+        }
+        Update: {
+          added_by?: string | null
+          created_at?: string
+          encrypted_private_key?: string
+          profile_id?: string
+          team_id?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "care_team_members_added_by_fkey"
+            columns: ["added_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "care_team_members_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "care_team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "care_teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      care_teams: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          key_rotation_due: boolean
+          name: string
+          public_key_pem: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          key_rotation_due?: boolean
+          name: string
+          public_key_pem: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          key_rotation_due?: boolean
+          name?: string
+          public_key_pem?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "care_teams_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       encrypted_files: {
         Row: {
@@ -143,6 +305,8 @@ export type Database = {
           file_name: string
           folder_id: string
           id: string
+          ledger_block_id: string | null
+          merkle_proof: Json | null
           metadata: Json | null
           owner_id: string
           receiver_encrypted_aes_key: string | null
@@ -157,6 +321,8 @@ export type Database = {
           file_name: string
           folder_id: string
           id?: string
+          ledger_block_id?: string | null
+          merkle_proof?: Json | null
           metadata?: Json | null
           owner_id: string
           receiver_encrypted_aes_key?: string | null
@@ -171,13 +337,23 @@ export type Database = {
           file_name?: string
           folder_id?: string
           id?: string
+          ledger_block_id?: string | null
+          merkle_proof?: Json | null
           metadata?: Json | null
           owner_id?: string
           receiver_encrypted_aes_key?: string | null
           receiver_id?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "encrypted_files_ledger_block_id_fkey"
+            columns: ["ledger_block_id"]
+            isOneToOne: false
+            referencedRelation: "blockchain_renewed"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       encrypted_folders: {
         Row: {
@@ -188,7 +364,10 @@ export type Database = {
           id: string
           metadata: Json | null
           owner_id: string
+          patient_id: string | null
           receiver_id: string | null
+          share_expires_at: string | null
+          share_permission: string
           updated_at: string
         }
         Insert: {
@@ -199,7 +378,10 @@ export type Database = {
           id?: string
           metadata?: Json | null
           owner_id: string
+          patient_id?: string | null
           receiver_id?: string | null
+          share_expires_at?: string | null
+          share_permission?: string
           updated_at?: string
         }
         Update: {
@@ -210,10 +392,27 @@ export type Database = {
           id?: string
           metadata?: Json | null
           owner_id?: string
+          patient_id?: string | null
           receiver_id?: string | null
+          share_expires_at?: string | null
+          share_permission?: string
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "encrypted_folders_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "encrypted_folders_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "encrypted_folders_receiver_id_fkey"
             columns: ["receiver_id"]
@@ -231,10 +430,15 @@ export type Database = {
           file_hash: string
           file_name: string
           id: string
+          ledger_block_id: string | null
+          merkle_proof: Json | null
           metadata: Json | null
           owner_id: string
+          patient_id: string | null
           receiver_encrypted_aes_key: string | null
           receiver_id: string | null
+          share_expires_at: string | null
+          share_permission: string
           updated_at: string
         }
         Insert: {
@@ -244,10 +448,15 @@ export type Database = {
           file_hash: string
           file_name: string
           id?: string
+          ledger_block_id?: string | null
+          merkle_proof?: Json | null
           metadata?: Json | null
           owner_id: string
+          patient_id?: string | null
           receiver_encrypted_aes_key?: string | null
           receiver_id?: string | null
+          share_expires_at?: string | null
+          share_permission?: string
           updated_at?: string
         }
         Update: {
@@ -257,11 +466,230 @@ export type Database = {
           file_hash?: string
           file_name?: string
           id?: string
+          ledger_block_id?: string | null
+          merkle_proof?: Json | null
           metadata?: Json | null
           owner_id?: string
+          patient_id?: string | null
           receiver_encrypted_aes_key?: string | null
           receiver_id?: string | null
+          share_expires_at?: string | null
+          share_permission?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "encrypted_images_ledger_block_id_fkey"
+            columns: ["ledger_block_id"]
+            isOneToOne: false
+            referencedRelation: "blockchain_renewed"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "encrypted_images_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      file_shares: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          file_id: string
+          id: string
+          permission: string
+          recipient_id: string
+          shared_by: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          file_id: string
+          id?: string
+          permission?: string
+          recipient_id: string
+          shared_by: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          file_id?: string
+          id?: string
+          permission?: string
+          recipient_id?: string
+          shared_by?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_shares_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "encrypted_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "file_shares_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "file_shares_shared_by_fkey"
+            columns: ["shared_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      folder_team_shares: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          folder_id: string
+          id: string
+          permission: string
+          shared_by: string
+          team_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          folder_id: string
+          id?: string
+          permission?: string
+          shared_by: string
+          team_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          folder_id?: string
+          id?: string
+          permission?: string
+          shared_by?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "folder_team_shares_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "encrypted_folders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "folder_team_shares_shared_by_fkey"
+            columns: ["shared_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "folder_team_shares_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "care_teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      key_vaults: {
+        Row: {
+          created_at: string
+          id: string
+          kdf: string
+          kdf_iterations: number
+          kdf_salt: string
+          profile_id: string
+          signing_key_iv: string | null
+          updated_at: string
+          user_id: string
+          wrap_iv: string
+          wrapped_private_key: string
+          wrapped_signing_key: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kdf?: string
+          kdf_iterations: number
+          kdf_salt: string
+          profile_id: string
+          signing_key_iv?: string | null
           updated_at?: string
+          user_id: string
+          wrap_iv: string
+          wrapped_private_key: string
+          wrapped_signing_key?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kdf?: string
+          kdf_iterations?: number
+          kdf_salt?: string
+          profile_id?: string
+          signing_key_iv?: string | null
+          updated_at?: string
+          user_id?: string
+          wrap_iv?: string
+          wrapped_private_key?: string
+          wrapped_signing_key?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "key_vaults_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_checkpoints: {
+        Row: {
+          block_count: number
+          block_index: number
+          created_at: string
+          id: string
+          key_fingerprint: string
+          signature: string
+          tip_hash: string
+          tsa_time: string | null
+          tsa_token: string | null
+          tsa_url: string | null
+        }
+        Insert: {
+          block_count: number
+          block_index: number
+          created_at: string
+          id?: string
+          key_fingerprint: string
+          signature: string
+          tip_hash: string
+          tsa_time?: string | null
+          tsa_token?: string | null
+          tsa_url?: string | null
+        }
+        Update: {
+          block_count?: number
+          block_index?: number
+          created_at?: string
+          id?: string
+          key_fingerprint?: string
+          signature?: string
+          tip_hash?: string
+          tsa_time?: string | null
+          tsa_token?: string | null
+          tsa_url?: string | null
         }
         Relationships: []
       }
@@ -275,7 +703,7 @@ export type Database = {
           id: string
           metadata: Json | null
           owner_id: string
-          shared_with_id: string | null
+          patient_id: string | null
           updated_at: string | null
         }
         Insert: {
@@ -287,7 +715,7 @@ export type Database = {
           id?: string
           metadata?: Json | null
           owner_id: string
-          shared_with_id?: string | null
+          patient_id?: string | null
           updated_at?: string | null
         }
         Update: {
@@ -299,7 +727,7 @@ export type Database = {
           id?: string
           metadata?: Json | null
           owner_id?: string
-          shared_with_id?: string | null
+          patient_id?: string | null
           updated_at?: string | null
         }
         Relationships: [
@@ -311,8 +739,127 @@ export type Database = {
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "medical_records_shared_with_id_fkey"
-            columns: ["shared_with_id"]
+            foreignKeyName: "medical_records_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patient_share_items: {
+        Row: {
+          created_at: string
+          item_id: string
+          item_type: string
+          patient_share_id: string
+        }
+        Insert: {
+          created_at?: string
+          item_id: string
+          item_type: string
+          patient_share_id: string
+        }
+        Update: {
+          created_at?: string
+          item_id?: string
+          item_type?: string
+          patient_share_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patient_share_items_patient_share_id_fkey"
+            columns: ["patient_share_id"]
+            isOneToOne: false
+            referencedRelation: "patient_shares"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patient_shares: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          patient_id: string
+          permission: string
+          recipient_id: string
+          shared_by: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          patient_id: string
+          permission?: string
+          recipient_id: string
+          shared_by: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          patient_id?: string
+          permission?: string
+          recipient_id?: string
+          shared_by?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patient_shares_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "patient_shares_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "patient_shares_shared_by_fkey"
+            columns: ["shared_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patients: {
+        Row: {
+          created_at: string
+          encrypted_aes_key: string
+          encrypted_demographics: string
+          id: string
+          owner_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          encrypted_aes_key: string
+          encrypted_demographics: string
+          id?: string
+          owner_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          encrypted_aes_key?: string
+          encrypted_demographics?: string
+          id?: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patients_owner_id_fkey"
+            columns: ["owner_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
@@ -325,6 +872,7 @@ export type Database = {
           face_encoding_data: string | null
           full_name: string
           id: string
+          legacy_public_key_pem: string | null
           private_key_pem: string | null
           public_key_pem: string | null
           specialization: string | null
@@ -336,6 +884,7 @@ export type Database = {
           face_encoding_data?: string | null
           full_name: string
           id?: string
+          legacy_public_key_pem?: string | null
           private_key_pem?: string | null
           public_key_pem?: string | null
           specialization?: string | null
@@ -347,6 +896,7 @@ export type Database = {
           face_encoding_data?: string | null
           full_name?: string
           id?: string
+          legacy_public_key_pem?: string | null
           private_key_pem?: string | null
           public_key_pem?: string | null
           specialization?: string | null
@@ -355,6 +905,74 @@ export type Database = {
         }
         Relationships: []
       }
+      record_shares: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          parent_share_id: string | null
+          permission: string
+          recipient_id: string
+          record_id: string
+          reshare_policy: string
+          shared_by: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          parent_share_id?: string | null
+          permission?: string
+          recipient_id: string
+          record_id: string
+          reshare_policy?: string
+          shared_by: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          parent_share_id?: string | null
+          permission?: string
+          recipient_id?: string
+          record_id?: string
+          reshare_policy?: string
+          shared_by?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "record_shares_parent_share_id_fkey"
+            columns: ["parent_share_id"]
+            isOneToOne: false
+            referencedRelation: "record_shares"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "record_shares_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "record_shares_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "medical_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "record_shares_shared_by_fkey"
+            columns: ["shared_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       registered_doctors: {
         Row: {
           created_at: string
@@ -379,6 +997,80 @@ export type Database = {
         }
         Relationships: []
       }
+      signing_keys: {
+        Row: {
+          algorithm: string
+          created_at: string
+          fingerprint: string
+          id: string
+          profile_id: string
+          public_key_pem: string
+          revoked_at: string | null
+        }
+        Insert: {
+          algorithm?: string
+          created_at?: string
+          fingerprint: string
+          id?: string
+          profile_id: string
+          public_key_pem: string
+          revoked_at?: string | null
+        }
+        Update: {
+          algorithm?: string
+          created_at?: string
+          fingerprint?: string
+          id?: string
+          profile_id?: string
+          public_key_pem?: string
+          revoked_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "signing_keys_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_file_keys: {
+        Row: {
+          created_at: string
+          file_id: string
+          team_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          file_id: string
+          team_id: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          file_id?: string
+          team_id?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_file_keys_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "encrypted_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_file_keys_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "care_teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       verified_doctors: {
         Row: {
           created_at: string
@@ -414,7 +1106,180 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      append_block: {
+        Args: {
+          p_data: Json
+          p_index: number
+          p_previous_hash: string
+          p_receiver_id?: string
+          p_signature: string
+          p_signer_fingerprint: string
+        }
+        Returns: {
+          block_index: number
+          created_at: string
+          current_hash: string
+          data_json: Json
+          event_action: string | null
+          id: string
+          previous_hash: string
+          receiver_id: string | null
+          sender_id: string
+          signature: string | null
+          signer_fingerprint: string | null
+          timestamp: string
+        }
+      }
+      block_timestamp_text: {
+        Args: { p_timestamp: string }
+        Returns: string
+      }
+      calculate_block_hash: {
+        Args: {
+          p_data: Json
+          p_index: number
+          p_previous_hash: string
+          p_timestamp: string
+        }
+        Returns: string
+      }
+      can_reshare_record: {
+        Args: {
+          p_expires_at: string
+          p_parent_share_id: string
+          p_permission: string
+          p_record_id: string
+          p_reshare_policy: string
+        }
+        Returns: boolean
+      }
+      canonical_json: {
+        Args: { p_value: Json }
+        Returns: string
+      }
+      get_own_plaintext_private_key: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      is_file_owner: {
+        Args: { p_file_id: string }
+        Returns: boolean
+      }
+      is_folder_owner: {
+        Args: { p_folder_id: string }
+        Returns: boolean
+      }
+      is_patient_owner: {
+        Args: {
+          p_patient_id: string
+        }
+        Returns: boolean
+      }
+      is_record_owner: {
+        Args: { p_record_id: string }
+        Returns: boolean
+      }
+      is_team_admin: {
+        Args: { p_team_id: string }
+        Returns: boolean
+      }
+      is_team_member: {
+        Args: { p_team_id: string }
+        Returns: boolean
+      }
+      ledger_block_hashes: {
+        Args: { p_indices: number[] }
+        Returns: {
+          block_index: number
+          current_hash: string
+        }[]
+      }
+      ledger_block_links: {
+        Args: {
+          p_indices: number[]
+        }
+        Returns: {
+          block_index: number
+          current_hash: string
+          previous_hash: string
+          signature: string | null
+        }[]
+      }
+      ledger_chain: {
+        Args: {
+          p_limit: number
+          p_offset: number
+        }
+        Returns: {
+          block_index: number
+          current_hash: string
+          previous_hash: string
+          signature: string | null
+        }[]
+      }
+      ledger_event_action: {
+        Args: { p_data: Json }
+        Returns: string
+      }
+      ledger_next_block: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          block_index: number
+          previous_hash: string
+        }[]
+      }
+      ledger_tip: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          block_count: number
+          block_index: number
+          current_hash: string
+        }[]
+      }
+      legacy_chain_summary: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          block_count: number
+          chain_digest: string
+          genesis_hash: string
+          linked: boolean
+          tip_hash: string
+        }[]
+      }
+      register_signing_key: {
+        Args: {
+          p_public_key_pem: string
+          p_signing_key_iv: string
+          p_wrapped_signing_key: string
+        }
+        Returns: string
+      }
+      rotate_team_key: {
+        Args: {
+          p_file_keys: Json
+          p_member_keys: Json
+          p_public_key_pem: string
+          p_removed_id?: string
+          p_team_id: string
+        }
+        Returns: undefined
+      }
+      signing_key_fingerprint: {
+        Args: { p_public_key_pem: string }
+        Returns: string
+      }
+      store_key_vault: {
+        Args: {
+          p_kdf: string
+          p_kdf_iterations: number
+          p_kdf_salt: string
+          p_legacy_public_key_pem?: string
+          p_public_key_pem?: string
+          p_wrap_iv: string
+          p_wrapped_private_key: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       message_status: "pending" | "resolved"
@@ -0,0 +1,151 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { isVaultUnlocked } from "@/lib/keyVault";
+import { appendEvent } from "@/lib/ledger";
+
+export type AccessRequestStatus = "pending" | "approved" | "denied";
+
+type RequestParty = { full_name: string; specialization: string | null } | null;
+
+export type AccessRequest = Tables<"access_requests"> & {
+  requester: RequestParty;
+  owner: RequestParty;
+};
+
+// What the owner shared to approve a request
+export interface ApprovedResource {
+  type: "record" | "folder";
+  id: string;
+  name: string;
+}
+
+// Every step of a request is signed onto the ledger, so check the vault
+// before anything is written
+function requireUnlockedVault() {
+  if (!isVaultUnlocked()) {
+    throw new Error("Key vault is locked. Unlock it to sign access requests.");
+  }
+}
+
+// A request is answered once. The update only matches a pending request, so
+// no row back means it was already answered, possibly in another tab.
+function requireAnswered(rows: { id: string }[] | null) {
+  if (!rows || rows.length === 0) {
+    throw new Error("This request has already been answered");
+  }
+}
+
+// Requests this doctor received (incoming) and made (outgoing), newest first
+export async function fetchAccessRequests(
+  profileId: string
+): Promise<{ incoming: AccessRequest[]; outgoing: AccessRequest[] }> {
+  const { data, error } = await supabase
+    .from("access_requests")
+    .select(`
+      *,
+      requester:profiles!access_requests_requester_id_fkey(full_name, specialization),
+      owner:profiles!access_requests_owner_id_fkey(full_name, specialization)
+    `)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  const requests = data || [];
+  return {
+    incoming: requests.filter((request) => request.owner_id === profileId),
+    outgoing: requests.filter((request) => request.requester_id === profileId),
+  };
+}
+
+export async function requestAccess(
+  requesterId: string,
+  ownerId: string,
+  subject: string,
+  reason: string
+): Promise<void> {
+  requireUnlockedVault();
+
+  const { data: request, error } = await supabase
+    .from("access_requests")
+    .insert({
+      requester_id: requesterId,
+      owner_id: ownerId,
+      subject: subject.trim(),
+      reason: reason.trim() || null,
+    })
+    .select(`
+      *,
+      requester:profiles!access_requests_requester_id_fkey(full_name, specialization),
+      owner:profiles!access_requests_owner_id_fkey(full_name, specialization)
+    `)
+    .single();
+
+  if (error) throw error;
+
+  // The subject and reason can name a patient, so they stay in the request
+  // row; the ledger is readable by every doctor
+  await appendEvent({
+    action: "ACCESS_REQUESTED",
+    requestId: request.id,
+    senderId: requesterId,
+    senderName: request.requester?.full_name,
+    receiverId: ownerId,
+    receiverName: request.owner?.full_name,
+  });
+}
+
+export async function denyAccessRequest(request: AccessRequest): Promise<void> {
+  requireUnlockedVault();
+
+  const { data, error } = await supabase
+    .from("access_requests")
+    .update({ status: "denied", responded_at: new Date().toISOString() })
+    .eq("id", request.id)
+    .eq("status", "pending")
+    .select("id");
+
+  if (error) throw error;
+  requireAnswered(data);
+
+  await appendEvent({
+    action: "ACCESS_REQUEST_DENIED",
+    requestId: request.id,
+    senderId: request.owner_id,
+    senderName: request.owner?.full_name,
+    receiverId: request.requester_id,
+    receiverName: request.requester?.full_name,
+  });
+}
+
+// Mark a request approved once the owner has shared a record or folder with
+// the requester. The share itself is already on the ledger; this links the
+// request to it.
+export async function approveAccessRequest(request: AccessRequest, resource: ApprovedResource): Promise<void> {
+  requireUnlockedVault();
+
+  const { data, error } = await supabase
+    .from("access_requests")
+    .update({
+      status: "approved",
+      resource_type: resource.type,
+      resource_id: resource.id,
+      responded_at: new Date().toISOString(),
+    })
+    .eq("id", request.id)
+    .eq("status", "pending")
+    .select("id");
+
+  if (error) throw error;
+  requireAnswered(data);
+
+  await appendEvent({
+    action: "ACCESS_REQUEST_APPROVED",
+    requestId: request.id,
+    resourceType: resource.type,
+    resourceId: resource.id,
+    resourceName: resource.name,
+    senderId: request.owner_id,
+    senderName: request.owner?.full_name,
+    receiverId: request.requester_id,
+    receiverName: request.requester?.full_name,
+  });
+}
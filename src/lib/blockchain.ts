@@ -1,14 +1,10 @@
 import CryptoJS from 'crypto-js';
+import { parseLedgerEvent } from '@/lib/ledgerEvents';
+import { BLOCK_POSITION_SIGNED_SINCE, verifyBlockSignature, verifyLegacyBlockSignature } from '@/lib/signing';
 
-export interface BlockData {
-  fileName: string;
-  fileHash: string;
-  senderId: string;
-  senderName: string;
-  receiverId?: string;
-  receiverName?: string;
-  timestamp: string;
-}
+// A block's data_json as stored. See ledgerEvents.ts for the typed event
+// schema that current blocks follow.
+export type BlockData = Record<string, unknown>;
 
 export interface Block {
   index: number;
@@ -16,6 +12,136 @@ export interface Block {
   data: BlockData;
   previousHash: string;
   hash: string;
+  // Set on blocks read from the ledger; blocks from before signing have none
+  senderId?: string;
+  signature?: string | null;
+  signerFingerprint?: string | null;
+}
+
+// The columns of a blockchain_renewed row that verification needs
+export interface StoredBlock {
+  block_index: number;
+  timestamp: string;
+  data_json: unknown;
+  previous_hash: string;
+  current_hash: string;
+  sender_id?: string;
+  signature?: string | null;
+  signer_fingerprint?: string | null;
+}
+
+// A block's place in the chain without its contents, as returned by
+// public.ledger_chain for blocks the viewer can't read
+export interface ChainLink {
+  block_index: number;
+  previous_hash: string;
+  current_hash: string;
+  signature?: string | null;
+}
+
+// The columns of a signing_keys row that signature checks need
+export interface RegisteredSigningKey {
+  profile_id: string;
+  fingerprint: string;
+  public_key_pem: string;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+export type ChainFailureReason =
+  | "genesis"
+  | "index"
+  | "link"
+  | "hash"
+  | "unverified"
+  | "schema"
+  | "signature"
+  | "checkpoint";
+
+type HashCheck = "match" | "mismatch" | "unverified";
+
+export interface ChainFailure {
+  // Position in the chain, which differs from blockIndex when indices repeat;
+  // -1 for a block that is missing from the chain's links
+  position: number;
+  blockIndex: number;
+  reason: ChainFailureReason;
+  message: string;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  blockCount: number;
+  failures: ChainFailure[];
+}
+
+// Key order the clients built block data in before append_block existed.
+// jsonb re-sorts keys on write, so those hashes can only be reproduced by
+// restoring this order.
+const LEGACY_KEY_ORDER = [
+  "folderId",
+  "folderName",
+  "folderHash",
+  "fileCount",
+  "fileName",
+  "fileHash",
+  "senderId",
+  "senderName",
+  "receiverId",
+  "receiverName",
+  "action",
+  "timestamp",
+];
+
+function legacyJson(data: object): string {
+  const keys = Object.keys(data);
+  const ordered = [
+    ...LEGACY_KEY_ORDER.filter((key) => keys.includes(key)),
+    ...keys.filter((key) => !LEGACY_KEY_ORDER.includes(key)),
+  ];
+  return JSON.stringify(data, ordered);
+}
+
+// ShareFolderDialog used to hash with a fresh Date taken a couple of round
+// trips after data.timestamp, and let the database stamp the row with now().
+// The hashed time was never stored, so it is searched for within this window.
+// Each millisecond costs a SHA-256 on the main thread, so the window is capped;
+// a block whose time isn't found in it is reported as unverified, not modified.
+const LEGACY_TIMESTAMP_SEARCH_MS = 5_000;
+// Search results, including misses, keyed by everything hashed except the time
+const recoveredTimestamps = new Map<string, string | null>();
+
+function isLegacyFolderShare(data: BlockData): boolean {
+  return typeof data?.fileName === "string" && data.fileName.startsWith("Folder: ") && !!data.receiverId;
+}
+
+function shortHash(hash: string): string {
+  return hash.length > 16 ? `${hash.substring(0, 16)}...` : hash;
+}
+
+// JSON with object keys sorted and no whitespace, so a block's hash doesn't
+// depend on key order (jsonb does not preserve it). Mirrors public.canonical_json.
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item === undefined ? null : item)).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function toLink(block: Block): ChainLink {
+  return {
+    block_index: block.index,
+    previous_hash: block.previousHash,
+    current_hash: block.hash,
+    signature: block.signature,
+  };
 }
 
 export class Blockchain {
@@ -44,9 +170,47 @@ export class Blockchain {
   }
 
   calculateHash(index: number, timestamp: string, data: BlockData, previousHash: string): string {
-    return CryptoJS.SHA256(
-      index + timestamp + JSON.stringify(data) + previousHash
-    ).toString();
+    return this.hashSerialized(index, timestamp, canonicalJson(data), previousHash);
+  }
+
+  private hashSerialized(index: number, timestamp: string, json: string, previousHash: string): string {
+    return CryptoJS.SHA256(index + timestamp + json + previousHash).toString();
+  }
+
+  // Whether the block's hash can be reproduced under any scheme the ledger
+  // has used: canonical (append_block) first, then the legacy client ones.
+  // A legacy folder share whose hashed time is outside the search window can
+  // be neither matched nor ruled out.
+  private checkHash(block: Block): HashCheck {
+    const { index, timestamp, data, previousHash, hash } = block;
+
+    if (this.calculateHash(index, timestamp, data, previousHash) === hash) return "match";
+    if (this.hashSerialized(index, timestamp, legacyJson(data), previousHash) === hash) return "match";
+    if (!isLegacyFolderShare(data)) return "mismatch";
+
+    const json = legacyJson(data);
+    const cacheKey = [index, json, previousHash, hash].join("|");
+    if (!recoveredTimestamps.has(cacheKey)) {
+      recoveredTimestamps.set(cacheKey, this.findHashedTimestamp(index, json, previousHash, hash, String(data.timestamp)));
+    }
+    return recoveredTimestamps.get(cacheKey) !== null ? "match" : "unverified";
+  }
+
+  private findHashedTimestamp(
+    index: number,
+    json: string,
+    previousHash: string,
+    hash: string,
+    from: string
+  ): string | null {
+    const start = new Date(from).getTime();
+    if (Number.isNaN(start)) return null;
+
+    for (let offset = 0; offset <= LEGACY_TIMESTAMP_SEARCH_MS; offset++) {
+      const candidate = new Date(start + offset).toISOString();
+      if (this.hashSerialized(index, candidate, json, previousHash) === hash) return candidate;
+    }
+    return null;
   }
 
   getLatestBlock(): Block {
@@ -70,30 +234,202 @@ export class Blockchain {
     return newBlock;
   }
 
-  isChainValid(): boolean {
-    for (let i = 1; i < this.chain.length; i++) {
-      const currentBlock = this.chain[i];
-      const previousBlock = this.chain[i - 1];
-
-      // Recalculate hash
-      const calculatedHash = this.calculateHash(
-        currentBlock.index,
-        currentBlock.timestamp,
-        currentBlock.data,
-        currentBlock.previousHash
-      );
+  // Genesis, ordering and linkage, which need only each block's index and
+  // hashes, so blocks the viewer can't read are checked too
+  static verifyLinks(links: ChainLink[]): ChainFailure[] {
+    const failures: ChainFailure[] = [];
+
+    links.forEach((link, position) => {
+      const fail = (reason: ChainFailureReason, message: string) =>
+        failures.push({ position, blockIndex: link.block_index, reason, message });
 
-      // Verify current block hash
-      if (currentBlock.hash !== calculatedHash) {
-        return false;
+      if (position === 0) {
+        if (link.block_index !== 0 || link.previous_hash !== "0") {
+          fail("genesis", `Block #${link.block_index} should be the genesis block (index 0, previous hash "0")`);
+        }
+        return;
       }
 
-      // Verify link to previous block
-      if (currentBlock.previousHash !== previousBlock.hash) {
-        return false;
+      const previousLink = links[position - 1];
+      if (link.block_index === previousLink.block_index) {
+        fail("index", `Block #${link.block_index} appears more than once`);
+      } else if (link.block_index !== previousLink.block_index + 1) {
+        fail("index", `Expected block #${previousLink.block_index + 1} but found block #${link.block_index}`);
       }
+
+      if (link.previous_hash !== previousLink.current_hash) {
+        fail(
+          "link",
+          `Block #${link.block_index} does not link to block #${previousLink.block_index}: previous hash is ${shortHash(link.previous_hash)}, expected ${shortHash(previousLink.current_hash)}`
+        );
+      }
+    });
+
+    return failures;
+  }
+
+  // Recompute every hash and check every link, reporting each block that fails
+  verifyChain(): ChainVerification {
+    const failures = [
+      ...Blockchain.verifyLinks(this.chain.map(toLink)),
+      ...this.chain.flatMap((block, position) => this.contentFailures(block, position)),
+    ].sort((a, b) => a.position - b.position);
+
+    return { valid: failures.length === 0, blockCount: this.chain.length, failures };
+  }
+
+  // Checks that need only the block itself: its hash and event schema
+  private contentFailures(block: Block, position: number): ChainFailure[] {
+    const failures: ChainFailure[] = [];
+    const fail = (reason: ChainFailureReason, message: string) =>
+      failures.push({ position, blockIndex: block.index, reason, message });
+
+    const hashCheck = this.checkHash(block);
+    if (hashCheck === "mismatch") {
+      fail("hash", `Block #${block.index} was modified: its contents no longer hash to ${shortHash(block.hash)}`);
+    } else if (hashCheck === "unverified") {
+      fail(
+        "unverified",
+        `Block #${block.index} is a legacy folder share whose hash could not be reproduced within ${LEGACY_TIMESTAMP_SEARCH_MS / 1000}s of its timestamp, so it could not be verified`
+      );
+    }
+
+    const parsed = parseLedgerEvent(block.data);
+    if (parsed.error) {
+      fail("schema", `Block #${block.index} does not match the ledger event schema (${parsed.error})`);
+    }
+
+    return failures;
+  }
+
+  // Check a signed block against its author's registered key
+  private async signatureFailure(
+    block: Block,
+    position: number,
+    keysByFingerprint: Map<string, RegisteredSigningKey>
+  ): Promise<ChainFailure | null> {
+    const fail = (message: string): ChainFailure => ({
+      position,
+      blockIndex: block.index,
+      reason: "signature",
+      message,
+    });
+
+    if (!block.signature || !block.signerFingerprint) {
+      return fail(`Block #${block.index} is unsigned, but was written after block signing was enabled`);
+    }
+
+    const key = keysByFingerprint.get(block.signerFingerprint);
+    if (!key) {
+      return fail(`Block #${block.index} was signed with an unregistered key (${shortHash(block.signerFingerprint)})`);
+    }
+
+    const claimedSender = block.data?.senderId;
+    if (key.profile_id !== block.senderId || (claimedSender !== undefined && claimedSender !== key.profile_id)) {
+      return fail(`Block #${block.index} was signed with a key that does not belong to its sender`);
+    }
+
+    const signedAt = new Date(block.timestamp).getTime();
+    if (signedAt < new Date(key.created_at).getTime() || (key.revoked_at && signedAt >= new Date(key.revoked_at).getTime())) {
+      return fail(`Block #${block.index} was signed outside the period its key was active`);
+    }
+
+    const signedPosition = { index: block.index, previousHash: block.previousHash };
+    const signed =
+      (await verifyBlockSignature(block.data, signedPosition, block.signature, key.public_key_pem)) ||
+      (signedAt < new Date(BLOCK_POSITION_SIGNED_SINCE).getTime() &&
+        (await verifyLegacyBlockSignature(block.data, block.signature, key.public_key_pem)));
+    if (!signed) {
+      return fail(
+        `Block #${block.index} has an invalid signature: its contents and position were not signed by ${shortHash(key.fingerprint)}`
+      );
     }
-    return true;
+
+    return null;
+  }
+
+  // Check every signature against its author's registered key. Blocks written
+  // before signing existed are unsigned, but once a signed block appears every
+  // later block must be signed too.
+  async verifySignatures(keys: RegisteredSigningKey[]): Promise<ChainFailure[]> {
+    const keysByFingerprint = new Map(keys.map((key) => [key.fingerprint, key]));
+    const firstSigned = this.chain.findIndex((block) => block.signature);
+    if (firstSigned === -1) return [];
+
+    const results = await Promise.all(
+      this.chain
+        .slice(firstSigned)
+        .map((block, offset) => this.signatureFailure(block, firstSigned + offset, keysByFingerprint))
+    );
+
+    return results.filter((failure): failure is ChainFailure => failure !== null);
+  }
+
+  // Verify one block on its own: hash, schema and, if signed, its signature.
+  // Linkage and ordering depend on its neighbours; see verifyChain.
+  async verifyBlock(position: number, keys: RegisteredSigningKey[]): Promise<ChainFailure[]> {
+    const block = this.chain[position];
+    const failures = this.contentFailures(block, position);
+
+    if (block.signature) {
+      const keysByFingerprint = new Map(keys.map((key) => [key.fingerprint, key]));
+      const failure = await this.signatureFailure(block, position, keysByFingerprint);
+      if (failure) failures.push(failure);
+    }
+
+    return failures;
+  }
+
+  // verifyChain plus signature checks, with failures in chain order
+  async verifyChainWithSignatures(keys: RegisteredSigningKey[]): Promise<ChainVerification> {
+    const verification = this.verifyChain();
+    const failures = [...verification.failures, ...(await this.verifySignatures(keys))].sort(
+      (a, b) => a.position - b.position
+    );
+    return { ...verification, valid: failures.length === 0, failures };
+  }
+
+  // Verify the blocks at hand against the links of the whole chain: every
+  // link from genesis to tip, that no block after the first signed one is
+  // unsigned, and the hash, schema and signature of each block held
+  async verifyAgainstLinks(links: ChainLink[], keys: RegisteredSigningKey[]): Promise<ChainVerification> {
+    const failures = Blockchain.verifyLinks(links);
+
+    const firstSigned = links.findIndex((link) => link.signature);
+    links.forEach((link, position) => {
+      if (firstSigned !== -1 && position > firstSigned && !link.signature) {
+        failures.push({
+          position,
+          blockIndex: link.block_index,
+          reason: "signature",
+          message: `Block #${link.block_index} is unsigned, but was written after block signing was enabled`,
+        });
+      }
+    });
+
+    const held = await Promise.all(
+      this.chain.map(async (block, i): Promise<ChainFailure[]> => {
+        const position = links.findIndex((link) => link.block_index === block.index && link.current_hash === block.hash);
+        if (position === -1) {
+          return [
+            {
+              position,
+              blockIndex: block.index,
+              reason: "link",
+              message: `Block #${block.index} (${shortHash(block.hash)}) is not part of the ledger's chain`,
+            },
+          ];
+        }
+        return (await this.verifyBlock(i, keys)).map((failure) => ({ ...failure, position }));
+      })
+    );
+
+    const all = [...failures, ...held.flat()].sort((a, b) => a.position - b.position);
+    return { valid: all.length === 0, blockCount: links.length, failures: all };
+  }
+
+  isChainValid(): boolean {
+    return this.verifyChain().valid;
   }
 
   getChain(): Block[] {
@@ -103,4 +439,24 @@ export class Blockchain {
   setChain(chain: Block[]) {
     this.chain = chain;
   }
+
+  // Build a chain from blockchain_renewed rows, in ledger order
+  static fromRows(rows: StoredBlock[]): Blockchain {
+    const blockchain = new Blockchain();
+    const blocks = rows
+      .map((row) => ({
+        index: row.block_index,
+        // Postgres returns "+00:00" offsets; hashes were taken over toISOString()
+        timestamp: new Date(row.timestamp).toISOString(),
+        data: row.data_json as BlockData,
+        previousHash: row.previous_hash,
+        hash: row.current_hash,
+        senderId: row.sender_id,
+        signature: row.signature,
+        signerFingerprint: row.signer_fingerprint,
+      }))
+      .sort((a, b) => a.index - b.index || a.timestamp.localeCompare(b.timestamp));
+    blockchain.setChain(blocks);
+    return blockchain;
+  }
 }
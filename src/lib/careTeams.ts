@@ -0,0 +1,386 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables, TablesInsert } from "@/integrations/supabase/types";
+import {
+  decryptKeyWithRSA,
+  decryptWithAES,
+  encryptKeyWithRSA,
+  encryptWithAES,
+  generateAESKey,
+  generateRSAKeyPair,
+} from "@/lib/encryption";
+import { isVaultUnlocked } from "@/lib/keyVault";
+import { appendEvent } from "@/lib/ledger";
+import { unwrapWithVault } from "@/lib/recordShares";
+import { DEFAULT_SHARE_TERMS, ShareTerms, isExpired } from "@/lib/shareTerms";
+
+type TeamProfile = { full_name: string; specialization: string | null } | null;
+
+export type CareTeamMember = Pick<Tables<"care_team_members">, "team_id" | "profile_id" | "created_at"> & {
+  profile: TeamProfile;
+};
+
+export type CareTeam = Tables<"care_teams"> & { members: CareTeamMember[] };
+
+export type TeamShareableFolder = Pick<Tables<"encrypted_folders">, "id" | "owner_id" | "folder_name" | "folder_hash">;
+
+type MemberProfile = Pick<Tables<"profiles">, "id" | "full_name" | "public_key_pem">;
+
+// Team changes are signed onto the ledger, so check the vault before
+// anything is written
+function requireUnlockedVault() {
+  if (!isVaultUnlocked()) {
+    throw new Error("Key vault is locked. Unlock it to manage care teams.");
+  }
+}
+
+// The team private key PEM is too long for RSA-OAEP, so it is encrypted under
+// a fresh AES key and only that key is wrapped for the member
+async function wrapTeamKey(
+  teamPrivateKey: string,
+  member: MemberProfile
+): Promise<{ wrapped_key: string; encrypted_private_key: string }> {
+  if (!member.public_key_pem) {
+    throw new Error(`${member.full_name} has no encryption keys yet`);
+  }
+
+  const aesKey = generateAESKey();
+  const [wrappedKey, encryptedPrivateKey] = await Promise.all([
+    encryptKeyWithRSA(aesKey, member.public_key_pem),
+    encryptWithAES(teamPrivateKey, aesKey),
+  ]);
+  return { wrapped_key: wrappedKey, encrypted_private_key: encryptedPrivateKey };
+}
+
+async function fetchMemberProfiles(profileIds: string[]): Promise<MemberProfile[]> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id, full_name, public_key_pem")
+    .in("id", profileIds);
+
+  if (error) throw error;
+  return profileIds.map((id) => {
+    const profile = data?.find((row) => row.id === id);
+    if (!profile) throw new Error("Doctor not found");
+    return profile;
+  });
+}
+
+// Teams the caller belongs to, with their members. Owners also see teams they
+// shared a folder with and have since left; those come back without members.
+export async function fetchCareTeams(): Promise<CareTeam[]> {
+  const { data, error } = await supabase
+    .from("care_teams")
+    .select(`
+      *,
+      members:care_team_members(
+        team_id,
+        profile_id,
+        created_at,
+        profile:profiles!care_team_members_profile_id_fkey(full_name, specialization)
+      )
+    `)
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return (data || []).filter((team) => team.members.length > 0);
+}
+
+// The team private key, from the caller's own wrapped copy
+export async function unwrapTeamKey(teamId: string, profileId: string): Promise<string> {
+  const { data: member, error } = await supabase
+    .from("care_team_members")
+    .select("wrapped_key, encrypted_private_key")
+    .eq("team_id", teamId)
+    .eq("profile_id", profileId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!member) throw new Error("You are not a member of this care team");
+
+  const aesKey = await unwrapWithVault(member.wrapped_key, "Failed to decrypt your copy of the team key");
+  return decryptWithAES(member.encrypted_private_key, aesKey);
+}
+
+// Create a team with a new key pair and wrap its private key for every
+// member, the creator included
+export async function createCareTeam(
+  creatorId: string,
+  name: string,
+  memberIds: string[]
+): Promise<Tables<"care_teams">> {
+  requireUnlockedVault();
+
+  const teamName = name.trim();
+  if (!teamName) throw new Error("Name the team");
+
+  const profileIds = [creatorId, ...memberIds.filter((id) => id !== creatorId)];
+  const profiles = await fetchMemberProfiles(profileIds);
+  const teamKeys = await generateRSAKeyPair();
+  // Wrap before inserting, so a member without keys doesn't leave a half-made team
+  const wrapped = await Promise.all(profiles.map((profile) => wrapTeamKey(teamKeys.privateKey, profile)));
+
+  const { data: team, error } = await supabase
+    .from("care_teams")
+    .insert({ name: teamName, created_by: creatorId, public_key_pem: teamKeys.publicKey })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const { error: membersError } = await supabase.from("care_team_members").insert(
+    profiles.map((profile, i) => ({
+      team_id: team.id,
+      profile_id: profile.id,
+      added_by: creatorId,
+      ...wrapped[i],
+    }))
+  );
+
+  if (membersError) {
+    await supabase.from("care_teams").delete().eq("id", team.id);
+    throw membersError;
+  }
+
+  const creatorName = profiles[0].full_name;
+  for (const profile of profiles.slice(1)) {
+    await appendEvent({
+      action: "TEAM_MEMBER_ADDED",
+      teamId: team.id,
+      teamName: team.name,
+      senderId: creatorId,
+      senderName: creatorName,
+      receiverId: profile.id,
+      receiverName: profile.full_name,
+    });
+  }
+
+  return team;
+}
+
+// Wrap the existing team key for new members. Folders already shared with
+// the team open for them straight away; no file key changes.
+export async function addTeamMembers(team: CareTeam, adderId: string, memberIds: string[]): Promise<void> {
+  requireUnlockedVault();
+
+  const newIds = memberIds.filter((id) => !team.members.some((member) => member.profile_id === id));
+  if (newIds.length === 0) return;
+
+  const teamPrivateKey = await unwrapTeamKey(team.id, adderId);
+  const [adder, ...profiles] = await fetchMemberProfiles([adderId, ...newIds]);
+  const wrapped = await Promise.all(profiles.map((profile) => wrapTeamKey(teamPrivateKey, profile)));
+
+  const { error } = await supabase.from("care_team_members").insert(
+    profiles.map((profile, i) => ({
+      team_id: team.id,
+      profile_id: profile.id,
+      added_by: adderId,
+      ...wrapped[i],
+    }))
+  );
+
+  if (error) throw error;
+
+  for (const profile of profiles) {
+    await appendEvent({
+      action: "TEAM_MEMBER_ADDED",
+      teamId: team.id,
+      teamName: team.name,
+      senderId: adderId,
+      senderName: adder.full_name,
+      receiverId: profile.id,
+      receiverName: profile.full_name,
+    });
+  }
+}
+
+type TeamKeyRotation = { creatorName: string; memberCount: number; fileKeyCount: number };
+
+// Generate a new team key pair, wrap it for every remaining member and
+// re-wrap the team's file keys with it. rotate_team_key removes the member,
+// if any, and swaps all the keys in one transaction.
+async function replaceTeamKey(team: CareTeam, creatorId: string, removedId: string | null): Promise<TeamKeyRotation> {
+  const memberIds = team.members
+    .map((member) => member.profile_id)
+    .filter((id) => id !== creatorId && id !== removedId);
+
+  const [oldPrivateKey, profiles, fileKeysResult] = await Promise.all([
+    unwrapTeamKey(team.id, creatorId),
+    fetchMemberProfiles([creatorId, ...memberIds]),
+    supabase.from("team_file_keys").select("file_id, wrapped_key").eq("team_id", team.id),
+  ]);
+
+  if (fileKeysResult.error) throw fileKeysResult.error;
+
+  const teamKeys = await generateRSAKeyPair();
+  const wrapped = await Promise.all(profiles.map((profile) => wrapTeamKey(teamKeys.privateKey, profile)));
+
+  const fileKeys: Record<string, string> = {};
+  for (const fileKey of fileKeysResult.data || []) {
+    const aesKey = await decryptKeyWithRSA(fileKey.wrapped_key, oldPrivateKey);
+    fileKeys[fileKey.file_id] = await encryptKeyWithRSA(aesKey, teamKeys.publicKey);
+  }
+
+  const { error } = await supabase.rpc("rotate_team_key", {
+    p_team_id: team.id,
+    p_public_key_pem: teamKeys.publicKey,
+    p_member_keys: Object.fromEntries(profiles.map((profile, i) => [profile.id, wrapped[i]])),
+    p_file_keys: fileKeys,
+    p_removed_id: removedId ?? undefined,
+  });
+
+  if (error) throw error;
+  return {
+    creatorName: profiles[0].full_name,
+    memberCount: profiles.length,
+    fileKeyCount: Object.keys(fileKeys).length,
+  };
+}
+
+function logKeyRotation(team: CareTeam, creatorId: string, rotation: TeamKeyRotation) {
+  return appendEvent({
+    action: "TEAM_KEY_ROTATED",
+    teamId: team.id,
+    teamName: team.name,
+    senderId: creatorId,
+    senderName: rotation.creatorName,
+    memberCount: rotation.memberCount,
+    fileKeyCount: rotation.fileKeyCount,
+  });
+}
+
+// Give the team a new key pair after a member left on their own. Only the
+// creator can, since the one rotating learns the new private key.
+export async function rotateTeamKey(team: CareTeam, creatorId: string): Promise<void> {
+  requireUnlockedVault();
+
+  if (creatorId !== team.created_by) {
+    throw new Error("Only the team's creator can rotate its key");
+  }
+
+  await logKeyRotation(team, creatorId, await replaceTeamKey(team, creatorId, null));
+}
+
+// Remove a member and rotate the team key, so the copy they held no longer
+// opens the team's file keys. A member may also remove themselves; they
+// can't be handed the new key, so leaving only marks the rotation as due and
+// the creator rotates later.
+export async function removeTeamMember(team: CareTeam, removerId: string, memberId: string): Promise<void> {
+  requireUnlockedVault();
+
+  if (memberId === team.created_by) {
+    throw new Error("The team's creator can't be removed");
+  }
+
+  let rotation: TeamKeyRotation | null = null;
+  if (removerId === memberId) {
+    const { data: removed, error } = await supabase
+      .from("care_team_members")
+      .delete()
+      .eq("team_id", team.id)
+      .eq("profile_id", memberId)
+      .select("profile_id");
+
+    if (error) throw error;
+    if (!removed || removed.length === 0) throw new Error("You are not a member of this care team");
+  } else {
+    if (removerId !== team.created_by) {
+      throw new Error("Only the team's creator can remove other members");
+    }
+    rotation = await replaceTeamKey(team, removerId, memberId);
+  }
+
+  const [remover, member] = await fetchMemberProfiles([removerId, memberId]);
+  await appendEvent({
+    action: "TEAM_MEMBER_REMOVED",
+    teamId: team.id,
+    teamName: team.name,
+    senderId: removerId,
+    senderName: remover.full_name,
+    receiverId: memberId,
+    receiverName: member.full_name,
+  });
+
+  if (rotation) await logKeyRotation(team, removerId, rotation);
+}
+
+// Share a folder with a team: each file key is wrapped once, with the team
+// public key. Sharing again renews the terms and re-wraps the keys.
+export async function shareFolderWithTeam(
+  folder: TeamShareableFolder,
+  senderId: string,
+  teamId: string,
+  terms: ShareTerms = DEFAULT_SHARE_TERMS
+): Promise<string> {
+  requireUnlockedVault();
+  if (isExpired(terms.expiresAt)) throw new Error("The expiry must be in the future");
+
+  const [teamResult, senderResult, filesResult] = await Promise.all([
+    supabase.from("care_teams").select("name, public_key_pem").eq("id", teamId).single(),
+    supabase.from("profiles").select("full_name").eq("id", senderId).single(),
+    supabase.from("encrypted_files").select("id, file_name, encrypted_aes_key").eq("folder_id", folder.id),
+  ]);
+
+  if (teamResult.error) throw teamResult.error;
+  if (senderResult.error) throw senderResult.error;
+  if (filesResult.error) throw filesResult.error;
+
+  const team = teamResult.data;
+  const files = filesResult.data || [];
+  if (files.length === 0) throw new Error("No files found in folder");
+
+  const keys: TablesInsert<"team_file_keys">[] = [];
+  for (const file of files) {
+    const aesKey = await unwrapWithVault(file.encrypted_aes_key, `Failed to decrypt the key for ${file.file_name}`);
+    keys.push({
+      file_id: file.id,
+      team_id: teamId,
+      wrapped_key: await encryptKeyWithRSA(aesKey, team.public_key_pem),
+    });
+  }
+
+  const { error: keysError } = await supabase.from("team_file_keys").upsert(keys, { onConflict: "file_id,team_id" });
+  if (keysError) throw keysError;
+
+  const { error: shareError } = await supabase.from("folder_team_shares").upsert(
+    {
+      folder_id: folder.id,
+      team_id: teamId,
+      shared_by: senderId,
+      permission: terms.permission,
+      expires_at: terms.expiresAt,
+    },
+    { onConflict: "folder_id,team_id" }
+  );
+
+  if (shareError) throw shareError;
+
+  await appendEvent({
+    action: "FOLDER_SHARED_WITH_TEAM",
+    folderId: folder.id,
+    folderName: folder.folder_name,
+    folderHash: folder.folder_hash,
+    fileCount: files.length,
+    teamId,
+    teamName: team.name,
+    senderId,
+    senderName: senderResult.data.full_name,
+    permission: terms.permission,
+    expiresAt: terms.expiresAt,
+  });
+
+  return team.name;
+}
+
+// The team-wrapped keys of a folder's files, by file id
+export async function fetchTeamFileKeys(teamId: string, fileIds: string[]): Promise<Record<string, string>> {
+  if (fileIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("team_file_keys")
+    .select("file_id, wrapped_key")
+    .eq("team_id", teamId)
+    .in("file_id", fileIds);
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map((row) => [row.file_id, row.wrapped_key]));
+}
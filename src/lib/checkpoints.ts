@@ -0,0 +1,131 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { ChainFailure } from "@/lib/blockchain";
+import { verifyCheckpointSignature } from "@/lib/signing";
+
+export type LedgerCheckpoint = Tables<"ledger_checkpoints">;
+
+// Public half of the system checkpoint key, as PEM or bare base64 SPKI. It
+// comes from the build rather than the database, so whoever can rewrite the
+// ledger can't swap it. Checkpoints are not checked when it is unset.
+const CHECKPOINT_PUBLIC_KEY: string | undefined = import.meta.env.VITE_CHECKPOINT_PUBLIC_KEY;
+
+// The newest checkpoint this browser has verified. Checkpoints never go
+// backwards, so one that disappears means the ledger was rolled back.
+// This is only a tripwire: localStorage is per browser, is lost when site
+// data is cleared, and can be edited by anyone with access to the browser or
+// by script running on the page. A rollback is caught only by browsers that
+// saw the later checkpoint; the signed checkpoints and their TSA tokens are
+// the evidence that holds up.
+const TRUSTED_CHECKPOINT_STORAGE_KEY = "ledger:trustedCheckpoint";
+
+interface TrustedCheckpoint {
+  blockIndex: number;
+  tipHash: string;
+}
+
+export interface CheckpointVerification {
+  checkpoint: LedgerCheckpoint | null;
+  failures: ChainFailure[];
+}
+
+export function checkpointsConfigured(): boolean {
+  return !!CHECKPOINT_PUBLIC_KEY;
+}
+
+// What the system key signed; mirrors the ledger-checkpoint edge function
+function checkpointPayload(checkpoint: LedgerCheckpoint) {
+  return {
+    blockIndex: checkpoint.block_index,
+    tipHash: checkpoint.tip_hash,
+    blockCount: checkpoint.block_count,
+    // Postgres returns "+00:00" offsets; the function signed toISOString()
+    createdAt: new Date(checkpoint.created_at).toISOString(),
+  };
+}
+
+function readTrustedCheckpoint(): TrustedCheckpoint | null {
+  try {
+    return JSON.parse(localStorage.getItem(TRUSTED_CHECKPOINT_STORAGE_KEY) ?? "null");
+  } catch {
+    return null;
+  }
+}
+
+function writeTrustedCheckpoint(checkpoint: LedgerCheckpoint): void {
+  const trusted: TrustedCheckpoint = { blockIndex: checkpoint.block_index, tipHash: checkpoint.tip_hash };
+  localStorage.setItem(TRUSTED_CHECKPOINT_STORAGE_KEY, JSON.stringify(trusted));
+}
+
+export async function fetchLatestCheckpoint(): Promise<LedgerCheckpoint | null> {
+  const { data, error } = await supabase
+    .from("ledger_checkpoints")
+    .select("*")
+    .order("block_index", { ascending: false })
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export function isCheckpointSigned(checkpoint: LedgerCheckpoint): Promise<boolean> {
+  if (!CHECKPOINT_PUBLIC_KEY) return Promise.resolve(false);
+  return verifyCheckpointSignature(checkpointPayload(checkpoint), checkpoint.signature, CHECKPOINT_PUBLIC_KEY);
+}
+
+// Check the ledger against its latest signed checkpoint, and against the
+// newest checkpoint this browser has already trusted. Only the checkpointed
+// heights are fetched, through ledger_block_hashes.
+export async function verifyCheckpoints(): Promise<CheckpointVerification> {
+  if (!CHECKPOINT_PUBLIC_KEY) {
+    return { checkpoint: null, failures: [] };
+  }
+
+  const failures: ChainFailure[] = [];
+  const fail = (blockIndex: number, message: string) =>
+    failures.push({ position: blockIndex, blockIndex, reason: "checkpoint", message });
+
+  const latest = await fetchLatestCheckpoint();
+  const signed = latest ? await isCheckpointSigned(latest) : false;
+  if (latest && !signed) {
+    fail(latest.block_index, `Checkpoint at block #${latest.block_index} is not signed by the system checkpoint key`);
+  }
+
+  const remembered = readTrustedCheckpoint();
+  if (remembered && !(signed && latest.block_index >= remembered.blockIndex)) {
+    fail(
+      remembered.blockIndex,
+      `The ledger's signed checkpoints end before block #${remembered.blockIndex}, which was checkpointed earlier`
+    );
+  }
+
+  const expected: TrustedCheckpoint[] = [
+    ...(signed ? [{ blockIndex: latest.block_index, tipHash: latest.tip_hash }] : []),
+    ...(remembered ? [remembered] : []),
+  ].filter(
+    (checkpoint, i, all) =>
+      all.findIndex((other) => other.blockIndex === checkpoint.blockIndex && other.tipHash === checkpoint.tipHash) === i
+  );
+  if (expected.length > 0) {
+    const { data: hashes, error } = await supabase.rpc("ledger_block_hashes", {
+      p_indices: expected.map((checkpoint) => checkpoint.blockIndex),
+    });
+    if (error) throw error;
+
+    for (const checkpoint of expected) {
+      const matches = (hashes || []).some(
+        (row) => row.block_index === checkpoint.blockIndex && row.current_hash === checkpoint.tipHash
+      );
+      if (!matches) {
+        fail(checkpoint.blockIndex, `Block #${checkpoint.blockIndex} diverges from the checkpointed hash ${checkpoint.tipHash}`);
+      }
+    }
+  }
+
+  if (signed && failures.length === 0) {
+    writeTrustedCheckpoint(latest);
+  }
+  return { checkpoint: latest, failures };
+}
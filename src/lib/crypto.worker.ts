@@ -0,0 +1,24 @@
+import { createChunkCipher, decryptKeyWithRSA, encryptKeyWithRSA } from "@/lib/encryption";
+import type { CryptoOperations, CryptoWorkerRequest, CryptoWorkerResponse } from "@/lib/cryptoWorkerPool";
+
+const operations: CryptoOperations = {
+  ...createChunkCipher(),
+  encryptKeyWithRSA,
+  decryptKeyWithRSA,
+};
+
+self.onmessage = async (event: MessageEvent<CryptoWorkerRequest>) => {
+  const { id, op, args } = event.data;
+
+  try {
+    const run = operations[op] as (...args: unknown[]) => Promise<unknown>;
+    const result = await run(...args);
+    // Hand byte results back without copying them
+    const transfer = result instanceof Uint8Array ? [result.buffer] : [];
+    self.postMessage({ id, result } satisfies CryptoWorkerResponse, { transfer });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const name = error instanceof Error ? error.name : "Error";
+    self.postMessage({ id, error: message, name } satisfies CryptoWorkerResponse);
+  }
+};
@@ -0,0 +1,184 @@
+import { ChunkCipher, ChunkedEncryptionHeader, KeyUnwrapError } from "@/lib/encryption";
+
+// Leave a core for the UI thread and the network
+export const DEFAULT_CRYPTO_CONCURRENCY = Math.max(
+  1,
+  Math.min(4, (typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2) - 1)
+);
+
+// Everything a crypto worker can do on behalf of the main thread
+export interface CryptoOperations extends ChunkCipher {
+  encryptKeyWithRSA(aesKey: string, publicKeyPem: string): Promise<string>;
+  decryptKeyWithRSA(encryptedKey: string, privateKeyPem: string, legacyKey?: string | null): Promise<string>;
+}
+
+export type CryptoOperation = keyof CryptoOperations;
+
+export interface CryptoWorkerRequest {
+  id: number;
+  op: CryptoOperation;
+  args: unknown[];
+}
+
+export type CryptoWorkerResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: string; name: string };
+
+export function abortError(): DOMException {
+  return new DOMException("The operation was cancelled", "AbortError");
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw abortError();
+}
+
+interface PendingCall {
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+// A single dedicated worker running the operations in src/lib/encryption.ts.
+// Buffers passed in are transferred, so callers must not reuse them.
+export class CryptoWorker implements CryptoOperations {
+  private worker: Worker;
+  private nextId = 0;
+  private pending = new Map<number, PendingCall>();
+
+  constructor() {
+    this.worker = new Worker(new URL("./crypto.worker.ts", import.meta.url), { type: "module" });
+    this.worker.onmessage = (event: MessageEvent<CryptoWorkerResponse>) => {
+      const call = this.pending.get(event.data.id);
+      if (!call) return;
+      this.pending.delete(event.data.id);
+      if ("error" in event.data) {
+        // Errors lose their class crossing the worker boundary; restore the
+        // one callers branch on
+        call.reject(
+          event.data.name === "KeyUnwrapError" ? new KeyUnwrapError(event.data.error) : new Error(event.data.error)
+        );
+      } else {
+        call.resolve(event.data.result);
+      }
+    };
+    this.worker.onerror = (event) => {
+      this.rejectAll(new Error(event.message || "Crypto worker crashed"));
+    };
+  }
+
+  private call<K extends CryptoOperation>(
+    op: K,
+    args: Parameters<CryptoOperations[K]>,
+    transfer: Transferable[] = []
+  ): Promise<Awaited<ReturnType<CryptoOperations[K]>>> {
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ id, op, args } satisfies CryptoWorkerRequest, transfer);
+    });
+  }
+
+  private rejectAll(reason: unknown) {
+    this.pending.forEach((call) => call.reject(reason));
+    this.pending.clear();
+  }
+
+  sealFileChunk(file: Blob, index: number, header: ChunkedEncryptionHeader, key: string) {
+    return this.call("sealFileChunk", [file, index, header, key]);
+  }
+
+  finishFileHash() {
+    return this.call("finishFileHash", []);
+  }
+
+  openChunk(sealed: Uint8Array, index: number, header: ChunkedEncryptionHeader, key: string) {
+    return this.call("openChunk", [sealed, index, header, key], [sealed.buffer]);
+  }
+
+  decryptStoredData(stored: Uint8Array, key: string) {
+    return this.call("decryptStoredData", [stored, key], [stored.buffer]);
+  }
+
+  encryptKeyWithRSA(aesKey: string, publicKeyPem: string) {
+    return this.call("encryptKeyWithRSA", [aesKey, publicKeyPem]);
+  }
+
+  decryptKeyWithRSA(encryptedKey: string, privateKeyPem: string, legacyKey?: string | null) {
+    return this.call("decryptKeyWithRSA", [encryptedKey, privateKeyPem, legacyKey]);
+  }
+
+  // Stops any work in progress; outstanding calls reject with an AbortError
+  terminate() {
+    this.worker.terminate();
+    this.rejectAll(abortError());
+  }
+}
+
+// Runs per-file crypto tasks across a fixed number of workers. Each running
+// task has a worker to itself, so per-file state such as the running hash of
+// a chunked upload never has to move between workers.
+export class CryptoWorkerPool {
+  private idle: CryptoWorker[] = [];
+  private workers = new Set<CryptoWorker>();
+
+  constructor(readonly concurrency = DEFAULT_CRYPTO_CONCURRENCY) {}
+
+  private acquire(): CryptoWorker {
+    const worker = this.idle.pop() ?? new CryptoWorker();
+    this.workers.add(worker);
+    return worker;
+  }
+
+  private release(worker: CryptoWorker) {
+    // Workers torn down by terminate() are not reused
+    if (this.workers.has(worker)) this.idle.push(worker);
+  }
+
+  // Run task for every item, at most `concurrency` at a time. Results come back
+  // in item order. Aborting the signal stops in-flight crypto immediately and
+  // rejects every unfinished item with an AbortError.
+  async map<T, R>(
+    items: T[],
+    task: (item: T, worker: CryptoWorker, index: number) => Promise<R>,
+    signal?: AbortSignal
+  ): Promise<PromiseSettledResult<R>[]> {
+    const results: PromiseSettledResult<R>[] = items.map(() => ({
+      status: "rejected",
+      reason: abortError(),
+    }));
+    let next = 0;
+
+    const runNext = async () => {
+      while (next < items.length && !signal?.aborted) {
+        const index = next++;
+        const worker = this.acquire();
+        try {
+          results[index] = { status: "fulfilled", value: await task(items[index], worker, index) };
+        } catch (reason) {
+          results[index] = { status: "rejected", reason: signal?.aborted ? abortError() : reason };
+        } finally {
+          this.release(worker);
+        }
+      }
+    };
+
+    const onAbort = () => this.terminate();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      await Promise.all(Array.from({ length: Math.min(this.concurrency, items.length) }, runNext));
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+
+    return results;
+  }
+
+  terminate() {
+    this.workers.forEach((worker) => worker.terminate());
+    this.workers.clear();
+    this.idle = [];
+  }
+}
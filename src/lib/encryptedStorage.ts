@@ -0,0 +1,170 @@
+import { supabase } from "@/integrations/supabase/client";
+import {
+  ChunkCipher,
+  ChunkedEncryptionHeader,
+  createChunkCipher,
+  createChunkedHeader,
+  isChunkedHeader,
+} from "@/lib/encryption";
+import { throwIfAborted } from "@/lib/cryptoWorkerPool";
+
+const STORAGE_BUCKET = "encrypted-images";
+
+// file_hash of chunked uploads is SHA-256 over the original file bytes
+export const PLAINTEXT_HASH_SCHEME = "sha256-plaintext";
+
+export interface TransferProgress {
+  chunk: number;
+  chunkCount: number;
+  loadedBytes: number;
+  totalBytes: number;
+}
+
+export interface EncryptedUpload {
+  header: ChunkedEncryptionHeader;
+  fileHash: string;
+}
+
+export interface TransferOptions {
+  // Where the crypto runs; defaults to the calling thread
+  cipher?: ChunkCipher;
+  // Checked between chunks; an aborted upload removes what it stored
+  signal?: AbortSignal;
+}
+
+// Any row whose encrypted_path points into the storage bucket
+export interface StoredEncryptedFile {
+  encrypted_path: string;
+  metadata: unknown;
+}
+
+export function toPercent(progress: TransferProgress): number {
+  if (progress.totalBytes === 0) return 100;
+  return Math.round((progress.loadedBytes / progress.totalBytes) * 100);
+}
+
+export function chunkPath(basePath: string, index: number): string {
+  return `${basePath}/chunk-${String(index).padStart(6, "0")}`;
+}
+
+// Encrypt a file chunk by chunk and upload each sealed chunk as its own object.
+// Only one chunk is held in memory at a time, regardless of file size.
+export async function uploadEncryptedFile(
+  file: Blob,
+  key: string,
+  basePath: string,
+  onProgress?: (progress: TransferProgress) => void,
+  { cipher = createChunkCipher(), signal }: TransferOptions = {}
+): Promise<EncryptedUpload> {
+  const header = await createChunkedHeader(key, file.size);
+  const uploadedPaths: string[] = [];
+  let fileHash: string;
+
+  try {
+    for (let index = 0; index < header.chunkCount; index++) {
+      throwIfAborted(signal);
+      const sealed = await cipher.sealFileChunk(file, index, header, key);
+      const path = chunkPath(basePath, index);
+      const { error } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .upload(path, new Blob([sealed]), {
+          contentType: "application/octet-stream",
+          upsert: false,
+        });
+
+      if (error) throw error;
+      uploadedPaths.push(path);
+
+      onProgress?.({
+        chunk: index + 1,
+        chunkCount: header.chunkCount,
+        loadedBytes: Math.min((index + 1) * header.chunkSize, file.size),
+        totalBytes: file.size,
+      });
+    }
+    fileHash = await cipher.finishFileHash();
+  } catch (error) {
+    // Don't leave orphaned partial uploads behind
+    if (uploadedPaths.length > 0) {
+      await supabase.storage.from(STORAGE_BUCKET).remove(uploadedPaths);
+    }
+    throw error;
+  }
+
+  return { header, fileHash };
+}
+
+// Download and decrypt chunks one at a time. Decrypted chunks are handed to
+// the browser as Blob parts, which it can page out of the JS heap.
+export async function downloadEncryptedFile(
+  basePath: string,
+  header: ChunkedEncryptionHeader,
+  key: string,
+  type = "application/octet-stream",
+  onProgress?: (progress: TransferProgress) => void,
+  { cipher = createChunkCipher(), signal }: TransferOptions = {}
+): Promise<Blob> {
+  const parts: Blob[] = [];
+
+  for (let index = 0; index < header.chunkCount; index++) {
+    throwIfAborted(signal);
+    const { data, error } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .download(chunkPath(basePath, index));
+
+    if (error) throw error;
+
+    const plain = await cipher.openChunk(new Uint8Array(await data.arrayBuffer()), index, header, key);
+    parts.push(new Blob([plain]));
+
+    onProgress?.({
+      chunk: index + 1,
+      chunkCount: header.chunkCount,
+      loadedBytes: Math.min((index + 1) * header.chunkSize, header.size),
+      totalBytes: header.size,
+    });
+  }
+
+  return new Blob(parts, { type });
+}
+
+// Decrypt a stored file in either the chunked format or the older
+// single-object format (an encrypted data URL)
+export async function downloadStoredFile(
+  file: StoredEncryptedFile,
+  key: string,
+  onProgress?: (progress: TransferProgress) => void,
+  options: TransferOptions = {}
+): Promise<Blob> {
+  const metadata = file.metadata as { encryption?: unknown; type?: string } | null;
+  const header = metadata?.encryption;
+  if (isChunkedHeader(header)) {
+    return downloadEncryptedFile(file.encrypted_path, header, key, metadata?.type || undefined, onProgress, options);
+  }
+
+  const { cipher = createChunkCipher(), signal } = options;
+  throwIfAborted(signal);
+
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .download(file.encrypted_path);
+
+  if (error) throw error;
+
+  const dataUrl = await cipher.decryptStoredData(new Uint8Array(await data.arrayBuffer()), key);
+  const response = await fetch(dataUrl);
+  return response.blob();
+}
+
+// Delete every object a stored file occupies: its chunks, or the single
+// object of the older format
+export async function removeStoredFile(file: StoredEncryptedFile): Promise<void> {
+  const metadata = file.metadata as { encryption?: unknown } | null;
+  const header = metadata?.encryption;
+  const paths = isChunkedHeader(header)
+    ? Array.from({ length: header.chunkCount }, (_, index) => chunkPath(file.encrypted_path, index))
+    : [file.encrypted_path];
+
+  const { error } = await supabase.storage.from(STORAGE_BUCKET).remove(paths);
+  if (error) throw error;
+}
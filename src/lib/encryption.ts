@@ -5,54 +5,531 @@ export function generateAESKey(): string {
   return CryptoJS.lib.WordArray.random(256 / 8).toString();
 }
 
-// Encrypt data with AES
-export function encryptWithAES(data: string, key: string): string {
-  return CryptoJS.AES.encrypt(data, key).toString();
+/*
+ * Encrypted envelope format (all integers big-endian):
+ *
+ *   magic "MCEV" (4) | version (1) | algorithm id (1)
+ *   | IV length (1) | IV | key id length (1) | key id
+ *   | AES-256-GCM ciphertext | GCM auth tag (16)
+ *
+ * The header is bound to the ciphertext as GCM additional data, and the key id
+ * is a fingerprint of the AES key the envelope was sealed with, so the wrapped
+ * key that opens it can be identified without trial decryption.
+ */
+const ENVELOPE_MAGIC = new Uint8Array([0x4d, 0x43, 0x45, 0x56]); // "MCEV"
+const ENVELOPE_VERSION = 1;
+const ALG_AES_256_GCM = 1;
+const GCM_IV_LENGTH = 12;
+const GCM_TAG_LENGTH = 16;
+const KEY_ID_LENGTH = 8;
+
+interface EnvelopeHeader {
+  version: number;
+  algorithm: number;
+  iv: Uint8Array;
+  keyId: Uint8Array;
+  length: number;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+// AES keys are 256-bit values hex-encoded by generateAESKey
+function aesKeyBytes(key: string): Uint8Array {
+  if (!/^[0-9a-f]{64}$/i.test(key)) {
+    throw new Error("Invalid AES-256 key");
+  }
+  return hexToBytes(key);
+}
+
+function importAESKey(key: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", aesKeyBytes(key), "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+// Fingerprint of an AES key, stored in the envelope header as the key id
+async function aesKeyId(key: string): Promise<Uint8Array> {
+  const digest = await crypto.subtle.digest("SHA-256", aesKeyBytes(key));
+  return new Uint8Array(digest).slice(0, KEY_ID_LENGTH);
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
 }
 
-// Decrypt data with AES
-export function decryptWithAES(encryptedData: string, key: string): string {
-  const bytes = CryptoJS.AES.decrypt(encryptedData, key);
-  return bytes.toString(CryptoJS.enc.Utf8);
+// Check whether stored ciphertext uses the binary envelope format
+export function isEnvelope(data: Uint8Array): boolean {
+  return data.length >= ENVELOPE_MAGIC.length && bytesEqual(data.subarray(0, ENVELOPE_MAGIC.length), ENVELOPE_MAGIC);
 }
 
-// Generate RSA key pair (simplified for demo - in production use Web Crypto API)
-export async function generateRSAKeyPair(): Promise<{ publicKey: string; privateKey: string }> {
-  // For demo purposes, we'll generate a simplified key pair
-  // In production, use Web Crypto API: crypto.subtle.generateKey()
-  const keyPair = CryptoJS.lib.WordArray.random(2048 / 8).toString();
+function parseEnvelopeHeader(envelope: Uint8Array): EnvelopeHeader {
+  if (!isEnvelope(envelope)) {
+    throw new Error("Not an encrypted envelope");
+  }
+
+  let offset = ENVELOPE_MAGIC.length;
+  const readBytes = (length: number) => {
+    if (offset + length > envelope.length) {
+      throw new Error("Encrypted envelope is truncated");
+    }
+    const bytes = envelope.subarray(offset, offset + length);
+    offset += length;
+    return bytes;
+  };
+
+  const [version, algorithm, ivLength] = readBytes(3);
+  if (version !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported envelope version: ${version}`);
+  }
+  if (algorithm !== ALG_AES_256_GCM) {
+    throw new Error(`Unsupported envelope algorithm: ${algorithm}`);
+  }
+
+  const iv = readBytes(ivLength);
+  const [keyIdLength] = readBytes(1);
+  const keyId = readBytes(keyIdLength);
+
+  return { version, algorithm, iv, keyId, length: offset };
+}
+
+// Encrypt bytes with AES-256-GCM into a self-describing envelope
+export async function encryptEnvelope(plaintext: Uint8Array, key: string): Promise<Uint8Array> {
+  const iv = crypto.getRandomValues(new Uint8Array(GCM_IV_LENGTH));
+  const keyId = await aesKeyId(key);
+
+  const header = new Uint8Array(ENVELOPE_MAGIC.length + 3 + iv.length + 1 + keyId.length);
+  header.set(ENVELOPE_MAGIC, 0);
+  let offset = ENVELOPE_MAGIC.length;
+  header.set([ENVELOPE_VERSION, ALG_AES_256_GCM, iv.length], offset);
+  offset += 3;
+  header.set(iv, offset);
+  offset += iv.length;
+  header[offset++] = keyId.length;
+  header.set(keyId, offset);
+
+  const sealed = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: header, tagLength: GCM_TAG_LENGTH * 8 },
+    await importAESKey(key),
+    plaintext
+  );
+
+  const envelope = new Uint8Array(header.length + sealed.byteLength);
+  envelope.set(header, 0);
+  envelope.set(new Uint8Array(sealed), header.length);
+  return envelope;
+}
+
+// Decrypt an envelope. Throws if the key is wrong or any byte was tampered with.
+export async function decryptEnvelope(envelope: Uint8Array, key: string): Promise<Uint8Array> {
+  const header = parseEnvelopeHeader(envelope);
+
+  if (envelope.length < header.length + GCM_TAG_LENGTH) {
+    throw new Error("Encrypted envelope is truncated");
+  }
+  if (!bytesEqual(header.keyId, await aesKeyId(key))) {
+    throw new Error("Encrypted data was sealed with a different key");
+  }
+
+  try {
+    const plain = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: header.iv,
+        additionalData: envelope.subarray(0, header.length),
+        tagLength: GCM_TAG_LENGTH * 8,
+      },
+      await importAESKey(key),
+      envelope.subarray(header.length)
+    );
+    return new Uint8Array(plain);
+  } catch {
+    throw new Error("Encrypted data failed its integrity check and may have been tampered with");
+  }
+}
+
+/*
+ * Chunked format for large files: the plaintext is split into fixed-size
+ * chunks, each sealed separately with AES-256-GCM under its own tag. The IV is
+ * a random per-file prefix plus the chunk index, and the additional data binds
+ * every chunk to its index, the chunk count and the file's header, so chunks
+ * cannot be reordered, dropped, or swapped between files.
+ */
+const CHUNKED_MAGIC = new Uint8Array([0x4d, 0x43, 0x45, 0x43]); // "MCEC"
+const CHUNKED_VERSION = 1;
+const CHUNK_NONCE_PREFIX_LENGTH = 8;
+export const DEFAULT_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// Stored alongside the encrypted chunks (in the row's metadata)
+export type ChunkedEncryptionHeader = {
+  format: "chunked-aes-256-gcm";
+  version: number;
+  size: number;
+  chunkSize: number;
+  chunkCount: number;
+  noncePrefix: string;
+  keyId: string;
+};
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function createChunkedHeader(
+  key: string,
+  size: number,
+  chunkSize = DEFAULT_CHUNK_SIZE
+): Promise<ChunkedEncryptionHeader> {
   return {
-    publicKey: `PUBLIC_${keyPair}`,
-    privateKey: `PRIVATE_${keyPair}`
+    format: "chunked-aes-256-gcm",
+    version: CHUNKED_VERSION,
+    size,
+    chunkSize,
+    chunkCount: Math.max(1, Math.ceil(size / chunkSize)),
+    noncePrefix: arrayBufferToBase64(crypto.getRandomValues(new Uint8Array(CHUNK_NONCE_PREFIX_LENGTH))),
+    keyId: bytesToHex(await aesKeyId(key)),
   };
 }
 
-// Derive shared secret from key strings (demo-only simplification)
+export function isChunkedHeader(value: unknown): value is ChunkedEncryptionHeader {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as ChunkedEncryptionHeader).format === "chunked-aes-256-gcm"
+  );
+}
+
+function chunkIV(header: ChunkedEncryptionHeader, index: number): Uint8Array {
+  const iv = new Uint8Array(GCM_IV_LENGTH);
+  iv.set(new Uint8Array(base64ToArrayBuffer(header.noncePrefix)), 0);
+  new DataView(iv.buffer).setUint32(CHUNK_NONCE_PREFIX_LENGTH, index);
+  return iv;
+}
+
+function chunkAdditionalData(header: ChunkedEncryptionHeader, index: number): Uint8Array {
+  const keyId = hexToBytes(header.keyId);
+  const aad = new Uint8Array(CHUNKED_MAGIC.length + 1 + keyId.length + 4 + 4 + 8 + 4 + 1);
+  const view = new DataView(aad.buffer);
+  let offset = 0;
+  aad.set(CHUNKED_MAGIC, offset);
+  offset += CHUNKED_MAGIC.length;
+  aad[offset++] = header.version;
+  aad.set(keyId, offset);
+  offset += keyId.length;
+  view.setUint32(offset, header.chunkSize);
+  offset += 4;
+  view.setUint32(offset, header.chunkCount);
+  offset += 4;
+  view.setBigUint64(offset, BigInt(header.size));
+  offset += 8;
+  view.setUint32(offset, index);
+  offset += 4;
+  aad[offset] = index === header.chunkCount - 1 ? 1 : 0;
+  return aad;
+}
+
+function assertChunkIndex(header: ChunkedEncryptionHeader, index: number) {
+  if (header.version !== CHUNKED_VERSION) {
+    throw new Error(`Unsupported chunked encryption version: ${header.version}`);
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= header.chunkCount) {
+    throw new Error(`Chunk index ${index} is out of range`);
+  }
+}
+
+// Encrypt one plaintext chunk; the result is ciphertext followed by its GCM tag
+export async function encryptChunk(
+  chunk: Uint8Array,
+  index: number,
+  header: ChunkedEncryptionHeader,
+  key: string
+): Promise<Uint8Array> {
+  assertChunkIndex(header, index);
+  const sealed = await crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv: chunkIV(header, index),
+      additionalData: chunkAdditionalData(header, index),
+      tagLength: GCM_TAG_LENGTH * 8,
+    },
+    await importAESKey(key),
+    chunk
+  );
+  return new Uint8Array(sealed);
+}
+
+// Decrypt one chunk. Throws if the chunk was altered, reordered or truncated.
+export async function decryptChunk(
+  sealed: Uint8Array,
+  index: number,
+  header: ChunkedEncryptionHeader,
+  key: string
+): Promise<Uint8Array> {
+  assertChunkIndex(header, index);
+  if (header.keyId !== bytesToHex(await aesKeyId(key))) {
+    throw new Error("Encrypted data was sealed with a different key");
+  }
+
+  try {
+    const plain = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: chunkIV(header, index),
+        additionalData: chunkAdditionalData(header, index),
+        tagLength: GCM_TAG_LENGTH * 8,
+      },
+      await importAESKey(key),
+      sealed
+    );
+    return new Uint8Array(plain);
+  } catch {
+    throw new Error(`Chunk ${index + 1} of ${header.chunkCount} failed its integrity check and may have been tampered with`);
+  }
+}
+
+// The chunk-level work behind streaming uploads and downloads. Implemented
+// in-thread by createChunkCipher and off the main thread by CryptoWorker.
+export interface ChunkCipher {
+  // Read, hash and seal one chunk of a file. Chunks must be sealed in order;
+  // sealing chunk 0 starts a new running hash.
+  sealFileChunk(file: Blob, index: number, header: ChunkedEncryptionHeader, key: string): Promise<Uint8Array>;
+  // SHA-256 of all plaintext sealed since chunk 0
+  finishFileHash(): Promise<string>;
+  openChunk(sealed: Uint8Array, index: number, header: ChunkedEncryptionHeader, key: string): Promise<Uint8Array>;
+  decryptStoredData(stored: Uint8Array, key: string): Promise<string>;
+}
+
+function toWordArray(bytes: Uint8Array): CryptoJS.lib.WordArray {
+  const words: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    words[i >>> 2] |= bytes[i] << (24 - (i % 4) * 8);
+  }
+  return CryptoJS.lib.WordArray.create(words, bytes.length);
+}
+
+export function createChunkCipher(): ChunkCipher {
+  let hasher = CryptoJS.algo.SHA256.create();
+
+  return {
+    async sealFileChunk(file, index, header, key) {
+      if (index === 0) hasher = CryptoJS.algo.SHA256.create();
+      const start = index * header.chunkSize;
+      const plain = new Uint8Array(await file.slice(start, start + header.chunkSize).arrayBuffer());
+      hasher.update(toWordArray(plain));
+      return encryptChunk(plain, index, header, key);
+    },
+    async finishFileHash() {
+      return hasher.finalize().toString();
+    },
+    openChunk: decryptChunk,
+    decryptStoredData,
+  };
+}
+
+// Encrypt text with AES-256-GCM, returning the envelope as base64
+export async function encryptWithAES(data: string, key: string): Promise<string> {
+  const envelope = await encryptEnvelope(new TextEncoder().encode(data), key);
+  return arrayBufferToBase64(envelope);
+}
+
+// Decrypt base64 envelope text, or legacy CryptoJS passphrase-mode ciphertext
+export async function decryptWithAES(encryptedData: string, key: string): Promise<string> {
+  let decoded: Uint8Array | null = null;
+  try {
+    decoded = new Uint8Array(base64ToArrayBuffer(encryptedData));
+  } catch {
+    // Not base64, so it cannot be an envelope
+  }
+
+  if (decoded && isEnvelope(decoded)) {
+    return new TextDecoder().decode(await decryptEnvelope(decoded, key));
+  }
+
+  return decryptLegacyAES(encryptedData, key);
+}
+
+// Decrypt stored file bytes in either the binary envelope or legacy text format
+export async function decryptStoredData(stored: Uint8Array, key: string): Promise<string> {
+  if (isEnvelope(stored)) {
+    return new TextDecoder().decode(await decryptEnvelope(stored, key));
+  }
+  return decryptLegacyAES(new TextDecoder().decode(stored), key);
+}
+
+// Legacy AES-CBC (EVP_BytesToKey) ciphertext has no integrity check; an empty
+// or malformed result is the only sign of a wrong key or corrupted data
+function decryptLegacyAES(encryptedData: string, key: string): string {
+  let plain = '';
+  try {
+    plain = CryptoJS.AES.decrypt(encryptedData, key).toString(CryptoJS.enc.Utf8);
+  } catch {
+    // Malformed UTF-8 output, handled below
+  }
+  if (!plain) {
+    throw new Error("Failed to decrypt data: wrong key or corrupted content");
+  }
+  return plain;
+}
+
+const RSA_OAEP_ALGORITHM = { name: "RSA-OAEP", hash: "SHA-256" } as const;
+
+// Prefix marking AES keys wrapped with real RSA-OAEP, so legacy rows can be told apart
+const RSA_OAEP_WRAP_PREFIX = "rsa-oaep-v2:";
+
+export function arrayBufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+function toPem(label: string, der: ArrayBuffer): string {
+  const body = arrayBufferToBase64(der).match(/.{1,64}/g)?.join("\n") ?? "";
+  return `-----BEGIN ${label}-----\n${body}\n-----END ${label}-----`;
+}
+
+function fromPem(pem: string): ArrayBuffer {
+  const body = pem
+    .replace(/-----BEGIN [A-Z ]+-----/, "")
+    .replace(/-----END [A-Z ]+-----/, "")
+    .replace(/\s+/g, "");
+  return base64ToArrayBuffer(body);
+}
+
+// Record keys were once stored unwrapped, as generateAESKey returns them
+export function isPlaintextAESKey(key: string | null | undefined): boolean {
+  return !!key && /^[0-9a-f]{64}$/.test(key);
+}
+
+// Keys generated before RSA-OAEP support were "PUBLIC_x"/"PRIVATE_x" strings
+export function isLegacyKey(key: string | null | undefined): boolean {
+  return !!key && /^(PUBLIC|PRIVATE)_/.test(key);
+}
+
+// Generate RSA-OAEP (SHA-256) key pair, exported as SPKI/PKCS#8 PEM
+export async function generateRSAKeyPair(
+  modulusLength: 2048 | 4096 = 2048
+): Promise<{ publicKey: string; privateKey: string }> {
+  const keyPair = await crypto.subtle.generateKey(
+    {
+      ...RSA_OAEP_ALGORITHM,
+      modulusLength,
+      publicExponent: new Uint8Array([1, 0, 1]),
+    },
+    true,
+    ["encrypt", "decrypt"]
+  );
+
+  const [spki, pkcs8] = await Promise.all([
+    crypto.subtle.exportKey("spki", keyPair.publicKey),
+    crypto.subtle.exportKey("pkcs8", keyPair.privateKey),
+  ]);
+
+  return {
+    publicKey: toPem("PUBLIC KEY", spki),
+    privateKey: toPem("PRIVATE KEY", pkcs8),
+  };
+}
+
+function importRSAPublicKey(publicKeyPem: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("spki", fromPem(publicKeyPem), RSA_OAEP_ALGORITHM, false, ["encrypt"]);
+}
+
+function importRSAPrivateKey(privateKeyPem: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("pkcs8", fromPem(privateKeyPem), RSA_OAEP_ALGORITHM, false, ["decrypt"]);
+}
+
+// Derive shared secret from legacy key strings (pre RSA-OAEP demo keys)
 function deriveSharedSecret(key: string): string {
   // Strip demo prefixes so both "PUBLIC_x" and "PRIVATE_x" map to the same base secret
   return key.replace(/^PUBLIC_|^PRIVATE_/, '');
 }
 
-// Encrypt AES key with RSA public key (simplified)
-export function encryptKeyWithRSA(aesKey: string, publicKey: string): string {
-  // In production, use crypto.subtle.encrypt() with RSA-OAEP
-  const shared = deriveSharedSecret(publicKey);
-  return CryptoJS.AES.encrypt(aesKey, shared).toString();
+// Encrypt AES key with RSA-OAEP public key
+export async function encryptKeyWithRSA(aesKey: string, publicKeyPem: string): Promise<string> {
+  if (isLegacyKey(publicKeyPem)) {
+    throw new Error("Recipient still has legacy keys. They need to sign in once to upgrade their keys.");
+  }
+
+  const publicKey = await importRSAPublicKey(publicKeyPem);
+  const wrapped = await crypto.subtle.encrypt(
+    RSA_OAEP_ALGORITHM,
+    publicKey,
+    new TextEncoder().encode(aesKey)
+  );
+  return RSA_OAEP_WRAP_PREFIX + arrayBufferToBase64(wrapped);
+}
+
+// A wrapped key that the given private key can't open: wrapped for someone
+// else, with a different key pair, or corrupted
+export class KeyUnwrapError extends Error {
+  constructor(message = "Failed to decrypt AES key") {
+    super(message);
+    this.name = "KeyUnwrapError";
+  }
 }
 
-// Decrypt AES key with RSA private key (simplified)
-export function decryptKeyWithRSA(encryptedKey: string, privateKey: string): string {
-  // In production, use crypto.subtle.decrypt() with RSA-OAEP
+// Decrypt AES key with RSA-OAEP private key. Keys wrapped before the upgrade
+// fall back to the legacy scheme, using the profile's retired legacy key.
+// Throws KeyUnwrapError when the key can't be unwrapped.
+export async function decryptKeyWithRSA(
+  encryptedKey: string,
+  privateKeyPem: string,
+  legacyKey?: string | null
+): Promise<string> {
+  if (encryptedKey.startsWith(RSA_OAEP_WRAP_PREFIX)) {
+    if (isLegacyKey(privateKeyPem)) {
+      throw new KeyUnwrapError("This key was wrapped for an RSA-OAEP key pair, but only a legacy key is available");
+    }
+    let plain: ArrayBuffer;
+    try {
+      const privateKey = await importRSAPrivateKey(privateKeyPem);
+      plain = await crypto.subtle.decrypt(
+        RSA_OAEP_ALGORITHM,
+        privateKey,
+        base64ToArrayBuffer(encryptedKey.slice(RSA_OAEP_WRAP_PREFIX.length))
+      );
+    } catch {
+      throw new KeyUnwrapError();
+    }
+    return new TextDecoder().decode(plain);
+  }
+
+  const plain = decryptLegacyKey(encryptedKey, legacyKey || privateKeyPem);
+  if (!plain) throw new KeyUnwrapError();
+  return plain;
+}
+
+// Legacy wrapped keys were AES-encrypted with the shared demo secret
+function decryptLegacyKey(encryptedKey: string, legacyKey: string): string {
   // Try multiple compatible passwords for backward compatibility
   const candidates = [
-    deriveSharedSecret(privateKey),
-    privateKey,
-    privateKey.replace(/^PRIVATE_/, 'PUBLIC_'),
+    deriveSharedSecret(legacyKey),
+    legacyKey,
+    legacyKey.replace(/^PRIVATE_/, 'PUBLIC_'),
   ];
   for (const pass of candidates) {
-    const bytes = CryptoJS.AES.decrypt(encryptedKey, pass);
-    const plain = bytes.toString(CryptoJS.enc.Utf8);
-    if (plain) return plain;
+    try {
+      const bytes = CryptoJS.AES.decrypt(encryptedKey, pass);
+      const plain = bytes.toString(CryptoJS.enc.Utf8);
+      if (plain) return plain;
+    } catch {
+      // Wrong passphrase produces malformed UTF-8; try the next candidate
+    }
   }
   return '';
 }
@@ -62,6 +539,22 @@ export function hashFile(content: string): string {
   return CryptoJS.SHA256(content).toString();
 }
 
+// Hash raw bytes, e.g. an encrypted envelope as stored
+export async function hashBytes(content: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", content);
+  return bytesToHex(new Uint8Array(digest));
+}
+
+// SHA-256 of a file's bytes, read in chunks so large files never sit in
+// memory whole. Matches the sha256-plaintext hash scheme.
+export async function hashBlob(file: Blob, chunkSize = DEFAULT_CHUNK_SIZE): Promise<string> {
+  const hasher = CryptoJS.algo.SHA256.create();
+  for (let start = 0; start < file.size; start += chunkSize) {
+    hasher.update(toWordArray(new Uint8Array(await file.slice(start, start + chunkSize).arrayBuffer())));
+  }
+  return hasher.finalize().toString();
+}
+
 // Convert file to base64
 export function fileToBase64(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -0,0 +1,245 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { decryptKeyWithRSA, encryptKeyWithRSA } from "@/lib/encryption";
+import { getVaultKeys } from "@/lib/keyVault";
+import { appendEvent } from "@/lib/ledger";
+import { DEFAULT_SHARE_TERMS, ShareTerms, isExpired } from "@/lib/shareTerms";
+
+export type FileShare = Tables<"file_shares"> & {
+  recipient: { full_name: string; specialization: string | null } | null;
+};
+
+export type ShareableFolder = Pick<Tables<"encrypted_folders">, "id" | "owner_id" | "folder_name" | "folder_hash">;
+
+export type ShareableImage = Pick<
+  Tables<"encrypted_images">,
+  "id" | "owner_id" | "file_name" | "file_hash" | "encrypted_aes_key"
+>;
+
+export type ShareableFolderFile = Pick<
+  Tables<"encrypted_files">,
+  "id" | "owner_id" | "folder_id" | "file_name" | "file_hash" | "encrypted_aes_key"
+>;
+
+interface ShareParties {
+  senderName: string;
+  receiverName: string;
+  receiverPublicKey: string;
+}
+
+// Both names for the ledger, and the receiver's public key, checked before
+// anything is wrapped
+async function loadShareParties(ownerId: string, receiverId: string): Promise<ShareParties> {
+  if (!getVaultKeys()) {
+    throw new Error("Key vault is locked. Unlock it to share files.");
+  }
+
+  const [receiverResult, senderResult] = await Promise.all([
+    supabase.from("profiles").select("public_key_pem, full_name").eq("id", receiverId).single(),
+    supabase.from("profiles").select("full_name").eq("id", ownerId).single(),
+  ]);
+
+  if (receiverResult.error) throw receiverResult.error;
+  if (senderResult.error) throw senderResult.error;
+  if (!receiverResult.data.public_key_pem) throw new Error("Receiver's public key not found");
+
+  return {
+    senderName: senderResult.data.full_name,
+    receiverName: receiverResult.data.full_name,
+    receiverPublicKey: receiverResult.data.public_key_pem,
+  };
+}
+
+// Unwrap the owner's copy of a file key and wrap it for the receiver
+async function rewrapForReceiver(encryptedAesKey: string, receiverPublicKey: string): Promise<string> {
+  const vaultKeys = getVaultKeys();
+  if (!vaultKeys) {
+    throw new Error("Key vault is locked. Unlock it to share files.");
+  }
+
+  const aesKey = await decryptKeyWithRSA(encryptedAesKey, vaultKeys.privateKey, vaultKeys.legacyKey);
+  return encryptKeyWithRSA(aesKey, receiverPublicKey);
+}
+
+// Share a whole folder with one doctor. Files whose key can't be unwrapped
+// are skipped and returned, so the rest of the folder is still shared.
+export async function shareFolder(
+  folder: ShareableFolder,
+  receiverId: string,
+  terms: ShareTerms = DEFAULT_SHARE_TERMS
+): Promise<{ receiverName: string; skippedFiles: string[] }> {
+  if (isExpired(terms.expiresAt)) throw new Error("The expiry must be in the future");
+
+  const parties = await loadShareParties(folder.owner_id, receiverId);
+
+  const { data: files, error: filesError } = await supabase
+    .from("encrypted_files")
+    .select("id, file_name, encrypted_aes_key")
+    .eq("folder_id", folder.id);
+
+  if (filesError) throw filesError;
+  if (!files || files.length === 0) throw new Error("No files found in folder");
+
+  const skippedFiles: string[] = [];
+  for (const file of files) {
+    let receiverEncryptedKey: string;
+    try {
+      receiverEncryptedKey = await rewrapForReceiver(file.encrypted_aes_key, parties.receiverPublicKey);
+    } catch (error) {
+      console.error(`Failed to decrypt AES key for file ${file.id}:`, error);
+      skippedFiles.push(file.file_name);
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from("encrypted_files")
+      .update({
+        receiver_id: receiverId,
+        receiver_encrypted_aes_key: receiverEncryptedKey,
+      })
+      .eq("id", file.id);
+
+    if (updateError) throw updateError;
+  }
+
+  if (skippedFiles.length === files.length) {
+    throw new Error("None of the folder's file keys could be re-encrypted");
+  }
+
+  const { error: folderError } = await supabase
+    .from("encrypted_folders")
+    .update({
+      receiver_id: receiverId,
+      share_permission: terms.permission,
+      share_expires_at: terms.expiresAt,
+    })
+    .eq("id", folder.id);
+
+  if (folderError) throw folderError;
+
+  await appendEvent({
+    action: "FOLDER_SHARED",
+    folderId: folder.id,
+    folderName: folder.folder_name,
+    folderHash: folder.folder_hash,
+    fileCount: files.length,
+    senderId: folder.owner_id,
+    senderName: parties.senderName,
+    receiverId,
+    receiverName: parties.receiverName,
+    permission: terms.permission,
+    expiresAt: terms.expiresAt,
+  });
+
+  return { receiverName: parties.receiverName, skippedFiles };
+}
+
+// An image has one receiver. Sharing again with them renews their share; a
+// different doctor can only be given it once the current share is revoked
+// (see revokeImageShare) or has expired, so nobody loses access unlogged.
+export async function shareImage(
+  image: ShareableImage,
+  receiverId: string,
+  terms: ShareTerms = DEFAULT_SHARE_TERMS
+): Promise<string> {
+  if (isExpired(terms.expiresAt)) throw new Error("The expiry must be in the future");
+
+  const { data: current, error: currentError } = await supabase
+    .from("encrypted_images")
+    .select("receiver_id, share_expires_at")
+    .eq("id", image.id)
+    .single();
+
+  if (currentError) throw currentError;
+  if (current.receiver_id && current.receiver_id !== receiverId && !isExpired(current.share_expires_at)) {
+    throw new Error("This image is shared with another doctor. Revoke their access before sharing it again.");
+  }
+
+  const parties = await loadShareParties(image.owner_id, receiverId);
+  const receiverEncryptedKey = await rewrapForReceiver(image.encrypted_aes_key, parties.receiverPublicKey);
+
+  const { data: updated, error } = await supabase
+    .from("encrypted_images")
+    .update({
+      receiver_id: receiverId,
+      receiver_encrypted_aes_key: receiverEncryptedKey,
+      share_permission: terms.permission,
+      share_expires_at: terms.expiresAt,
+    })
+    .eq("id", image.id)
+    .select("id");
+
+  if (error) throw error;
+  if (!updated || updated.length === 0) throw new Error("Only the owner can share this image");
+
+  await appendEvent({
+    action: "IMAGE_SHARED",
+    imageId: image.id,
+    fileName: image.file_name,
+    fileHash: image.file_hash,
+    senderId: image.owner_id,
+    senderName: parties.senderName,
+    receiverId,
+    receiverName: parties.receiverName,
+    permission: terms.permission,
+    expiresAt: terms.expiresAt,
+  });
+
+  return parties.receiverName;
+}
+
+export async function fetchFileShares(fileId: string): Promise<FileShare[]> {
+  const { data, error } = await supabase
+    .from("file_shares")
+    .select("*, recipient:profiles!file_shares_recipient_id_fkey(full_name, specialization)")
+    .eq("file_id", fileId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Share one file out of a folder, without the rest of the folder. An expired
+// share with the same doctor is renewed in place.
+export async function shareFolderFile(
+  file: ShareableFolderFile,
+  folderName: string,
+  receiverId: string,
+  terms: ShareTerms = DEFAULT_SHARE_TERMS
+): Promise<string> {
+  if (isExpired(terms.expiresAt)) throw new Error("The expiry must be in the future");
+
+  const parties = await loadShareParties(file.owner_id, receiverId);
+  const wrappedKey = await rewrapForReceiver(file.encrypted_aes_key, parties.receiverPublicKey);
+
+  const { error } = await supabase.from("file_shares").upsert(
+    {
+      file_id: file.id,
+      recipient_id: receiverId,
+      shared_by: file.owner_id,
+      wrapped_key: wrappedKey,
+      permission: terms.permission,
+      expires_at: terms.expiresAt,
+    },
+    { onConflict: "file_id,recipient_id" }
+  );
+
+  if (error) throw error;
+
+  await appendEvent({
+    action: "FILE_SHARED",
+    folderId: file.folder_id,
+    folderName,
+    fileId: file.id,
+    fileName: file.file_name,
+    fileHash: file.file_hash,
+    senderId: file.owner_id,
+    senderName: parties.senderName,
+    receiverId,
+    receiverName: parties.receiverName,
+    permission: terms.permission,
+    expiresAt: terms.expiresAt,
+  });
+
+  return parties.receiverName;
+}
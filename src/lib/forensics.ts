@@ -0,0 +1,294 @@
+import { ChainFailure, ChainFailureReason, StoredBlock } from "@/lib/blockchain";
+import { LedgerVerification } from "@/lib/ledger";
+import { LEDGER_ACTION_LABELS, ResourceType, ledgerEventSubject, parseLedgerEvent } from "@/lib/ledgerEvents";
+
+// Forensic view of a ledger that failed verification: where it breaks, which
+// blocks are affected, and which records, folders and doctors they concern.
+
+export type ForensicBlock = StoredBlock & { id: string; receiver_id?: string | null };
+
+export interface ResourceRef {
+  type: ResourceType | null;
+  id: string | null;
+  name: string;
+}
+
+export interface AffectedBlock {
+  block: ForensicBlock;
+  event: string;
+  subject: string | null;
+  resources: ResourceRef[];
+  failures: ChainFailure[];
+}
+
+export interface InvolvedProfile {
+  id: string;
+  name: string;
+  sent: number;
+  received: number;
+}
+
+export interface ForensicReport {
+  generatedAt: string;
+  blockCount: number;
+  valid: boolean;
+  brokenLinks: ChainFailure[];
+  hashMismatches: ChainFailure[];
+  // Genesis, ordering, schema, signature and checkpoint findings
+  otherFailures: ChainFailure[];
+  missingIndices: number[];
+  duplicateIndices: { blockIndex: number; count: number }[];
+  affectedBlocks: AffectedBlock[];
+  resources: ResourceRef[];
+  profiles: InvolvedProfile[];
+  verification: LedgerVerification;
+}
+
+const FAILURE_LABELS: Record<ChainFailureReason, string> = {
+  genesis: "Genesis",
+  index: "Ordering",
+  link: "Broken link",
+  hash: "Hash mismatch",
+  unverified: "Unverified",
+  schema: "Schema",
+  signature: "Signature",
+  checkpoint: "Checkpoint",
+};
+
+const RESOURCE_LABELS: Record<ResourceType, string> = {
+  record: "Record",
+  image: "Image",
+  folder: "Folder",
+};
+
+// Same order as Blockchain.fromRows
+function ledgerOrder(rows: ForensicBlock[]): ForensicBlock[] {
+  return [...rows].sort(
+    (a, b) =>
+      a.block_index - b.block_index ||
+      new Date(a.timestamp).toISOString().localeCompare(new Date(b.timestamp).toISOString())
+  );
+}
+
+// What a block is about. Tampered blocks may no longer parse, so the raw
+// fields are read as a fallback.
+function resourcesOf(data: unknown): ResourceRef[] {
+  const { event } = parseLedgerEvent(data);
+  if (event) {
+    switch (event.action) {
+      case "RECORD_UPLOADED":
+      case "RECORD_SHARED":
+      case "RECORD_RESHARED":
+      case "RECORD_DELETED":
+        return [{ type: "record", id: event.recordId ?? null, name: event.fileName }];
+      case "IMAGE_UPLOADED":
+      case "IMAGE_SHARED":
+        return [{ type: "image", id: event.imageId ?? null, name: event.fileName }];
+      case "FOLDER_UPLOADED":
+      case "FOLDER_SHARED":
+      case "FOLDER_SHARED_WITH_TEAM":
+      case "FILE_SHARED":
+        return [{ type: "folder", id: event.folderId ?? null, name: event.folderName }];
+      case "ACCESS_REVOKED":
+      case "KEY_ROTATED":
+      case "RESOURCE_DECRYPTED":
+      case "ACCESS_REQUEST_APPROVED":
+        return [{ type: event.resourceType, id: event.resourceId, name: event.resourceName }];
+      default:
+        return [];
+    }
+  }
+
+  const raw = (typeof data === "object" && data !== null ? data : {}) as Record<string, unknown>;
+  const text = (key: string) => (typeof raw[key] === "string" ? (raw[key] as string) : null);
+  if (text("folderName")) return [{ type: "folder", id: text("folderId"), name: text("folderName") }];
+  if (text("fileName")) return [{ type: null, id: text("recordId") ?? text("imageId"), name: text("fileName") }];
+  if (text("resourceName")) return [{ type: null, id: text("resourceId"), name: text("resourceName") }];
+  return [];
+}
+
+function describeBlock(block: ForensicBlock): Pick<AffectedBlock, "event" | "subject" | "resources"> {
+  const { event } = parseLedgerEvent(block.data_json);
+  return {
+    event: event ? LEDGER_ACTION_LABELS[event.action] : "Unrecognized",
+    subject: event ? ledgerEventSubject(event) : null,
+    resources: resourcesOf(block.data_json),
+  };
+}
+
+export function analyzeLedger(
+  rows: ForensicBlock[],
+  verification: LedgerVerification,
+  profileNames: Record<string, string>
+): ForensicReport {
+  const ordered = ledgerOrder(rows);
+  const { links } = verification;
+
+  // Index anomalies come from the links, which cover blocks the viewer can't read
+  const counts = new Map<number, number>();
+  for (const link of links) {
+    counts.set(link.block_index, (counts.get(link.block_index) ?? 0) + 1);
+  }
+  const maxIndex = links.length > 0 ? links[links.length - 1].block_index : -1;
+  const missingIndices = Array.from({ length: maxIndex + 1 }, (_, i) => i).filter((i) => !counts.has(i));
+  const duplicateIndices = [...counts]
+    .filter(([, count]) => count > 1)
+    .map(([blockIndex, count]) => ({ blockIndex, count }));
+
+  // Checkpoint failures name a height rather than a chain position. Only the
+  // blocks the viewer can read are described; the rest are known by hash.
+  const affected = new Map<ForensicBlock, ChainFailure[]>();
+  for (const failure of verification.failures) {
+    const link = links[failure.position];
+    const blocks = ordered.filter((block) =>
+      failure.reason === "checkpoint" || !link
+        ? block.block_index === failure.blockIndex
+        : block.block_index === link.block_index && block.current_hash === link.current_hash
+    );
+    for (const block of blocks) {
+      affected.set(block, [...(affected.get(block) ?? []), failure]);
+    }
+  }
+
+  const affectedBlocks = [...affected]
+    .map(([block, failures]) => ({ block, failures, ...describeBlock(block) }))
+    .sort((a, b) => ordered.indexOf(a.block) - ordered.indexOf(b.block));
+
+  const resources = new Map<string, ResourceRef>();
+  const profiles = new Map<string, InvolvedProfile>();
+  const involve = (id: string | null | undefined, role: "sent" | "received") => {
+    if (!id) return;
+    const profile = profiles.get(id) ?? { id, name: profileNames[id] || "Unknown", sent: 0, received: 0 };
+    profile[role]++;
+    profiles.set(id, profile);
+  };
+
+  for (const { block, resources: refs } of affectedBlocks) {
+    for (const ref of refs) {
+      resources.set(`${ref.type}:${ref.id ?? ref.name}`, ref);
+    }
+    involve(block.sender_id, "sent");
+    involve(block.receiver_id, "received");
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    blockCount: links.length,
+    valid: verification.valid,
+    brokenLinks: verification.failures.filter((failure) => failure.reason === "link"),
+    hashMismatches: verification.failures.filter((failure) => failure.reason === "hash"),
+    otherFailures: verification.failures.filter((failure) => failure.reason !== "link" && failure.reason !== "hash"),
+    missingIndices,
+    duplicateIndices,
+    affectedBlocks,
+    resources: [...resources.values()],
+    profiles: [...profiles.values()],
+    verification,
+  };
+}
+
+export function failureLabel(failure: ChainFailure): string {
+  return FAILURE_LABELS[failure.reason];
+}
+
+export function resourceLabel(ref: ResourceRef): string {
+  return `${ref.type ? RESOURCE_LABELS[ref.type] : "Resource"} "${ref.name}"${ref.id ? ` (${ref.id})` : ""}`;
+}
+
+// A Markdown incident report for the security officer
+export function formatIncidentReport(report: ForensicReport, profileNames: Record<string, string>): string {
+  const nameOf = (id: string | null | undefined) => (id ? `${profileNames[id] || "Unknown"} (${id})` : "—");
+  const list = (items: string[], empty = "None") => (items.length > 0 ? items.map((item) => `- ${item}`) : [`_${empty}_`]);
+  const { checkpoint } = report.verification;
+
+  const lines = [
+    "# MediChain Ledger Incident Report",
+    "",
+    `Generated: ${report.generatedAt}`,
+    `Verdict: ${report.valid ? "VALID" : "INVALID"}`,
+    `Blocks examined: ${report.blockCount}`,
+    `Findings: ${report.verification.failures.length}`,
+    "",
+    "## Summary",
+    "",
+    `- Broken links: ${report.brokenLinks.length}`,
+    `- Hash mismatches: ${report.hashMismatches.length}`,
+    `- Missing block indices: ${report.missingIndices.length}`,
+    `- Duplicate block indices: ${report.duplicateIndices.length}`,
+    `- Other findings: ${report.otherFailures.length}`,
+    `- Affected blocks: ${report.affectedBlocks.length}`,
+    "",
+    "## Broken Links",
+    "",
+    ...list(report.brokenLinks.map((failure) => failure.message)),
+    "",
+    "## Hash Mismatches",
+    "",
+    ...list(report.hashMismatches.map((failure) => failure.message)),
+    "",
+    "## Block Index Anomalies",
+    "",
+    ...list([
+      ...report.missingIndices.map((index) => `Block #${index} is missing`),
+      ...report.duplicateIndices.map(({ blockIndex, count }) => `Block #${blockIndex} appears ${count} times`),
+    ]),
+    "",
+    "## Other Findings",
+    "",
+    ...list(report.otherFailures.map((failure) => `${failureLabel(failure)}: ${failure.message}`)),
+    "",
+    "## Affected Blocks",
+    "",
+  ];
+
+  if (report.affectedBlocks.length === 0) {
+    lines.push("_None_", "");
+  }
+  for (const { block, event, subject, resources, failures } of report.affectedBlocks) {
+    lines.push(
+      `### Block #${block.block_index}: ${event}${subject ? ` (${subject})` : ""}`,
+      "",
+      `- Block id: ${block.id}`,
+      `- Timestamp: ${block.timestamp}`,
+      `- Hash: ${block.current_hash}`,
+      `- Previous hash: ${block.previous_hash}`,
+      `- Sender: ${nameOf(block.sender_id)}`,
+      `- Receiver: ${nameOf(block.receiver_id)}`,
+      `- Signer key: ${block.signer_fingerprint ?? "unsigned"}`,
+      ...resources.map((ref) => `- Concerns: ${resourceLabel(ref)}`),
+      ...failures.map((failure) => `- ${failureLabel(failure)}: ${failure.message}`),
+      "",
+      "```json",
+      JSON.stringify(block.data_json, null, 2),
+      "```",
+      ""
+    );
+  }
+
+  lines.push(
+    "## Affected Records and Folders",
+    "",
+    ...list(report.resources.map(resourceLabel)),
+    "",
+    "## Profiles Involved",
+    "",
+    ...list(
+      report.profiles.map(
+        (profile) => `${profile.name} (${profile.id}): sender of ${profile.sent}, receiver of ${profile.received} affected block(s)`
+      )
+    ),
+    "",
+    "## Latest Checkpoint",
+    "",
+    ...(checkpoint
+      ? [
+          `- Block #${checkpoint.block_index}, tip hash ${checkpoint.tip_hash}`,
+          `- Taken: ${checkpoint.created_at}`,
+          `- Timestamp authority: ${checkpoint.tsa_url ?? "none"}${checkpoint.tsa_time ? ` at ${checkpoint.tsa_time}` : ""}`,
+        ]
+      : ["_No checkpoint available_"]),
+    ""
+  );
+
+  return lines.join("\n");
+}
@@ -0,0 +1,186 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from "@/lib/encryption";
+import { SigningKey, signingKeyFingerprint, signingPublicKeyFromPrivate } from "@/lib/signing";
+
+export const VAULT_KDF = "PBKDF2-SHA256";
+const VAULT_KDF_ITERATIONS = 600_000;
+
+export const MIN_PASSPHRASE_LENGTH = 12;
+
+// Lock the vault after 15 minutes without user activity
+export const VAULT_IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"] as const;
+
+// Shape of a key_vaults row as stored in the database
+export interface WrappedPrivateKey {
+  wrapped_private_key: string;
+  wrap_iv: string;
+  kdf: string;
+  kdf_salt: string;
+  kdf_iterations: number;
+  // Null until a signing key has been registered for this vault
+  wrapped_signing_key?: string | null;
+  signing_key_iv?: string | null;
+}
+
+export interface WrappedSigningKey {
+  wrapped_signing_key: string;
+  signing_key_iv: string;
+}
+
+export interface VaultKeys {
+  privateKey: string;
+  legacyKey: string | null;
+  signingKey: SigningKey | null;
+}
+
+// Derive an AES-256-GCM wrapping key from the user's passphrase
+async function deriveVaultKey(passphrase: string, salt: ArrayBuffer, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+// Encrypt a private key PEM with a passphrase before it leaves the browser
+export async function wrapPrivateKey(privateKeyPem: string, passphrase: string): Promise<WrappedPrivateKey> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const vaultKey = await deriveVaultKey(passphrase, salt.buffer, VAULT_KDF_ITERATIONS);
+
+  const wrapped = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    vaultKey,
+    new TextEncoder().encode(privateKeyPem)
+  );
+
+  return {
+    wrapped_private_key: arrayBufferToBase64(wrapped),
+    wrap_iv: arrayBufferToBase64(iv.buffer),
+    kdf: VAULT_KDF,
+    kdf_salt: arrayBufferToBase64(salt.buffer),
+    kdf_iterations: VAULT_KDF_ITERATIONS,
+  };
+}
+
+async function deriveKeyForVault(vault: WrappedPrivateKey, passphrase: string): Promise<CryptoKey> {
+  if (vault.kdf !== VAULT_KDF) {
+    throw new Error(`Unsupported key vault KDF: ${vault.kdf}`);
+  }
+
+  return deriveVaultKey(passphrase, base64ToArrayBuffer(vault.kdf_salt), vault.kdf_iterations);
+}
+
+async function decryptWithVaultKey(vaultKey: CryptoKey, iv: string, wrapped: string): Promise<string> {
+  const plain = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: base64ToArrayBuffer(iv) },
+    vaultKey,
+    base64ToArrayBuffer(wrapped)
+  );
+  return new TextDecoder().decode(plain);
+}
+
+// Wrap a signing key under an existing vault's passphrase and salt, so one
+// derivation unlocks both keys
+export async function wrapSigningKey(
+  signingKeyPem: string,
+  passphrase: string,
+  vault: WrappedPrivateKey
+): Promise<WrappedSigningKey> {
+  const vaultKey = await deriveKeyForVault(vault, passphrase);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+
+  const wrapped = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    vaultKey,
+    new TextEncoder().encode(signingKeyPem)
+  );
+
+  return {
+    wrapped_signing_key: arrayBufferToBase64(wrapped),
+    signing_key_iv: arrayBufferToBase64(iv.buffer),
+  };
+}
+
+// Decrypt the keys in a vault; a wrong passphrase fails the GCM tag check.
+// signingKey is null for vaults created before block signing.
+export async function unwrapVault(
+  vault: WrappedPrivateKey,
+  passphrase: string
+): Promise<{ privateKey: string; signingKey: SigningKey | null }> {
+  const vaultKey = await deriveKeyForVault(vault, passphrase);
+
+  let privateKey: string;
+  try {
+    privateKey = await decryptWithVaultKey(vaultKey, vault.wrap_iv, vault.wrapped_private_key);
+  } catch {
+    throw new Error("Incorrect passphrase");
+  }
+
+  if (!vault.wrapped_signing_key || !vault.signing_key_iv) {
+    return { privateKey, signingKey: null };
+  }
+
+  const signingPem = await decryptWithVaultKey(vaultKey, vault.signing_key_iv, vault.wrapped_signing_key);
+  const fingerprint = await signingKeyFingerprint(await signingPublicKeyFromPrivate(signingPem));
+  return { privateKey, signingKey: { privateKey: signingPem, fingerprint } };
+}
+
+// Session state: unwrapped keys live only in this tab's memory
+let sessionKeys: VaultKeys | null = null;
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+let idleTimeout = VAULT_IDLE_TIMEOUT_MS;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+function resetIdleTimer() {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = setTimeout(lockVault, idleTimeout);
+}
+
+export function unlockVaultSession(keys: VaultKeys, idleTimeoutMs = VAULT_IDLE_TIMEOUT_MS) {
+  sessionKeys = keys;
+  idleTimeout = idleTimeoutMs;
+  ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, resetIdleTimer, { passive: true }));
+  resetIdleTimer();
+  notify();
+}
+
+export function lockVault() {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = null;
+  ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, resetIdleTimer));
+  if (!sessionKeys) return;
+  sessionKeys = null;
+  notify();
+}
+
+export function isVaultUnlocked(): boolean {
+  return sessionKeys !== null;
+}
+
+// Returns null while the vault is locked
+export function getVaultKeys(): VaultKeys | null {
+  return sessionKeys;
+}
+
+export function subscribeToVault(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
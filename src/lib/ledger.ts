@@ -0,0 +1,281 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+import { Blockchain, ChainLink, ChainVerification, RegisteredSigningKey, StoredBlock } from "@/lib/blockchain";
+import { LedgerCheckpoint, verifyCheckpoints } from "@/lib/checkpoints";
+import { getVaultKeys } from "@/lib/keyVault";
+import {
+  LedgerAction,
+  LedgerEvent,
+  NewLedgerEvent,
+  ResourceDecryptedEvent,
+  createLedgerEvent,
+  ledgerEventReceiverId,
+} from "@/lib/ledgerEvents";
+import { MerkleProof } from "@/lib/merkle";
+import { SigningKey, signBlockData } from "@/lib/signing";
+
+export type LedgerBlock = Tables<"blockchain_renewed">;
+
+export const LEDGER_PAGE_SIZE = 25;
+
+export interface LedgerFilters {
+  action?: LedgerAction;
+  senderId?: string;
+  receiverId?: string;
+  // Inclusive calendar dates (YYYY-MM-DD) in the viewer's time zone
+  fromDate?: string;
+  toDate?: string;
+  fileHash?: string;
+}
+
+// Tries at signing against the tip before giving up on a busy ledger
+const APPEND_ATTEMPTS = 3;
+
+// Postgres serialization_failure, raised by append_block when the tip moved
+const TIP_MOVED = "40001";
+
+// Append a signed block to the shared ledger. The signature covers the
+// position the block will take, so it is signed against the current tip;
+// append_block assigns the timestamp and hash, and refuses the block if
+// another one was appended first.
+async function appendBlock(data: LedgerEvent, receiverId: string | null, signingKey: SigningKey): Promise<LedgerBlock> {
+  for (let attempt = 1; ; attempt++) {
+    const { data: next, error: nextError } = await supabase.rpc("ledger_next_block");
+    if (nextError) throw nextError;
+
+    const { block_index: index, previous_hash: previousHash } = next[0];
+    const { data: block, error } = await supabase.rpc("append_block", {
+      p_data: data as Json,
+      p_signature: await signBlockData(data, { index, previousHash }, signingKey.privateKey),
+      p_signer_fingerprint: signingKey.fingerprint,
+      p_index: index,
+      p_previous_hash: previousHash,
+      p_receiver_id: receiverId ?? undefined,
+    });
+
+    if (error?.code === TIP_MOVED && attempt < APPEND_ATTEMPTS) continue;
+    if (error) throw error;
+    return block;
+  }
+}
+
+// Validate an event against the ledger schema, sign it and record it
+export async function appendEvent(event: NewLedgerEvent): Promise<LedgerBlock> {
+  const signingKey = getVaultKeys()?.signingKey;
+  if (!signingKey) {
+    throw new Error("Unlock your key vault to sign ledger entries");
+  }
+
+  const validated = createLedgerEvent(event);
+  return appendBlock(validated, ledgerEventReceiverId(validated), signingKey);
+}
+
+// Record that a resource was decrypted. The plaintext is already in hand by
+// then, so a failure to record it is logged rather than thrown.
+export async function recordDecryption(
+  event: Omit<ResourceDecryptedEvent, "action" | "schemaVersion" | "timestamp">
+): Promise<void> {
+  try {
+    await appendEvent({ action: "RESOURCE_DECRYPTED", ...event });
+  } catch (error) {
+    console.error("Error recording decryption:", error);
+  }
+}
+
+// Store each file's inclusion proof alongside the block that committed its batch
+export async function attachMerkleProofs(
+  table: "encrypted_files" | "encrypted_images",
+  blockId: string,
+  proofs: { id: string; proof: MerkleProof }[]
+): Promise<void> {
+  const results = await Promise.all(
+    proofs.map(({ id, proof }) =>
+      supabase.from(table).update({ merkle_proof: proof as Json, ledger_block_id: blockId }).eq("id", id)
+    )
+  );
+
+  const failed = results.find((result) => result.error);
+  if (failed) throw failed.error;
+}
+
+export async function loadSigningKeys(): Promise<RegisteredSigningKey[]> {
+  const { data, error } = await supabase
+    .from("signing_keys")
+    .select("profile_id, fingerprint, public_key_pem, created_at, revoked_at");
+
+  if (error) throw error;
+  return data || [];
+}
+
+export interface LedgerVerification extends ChainVerification {
+  // The whole chain, in ledger order; failure positions index into it
+  links: ChainLink[];
+  // The latest checkpoint, whether or not it verified
+  checkpoint: LedgerCheckpoint | null;
+}
+
+// Check every link from genesis to tip, recompute the hash and check the
+// signature of each block the viewer can read, and compare the chain with its
+// signed checkpoints. Only a block's sender and receiver can read it.
+export async function verifyLedger(rows: StoredBlock[]): Promise<LedgerVerification> {
+  const [keys, checkpoints, links] = await Promise.all([loadSigningKeys(), verifyCheckpoints(), fetchChainLinks()]);
+  const chain = await Blockchain.fromRows(rows).verifyAgainstLinks(links, keys);
+  const failures = [...chain.failures, ...checkpoints.failures];
+  return { ...chain, valid: failures.length === 0, failures, links, checkpoint: checkpoints.checkpoint };
+}
+
+function startOfLocalDay(date: string, offsetDays = 0): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day + offsetDays).toISOString();
+}
+
+// One page of the ledger, newest block first
+export async function fetchLedgerPage(
+  filters: LedgerFilters,
+  page: number
+): Promise<{ blocks: LedgerBlock[]; total: number }> {
+  let query = supabase.from("blockchain_renewed").select("*", { count: "exact" });
+
+  if (filters.action) query = query.eq("event_action", filters.action);
+  if (filters.senderId) query = query.eq("sender_id", filters.senderId);
+  if (filters.receiverId) query = query.eq("receiver_id", filters.receiverId);
+  if (filters.fromDate) query = query.gte("timestamp", startOfLocalDay(filters.fromDate));
+  if (filters.toDate) query = query.lt("timestamp", startOfLocalDay(filters.toDate, 1));
+
+  // Hashes are hex; anything else could break out of the or() filter syntax
+  const fileHash = filters.fileHash?.trim().toLowerCase().replace(/[^0-9a-f]/g, "");
+  if (fileHash) {
+    query = query.or(`data_json->>fileHash.eq.${fileHash},data_json->>folderHash.eq.${fileHash}`);
+  }
+
+  const from = page * LEDGER_PAGE_SIZE;
+  const { data, error, count } = await query
+    .order("block_index", { ascending: false })
+    .order("created_at", { ascending: false })
+    .range(from, from + LEDGER_PAGE_SIZE - 1);
+
+  if (error) throw error;
+  return { blocks: data || [], total: count ?? 0 };
+}
+
+export async function fetchBlock(id: string): Promise<LedgerBlock | null> {
+  const { data, error } = await supabase.from("blockchain_renewed").select("*").eq("id", id).maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// The original blockchain table, archived as blockchain_legacy; see
+// public.legacy_chain_summary
+export interface LegacyChainSummary {
+  blockCount: number;
+  genesisHash: string | null;
+  tipHash: string | null;
+  chainDigest: string | null;
+  linked: boolean;
+}
+
+export async function fetchLegacyChainSummary(): Promise<LegacyChainSummary> {
+  const { data, error } = await supabase.rpc("legacy_chain_summary");
+
+  if (error) throw error;
+  const summary = data?.[0];
+  return {
+    blockCount: summary?.block_count ?? 0,
+    genesisHash: summary?.genesis_hash ?? null,
+    tipHash: summary?.tip_hash ?? null,
+    chainDigest: summary?.chain_digest ?? null,
+    linked: summary?.linked ?? true,
+  };
+}
+
+// The caller's own legacy blocks; RLS hides the rest of the archive
+export async function fetchLegacyBlocks(): Promise<Tables<"blockchain_legacy">[]> {
+  const { data, error } = await supabase
+    .from("blockchain_legacy")
+    .select("*")
+    .order("block_index", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchLegacyAnchor(): Promise<LedgerBlock | null> {
+  const { data, error } = await supabase
+    .from("blockchain_renewed")
+    .select("*")
+    .eq("event_action", "LEGACY_CHAIN_ANCHORED")
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Commit the legacy archive to the canonical chain. append_block rejects an
+// anchor that doesn't match the archive, or a second one.
+export async function anchorLegacyChain(senderId: string): Promise<LedgerBlock> {
+  const summary = await fetchLegacyChainSummary();
+  if (summary.blockCount === 0) {
+    throw new Error("There is no legacy chain to anchor");
+  }
+
+  return appendEvent({
+    action: "LEGACY_CHAIN_ANCHORED",
+    senderId,
+    legacyBlockCount: summary.blockCount,
+    legacyGenesisHash: summary.genesisHash,
+    legacyTipHash: summary.tipHash,
+    legacyChainDigest: summary.chainDigest,
+    legacyLinked: summary.linked,
+  });
+}
+
+const EXPORT_PAGE_SIZE = 1000;
+
+// The links of the whole chain in ledger order, paged past the API's row limit
+export async function fetchChainLinks(): Promise<ChainLink[]> {
+  const links: ChainLink[] = [];
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    const { data, error } = await supabase.rpc("ledger_chain", { p_offset: offset, p_limit: EXPORT_PAGE_SIZE });
+
+    if (error) throw error;
+    links.push(...(data || []));
+    if (!data || data.length < EXPORT_PAGE_SIZE) return links;
+  }
+}
+
+// Every block the viewer can read, in ledger order, paged past the API's row
+// limit. The derived event_action column is left out; it is recomputed from
+// data_json.
+export async function fetchAllBlocks(): Promise<Omit<LedgerBlock, "event_action">[]> {
+  const blocks: Omit<LedgerBlock, "event_action">[] = [];
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("blockchain_renewed")
+      .select(
+        "id, block_index, timestamp, data_json, previous_hash, current_hash, sender_id, receiver_id, signature, signer_fingerprint, created_at"
+      )
+      .order("block_index", { ascending: true })
+      .order("created_at", { ascending: true })
+      .range(from, from + EXPORT_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    blocks.push(...(data || []));
+    if (!data || data.length < EXPORT_PAGE_SIZE) return blocks;
+  }
+}
+
+// The links of the blocks either side of a block, by index, whether or not
+// the viewer can read them. Forked ledgers can have more than one block at an
+// index.
+export async function fetchNeighbourBlocks(
+  blockIndex: number
+): Promise<{ previous: ChainLink[]; next: ChainLink[] }> {
+  const { data, error } = await supabase.rpc("ledger_block_links", { p_indices: [blockIndex - 1, blockIndex + 1] });
+
+  if (error) throw error;
+  return {
+    previous: (data || []).filter((block) => block.block_index === blockIndex - 1),
+    next: (data || []).filter((block) => block.block_index === blockIndex + 1),
+  };
+}
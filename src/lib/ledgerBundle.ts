@@ -0,0 +1,338 @@
+import CryptoJS from "crypto-js";
+import JSZip from "jszip";
+import { z } from "zod";
+import { Blockchain, ChainLink, ChainVerification, RegisteredSigningKey, StoredBlock } from "@/lib/blockchain";
+import { hashBlob } from "@/lib/encryption";
+import { parseLedgerEvent } from "@/lib/ledgerEvents";
+import { FileHashes, hashDataUrl } from "@/lib/provenance";
+import { SIGNING_ALGORITHM_NAME, SigningKey, signManifest, verifyManifestSignature } from "@/lib/signing";
+
+// Portable ledger bundles for auditors. Nothing in this module talks to
+// Supabase: a bundle is created from rows the caller has already fetched, and
+// verified entirely from its own contents.
+
+export const BUNDLE_FORMAT = "doc-link-chain/ledger-bundle";
+// Version 2 adds the chain's links, since the exporter can only read the
+// blocks they are involved in. Version 1 bundles held every block.
+export const BUNDLE_VERSION = 2;
+
+const BLOCKS_FILE = "blocks.jsonl";
+const CHAIN_FILE = "chain.jsonl";
+const KEYS_FILE = "signing-keys.json";
+const MANIFEST_FILE = "manifest.json";
+
+const bundledBlockSchema = z.object({
+  id: z.string(),
+  block_index: z.number().int(),
+  timestamp: z.string(),
+  data_json: z.unknown(),
+  previous_hash: z.string(),
+  current_hash: z.string(),
+  sender_id: z.string(),
+  receiver_id: z.string().nullable(),
+  signature: z.string().nullable(),
+  signer_fingerprint: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export type BundledBlock = z.infer<typeof bundledBlockSchema>;
+
+const chainLinkSchema = z.object({
+  block_index: z.number().int(),
+  previous_hash: z.string(),
+  current_hash: z.string(),
+  signature: z.string().nullable(),
+});
+
+const signingKeySchema = z.object({
+  profile_id: z.string(),
+  fingerprint: z.string(),
+  public_key_pem: z.string(),
+  created_at: z.string(),
+  revoked_at: z.string().nullable(),
+});
+
+const manifestSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.union([z.literal(1), z.literal(BUNDLE_VERSION)]),
+  exportedAt: z.string(),
+  // Profile id of the doctor who exported and signed the bundle
+  exportedBy: z.string(),
+  blockCount: z.number().int().nonnegative(),
+  genesisHash: z.string().nullable(),
+  tipHash: z.string().nullable(),
+  tipIndex: z.number().int().nullable(),
+  // Blocks held in full; version 1 bundles held all blockCount of them
+  heldBlockCount: z.number().int().nonnegative().optional(),
+  blocksSha256: z.string(),
+  chainSha256: z.string().optional(),
+  signingKeysSha256: z.string(),
+});
+
+export type BundleManifest = z.infer<typeof manifestSchema>;
+
+const signedManifestSchema = manifestSchema.extend({
+  signature: z.object({
+    algorithm: z.string(),
+    fingerprint: z.string(),
+    value: z.string(),
+  }),
+});
+
+export type SignedBundleManifest = z.infer<typeof signedManifestSchema>;
+
+export interface LedgerBundle {
+  manifest: SignedBundleManifest;
+  blocks: BundledBlock[];
+  // Every block's link, in ledger order; the blocks themselves in version 1
+  links: ChainLink[];
+  signingKeys: RegisteredSigningKey[];
+  // Exact file contents, which the manifest digests cover
+  blocksText: string;
+  chainText: string | null;
+  signingKeysText: string;
+}
+
+export interface BundleCheck {
+  label: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface BundleVerification {
+  valid: boolean;
+  checks: BundleCheck[];
+  chain: ChainVerification;
+}
+
+function sha256Text(text: string): string {
+  return CryptoJS.SHA256(text).toString();
+}
+
+function ledgerOrder(blocks: BundledBlock[]): BundledBlock[] {
+  return [...blocks].sort((a, b) => a.block_index - b.block_index || a.created_at.localeCompare(b.created_at));
+}
+
+function jsonLines(items: unknown[]): string {
+  return items.map((item) => JSON.stringify(item)).join("\n") + "\n";
+}
+
+// Package the exporter's blocks and the whole chain's links as JSON Lines,
+// plus a manifest signed by the exporter
+export async function createLedgerBundle(
+  blocks: BundledBlock[],
+  links: ChainLink[],
+  signingKeys: RegisteredSigningKey[],
+  exporter: { profileId: string; signingKey: SigningKey }
+): Promise<Blob> {
+  const ordered = ledgerOrder(blocks);
+  const blocksText = jsonLines(ordered);
+  const chainText = jsonLines(
+    links.map(({ block_index, previous_hash, current_hash, signature }) => ({
+      block_index,
+      previous_hash,
+      current_hash,
+      signature: signature ?? null,
+    }))
+  );
+  const signingKeysText = JSON.stringify(signingKeys, null, 2);
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy: exporter.profileId,
+    blockCount: links.length,
+    genesisHash: links[0]?.current_hash ?? null,
+    tipHash: links[links.length - 1]?.current_hash ?? null,
+    tipIndex: links[links.length - 1]?.block_index ?? null,
+    heldBlockCount: ordered.length,
+    blocksSha256: sha256Text(blocksText),
+    chainSha256: sha256Text(chainText),
+    signingKeysSha256: sha256Text(signingKeysText),
+  };
+
+  const signedManifest: SignedBundleManifest = {
+    ...manifest,
+    signature: {
+      algorithm: SIGNING_ALGORITHM_NAME,
+      fingerprint: exporter.signingKey.fingerprint,
+      value: await signManifest(manifest, exporter.signingKey.privateKey),
+    },
+  };
+
+  const zip = new JSZip();
+  zip.file(MANIFEST_FILE, JSON.stringify(signedManifest, null, 2));
+  zip.file(BLOCKS_FILE, blocksText);
+  zip.file(CHAIN_FILE, chainText);
+  zip.file(KEYS_FILE, signingKeysText);
+  return zip.generateAsync({ type: "blob" });
+}
+
+async function readText(zip: JSZip, name: string): Promise<string> {
+  const entry = zip.file(name);
+  if (!entry) throw new Error(`Bundle is missing ${name}`);
+  return entry.async("string");
+}
+
+function parseJson(text: string, name: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${name} is not valid JSON`);
+  }
+}
+
+function parseJsonLines<T>(text: string, name: string, schema: z.ZodType<T>, what: string): T[] {
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line, i) => {
+      const item = schema.safeParse(parseJson(line, `${name} line ${i + 1}`));
+      if (!item.success) throw new Error(`${name} line ${i + 1} is not ${what}`);
+      return item.data;
+    });
+}
+
+export async function readLedgerBundle(file: Blob): Promise<LedgerBundle> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer());
+  } catch {
+    throw new Error("Not a ledger bundle: the file is not a ZIP archive");
+  }
+
+  const [manifestText, blocksText, signingKeysText] = await Promise.all([
+    readText(zip, MANIFEST_FILE),
+    readText(zip, BLOCKS_FILE),
+    readText(zip, KEYS_FILE),
+  ]);
+
+  const manifest = signedManifestSchema.safeParse(parseJson(manifestText, MANIFEST_FILE));
+  if (!manifest.success) {
+    throw new Error(`Unsupported or malformed ${MANIFEST_FILE}`);
+  }
+
+  const blocks = parseJsonLines(blocksText, BLOCKS_FILE, bundledBlockSchema, "a ledger block");
+
+  const chainText = manifest.data.version === 1 ? null : await readText(zip, CHAIN_FILE);
+  const links =
+    chainText === null
+      ? (ledgerOrder(blocks) as ChainLink[])
+      : (parseJsonLines(chainText, CHAIN_FILE, chainLinkSchema, "a chain link") as ChainLink[]);
+
+  const signingKeys = z.array(signingKeySchema).safeParse(parseJson(signingKeysText, KEYS_FILE));
+  if (!signingKeys.success) {
+    throw new Error(`${KEYS_FILE} does not list signing keys`);
+  }
+
+  return {
+    manifest: manifest.data,
+    blocks,
+    links,
+    signingKeys: signingKeys.data as RegisteredSigningKey[],
+    blocksText,
+    chainText,
+    signingKeysText,
+  };
+}
+
+// Re-verify a bundle from its own contents: the manifest signature and
+// digests, every link, then the hash and signature of every block it holds
+export async function verifyLedgerBundle(bundle: LedgerBundle): Promise<BundleVerification> {
+  const { manifest, blocks, links, signingKeys } = bundle;
+  const { signature, ...unsigned } = manifest;
+  const checks: BundleCheck[] = [];
+
+  const exporterKey = signingKeys.find((key) => key.fingerprint === signature.fingerprint);
+  checks.push({
+    label: "Manifest signed by the exporting doctor",
+    passed:
+      !!exporterKey &&
+      exporterKey.profile_id === manifest.exportedBy &&
+      (await verifyManifestSignature(unsigned, signature.value, exporterKey.public_key_pem)),
+    detail: `Signing key ${signature.fingerprint}. Compare it with the exporter's published fingerprint.`,
+  });
+
+  checks.push({
+    label: `${BLOCKS_FILE} matches the manifest digest`,
+    passed: sha256Text(bundle.blocksText) === manifest.blocksSha256,
+  });
+  if (bundle.chainText !== null) {
+    checks.push({
+      label: `${CHAIN_FILE} matches the manifest digest`,
+      passed: sha256Text(bundle.chainText) === manifest.chainSha256,
+    });
+  }
+  checks.push({
+    label: `${KEYS_FILE} matches the manifest digest`,
+    passed: sha256Text(bundle.signingKeysText) === manifest.signingKeysSha256,
+  });
+
+  const genesis = links[0]?.current_hash ?? null;
+  const tip = links[links.length - 1];
+  checks.push({
+    label: `Bundle links ${manifest.blockCount} blocks from genesis to tip`,
+    passed:
+      links.length === manifest.blockCount &&
+      genesis === manifest.genesisHash &&
+      (tip?.current_hash ?? null) === manifest.tipHash &&
+      (tip?.block_index ?? null) === manifest.tipIndex,
+    detail: `Genesis ${manifest.genesisHash ?? "none"}, tip #${manifest.tipIndex ?? "-"} ${manifest.tipHash ?? ""}`,
+  });
+
+  const chain = await Blockchain.fromRows(blocks as StoredBlock[]).verifyAgainstLinks(links, signingKeys);
+  checks.push({
+    label: `Every link, and the hash and signature of the ${blocks.length} block(s) held, verify`,
+    passed: chain.valid,
+    detail: chain.valid ? undefined : `${chain.failures.length} problem(s) found`,
+  });
+
+  return { valid: checks.every((check) => check.passed), checks, chain };
+}
+
+export interface FileCheck {
+  blockId: string;
+  blockIndex: number;
+  blockHash: string;
+  expectedHash: string | null;
+  hashes: FileHashes;
+  // Which of the file's hashes the block recorded, if either
+  matchedBy: keyof FileHashes | null;
+}
+
+// Compare a local file with the fileHash recorded in a block. Older records
+// hashed the file's data URL rather than its bytes, which is tried when the
+// bytes don't match. Block indices can repeat in a forked chain, so the block
+// is picked by id or hash.
+export async function verifyFileAgainstBlock(
+  bundle: LedgerBundle,
+  blockRef: string,
+  file: File
+): Promise<FileCheck> {
+  const ref = blockRef.trim();
+  const block = bundle.blocks.find((candidate) => candidate.id === ref || candidate.current_hash === ref);
+  if (!block) {
+    throw new Error(`No block with id or hash ${ref} is in this bundle`);
+  }
+
+  const { event } = parseLedgerEvent(block.data_json);
+  const expectedHash = event && "fileHash" in event ? event.fileHash ?? null : null;
+  const hashes: FileHashes = { bytes: await hashBlob(file) };
+  if (expectedHash !== null && hashes.bytes !== expectedHash) {
+    hashes.dataUrl = await hashDataUrl(file);
+  }
+  const matchedBy =
+    expectedHash === null
+      ? null
+      : (Object.keys(hashes) as (keyof FileHashes)[]).find((scheme) => hashes[scheme] === expectedHash) ?? null;
+
+  return {
+    blockId: block.id,
+    blockIndex: block.block_index,
+    blockHash: block.current_hash,
+    expectedHash,
+    hashes,
+    matchedBy,
+  };
+}
@@ -0,0 +1,485 @@
+import { z } from "zod";
+
+// Bump when an event's shape changes; readers can branch on it
+export const LEDGER_SCHEMA_VERSION = 2;
+
+// Blocks written before the schema existed are upgraded on read and marked 0
+const LEGACY_SCHEMA_VERSION = 0;
+
+export const resourceTypeSchema = z.enum(["record", "image", "folder"]);
+export type ResourceType = z.infer<typeof resourceTypeSchema>;
+
+// Resource ids are null only on events upgraded from legacy blocks, which
+// never recorded them
+const resourceId = z.string().uuid().nullable();
+
+const baseEvent = {
+  schemaVersion: z.number().int().min(LEGACY_SCHEMA_VERSION).max(LEDGER_SCHEMA_VERSION),
+  timestamp: z.string().datetime(),
+  senderId: z.string().uuid(),
+  senderName: z.string().optional(),
+};
+
+const receiver = {
+  receiverId: z.string().uuid(),
+  receiverName: z.string().optional(),
+};
+
+// Terms a share was granted on; absent from shares made before shares had terms
+const shareTerms = {
+  permission: z.enum(["view", "download"]).optional(),
+  expiresAt: z.string().datetime().nullable().optional(),
+};
+
+export const recordUploadedSchema = z.object({
+  ...baseEvent,
+  action: z.literal("RECORD_UPLOADED"),
+  recordId: resourceId,
+  fileName: z.string(),
+  fileHash: z.string(),
+});
+
+export const imageUploadedSchema = z.object({
+  ...baseEvent,
+  action: z.literal("IMAGE_UPLOADED"),
+  imageId: resourceId,
+  fileName: z.string(),
+  fileHash: z.string(),
+});
+
+// Root over every file in the batch; see merkle.ts. Absent before version 2.
+const merkleRoot = z.string().regex(/^[0-9a-f]{64}$/);
+
+export const imageBatchUploadedSchema = z.object({
+  ...baseEvent,
+  action: z.literal("IMAGE_BATCH_UPLOADED"),
+  fileCount: z.number().int().positive(),
+  merkleRoot,
+});
+
+export const folderUploadedSchema = z.object({
+  ...baseEvent,
+  action: z.literal("FOLDER_UPLOADED"),
+  folderId: resourceId,
+  folderName: z.string(),
+  folderHash: z.string(),
+  fileCount: z.number().int().nonnegative(),
+  merkleRoot: merkleRoot.optional(),
+});
+
+// Whether the receiver may pass a record on; absent from shares made before
+// re-sharing existed, which allowed none
+const resharePolicy = z.enum(["none", "once", "free"]);
+
+export const recordSharedSchema = z.object({
+  ...baseEvent,
+  ...receiver,
+  ...shareTerms,
+  action: z.literal("RECORD_SHARED"),
+  recordId: resourceId,
+  fileName: z.string(),
+  fileHash: z.string(),
+  shareId: z.string().uuid().optional(),
+  resharePolicy: resharePolicy.optional(),
+});
+
+// A recipient passed a record on. parentShareId is the share they hold, so
+// following it back through RECORD_SHARED and RECORD_RESHARED events gives
+// the record's chain of custody.
+export const recordResharedSchema = z.object({
+  ...baseEvent,
+  ...receiver,
+  ...shareTerms,
+  action: z.literal("RECORD_RESHARED"),
+  recordId: z.string().uuid(),
+  fileName: z.string(),
+  fileHash: z.string(),
+  ownerId: z.string().uuid(),
+  shareId: z.string().uuid(),
+  parentShareId: z.string().uuid(),
+  resharePolicy,
+});
+
+export const folderSharedSchema = z.object({
+  ...baseEvent,
+  ...receiver,
+  ...shareTerms,
+  action: z.literal("FOLDER_SHARED"),
+  folderId: resourceId,
+  folderName: z.string(),
+  folderHash: z.string(),
+  fileCount: z.number().int().nonnegative(),
+});
+
+export const imageSharedSchema = z.object({
+  ...baseEvent,
+  ...receiver,
+  ...shareTerms,
+  action: z.literal("IMAGE_SHARED"),
+  imageId: z.string().uuid(),
+  fileName: z.string(),
+  fileHash: z.string(),
+});
+
+// One file out of a folder, shared without the rest of the folder
+export const fileSharedSchema = z.object({
+  ...baseEvent,
+  ...receiver,
+  ...shareTerms,
+  action: z.literal("FILE_SHARED"),
+  folderId: z.string().uuid(),
+  folderName: z.string(),
+  fileId: z.string().uuid(),
+  fileName: z.string(),
+  fileHash: z.string(),
+});
+
+// For a single file out of a folder, fileName names the file
+export const accessRevokedSchema = z.object({
+  ...baseEvent,
+  ...receiver,
+  action: z.literal("ACCESS_REVOKED"),
+  resourceType: resourceTypeSchema,
+  resourceId: z.string().uuid(),
+  resourceName: z.string(),
+  fileName: z.string().optional(),
+  keyRotated: z.boolean(),
+});
+
+export const recordDeletedSchema = z.object({
+  ...baseEvent,
+  action: z.literal("RECORD_DELETED"),
+  recordId: z.string().uuid(),
+  fileName: z.string(),
+  fileHash: z.string(),
+});
+
+export const keyRotatedSchema = z.object({
+  ...baseEvent,
+  action: z.literal("KEY_ROTATED"),
+  resourceType: resourceTypeSchema,
+  resourceId: z.string().uuid(),
+  resourceName: z.string(),
+  fileName: z.string().optional(),
+  // Hash of the content after re-encryption, when it changed
+  fileHash: z.string().optional(),
+});
+
+// Someone decrypted a resource. For a single file out of a folder, fileName
+// names the file; a whole-folder download leaves it unset.
+export const resourceDecryptedSchema = z.object({
+  ...baseEvent,
+  action: z.literal("RESOURCE_DECRYPTED"),
+  resourceType: resourceTypeSchema,
+  resourceId: z.string().uuid(),
+  resourceName: z.string(),
+  fileName: z.string().optional(),
+  fileHash: z.string().optional(),
+});
+
+export type ResourceDecryptedEvent = z.infer<typeof resourceDecryptedSchema>;
+
+// Access requests. The receiver is the owner being asked on a request, and
+// the requester on an approval or denial. The subject the requester named
+// can identify a patient, so it stays in access_requests and only the
+// request id is logged; an approval also names what was shared.
+export const accessRequestedSchema = z.object({
+  ...baseEvent,
+  ...receiver,
+  action: z.literal("ACCESS_REQUESTED"),
+  requestId: z.string().uuid(),
+});
+
+export const accessRequestApprovedSchema = z.object({
+  ...baseEvent,
+  ...receiver,
+  action: z.literal("ACCESS_REQUEST_APPROVED"),
+  requestId: z.string().uuid(),
+  resourceType: resourceTypeSchema,
+  resourceId: z.string().uuid(),
+  resourceName: z.string(),
+});
+
+export const accessRequestDeniedSchema = z.object({
+  ...baseEvent,
+  ...receiver,
+  action: z.literal("ACCESS_REQUEST_DENIED"),
+  requestId: z.string().uuid(),
+});
+
+// Care teams. The receiver of a membership event is the member added or
+// removed; a folder shared with a team names the team instead of a receiver.
+export const teamMemberAddedSchema = z.object({
+  ...baseEvent,
+  ...receiver,
+  action: z.literal("TEAM_MEMBER_ADDED"),
+  teamId: z.string().uuid(),
+  teamName: z.string(),
+});
+
+export const teamMemberRemovedSchema = z.object({
+  ...baseEvent,
+  ...receiver,
+  action: z.literal("TEAM_MEMBER_REMOVED"),
+  teamId: z.string().uuid(),
+  teamName: z.string(),
+});
+
+// The team got a new key pair, wrapped for memberCount members, and
+// fileKeyCount file keys were re-wrapped with its public key
+export const teamKeyRotatedSchema = z.object({
+  ...baseEvent,
+  action: z.literal("TEAM_KEY_ROTATED"),
+  teamId: z.string().uuid(),
+  teamName: z.string(),
+  memberCount: z.number().int().positive(),
+  fileKeyCount: z.number().int().nonnegative(),
+});
+
+export const folderSharedWithTeamSchema = z.object({
+  ...baseEvent,
+  ...shareTerms,
+  action: z.literal("FOLDER_SHARED_WITH_TEAM"),
+  folderId: z.string().uuid(),
+  folderName: z.string(),
+  folderHash: z.string(),
+  fileCount: z.number().int().nonnegative(),
+  teamId: z.string().uuid(),
+  teamName: z.string(),
+});
+
+// Everything filed under a patient, shared in one step. Each item's own share
+// is logged separately; this names the patient by id only, keeping their
+// demographics off the ledger.
+export const patientSharedSchema = z.object({
+  ...baseEvent,
+  ...receiver,
+  ...shareTerms,
+  action: z.literal("PATIENT_SHARED"),
+  patientId: z.string().uuid(),
+  recordCount: z.number().int().nonnegative(),
+  imageCount: z.number().int().nonnegative(),
+  folderCount: z.number().int().nonnegative(),
+});
+
+// The counts are the item shares revoked along with the patient share
+export const patientShareRevokedSchema = z.object({
+  ...baseEvent,
+  ...receiver,
+  action: z.literal("PATIENT_SHARE_REVOKED"),
+  patientId: z.string().uuid(),
+  recordCount: z.number().int().nonnegative(),
+  imageCount: z.number().int().nonnegative(),
+  folderCount: z.number().int().nonnegative(),
+});
+
+// Bridges the original blockchain table, now archived as blockchain_legacy,
+// into this chain. The fields are those of public.legacy_chain_summary.
+export const legacyChainAnchoredSchema = z.object({
+  ...baseEvent,
+  action: z.literal("LEGACY_CHAIN_ANCHORED"),
+  legacyBlockCount: z.number().int().positive(),
+  legacyGenesisHash: z.string(),
+  legacyTipHash: z.string(),
+  legacyChainDigest: z.string().regex(/^[0-9a-f]{64}$/),
+  legacyLinked: z.boolean(),
+});
+
+export const ledgerEventSchema = z.discriminatedUnion("action", [
+  recordUploadedSchema,
+  imageUploadedSchema,
+  imageBatchUploadedSchema,
+  folderUploadedSchema,
+  recordSharedSchema,
+  recordResharedSchema,
+  folderSharedSchema,
+  imageSharedSchema,
+  fileSharedSchema,
+  accessRevokedSchema,
+  recordDeletedSchema,
+  keyRotatedSchema,
+  resourceDecryptedSchema,
+  accessRequestedSchema,
+  accessRequestApprovedSchema,
+  accessRequestDeniedSchema,
+  teamMemberAddedSchema,
+  teamMemberRemovedSchema,
+  teamKeyRotatedSchema,
+  folderSharedWithTeamSchema,
+  patientSharedSchema,
+  patientShareRevokedSchema,
+  legacyChainAnchoredSchema,
+]);
+
+export type LedgerEvent = z.infer<typeof ledgerEventSchema>;
+export type LedgerAction = LedgerEvent["action"];
+
+// What callers supply; version and timestamp are stamped by createLedgerEvent
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+export type NewLedgerEvent = DistributiveOmit<LedgerEvent, "schemaVersion" | "timestamp">;
+
+// Stamp and validate an event before it is written. Throws on a bad shape.
+export function createLedgerEvent(event: NewLedgerEvent): LedgerEvent {
+  return ledgerEventSchema.parse({
+    ...event,
+    schemaVersion: LEDGER_SCHEMA_VERSION,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// Shapes written by the clients before the schema existed
+const legacyBlockSchema = z.object({
+  action: z.enum(["IMAGE_UPLOADED", "FOLDER_UPLOADED"]).optional(),
+  timestamp: z.string(),
+  senderId: z.string(),
+  senderName: z.string().optional(),
+  receiverId: z.string().nullable().optional(),
+  receiverName: z.string().optional(),
+  fileName: z.string().optional(),
+  fileHash: z.string().optional(),
+  folderId: z.string().optional(),
+  folderName: z.string().optional(),
+  folderHash: z.string().optional(),
+  fileCount: z.number().optional(),
+});
+
+// ShareFolderDialog encoded folder shares as "Folder: <name> (<n> files)"
+const LEGACY_FOLDER_SHARE = /^Folder: (.*) \((\d+) files\)$/;
+
+function upgradeLegacyBlock(legacy: z.infer<typeof legacyBlockSchema>): unknown {
+  const base = {
+    schemaVersion: LEGACY_SCHEMA_VERSION,
+    timestamp: legacy.timestamp,
+    senderId: legacy.senderId,
+    senderName: legacy.senderName,
+  };
+
+  if (legacy.action === "IMAGE_UPLOADED") {
+    return { ...base, action: legacy.action, imageId: null, fileName: legacy.fileName, fileHash: legacy.fileHash };
+  }
+
+  if (legacy.action === "FOLDER_UPLOADED") {
+    return {
+      ...base,
+      action: legacy.action,
+      folderId: legacy.folderId ?? null,
+      folderName: legacy.folderName,
+      folderHash: legacy.folderHash,
+      fileCount: legacy.fileCount,
+    };
+  }
+
+  if (!legacy.receiverId) {
+    return { ...base, action: "RECORD_UPLOADED", recordId: null, fileName: legacy.fileName, fileHash: legacy.fileHash };
+  }
+
+  const receiver = { receiverId: legacy.receiverId, receiverName: legacy.receiverName };
+  const folderShare = legacy.fileName?.match(LEGACY_FOLDER_SHARE);
+  if (folderShare) {
+    return {
+      ...base,
+      ...receiver,
+      action: "FOLDER_SHARED",
+      folderId: null,
+      folderName: folderShare[1],
+      folderHash: legacy.fileHash,
+      fileCount: Number(folderShare[2]),
+    };
+  }
+
+  return { ...base, ...receiver, action: "RECORD_SHARED", recordId: null, fileName: legacy.fileName, fileHash: legacy.fileHash };
+}
+
+function describeIssue(error: z.ZodError): string {
+  const issue = error.issues[0];
+  return issue ? `${issue.path.join(".") || "data"}: ${issue.message}` : "Invalid block data";
+}
+
+export type ParsedLedgerEvent =
+  | { event: LedgerEvent; legacy: boolean; error?: undefined }
+  | { event: null; legacy: boolean; error: string };
+
+// Validate a block's data_json, upgrading pre-schema blocks on the way
+export function parseLedgerEvent(data: unknown): ParsedLedgerEvent {
+  const versioned = typeof data === "object" && data !== null && "schemaVersion" in data;
+
+  let candidate = data;
+  if (!versioned) {
+    const legacy = legacyBlockSchema.safeParse(data);
+    if (!legacy.success) {
+      return { event: null, legacy: true, error: describeIssue(legacy.error) };
+    }
+    candidate = upgradeLegacyBlock(legacy.data);
+  }
+
+  const result = ledgerEventSchema.safeParse(candidate);
+  if (!result.success) {
+    return { event: null, legacy: !versioned, error: describeIssue(result.error) };
+  }
+  return { event: result.data, legacy: !versioned };
+}
+
+export const LEDGER_ACTION_LABELS: Record<LedgerAction, string> = {
+  RECORD_UPLOADED: "Record Uploaded",
+  IMAGE_UPLOADED: "Image Uploaded",
+  IMAGE_BATCH_UPLOADED: "Images Uploaded",
+  FOLDER_UPLOADED: "Folder Uploaded",
+  RECORD_SHARED: "Record Shared",
+  RECORD_RESHARED: "Record Re-shared",
+  FOLDER_SHARED: "Folder Shared",
+  IMAGE_SHARED: "Image Shared",
+  FILE_SHARED: "File Shared",
+  ACCESS_REVOKED: "Access Revoked",
+  RECORD_DELETED: "Record Deleted",
+  KEY_ROTATED: "Key Rotated",
+  RESOURCE_DECRYPTED: "Decrypted",
+  ACCESS_REQUESTED: "Access Requested",
+  ACCESS_REQUEST_APPROVED: "Access Request Approved",
+  ACCESS_REQUEST_DENIED: "Access Request Denied",
+  TEAM_MEMBER_ADDED: "Team Member Added",
+  TEAM_MEMBER_REMOVED: "Team Member Removed",
+  TEAM_KEY_ROTATED: "Team Key Rotated",
+  FOLDER_SHARED_WITH_TEAM: "Folder Shared With Team",
+  PATIENT_SHARED: "Patient Shared",
+  PATIENT_SHARE_REVOKED: "Patient Share Revoked",
+  LEGACY_CHAIN_ANCHORED: "Legacy Chain Anchored",
+};
+
+// The name of whatever the event is about, for lists and explorers
+export function ledgerEventSubject(event: LedgerEvent): string {
+  switch (event.action) {
+    case "FOLDER_UPLOADED":
+    case "FOLDER_SHARED":
+    case "FOLDER_SHARED_WITH_TEAM":
+      return event.folderName;
+    case "TEAM_MEMBER_ADDED":
+    case "TEAM_MEMBER_REMOVED":
+    case "TEAM_KEY_ROTATED":
+      return event.teamName;
+    case "IMAGE_BATCH_UPLOADED":
+      return `${event.fileCount} image${event.fileCount === 1 ? "" : "s"}`;
+    case "FILE_SHARED":
+      return `${event.folderName}/${event.fileName}`;
+    case "ACCESS_REVOKED":
+    case "KEY_ROTATED":
+      return event.fileName ? `${event.resourceName}/${event.fileName}` : event.resourceName;
+    case "ACCESS_REQUEST_APPROVED":
+      return event.resourceName;
+    case "ACCESS_REQUESTED":
+    case "ACCESS_REQUEST_DENIED":
+      return `Request ${event.requestId.slice(0, 8)}`;
+    case "RESOURCE_DECRYPTED":
+      return event.fileName ? `${event.resourceName}/${event.fileName}` : event.resourceName;
+    case "PATIENT_SHARED":
+    case "PATIENT_SHARE_REVOKED":
+      return `Patient ${event.patientId.slice(0, 8)}`;
+    case "LEGACY_CHAIN_ANCHORED":
+      return `${event.legacyBlockCount} legacy block${event.legacyBlockCount === 1 ? "" : "s"}`;
+    default:
+      return event.fileName;
+  }
+}
+
+export function ledgerEventReceiverId(event: LedgerEvent): string | null {
+  return "receiverId" in event ? event.receiverId : null;
+}
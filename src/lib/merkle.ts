@@ -0,0 +1,102 @@
+import CryptoJS from "crypto-js";
+import { z } from "zod";
+
+// Leaves and inner nodes are hashed with different prefixes, so an inner node
+// can never be passed off as a leaf. An odd node out is promoted unchanged
+// rather than paired with itself.
+const LEAF_PREFIX = "00";
+const NODE_PREFIX = "01";
+
+export const merkleProofSchema = z.object({
+  version: z.literal(1),
+  root: z.string(),
+  leafIndex: z.number().int().nonnegative(),
+  leafCount: z.number().int().positive(),
+  // Random per-file salt, so the sibling hashes in a proof reveal nothing
+  // about the other files in the batch
+  salt: z.string().regex(/^[0-9a-f]{64}$/),
+  siblings: z.array(
+    z.object({
+      hash: z.string(),
+      position: z.enum(["left", "right"]),
+    })
+  ),
+});
+
+export type MerkleProof = z.infer<typeof merkleProofSchema>;
+
+export interface MerkleLeaf {
+  fileHash: string;
+  salt: string;
+}
+
+function sha256Hex(hex: string): string {
+  return CryptoJS.SHA256(CryptoJS.enc.Hex.parse(hex)).toString();
+}
+
+function leafHash(fileHash: string, salt: string): string {
+  // The file hash is committed as text, so any of the ledger's hash schemes fit
+  return sha256Hex(LEAF_PREFIX + salt + CryptoJS.enc.Utf8.parse(fileHash).toString(CryptoJS.enc.Hex));
+}
+
+function nodeHash(left: string, right: string): string {
+  return sha256Hex(NODE_PREFIX + left + right);
+}
+
+export function createMerkleSalt(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(32)), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Build the tree over a batch of files and return its root along with an
+// inclusion proof for every leaf, in input order
+export function buildMerkleTree(leaves: MerkleLeaf[]): { root: string; proofs: MerkleProof[] } {
+  if (leaves.length === 0) {
+    throw new Error("Cannot build a Merkle tree with no leaves");
+  }
+
+  const levels = [leaves.map((leaf) => leafHash(leaf.fileHash, leaf.salt))];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? nodeHash(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+
+  const root = levels[levels.length - 1][0];
+  const proofs = leaves.map((leaf, leafIndex) => {
+    const siblings: MerkleProof["siblings"] = [];
+    let index = leafIndex;
+
+    for (const level of levels.slice(0, -1)) {
+      const siblingIndex = index ^ 1;
+      if (siblingIndex < level.length) {
+        siblings.push({ hash: level[siblingIndex], position: index % 2 === 0 ? "right" : "left" });
+      }
+      index = Math.floor(index / 2);
+    }
+
+    return { version: 1 as const, root, leafIndex, leafCount: leaves.length, salt: leaf.salt, siblings };
+  });
+
+  return { root, proofs };
+}
+
+// The root a proof commits the file hash to. Only the file's own hash and
+// salt are needed; the other files are represented by their sibling hashes.
+export function merkleRootFromProof(fileHash: string, proof: MerkleProof): string {
+  return proof.siblings.reduce(
+    (hash, sibling) => (sibling.position === "left" ? nodeHash(sibling.hash, hash) : nodeHash(hash, sibling.hash)),
+    leafHash(fileHash, proof.salt)
+  );
+}
+
+export function verifyMerkleProof(fileHash: string, proof: MerkleProof, root: string): boolean {
+  return merkleRootFromProof(fileHash, proof) === root;
+}
+
+export function parseMerkleProof(value: unknown): MerkleProof | null {
+  const result = merkleProofSchema.safeParse(value);
+  return result.success ? result.data : null;
+}
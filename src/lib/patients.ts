@@ -0,0 +1,421 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { decryptWithAES, encryptKeyWithRSA, encryptWithAES, generateAESKey } from "@/lib/encryption";
+import { shareFolder, shareImage } from "@/lib/fileShares";
+import { isVaultUnlocked } from "@/lib/keyVault";
+import { appendEvent } from "@/lib/ledger";
+import { ResourceType } from "@/lib/ledgerEvents";
+import { shareRecord, unwrapWithVault, wrapKeyForProfile } from "@/lib/recordShares";
+import { revokeFolderShare, revokeImageShare, revokeRecordShare } from "@/lib/revocation";
+import { DEFAULT_SHARE_TERMS, ShareTerms, isExpired } from "@/lib/shareTerms";
+import { errorMessage } from "@/lib/utils";
+
+// Stored encrypted as one JSON document, never in the clear
+export interface PatientDemographics {
+  name: string;
+  dob: string;
+  mrn: string;
+}
+
+export type Patient = Tables<"patients">;
+
+export type PatientShare = Tables<"patient_shares"> & {
+  recipient: { full_name: string; specialization: string | null } | null;
+};
+
+// A patient with their demographics, which stay null while the vault is
+// locked or if they can't be decrypted
+export interface PatientEntry {
+  patient: Patient;
+  demographics: PatientDemographics | null;
+}
+
+export interface PatientItems {
+  records: Tables<"medical_records">[];
+  images: Tables<"encrypted_images">[];
+  folders: Tables<"encrypted_folders">[];
+}
+
+export interface PatientShareResult {
+  receiverName: string;
+  // Items left out, each with the reason
+  skipped: string[];
+}
+
+export interface PatientRevokeResult {
+  recipientName: string;
+  // Items the doctor may still hold, each with the reason
+  failed: string[];
+}
+
+function requireUnlockedVault() {
+  if (!isVaultUnlocked()) {
+    throw new Error("Key vault is locked. Unlock it to manage patients.");
+  }
+}
+
+// The caller's own patients and those shared with them
+export async function fetchPatients(): Promise<Patient[]> {
+  const { data, error } = await supabase.from("patients").select("*").order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createPatient(ownerId: string, demographics: PatientDemographics): Promise<Patient> {
+  requireUnlockedVault();
+
+  const name = demographics.name.trim();
+  if (!name) throw new Error("Enter the patient's name");
+
+  const aesKey = generateAESKey();
+  const [encryptedDemographics, wrappedKey] = await Promise.all([
+    encryptWithAES(JSON.stringify({ name, dob: demographics.dob, mrn: demographics.mrn.trim() }), aesKey),
+    wrapKeyForProfile(aesKey, ownerId),
+  ]);
+
+  const { data, error } = await supabase
+    .from("patients")
+    .insert({ owner_id: ownerId, encrypted_demographics: encryptedDemographics, encrypted_aes_key: wrappedKey })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// The demographics key, from the owner's copy or from the caller's share
+async function unwrapPatientKey(patient: Patient, profileId: string): Promise<string> {
+  let wrappedKey = patient.encrypted_aes_key;
+  if (patient.owner_id !== profileId) {
+    const { data: share, error } = await supabase
+      .from("patient_shares")
+      .select("wrapped_key")
+      .eq("patient_id", patient.id)
+      .eq("recipient_id", profileId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!share) throw new Error("This patient hasn't been shared with you");
+    wrappedKey = share.wrapped_key;
+  }
+
+  return unwrapWithVault(wrappedKey, "Failed to decrypt the patient's key");
+}
+
+export async function decryptDemographics(patient: Patient, profileId: string): Promise<PatientDemographics> {
+  const aesKey = await unwrapPatientKey(patient, profileId);
+  return JSON.parse(await decryptWithAES(patient.encrypted_demographics, aesKey));
+}
+
+export async function fetchPatientEntries(profileId: string): Promise<PatientEntry[]> {
+  const patients = await fetchPatients();
+  if (!isVaultUnlocked()) return patients.map((patient) => ({ patient, demographics: null }));
+
+  return Promise.all(
+    patients.map(async (patient) => {
+      try {
+        return { patient, demographics: await decryptDemographics(patient, profileId) };
+      } catch (error) {
+        console.error(`Error decrypting patient ${patient.id}:`, error);
+        return { patient, demographics: null };
+      }
+    })
+  );
+}
+
+// How a patient is named in lists; only the id shows until they are decrypted
+export function patientLabel({ patient, demographics }: PatientEntry): string {
+  if (!demographics) return `Patient ${patient.id.slice(0, 8)}`;
+  return demographics.mrn ? `${demographics.name} · MRN ${demographics.mrn}` : demographics.name;
+}
+
+// Everything filed under the patient that RLS lets the caller see
+export async function fetchPatientItems(patientId: string): Promise<PatientItems> {
+  const [records, images, folders] = await Promise.all([
+    supabase.from("medical_records").select("*").eq("patient_id", patientId).order("created_at", { ascending: false }),
+    supabase.from("encrypted_images").select("*").eq("patient_id", patientId).order("created_at", { ascending: false }),
+    supabase.from("encrypted_folders").select("*").eq("patient_id", patientId).order("created_at", { ascending: false }),
+  ]);
+
+  if (records.error) throw records.error;
+  if (images.error) throw images.error;
+  if (folders.error) throw folders.error;
+  return { records: records.data || [], images: images.data || [], folders: folders.data || [] };
+}
+
+export async function fetchPatientShares(patientId: string): Promise<PatientShare[]> {
+  const { data, error } = await supabase
+    .from("patient_shares")
+    .select("*, recipient:profiles!patient_shares_recipient_id_fkey(full_name, specialization)")
+    .eq("patient_id", patientId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Another doctor holds the single share an image or folder allows
+function heldByOther(item: { receiver_id: string | null; share_expires_at: string | null }, receiverId: string) {
+  return !!item.receiver_id && item.receiver_id !== receiverId && !isExpired(item.share_expires_at);
+}
+
+const itemKey = (type: ResourceType, id: string) => `${type}:${id}`;
+
+// The items a patient share created, keyed by itemKey
+async function fetchPatientShareItems(patientShareId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from("patient_share_items")
+    .select("item_type, item_id")
+    .eq("patient_share_id", patientShareId);
+
+  if (error) throw error;
+  return new Set((data || []).map((item) => itemKey(item.item_type as ResourceType, item.item_id)));
+}
+
+// Share the patient and everything filed under them with one doctor. Each
+// item is shared through its own table and logged on its own; an item that
+// can't be shared is skipped and reported, so the rest still goes through.
+// This shares what is filed now: items filed later aren't shared until the
+// patient is shared again. The items shared are recorded against the patient
+// share, and items the doctor already holds on their own are left alone, so
+// revoking the patient share takes back only what it gave.
+export async function sharePatient(
+  patient: Patient,
+  receiverId: string,
+  terms: ShareTerms = DEFAULT_SHARE_TERMS
+): Promise<PatientShareResult> {
+  requireUnlockedVault();
+  if (isExpired(terms.expiresAt)) throw new Error("The expiry must be in the future");
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from("profiles")
+    .select("id, full_name, public_key_pem")
+    .in("id", [patient.owner_id, receiverId]);
+
+  if (profilesError) throw profilesError;
+  const sender = profiles?.find((profile) => profile.id === patient.owner_id);
+  const receiver = profiles?.find((profile) => profile.id === receiverId);
+  if (!receiver?.public_key_pem) throw new Error("Receiver has no encryption keys yet");
+
+  const aesKey = await unwrapPatientKey(patient, patient.owner_id);
+  const wrappedKey = await encryptKeyWithRSA(aesKey, receiver.public_key_pem);
+
+  // An expired share with the same doctor is renewed in place
+  const { data: share, error: shareError } = await supabase
+    .from("patient_shares")
+    .upsert(
+      {
+        patient_id: patient.id,
+        recipient_id: receiverId,
+        shared_by: patient.owner_id,
+        wrapped_key: wrappedKey,
+        permission: terms.permission,
+        expires_at: terms.expiresAt,
+      },
+      { onConflict: "patient_id,recipient_id" }
+    )
+    .select("id")
+    .single();
+
+  if (shareError) throw shareError;
+
+  const { records, images, folders } = await fetchPatientItems(patient.id);
+  const [linked, { data: recordShares, error: recordSharesError }] = await Promise.all([
+    fetchPatientShareItems(share.id),
+    supabase
+      .from("record_shares")
+      .select("record_id, expires_at")
+      .eq("recipient_id", receiverId)
+      .in("record_id", records.map((record) => record.id)),
+  ]);
+
+  if (recordSharesError) throw recordSharesError;
+  const heldRecordIds = new Set(
+    (recordShares || []).filter((held) => !isExpired(held.expires_at)).map((held) => held.record_id)
+  );
+  // The doctor already has it through a share this patient share didn't make
+  const heldOnItsOwn = (type: ResourceType, id: string, held: boolean) => held && !linked.has(itemKey(type, id));
+
+  const skipped: string[] = [];
+  const shared: { item_type: ResourceType; item_id: string }[] = [];
+  let recordCount = 0;
+  let imageCount = 0;
+  let folderCount = 0;
+
+  for (const record of records) {
+    if (heldOnItsOwn("record", record.id, heldRecordIds.has(record.id))) {
+      skipped.push(`${record.file_name}: already shared with them on its own`);
+      continue;
+    }
+    const [outcome] = await shareRecord(record, patient.owner_id, [receiverId], terms);
+    if (outcome.error) {
+      skipped.push(`${record.file_name}: ${outcome.error}`);
+    } else {
+      shared.push({ item_type: "record", item_id: record.id });
+      recordCount++;
+    }
+  }
+
+  for (const image of images) {
+    if (heldByOther(image, receiverId)) {
+      skipped.push(`${image.file_name}: already shared with another doctor`);
+      continue;
+    }
+    const heldByThem = image.receiver_id === receiverId && !isExpired(image.share_expires_at);
+    if (heldOnItsOwn("image", image.id, heldByThem)) {
+      skipped.push(`${image.file_name}: already shared with them on its own`);
+      continue;
+    }
+    try {
+      await shareImage(image, receiverId, terms);
+      shared.push({ item_type: "image", item_id: image.id });
+      imageCount++;
+    } catch (error) {
+      console.error(`Error sharing image ${image.id}:`, error);
+      skipped.push(`${image.file_name}: ${errorMessage(error, "Error sharing image")}`);
+    }
+  }
+
+  for (const folder of folders) {
+    if (heldByOther(folder, receiverId)) {
+      skipped.push(`${folder.folder_name}: already shared with another doctor`);
+      continue;
+    }
+    const heldByThem = folder.receiver_id === receiverId && !isExpired(folder.share_expires_at);
+    if (heldOnItsOwn("folder", folder.id, heldByThem)) {
+      skipped.push(`${folder.folder_name}: already shared with them on its own`);
+      continue;
+    }
+    try {
+      const { skippedFiles } = await shareFolder(folder, receiverId, terms);
+      skipped.push(...skippedFiles.map((fileName) => `${folder.folder_name}/${fileName}: key could not be re-encrypted`));
+      shared.push({ item_type: "folder", item_id: folder.id });
+      folderCount++;
+    } catch (error) {
+      console.error(`Error sharing folder ${folder.id}:`, error);
+      skipped.push(`${folder.folder_name}: ${errorMessage(error, "Error sharing folder")}`);
+    }
+  }
+
+  if (shared.length > 0) {
+    const { error: itemsError } = await supabase
+      .from("patient_share_items")
+      .upsert(
+        shared.map((item) => ({ patient_share_id: share.id, ...item })),
+        { onConflict: "patient_share_id,item_type,item_id", ignoreDuplicates: true }
+      );
+
+    if (itemsError) throw itemsError;
+  }
+
+  await appendEvent({
+    action: "PATIENT_SHARED",
+    patientId: patient.id,
+    recordCount,
+    imageCount,
+    folderCount,
+    senderId: patient.owner_id,
+    senderName: sender?.full_name,
+    receiverId,
+    receiverName: receiver.full_name,
+    permission: terms.permission,
+    expiresAt: terms.expiresAt,
+  });
+
+  return { receiverName: receiver.full_name, skipped };
+}
+
+// Stop sharing the patient with one doctor: their demographics key and the
+// items the patient share gave them. Items shared with them on their own are
+// kept. Each item is revoked through its own table and logged on its own,
+// without rotating keys; the item share dialogs can rotate. An item that
+// can't be revoked is reported, not thrown.
+export async function revokePatientShare(patient: Patient, recipientId: string): Promise<PatientRevokeResult> {
+  requireUnlockedVault();
+
+  const { data: share, error: shareError } = await supabase
+    .from("patient_shares")
+    .select("id")
+    .eq("patient_id", patient.id)
+    .eq("recipient_id", recipientId)
+    .maybeSingle();
+
+  if (shareError) throw shareError;
+  if (!share) throw new Error("This patient is not shared with that doctor");
+
+  // Read before the delete, which takes the item links with it
+  const linked = await fetchPatientShareItems(share.id);
+
+  const { error } = await supabase.from("patient_shares").delete().eq("id", share.id);
+  if (error) throw error;
+
+  const patientItems = await fetchPatientItems(patient.id);
+  const records = patientItems.records.filter((record) => linked.has(itemKey("record", record.id)));
+  const images = patientItems.images.filter((image) => linked.has(itemKey("image", image.id)));
+  const folders = patientItems.folders.filter((folder) => linked.has(itemKey("folder", folder.id)));
+  const { data: recordShares, error: recordSharesError } = await supabase
+    .from("record_shares")
+    .select("record_id")
+    .eq("recipient_id", recipientId)
+    .in("record_id", records.map((record) => record.id));
+
+  if (recordSharesError) throw recordSharesError;
+  const sharedRecordIds = new Set((recordShares || []).map((share) => share.record_id));
+  const failed: string[] = [];
+  let recordCount = 0;
+  let imageCount = 0;
+  let folderCount = 0;
+
+  for (const record of records.filter((record) => sharedRecordIds.has(record.id))) {
+    try {
+      await revokeRecordShare(record, recipientId, false);
+      recordCount++;
+    } catch (error) {
+      console.error(`Error revoking record ${record.id}:`, error);
+      failed.push(`${record.file_name}: ${errorMessage(error, "Error revoking record")}`);
+    }
+  }
+
+  for (const image of images.filter((image) => image.receiver_id === recipientId)) {
+    try {
+      await revokeImageShare(image, false);
+      imageCount++;
+    } catch (error) {
+      console.error(`Error revoking image ${image.id}:`, error);
+      failed.push(`${image.file_name}: ${errorMessage(error, "Error revoking image")}`);
+    }
+  }
+
+  for (const folder of folders.filter((folder) => folder.receiver_id === recipientId)) {
+    try {
+      await revokeFolderShare(folder, false);
+      folderCount++;
+    } catch (error) {
+      console.error(`Error revoking folder ${folder.id}:`, error);
+      failed.push(`${folder.folder_name}: ${errorMessage(error, "Error revoking folder")}`);
+    }
+  }
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from("profiles")
+    .select("id, full_name")
+    .in("id", [patient.owner_id, recipientId]);
+
+  if (profilesError) throw profilesError;
+  const nameOf = (profileId: string) => profiles?.find((profile) => profile.id === profileId)?.full_name;
+
+  await appendEvent({
+    action: "PATIENT_SHARE_REVOKED",
+    patientId: patient.id,
+    recordCount,
+    imageCount,
+    folderCount,
+    senderId: patient.owner_id,
+    senderName: nameOf(patient.owner_id),
+    receiverId: recipientId,
+    receiverName: nameOf(recipientId),
+  });
+
+  return { recipientName: nameOf(recipientId) || "Doctor", failed };
+}
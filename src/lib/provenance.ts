@@ -0,0 +1,204 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Blockchain } from "@/lib/blockchain";
+import { PLAINTEXT_HASH_SCHEME } from "@/lib/encryptedStorage";
+import { fileToBase64, hashBlob, hashFile } from "@/lib/encryption";
+import { LedgerBlock, loadSigningKeys } from "@/lib/ledger";
+import { ResourceType } from "@/lib/ledgerEvents";
+
+// How a row's file_hash was computed at upload. Chunked uploads hash the
+// original bytes; before that, records hashed the file's data URL and
+// images and folder files hashed their ciphertext as stored.
+export type HashScheme = typeof PLAINTEXT_HASH_SCHEME | "data-url" | "stored-ciphertext";
+
+export const HASH_SCHEME_LABELS: Record<HashScheme, string> = {
+  [PLAINTEXT_HASH_SCHEME]: "SHA-256 of the original file",
+  "data-url": "SHA-256 of the file's data URL (legacy record)",
+  "stored-ciphertext": "SHA-256 of the encrypted file as stored (legacy upload)",
+};
+
+export type ProvenanceSource = "medical_records" | "encrypted_images" | "encrypted_files";
+
+export interface FileHashes {
+  // Matches sha256-plaintext rows, or stored-ciphertext rows when the file
+  // given is the encrypted object itself
+  bytes: string;
+  // Only computed when the bytes matched nothing; see hashDataUrl
+  dataUrl?: string;
+}
+
+export interface ProvenanceMatch {
+  source: ProvenanceSource;
+  id: string;
+  fileName: string;
+  fileHash: string;
+  ownerId: string;
+  createdAt: string | null;
+  scheme: HashScheme;
+}
+
+export interface FileProvenance {
+  hashes: FileHashes;
+  matches: ProvenanceMatch[];
+  // Every block about the matched files, oldest first
+  blocks: LedgerBlock[];
+}
+
+// A record, image or folder whose history is wanted
+export interface TimelineResource {
+  type: ResourceType;
+  id: string;
+  // file_hash, or folder_hash for folders
+  hash: string;
+  // The batch block that committed an image, when there is one
+  ledgerBlockId?: string | null;
+}
+
+interface HashedRow {
+  id: string;
+  file_name: string;
+  file_hash: string;
+  owner_id: string;
+  created_at: string | null;
+  metadata: unknown;
+}
+
+// The hash legacy records took, of the file read as a data URL. That holds
+// the whole file in memory several times over, so it is only worth doing
+// once the hash of the bytes has matched nothing.
+export async function hashDataUrl(file: File): Promise<string> {
+  return hashFile(await fileToBase64(file));
+}
+
+function schemeOf(row: HashedRow, hashes: FileHashes): HashScheme {
+  if (row.file_hash === hashes.dataUrl) return "data-url";
+  const metadata = row.metadata as { hashScheme?: string } | null;
+  return metadata?.hashScheme === PLAINTEXT_HASH_SCHEME ? PLAINTEXT_HASH_SCHEME : "stored-ciphertext";
+}
+
+function toMatch(source: ProvenanceSource, row: HashedRow, hashes: FileHashes): ProvenanceMatch {
+  return {
+    source,
+    id: row.id,
+    fileName: row.file_name,
+    fileHash: row.file_hash,
+    ownerId: row.owner_id,
+    createdAt: row.created_at,
+    scheme: schemeOf(row, hashes),
+  };
+}
+
+// Hashes are hex and ids are uuids, so they are safe inside an or() filter
+const list = (values: string[]) => `(${values.join(",")})`;
+
+// The rows with this file hash, in every table that stores one
+async function fetchHashedRows(hash: string) {
+  const [records, images, files] = await Promise.all([
+    supabase
+      .from("medical_records")
+      .select("id, file_name, file_hash, owner_id, created_at, metadata")
+      .eq("file_hash", hash),
+    supabase
+      .from("encrypted_images")
+      .select("id, file_name, file_hash, owner_id, created_at, metadata, ledger_block_id")
+      .eq("file_hash", hash),
+    supabase
+      .from("encrypted_files")
+      .select("id, file_name, file_hash, owner_id, created_at, metadata, ledger_block_id, folder_id")
+      .eq("file_hash", hash),
+  ]);
+
+  if (records.error) throw records.error;
+  if (images.error) throw images.error;
+  if (files.error) throw files.error;
+  return { records, images, files };
+}
+
+// Look a file up by hash across every table that stores one, then collect the
+// blocks that mention it: by hash, by resource id, by the folder it is in, and
+// the Merkle batch block that committed it. Only rows visible to the caller
+// are found. The legacy data URL hash is tried only if the bytes match nothing.
+export async function fetchFileProvenance(file: File): Promise<FileProvenance> {
+  const hashes: FileHashes = { bytes: await hashBlob(file) };
+  let rows = await fetchHashedRows(hashes.bytes);
+  if (!rows.records.data?.length && !rows.images.data?.length && !rows.files.data?.length) {
+    hashes.dataUrl = await hashDataUrl(file);
+    rows = await fetchHashedRows(hashes.dataUrl);
+  }
+  const { records, images, files } = rows;
+  const candidates = [hashes.bytes, hashes.dataUrl].filter((hash): hash is string => !!hash);
+
+  const matches = [
+    ...(records.data || []).map((row) => toMatch("medical_records", row, hashes)),
+    ...(images.data || []).map((row) => toMatch("encrypted_images", row, hashes)),
+    ...(files.data || []).map((row) => toMatch("encrypted_files", row, hashes)),
+  ];
+
+  const recordIds = (records.data || []).map((row) => row.id);
+  const imageIds = (images.data || []).map((row) => row.id);
+  const folderIds = [...new Set((files.data || []).map((row) => row.folder_id))];
+  const batchBlockIds = [...(images.data || []), ...(files.data || [])]
+    .map((row) => row.ledger_block_id)
+    .filter((id): id is string => !!id);
+
+  const conditions = [`data_json->>fileHash.in.${list(candidates)}`];
+  if (recordIds.length) conditions.push(`data_json->>recordId.in.${list(recordIds)}`);
+  if (imageIds.length) conditions.push(`data_json->>imageId.in.${list(imageIds)}`);
+  if (folderIds.length) conditions.push(`data_json->>folderId.in.${list(folderIds)}`);
+  const resourceIds = [...recordIds, ...imageIds, ...folderIds];
+  if (resourceIds.length) conditions.push(`data_json->>resourceId.in.${list(resourceIds)}`);
+  if (batchBlockIds.length) conditions.push(`id.in.${list(batchBlockIds)}`);
+
+  const { data: blocks, error } = await supabase
+    .from("blockchain_renewed")
+    .select("*")
+    .or(conditions.join(","))
+    .order("block_index", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return { hashes, matches, blocks: blocks || [] };
+}
+
+const RESOURCE_ID_FIELDS: Record<ResourceType, string> = {
+  record: "recordId",
+  image: "imageId",
+  folder: "folderId",
+};
+
+// Every block about one resource, oldest first: its upload and shares (by
+// hash or id), revocations, re-encryptions and decryptions (by resourceId),
+// and the batch block that committed it
+export async function fetchResourceTimeline(resource: TimelineResource): Promise<LedgerBlock[]> {
+  const hash = resource.hash.toLowerCase().replace(/[^0-9a-f]/g, "");
+  const conditions = [
+    `data_json->>${RESOURCE_ID_FIELDS[resource.type]}.eq.${resource.id}`,
+    `data_json->>resourceId.eq.${resource.id}`,
+  ];
+  if (hash) {
+    conditions.push(`data_json->>fileHash.eq.${hash}`, `data_json->>folderHash.eq.${hash}`);
+  }
+  if (resource.ledgerBlockId) conditions.push(`id.eq.${resource.ledgerBlockId}`);
+
+  const { data: blocks, error } = await supabase
+    .from("blockchain_renewed")
+    .select("*")
+    .or(conditions.join(","))
+    .order("block_index", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return blocks || [];
+}
+
+// Check each block's own hash and signature, keyed by block id. Links are
+// not checked; a history is not a contiguous run of the chain.
+export async function verifyEachBlock(blocks: LedgerBlock[]): Promise<Record<string, boolean>> {
+  const keys = await loadSigningKeys();
+  const statuses = await Promise.all(
+    blocks.map(async (block) => {
+      const failures = await Blockchain.fromRows([block]).verifyBlock(0, keys);
+      return [block.id, failures.length === 0] as const;
+    })
+  );
+  return Object.fromEntries(statuses);
+}
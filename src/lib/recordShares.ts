@@ -0,0 +1,247 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { KeyUnwrapError, decryptKeyWithRSA, encryptKeyWithRSA, isPlaintextAESKey } from "@/lib/encryption";
+import { getVaultKeys } from "@/lib/keyVault";
+import { appendEvent } from "@/lib/ledger";
+import {
+  DEFAULT_SHARE_TERMS,
+  ResharePolicy,
+  ShareTerms,
+  delegablePolicies,
+  delegationError,
+  isExpired,
+} from "@/lib/shareTerms";
+import { errorMessage } from "@/lib/utils";
+
+export type RecordShare = Tables<"record_shares"> & {
+  recipient: { full_name: string; specialization: string | null } | null;
+  sharer: { full_name: string } | null;
+};
+
+// The columns of a medical_records row that sharing and decryption need
+export type ShareableRecord = Pick<
+  Tables<"medical_records">,
+  "id" | "owner_id" | "file_name" | "file_hash" | "encrypted_aes_key"
+>;
+
+export interface ShareOutcome {
+  recipientId: string;
+  recipientName: string;
+  error: string | null;
+}
+
+export async function fetchRecordShares(recordId: string): Promise<RecordShare[]> {
+  const { data, error } = await supabase
+    .from("record_shares")
+    .select(`
+      *,
+      recipient:profiles!record_shares_recipient_id_fkey(full_name, specialization),
+      sharer:profiles!record_shares_shared_by_fkey(full_name)
+    `)
+    .eq("record_id", recordId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Wrap an AES key with a profile's RSA-OAEP public key
+export async function wrapKeyForProfile(aesKey: string, profileId: string): Promise<string> {
+  const { data, error } = await supabase.from("profiles").select("public_key_pem").eq("id", profileId).single();
+
+  if (error) throw error;
+  if (!data.public_key_pem) throw new Error("Public key not found");
+  return encryptKeyWithRSA(aesKey, data.public_key_pem);
+}
+
+// Unwrap a key that was wrapped with the caller's own public key. A key that
+// won't unwrap throws KeyUnwrapError, with failureMessage if one is given.
+export async function unwrapWithVault(wrappedKey: string, failureMessage?: string): Promise<string> {
+  const vaultKeys = getVaultKeys();
+  if (!vaultKeys) {
+    throw new Error("Key vault is locked. Unlock it with your passphrase to decrypt records.");
+  }
+  try {
+    return await decryptKeyWithRSA(wrappedKey, vaultKeys.privateKey, vaultKeys.legacyKey);
+  } catch (error) {
+    if (failureMessage && error instanceof KeyUnwrapError) throw new KeyUnwrapError(failureMessage);
+    throw error;
+  }
+}
+
+// Wrap an owner key stored before wrapping was enforced. The record still
+// opens if this fails, so the error is logged rather than thrown.
+async function protectOwnerKey(record: ShareableRecord): Promise<void> {
+  try {
+    const wrapped = await wrapKeyForProfile(record.encrypted_aes_key, record.owner_id);
+    const { error } = await supabase
+      .from("medical_records")
+      .update({ encrypted_aes_key: wrapped })
+      .eq("id", record.id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error wrapping record key:", error);
+  }
+}
+
+// The record's AES key, from the owner's copy or from the caller's share
+export async function unwrapRecordKey(record: ShareableRecord, profileId: string): Promise<string> {
+  if (record.owner_id === profileId) {
+    if (isPlaintextAESKey(record.encrypted_aes_key)) {
+      await protectOwnerKey(record);
+      return record.encrypted_aes_key;
+    }
+
+    return unwrapWithVault(
+      record.encrypted_aes_key,
+      "Failed to decrypt AES key. An earlier share may have replaced your copy of it."
+    );
+  }
+
+  const { data: share, error } = await supabase
+    .from("record_shares")
+    .select("wrapped_key")
+    .eq("record_id", record.id)
+    .eq("recipient_id", profileId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!share) throw new Error("You don't have permission to view this record");
+
+  return unwrapWithVault(
+    share.wrapped_key,
+    "Failed to decrypt AES key. The record may have been shared with an incompatible key."
+  );
+}
+
+// The share a recipient holds, which a re-share is made from
+async function fetchOwnShare(recordId: string, profileId: string): Promise<Tables<"record_shares">> {
+  const { data: share, error } = await supabase
+    .from("record_shares")
+    .select("*")
+    .eq("record_id", recordId)
+    .eq("recipient_id", profileId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!share) throw new Error("You don't have permission to view this record");
+  return share;
+}
+
+// Every share re-shared from shareId, directly or further down the chain
+export function downstreamShares<T extends Pick<Tables<"record_shares">, "id" | "parent_share_id">>(
+  shares: T[],
+  shareId: string
+): T[] {
+  const children = shares.filter((share) => share.parent_share_id === shareId);
+  return children.flatMap((child) => [child, ...downstreamShares(shares, child.id)]);
+}
+
+// Wrap the record's key for each recipient and record each share on the
+// ledger. Recipients are handled one at a time, so one failure doesn't undo
+// the others. A sender other than the owner re-shares from the share they
+// hold, within what that share allows.
+export async function shareRecord(
+  record: ShareableRecord,
+  senderId: string,
+  recipientIds: string[],
+  terms: ShareTerms = DEFAULT_SHARE_TERMS,
+  resharePolicy: ResharePolicy = "none"
+): Promise<ShareOutcome[]> {
+  if (isExpired(terms.expiresAt)) throw new Error("The expiry must be in the future");
+
+  const parentShare = record.owner_id === senderId ? null : await fetchOwnShare(record.id, senderId);
+  if (parentShare) {
+    if (!delegablePolicies(parentShare.reshare_policy).includes(resharePolicy)) {
+      throw new Error("The owner hasn't allowed you to re-share this record on those terms");
+    }
+    const termsError = delegationError(parentShare, terms);
+    if (termsError) throw new Error(termsError);
+  }
+
+  const aesKey = parentShare ? await unwrapWithVault(parentShare.wrapped_key) : await unwrapRecordKey(record, senderId);
+
+  const { data: profiles, error } = await supabase
+    .from("profiles")
+    .select("id, full_name, public_key_pem")
+    .in("id", [senderId, ...recipientIds]);
+
+  if (error) throw error;
+  const senderName = profiles?.find((profile) => profile.id === senderId)?.full_name || "Doctor";
+
+  const outcomes: ShareOutcome[] = [];
+  for (const recipientId of recipientIds) {
+    const recipient = profiles?.find((profile) => profile.id === recipientId);
+    const recipientName = recipient?.full_name || "Doctor";
+
+    try {
+      if (!recipient?.public_key_pem) {
+        throw new Error("Receiver has no encryption keys yet");
+      }
+
+      const wrappedKey = await encryptKeyWithRSA(aesKey, recipient.public_key_pem);
+      const row = {
+        record_id: record.id,
+        recipient_id: recipientId,
+        shared_by: senderId,
+        wrapped_key: wrappedKey,
+        permission: terms.permission,
+        expires_at: terms.expiresAt,
+        reshare_policy: resharePolicy,
+        parent_share_id: parentShare?.id ?? null,
+      };
+
+      // An expired share with the same recipient is renewed in place. Only
+      // the owner can do that, so a re-share to someone who already has the
+      // record fails instead.
+      const { data: share, error: insertError } = parentShare
+        ? await supabase.from("record_shares").insert(row).select("id").single()
+        : await supabase.from("record_shares").upsert(row, { onConflict: "record_id,recipient_id" }).select("id").single();
+
+      if (insertError?.code === "23505") throw new Error("They already have access to this record");
+      if (insertError) throw insertError;
+
+      if (parentShare) {
+        await appendEvent({
+          action: "RECORD_RESHARED",
+          recordId: record.id,
+          fileName: record.file_name,
+          fileHash: record.file_hash,
+          ownerId: record.owner_id,
+          shareId: share.id,
+          parentShareId: parentShare.id,
+          resharePolicy,
+          senderId,
+          senderName,
+          receiverId: recipientId,
+          receiverName: recipientName,
+          permission: terms.permission,
+          expiresAt: terms.expiresAt,
+        });
+      } else {
+        await appendEvent({
+          action: "RECORD_SHARED",
+          recordId: record.id,
+          fileName: record.file_name,
+          fileHash: record.file_hash,
+          shareId: share.id,
+          resharePolicy,
+          senderId,
+          senderName,
+          receiverId: recipientId,
+          receiverName: recipientName,
+          permission: terms.permission,
+          expiresAt: terms.expiresAt,
+        });
+      }
+
+      outcomes.push({ recipientId, recipientName, error: null });
+    } catch (error) {
+      console.error(`Error sharing record with ${recipientName}:`, error);
+      outcomes.push({ recipientId, recipientName, error: errorMessage(error, "Error sharing record") });
+    }
+  }
+
+  return outcomes;
+}
@@ -0,0 +1,461 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+import {
+  decryptWithAES,
+  encryptKeyWithRSA,
+  encryptWithAES,
+  generateAESKey,
+  isChunkedHeader,
+} from "@/lib/encryption";
+import {
+  PLAINTEXT_HASH_SCHEME,
+  StoredEncryptedFile,
+  downloadStoredFile,
+  removeStoredFile,
+  uploadEncryptedFile,
+} from "@/lib/encryptedStorage";
+import { isVaultUnlocked } from "@/lib/keyVault";
+import { appendEvent } from "@/lib/ledger";
+import { ResourceType } from "@/lib/ledgerEvents";
+import { ShareableRecord, downstreamShares, unwrapRecordKey, unwrapWithVault, wrapKeyForProfile } from "@/lib/recordShares";
+import { errorMessage } from "@/lib/utils";
+
+export interface RevokeOutcome {
+  recipientName: string;
+  keyRotated: boolean;
+  // Access is revoked even when rotation fails; this says why it failed
+  rotationError: string | null;
+}
+
+export type RevocableRecord = ShareableRecord & Pick<Tables<"medical_records">, "encrypted_file_path" | "metadata">;
+
+export type RevocableImage = Pick<
+  Tables<"encrypted_images">,
+  "id" | "owner_id" | "receiver_id" | "file_name" | "file_hash" | "encrypted_path" | "encrypted_aes_key" | "metadata"
+>;
+
+export type RevocableFolder = Pick<Tables<"encrypted_folders">, "id" | "owner_id" | "receiver_id" | "folder_name">;
+
+export type RevocableFolderFile = Pick<
+  Tables<"encrypted_files">,
+  | "id"
+  | "owner_id"
+  | "folder_id"
+  | "receiver_id"
+  | "file_name"
+  | "file_hash"
+  | "encrypted_path"
+  | "encrypted_aes_key"
+  | "metadata"
+>;
+
+type RotatableFile = StoredEncryptedFile & { file_hash: string };
+
+interface RotatedFile {
+  encrypted_path: string;
+  metadata: Json;
+  file_hash: string;
+  encrypted_aes_key: string;
+}
+
+interface RevokedResource {
+  type: ResourceType;
+  id: string;
+  name: string;
+  // A single file out of a folder
+  fileName?: string;
+  ownerId: string;
+}
+
+// Rotation unwraps the owner's keys and the ledger entry is signed, and
+// both need the vault
+function requireUnlockedVault() {
+  if (!isVaultUnlocked()) {
+    throw new Error("Key vault is locked. Unlock it to revoke access.");
+  }
+}
+
+
+// Re-encrypted content goes next to the old objects, under a new path
+function rotatedPath(path: string): string {
+  return `${path.replace(/\.rotated-\d+$/, "")}.rotated-${Date.now()}`;
+}
+
+// Decrypt a stored file, upload it again in chunks under newKey and hand the
+// new row values to save. The old objects are removed only once save
+// succeeds; a failed save removes the new ones instead.
+async function rotateFileKey(
+  file: RotatableFile,
+  oldKey: string,
+  newKey: string,
+  ownerId: string,
+  save: (rotated: RotatedFile) => Promise<void>
+): Promise<RotatedFile> {
+  // Wrap first, so a missing public key can't leave new chunks behind
+  const encryptedAesKey = await wrapKeyForProfile(newKey, ownerId);
+  const blob = await downloadStoredFile(file, oldKey);
+  const encryptedPath = rotatedPath(file.encrypted_path);
+  const { header, fileHash } = await uploadEncryptedFile(blob, newKey, encryptedPath);
+
+  const rotated: RotatedFile = {
+    encrypted_path: encryptedPath,
+    metadata: { ...(file.metadata as Record<string, Json>), encryption: header, hashScheme: PLAINTEXT_HASH_SCHEME },
+    file_hash: fileHash,
+    encrypted_aes_key: encryptedAesKey,
+  };
+
+  try {
+    await save(rotated);
+  } catch (error) {
+    await removeStoredFile(rotated).catch((cleanupError) =>
+      console.error("Error removing re-encrypted file:", cleanupError)
+    );
+    throw error;
+  }
+
+  try {
+    await removeStoredFile(file);
+  } catch (error) {
+    // The content is already re-encrypted; the old objects are just unreferenced
+    console.error("Error removing old encrypted file:", error);
+  }
+
+  return rotated;
+}
+
+// Run the optional rotation and write the revocation to the ledger. Access
+// is already gone by now, so a failed rotation is reported, not thrown.
+// downstreamIds are doctors who lost access along with the receiver, because
+// their share was re-shared from the receiver's.
+async function finishRevocation(
+  resource: RevokedResource,
+  receiverId: string,
+  rotate: (() => Promise<string | undefined>) | null,
+  downstreamIds: string[] = []
+): Promise<RevokeOutcome> {
+  let keyRotated = false;
+  let rotationError: string | null = null;
+  let fileHash: string | undefined;
+
+  if (rotate) {
+    try {
+      fileHash = await rotate();
+      keyRotated = true;
+    } catch (error) {
+      console.error(`Error rotating key for ${resource.name}:`, error);
+      rotationError = errorMessage(error, "Failed to rotate key");
+    }
+  }
+
+  const { data: profiles, error } = await supabase
+    .from("profiles")
+    .select("id, full_name")
+    .in("id", [resource.ownerId, receiverId, ...downstreamIds]);
+
+  if (error) throw error;
+  const nameOf = (profileId: string) => profiles?.find((profile) => profile.id === profileId)?.full_name;
+  const senderName = nameOf(resource.ownerId);
+  const receiverName = nameOf(receiverId);
+
+  for (const revokedId of [receiverId, ...downstreamIds]) {
+    await appendEvent({
+      action: "ACCESS_REVOKED",
+      resourceType: resource.type,
+      resourceId: resource.id,
+      resourceName: resource.name,
+      fileName: resource.fileName,
+      keyRotated,
+      senderId: resource.ownerId,
+      senderName,
+      receiverId: revokedId,
+      receiverName: nameOf(revokedId),
+    });
+  }
+
+  if (keyRotated) {
+    await appendEvent({
+      action: "KEY_ROTATED",
+      resourceType: resource.type,
+      resourceId: resource.id,
+      resourceName: resource.name,
+      fileName: resource.fileName,
+      fileHash,
+      senderId: resource.ownerId,
+      senderName,
+    });
+  }
+
+  return { recipientName: receiverName || "Doctor", keyRotated, rotationError };
+}
+
+// Re-wrap a folder file's rotated key for everyone who keeps access to it:
+// the folder's recipient, care teams the folder is shared with, and doctors
+// the file was shared with on its own
+async function rewrapFolderFileKey(
+  file: Pick<RevocableFolderFile, "id" | "folder_id">,
+  newKey: string,
+  folderReceiverId: string | null
+): Promise<void> {
+  const [teamsResult, sharesResult] = await Promise.all([
+    supabase.from("folder_team_shares").select("team_id, team:care_teams(public_key_pem)").eq("folder_id", file.folder_id),
+    supabase.from("file_shares").select("id, recipient_id").eq("file_id", file.id),
+  ]);
+
+  if (teamsResult.error) throw teamsResult.error;
+  if (sharesResult.error) throw sharesResult.error;
+
+  if (folderReceiverId) {
+    const { error } = await supabase
+      .from("encrypted_files")
+      .update({ receiver_encrypted_aes_key: await wrapKeyForProfile(newKey, folderReceiverId) })
+      .eq("id", file.id);
+    if (error) throw error;
+  }
+
+  for (const share of teamsResult.data || []) {
+    if (!share.team) throw new Error("Care team not found");
+    const { error } = await supabase.from("team_file_keys").upsert(
+      {
+        file_id: file.id,
+        team_id: share.team_id,
+        wrapped_key: await encryptKeyWithRSA(newKey, share.team.public_key_pem),
+      },
+      { onConflict: "file_id,team_id" }
+    );
+    if (error) throw error;
+  }
+
+  for (const share of sharesResult.data || []) {
+    const { error } = await supabase
+      .from("file_shares")
+      .update({ wrapped_key: await wrapKeyForProfile(newKey, share.recipient_id) })
+      .eq("id", share.id);
+    if (error) throw error;
+  }
+}
+
+// Give the record a new key and re-wrap it for the owner and every recipient
+// who keeps access
+async function rotateRecordKey(record: RevocableRecord, oldKey: string): Promise<undefined> {
+  const { data: shares, error } = await supabase
+    .from("record_shares")
+    .select("id, recipient_id")
+    .eq("record_id", record.id);
+
+  if (error) throw error;
+
+  const newKey = generateAESKey();
+  const saveRecord = async (changes: Partial<Tables<"medical_records">>) => {
+    const wrappedShares = await Promise.all(
+      (shares || []).map(async (share) => ({ id: share.id, wrappedKey: await wrapKeyForProfile(newKey, share.recipient_id) }))
+    );
+
+    const { error: recordError } = await supabase.from("medical_records").update(changes).eq("id", record.id);
+    if (recordError) throw recordError;
+
+    for (const share of wrappedShares) {
+      const { error: shareError } = await supabase
+        .from("record_shares")
+        .update({ wrapped_key: share.wrappedKey })
+        .eq("id", share.id);
+
+      if (shareError) throw shareError;
+    }
+  };
+
+  const header = (record.metadata as { encryption?: unknown } | null)?.encryption;
+  if (isChunkedHeader(header)) {
+    const stored = { encrypted_path: record.encrypted_file_path, metadata: record.metadata, file_hash: record.file_hash };
+    await rotateFileKey(stored, oldKey, newKey, record.owner_id, (rotated) =>
+      saveRecord({
+        encrypted_file_path: rotated.encrypted_path,
+        metadata: rotated.metadata,
+        encrypted_aes_key: rotated.encrypted_aes_key,
+      })
+    );
+    return undefined;
+  }
+
+  // Older records hold their ciphertext inline
+  const content = await decryptWithAES(record.encrypted_file_path, oldKey);
+  await saveRecord({
+    encrypted_file_path: await encryptWithAES(content, newKey),
+    encrypted_aes_key: await wrapKeyForProfile(newKey, record.owner_id),
+  });
+  return undefined;
+}
+
+// Delete one recipient's share of a record, optionally rotating the record's
+// key. Shares re-shared from it are deleted with it by the foreign key.
+export async function revokeRecordShare(
+  record: RevocableRecord,
+  recipientId: string,
+  rotateKey: boolean
+): Promise<RevokeOutcome> {
+  requireUnlockedVault();
+  // Unwrap first, so an owner who can't open the record finds out before anything changes
+  const oldKey = rotateKey ? await unwrapRecordKey(record, record.owner_id) : null;
+
+  const { data: shares, error: sharesError } = await supabase
+    .from("record_shares")
+    .select("id, recipient_id, parent_share_id")
+    .eq("record_id", record.id);
+
+  if (sharesError) throw sharesError;
+  const revoked = shares?.find((share) => share.recipient_id === recipientId);
+  const downstreamIds = revoked ? downstreamShares(shares, revoked.id).map((share) => share.recipient_id) : [];
+
+  const { data: deleted, error } = await supabase
+    .from("record_shares")
+    .delete()
+    .eq("record_id", record.id)
+    .eq("recipient_id", recipientId)
+    .select("id");
+
+  if (error) throw error;
+  if (!deleted || deleted.length === 0) throw new Error("This record is not shared with that doctor");
+
+  return finishRevocation(
+    { type: "record", id: record.id, name: record.file_name, ownerId: record.owner_id },
+    recipientId,
+    oldKey ? () => rotateRecordKey(record, oldKey) : null,
+    downstreamIds
+  );
+}
+
+// Clear an image's receiver and their wrapped key, optionally rotating its key
+export async function revokeImageShare(image: RevocableImage, rotateKey: boolean): Promise<RevokeOutcome> {
+  requireUnlockedVault();
+  const receiverId = image.receiver_id;
+  if (!receiverId) throw new Error("This image is not shared");
+
+  const oldKey = rotateKey ? await unwrapWithVault(image.encrypted_aes_key) : null;
+
+  const { data: updated, error } = await supabase
+    .from("encrypted_images")
+    .update({
+      receiver_id: null,
+      receiver_encrypted_aes_key: null,
+      share_permission: "download",
+      share_expires_at: null,
+    })
+    .eq("id", image.id)
+    .select("id");
+
+  if (error) throw error;
+  if (!updated || updated.length === 0) throw new Error("Only the owner can revoke access to this image");
+
+  const rotate = async (key: string) => {
+    const rotated = await rotateFileKey(image, key, generateAESKey(), image.owner_id, async (changes) => {
+      const { error: updateError } = await supabase.from("encrypted_images").update(changes).eq("id", image.id);
+      if (updateError) throw updateError;
+    });
+    return rotated.file_hash !== image.file_hash ? rotated.file_hash : undefined;
+  };
+
+  return finishRevocation(
+    { type: "image", id: image.id, name: image.file_name, ownerId: image.owner_id },
+    receiverId,
+    oldKey ? () => rotate(oldKey) : null
+  );
+}
+
+// Clear a folder's receiver and every file's receiver key, optionally
+// rotating each file's key
+export async function revokeFolderShare(folder: RevocableFolder, rotateKey: boolean): Promise<RevokeOutcome> {
+  requireUnlockedVault();
+
+  const { data: files, error: filesError } = await supabase
+    .from("encrypted_files")
+    .select("id, folder_id, file_name, file_hash, encrypted_path, encrypted_aes_key, metadata, receiver_id")
+    .eq("folder_id", folder.id);
+
+  if (filesError) throw filesError;
+
+  const receiverId = folder.receiver_id || files?.find((file) => file.receiver_id)?.receiver_id;
+  if (!receiverId) throw new Error("This folder is not shared");
+
+  const { error: clearError } = await supabase
+    .from("encrypted_files")
+    .update({ receiver_id: null, receiver_encrypted_aes_key: null })
+    .eq("folder_id", folder.id);
+
+  if (clearError) throw clearError;
+
+  const { error: folderError } = await supabase
+    .from("encrypted_folders")
+    .update({ receiver_id: null, share_permission: "download", share_expires_at: null })
+    .eq("id", folder.id);
+
+  if (folderError) throw folderError;
+
+  // Files are rotated one at a time; each is consistent on its own even if a later one fails
+  const rotate = async () => {
+    const failed: string[] = [];
+    for (const file of files || []) {
+      try {
+        const oldKey = await unwrapWithVault(file.encrypted_aes_key);
+        const newKey = generateAESKey();
+        await rotateFileKey(file, oldKey, newKey, folder.owner_id, async (changes) => {
+          const { error: updateError } = await supabase.from("encrypted_files").update(changes).eq("id", file.id);
+          if (updateError) throw updateError;
+        });
+
+        await rewrapFolderFileKey(file, newKey, null);
+      } catch (error) {
+        console.error(`Error rotating key for ${file.file_name}:`, error);
+        failed.push(file.file_name);
+      }
+    }
+
+    if (failed.length > 0) {
+      throw new Error(`${failed.length} of ${files?.length} files could not be re-encrypted: ${failed.join(", ")}`);
+    }
+    return undefined;
+  };
+
+  return finishRevocation(
+    { type: "folder", id: folder.id, name: folder.folder_name, ownerId: folder.owner_id },
+    receiverId,
+    rotateKey ? rotate : null
+  );
+}
+
+// Revoke one doctor's share of a single folder file, optionally rotating the
+// file's key. The folder's own shares keep access and get the new key.
+export async function revokeFileShare(
+  file: RevocableFolderFile,
+  folderName: string,
+  recipientId: string,
+  rotateKey: boolean
+): Promise<RevokeOutcome> {
+  requireUnlockedVault();
+
+  const oldKey = rotateKey ? await unwrapWithVault(file.encrypted_aes_key) : null;
+
+  const { data: deleted, error } = await supabase
+    .from("file_shares")
+    .delete()
+    .eq("file_id", file.id)
+    .eq("recipient_id", recipientId)
+    .select("id");
+
+  if (error) throw error;
+  if (!deleted || deleted.length === 0) throw new Error("Only the owner can revoke access to this file");
+
+  const rotate = async (key: string) => {
+    const newKey = generateAESKey();
+    const rotated = await rotateFileKey(file, key, newKey, file.owner_id, async (changes) => {
+      const { error: updateError } = await supabase.from("encrypted_files").update(changes).eq("id", file.id);
+      if (updateError) throw updateError;
+    });
+    await rewrapFolderFileKey(file, newKey, file.receiver_id);
+    return rotated.file_hash !== file.file_hash ? rotated.file_hash : undefined;
+  };
+
+  return finishRevocation(
+    { type: "folder", id: file.folder_id, name: folderName, fileName: file.file_name, ownerId: file.owner_id },
+    recipientId,
+    oldKey ? () => rotate(oldKey) : null
+  );
+}
@@ -0,0 +1,77 @@
+// The terms a share is granted on. Expiry is enforced by RLS; view-only is
+// enforced by the recipient's browser, which hides downloads and exports.
+export type SharePermission = "view" | "download";
+
+export interface ShareTerms {
+  permission: SharePermission;
+  // ISO timestamp, or null for a share that doesn't expire
+  expiresAt: string | null;
+}
+
+export const DEFAULT_SHARE_TERMS: ShareTerms = { permission: "download", expiresAt: null };
+
+export const SHARE_PERMISSION_LABELS: Record<SharePermission, string> = {
+  view: "View only",
+  download: "View & download",
+};
+
+export function isViewOnly(permission: string | null | undefined): boolean {
+  return permission === "view";
+}
+
+export function isExpired(expiresAt: string | null | undefined, now = new Date()): boolean {
+  return !!expiresAt && new Date(expiresAt) <= now;
+}
+
+// Short summary for share lists, e.g. "View only · expires Dec 3, 2025, 2:00 PM"
+export function describeShareTerms(permission: string | null | undefined, expiresAt: string | null | undefined): string {
+  const parts = [SHARE_PERMISSION_LABELS[isViewOnly(permission) ? "view" : "download"]];
+  if (expiresAt) {
+    const when = new Date(expiresAt).toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+    parts.push(`${isExpired(expiresAt) ? "expired" : "expires"} ${when}`);
+  }
+  return parts.join(" · ");
+}
+
+// Whether a record's recipient may pass it on. Re-shares can't outlast or
+// widen the share they come from; RLS enforces the same rules.
+export type ResharePolicy = "none" | "once" | "free";
+
+// "once" limits depth, not count: one hop from this share, to any number of
+// doctors, none of whom may pass it on
+export const RESHARE_POLICY_LABELS: Record<ResharePolicy, string> = {
+  none: "No re-sharing",
+  once: "May re-share one hop",
+  free: "May re-share freely",
+};
+
+export const RESHARE_POLICY_HINTS: Record<ResharePolicy, string> = {
+  none: "Recipients can't pass the record on.",
+  once: "Recipients may re-share with any number of doctors, but those doctors can't re-share it further.",
+  free: "Recipients may re-share, and may let the doctors they share with re-share too.",
+};
+
+export function canReshare(policy: string | null | undefined): boolean {
+  return policy === "once" || policy === "free";
+}
+
+// The policies a recipient holding `policy` may grant when re-sharing
+export function delegablePolicies(policy: string | null | undefined): ResharePolicy[] {
+  if (policy === "free") return ["none", "once", "free"];
+  if (policy === "once") return ["none"];
+  return [];
+}
+
+// Why terms can't be granted from the share a recipient holds, or null
+export function delegationError(
+  held: { permission: string; expires_at: string | null },
+  terms: ShareTerms
+): string | null {
+  if (isViewOnly(held.permission) && !isViewOnly(terms.permission)) {
+    return "You were given view-only access, so you can only re-share view-only";
+  }
+  if (held.expires_at && (!terms.expiresAt || new Date(terms.expiresAt) > new Date(held.expires_at))) {
+    return "A re-share can't outlast your own access to the record";
+  }
+  return null;
+}
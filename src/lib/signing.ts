@@ -0,0 +1,129 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from "@/lib/encryption";
+import { canonicalJson } from "@/lib/blockchain";
+
+const SIGNING_KEY_ALGORITHM = { name: "ECDSA", namedCurve: "P-256" } as const;
+const SIGNATURE_ALGORITHM = { name: "ECDSA", hash: "SHA-256" } as const;
+
+export const SIGNING_ALGORITHM_NAME = "ECDSA-P256-SHA256";
+
+// Domain separation, so a block signature can never be replayed as anything
+// else. v1 signed data_json alone; v2 also signs the block's position.
+const LEGACY_BLOCK_SIGNATURE_CONTEXT = "doc-link-chain/block-signature/v1\n";
+const BLOCK_SIGNATURE_CONTEXT = "doc-link-chain/block-signature/v2\n";
+
+// When append_block started taking the position it was signed for. Blocks
+// timestamped earlier may carry a v1 signature; later ones must sign their
+// position, so a signed block can't be moved elsewhere in the chain.
+export const BLOCK_POSITION_SIGNED_SINCE = "2025-12-02T09:45:12Z";
+
+// Where a block sits in the chain, which its signature covers
+export interface BlockPosition {
+  index: number;
+  previousHash: string;
+}
+
+export interface SigningKey {
+  privateKey: string;
+  fingerprint: string;
+}
+
+function toPem(label: string, der: ArrayBuffer): string {
+  const lines = arrayBufferToBase64(der).match(/.{1,64}/g) ?? [];
+  return `-----BEGIN ${label}-----\n${lines.join("\n")}\n-----END ${label}-----`;
+}
+
+function fromPem(pem: string): ArrayBuffer {
+  return base64ToArrayBuffer(pem.replace(/-----(BEGIN|END) [A-Z ]+-----/g, "").replace(/\s/g, ""));
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// SHA-256 of the SPKI encoding; matches public.signing_key_fingerprint
+export async function signingKeyFingerprint(publicKeyPem: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", fromPem(publicKeyPem));
+  return bytesToHex(new Uint8Array(digest));
+}
+
+export async function generateSigningKeyPair(): Promise<{ publicKey: string; privateKey: string }> {
+  const keyPair = await crypto.subtle.generateKey(SIGNING_KEY_ALGORITHM, true, ["sign", "verify"]);
+  const spki = await crypto.subtle.exportKey("spki", keyPair.publicKey);
+  const pkcs8 = await crypto.subtle.exportKey("pkcs8", keyPair.privateKey);
+
+  return {
+    publicKey: toPem("PUBLIC KEY", spki),
+    privateKey: toPem("PRIVATE KEY", pkcs8),
+  };
+}
+
+// Recover the public half of a signing key, e.g. to fingerprint an unwrapped key
+export async function signingPublicKeyFromPrivate(privateKeyPem: string): Promise<string> {
+  const privateKey = await crypto.subtle.importKey("pkcs8", fromPem(privateKeyPem), SIGNING_KEY_ALGORITHM, true, ["sign"]);
+  const { kty, crv, x, y } = await crypto.subtle.exportKey("jwk", privateKey);
+  const publicKey = await crypto.subtle.importKey("jwk", { kty, crv, x, y }, SIGNING_KEY_ALGORITHM, true, ["verify"]);
+  return toPem("PUBLIC KEY", await crypto.subtle.exportKey("spki", publicKey));
+}
+
+// Domain separation for ledger bundle manifests (see ledgerBundle.ts)
+const MANIFEST_SIGNATURE_CONTEXT = "doc-link-chain/bundle-manifest/v1\n";
+
+// Domain separation for checkpoints signed by the system key. Must stay in
+// sync with supabase/functions/ledger-checkpoint.
+const CHECKPOINT_SIGNATURE_CONTEXT = "doc-link-chain/checkpoint/v1\n";
+
+function signaturePayload(context: string, data: unknown): Uint8Array {
+  return new TextEncoder().encode(context + canonicalJson(data));
+}
+
+async function signPayload(context: string, data: unknown, privateKeyPem: string): Promise<string> {
+  const privateKey = await crypto.subtle.importKey("pkcs8", fromPem(privateKeyPem), SIGNING_KEY_ALGORITHM, false, ["sign"]);
+  const signature = await crypto.subtle.sign(SIGNATURE_ALGORITHM, privateKey, signaturePayload(context, data));
+  return arrayBufferToBase64(signature);
+}
+
+async function verifyPayload(context: string, data: unknown, signature: string, publicKeyPem: string): Promise<boolean> {
+  try {
+    const publicKey = await crypto.subtle.importKey("spki", fromPem(publicKeyPem), SIGNING_KEY_ALGORITHM, false, ["verify"]);
+    return await crypto.subtle.verify(
+      SIGNATURE_ALGORITHM,
+      publicKey,
+      base64ToArrayBuffer(signature),
+      signaturePayload(context, data)
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Sign a block's data_json at its position; returns a base64 raw (r || s)
+// ECDSA signature
+export function signBlockData(data: unknown, position: BlockPosition, privateKeyPem: string): Promise<string> {
+  return signPayload(BLOCK_SIGNATURE_CONTEXT, { ...position, data }, privateKeyPem);
+}
+
+export function verifyBlockSignature(
+  data: unknown,
+  position: BlockPosition,
+  signature: string,
+  publicKeyPem: string
+): Promise<boolean> {
+  return verifyPayload(BLOCK_SIGNATURE_CONTEXT, { ...position, data }, signature, publicKeyPem);
+}
+
+// A v1 signature, over data_json alone; see BLOCK_POSITION_SIGNED_SINCE
+export function verifyLegacyBlockSignature(data: unknown, signature: string, publicKeyPem: string): Promise<boolean> {
+  return verifyPayload(LEGACY_BLOCK_SIGNATURE_CONTEXT, data, signature, publicKeyPem);
+}
+
+export function signManifest(manifest: unknown, privateKeyPem: string): Promise<string> {
+  return signPayload(MANIFEST_SIGNATURE_CONTEXT, manifest, privateKeyPem);
+}
+
+export function verifyManifestSignature(manifest: unknown, signature: string, publicKeyPem: string): Promise<boolean> {
+  return verifyPayload(MANIFEST_SIGNATURE_CONTEXT, manifest, signature, publicKeyPem);
+}
+
+export function verifyCheckpointSignature(checkpoint: unknown, signature: string, publicKeyPem: string): Promise<boolean> {
+  return verifyPayload(CHECKPOINT_SIGNATURE_CONTEXT, checkpoint, signature, publicKeyPem);
+}
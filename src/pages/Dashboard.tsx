@@ -8,12 +8,18 @@ import { Shield, LogOut, Upload, Share2, FileText, CheckCircle } from "lucide-re
 import DashboardHeader from "@/components/dashboard/DashboardHeader";
 import UploadRecordSection from "@/components/dashboard/UploadRecordSection";
 import RecordsListSection from "@/components/dashboard/RecordsListSection";
+import AccessRequestsSection from "@/components/dashboard/AccessRequestsSection";
 import BlockchainValidation from "@/components/dashboard/BlockchainValidation";
 import MultiImageUpload from "@/components/dashboard/MultiImageUpload";
 import EncryptedImagesGallery from "@/components/dashboard/EncryptedImagesGallery";
+import SharedImagesGallery from "@/components/dashboard/SharedImagesGallery";
 import FolderUpload from "@/components/dashboard/FolderUpload";
 import EncryptedFoldersGallery from "@/components/dashboard/EncryptedFoldersGallery";
 import SharedFoldersGallery from "@/components/dashboard/SharedFoldersGallery";
+import CareTeamsSection from "@/components/dashboard/CareTeamsSection";
+import PatientsSection from "@/components/dashboard/PatientsSection";
+import KeyVaultDialog from "@/components/dashboard/KeyVaultDialog";
+import { useKeyVault } from "@/hooks/use-key-vault";
 
 const Dashboard = () => {
   const navigate = useNavigate();
@@ -22,6 +28,8 @@ const Dashboard = () => {
   const [profile, setProfile] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [refreshKey, setRefreshKey] = useState(0);
+  const [vaultDialogOpen, setVaultDialogOpen] = useState(false);
+  const { unlocked: vaultUnlocked, lock: lockVault } = useKeyVault();
 
   useEffect(() => {
     // Set up auth state listener
@@ -51,11 +59,18 @@ const Dashboard = () => {
     }
   }, [user]);
 
+  // Prompt for the vault passphrase once per session and again after idle lock
+  useEffect(() => {
+    if (profile && !vaultUnlocked) {
+      setVaultDialogOpen(true);
+    }
+  }, [profile, vaultUnlocked]);
+
   const loadProfile = async () => {
     try {
       const { data, error } = await supabase
         .from("profiles")
-        .select("*")
+        .select("id, user_id, full_name, specialization, public_key_pem, legacy_public_key_pem, created_at, updated_at")
         .eq("user_id", user?.id)
         .single();
 
@@ -66,27 +81,6 @@ const Dashboard = () => {
         localStorage.setItem('userId', user.id);
       }
 
-      // Generate RSA keys if they don't exist
-      if (data && !data.public_key_pem && user) {
-        const { generateRSAKeyPair } = await import("@/lib/encryption");
-        const { publicKey, privateKey } = await generateRSAKeyPair();
-        
-        // Update profile with both public and private keys
-        const { error: updateError } = await supabase
-          .from("profiles")
-          .update({ 
-            public_key_pem: publicKey,
-            private_key_pem: privateKey
-          })
-          .eq("id", data.id);
-        
-        if (updateError) throw updateError;
-        
-        data.public_key_pem = publicKey;
-        data.private_key_pem = privateKey;
-        toast.success("Security keys generated successfully");
-      }
-
       setProfile(data);
     } catch (error: any) {
       console.error("Error loading profile:", error);
@@ -103,6 +97,7 @@ const Dashboard = () => {
 
   const handleSignOut = async () => {
     try {
+      lockVault();
       const { error } = await supabase.auth.signOut();
       if (error) throw error;
       toast.success("Signed out successfully");
@@ -125,6 +120,16 @@ const Dashboard = () => {
       <DashboardHeader 
         profile={profile} 
         onSignOut={handleSignOut}
+        vaultUnlocked={vaultUnlocked}
+        onLockVault={lockVault}
+        onUnlockVault={() => setVaultDialogOpen(true)}
+      />
+
+      <KeyVaultDialog
+        profile={profile}
+        open={vaultDialogOpen}
+        onOpenChange={setVaultDialogOpen}
+        onProfileUpdated={setProfile}
       />
 
       <main className="container mx-auto px-4 py-8">
@@ -175,10 +180,17 @@ const Dashboard = () => {
         </div>
 
         <div className="mt-6 space-y-6">
+          <PatientsSection profileId={profile?.id} vaultUnlocked={vaultUnlocked} />
+
           <RecordsListSection 
             profile={profile} 
             key={`records-${refreshKey}`}
           />
+
+          <AccessRequestsSection 
+            profileId={profile?.id}
+            onShared={handleUploadComplete}
+          />
           
           <MultiImageUpload 
             profileId={profile?.id}
@@ -189,6 +201,11 @@ const Dashboard = () => {
             profile={profile}
             key={`gallery-${refreshKey}`}
           />
+
+          <SharedImagesGallery
+            profileId={profile?.id}
+            key={`shared-images-${refreshKey}`}
+          />
           
           <FolderUpload 
             profileId={profile?.id}
@@ -204,6 +221,8 @@ const Dashboard = () => {
             profileId={profile?.id}
             key={`shared-folders-${refreshKey}`}
           />
+
+          <CareTeamsSection profileId={profile?.id} />
         </div>
       </main>
     </div>
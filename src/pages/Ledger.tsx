@@ -0,0 +1,393 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  FileCheck,
+  Link2,
+  Loader2,
+} from "lucide-react";
+import BlockDetailDialog from "@/components/ledger/BlockDetailDialog";
+import LegacyChainCard from "@/components/ledger/LegacyChainCard";
+import { Blockchain, RegisteredSigningKey } from "@/lib/blockchain";
+import { getVaultKeys } from "@/lib/keyVault";
+import {
+  LEDGER_PAGE_SIZE,
+  LedgerBlock,
+  LedgerFilters,
+  fetchAllBlocks,
+  fetchChainLinks,
+  fetchLedgerPage,
+  loadSigningKeys,
+} from "@/lib/ledger";
+import { createLedgerBundle } from "@/lib/ledgerBundle";
+import { errorMessage } from "@/lib/utils";
+import { LEDGER_ACTION_LABELS, LedgerAction, ledgerEventSubject, parseLedgerEvent } from "@/lib/ledgerEvents";
+
+// Radix Select items can't have an empty value
+const ALL = "all";
+
+const Ledger = () => {
+  const navigate = useNavigate();
+  const [filters, setFilters] = useState<LedgerFilters>({});
+  const [page, setPage] = useState(0);
+  const [blocks, setBlocks] = useState<LedgerBlock[]>([]);
+  const [total, setTotal] = useState(0);
+  const [verified, setVerified] = useState<Record<string, boolean>>({});
+  const [profileNames, setProfileNames] = useState<Record<string, string>>({});
+  const [signingKeys, setSigningKeys] = useState<RegisteredSigningKey[]>([]);
+  const [selectedBlock, setSelectedBlock] = useState<LedgerBlock | null>(null);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [referenceLoaded, setReferenceLoaded] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+      loadReferenceData(session.user.id);
+    });
+  }, [navigate]);
+
+  const loadReferenceData = async (userId: string) => {
+    try {
+      const [{ data: profiles, error }, keys] = await Promise.all([
+        supabase.from("profiles").select("id, user_id, full_name").order("full_name"),
+        loadSigningKeys(),
+      ]);
+
+      if (error) throw error;
+
+      setProfileNames(Object.fromEntries((profiles || []).map((profile) => [profile.id, profile.full_name])));
+      setProfileId(profiles?.find((profile) => profile.user_id === userId)?.id ?? null);
+      setSigningKeys(keys);
+    } catch (error) {
+      console.error("Error loading ledger profiles:", error);
+      toast.error("Error loading doctors");
+    } finally {
+      setReferenceLoaded(true);
+    }
+  };
+
+  const loadPage = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await fetchLedgerPage(filters, page);
+      setBlocks(result.blocks);
+      setTotal(result.total);
+
+      // Per-block checks only; linkage is shown in the block detail view
+      const statuses = await Promise.all(
+        result.blocks.map(async (block) => {
+          const failures = await Blockchain.fromRows([block]).verifyBlock(0, signingKeys);
+          return [block.id, failures.length === 0] as const;
+        })
+      );
+      setVerified(Object.fromEntries(statuses));
+    } catch (error) {
+      console.error("Error loading ledger:", error);
+      toast.error(errorMessage(error, "Error loading ledger"));
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page, signingKeys]);
+
+  // Wait for the signing keys, or every signed block would look unverified
+  useEffect(() => {
+    if (referenceLoaded) {
+      loadPage();
+    }
+  }, [referenceLoaded, loadPage]);
+
+  // Every block this doctor can read, not just the filtered page, and the
+  // links of the whole chain, so auditors can re-verify every link from
+  // genesis to tip
+  const handleExport = async () => {
+    const signingKey = getVaultKeys()?.signingKey;
+    if (!signingKey || !profileId) {
+      toast.error("Unlock your key vault on the dashboard to sign the export");
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const [allBlocks, links, keys] = await Promise.all([fetchAllBlocks(), fetchChainLinks(), loadSigningKeys()]);
+      const bundle = await createLedgerBundle(allBlocks, links, keys, { profileId, signingKey });
+
+      const url = URL.createObjectURL(bundle);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `medichain-ledger-${new Date().toISOString().slice(0, 10)}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast.success(`Exported ${allBlocks.length} of ${links.length} blocks`);
+    } catch (error) {
+      console.error("Error exporting ledger:", error);
+      toast.error(errorMessage(error, "Error exporting ledger"));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const updateFilter = (changes: Partial<LedgerFilters>) => {
+    setFilters((prev) => ({ ...prev, ...changes }));
+    setPage(0);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / LEDGER_PAGE_SIZE));
+  const nameOf = (profileId: string | null) => (profileId ? profileNames[profileId] || "Unknown" : "—");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-3">
+          <Button variant="outline" size="icon" onClick={() => navigate("/dashboard")} title="Back to dashboard">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div className="p-2 bg-primary/10 rounded-lg">
+            <Link2 className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold">Ledger Explorer</h1>
+            <p className="text-xs text-muted-foreground">Blocks on the MediChain ledger that you're involved in</p>
+          </div>
+          <div className="ml-auto flex gap-2">
+            <Button variant="outline" asChild>
+              <Link to="/verify-bundle">
+                <FileCheck className="w-4 h-4 mr-2" />
+                Verify Bundle
+              </Link>
+            </Button>
+            <Button onClick={handleExport} disabled={exporting || !referenceLoaded}>
+              {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              Export Bundle
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <LegacyChainCard profileId={profileId} onAnchored={loadPage} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Filters</CardTitle>
+            <CardDescription>Narrow the ledger by event, doctor, date or file hash</CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Event Type</Label>
+              <Select
+                value={filters.action ?? ALL}
+                onValueChange={(value) => updateFilter({ action: value === ALL ? undefined : (value as LedgerAction) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All events</SelectItem>
+                  {Object.entries(LEDGER_ACTION_LABELS).map(([action, label]) => (
+                    <SelectItem key={action} value={action}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Sender</Label>
+              <Select
+                value={filters.senderId ?? ALL}
+                onValueChange={(value) => updateFilter({ senderId: value === ALL ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any sender</SelectItem>
+                  {Object.entries(profileNames).map(([id, name]) => (
+                    <SelectItem key={id} value={id}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Receiver</Label>
+              <Select
+                value={filters.receiverId ?? ALL}
+                onValueChange={(value) => updateFilter({ receiverId: value === ALL ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any receiver</SelectItem>
+                  {Object.entries(profileNames).map(([id, name]) => (
+                    <SelectItem key={id} value={id}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="ledger-from">From</Label>
+              <Input
+                id="ledger-from"
+                type="date"
+                value={filters.fromDate ?? ""}
+                onChange={(e) => updateFilter({ fromDate: e.target.value || undefined })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="ledger-to">To</Label>
+              <Input
+                id="ledger-to"
+                type="date"
+                value={filters.toDate ?? ""}
+                onChange={(e) => updateFilter({ toDate: e.target.value || undefined })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="ledger-hash">File Hash</Label>
+              <Input
+                id="ledger-hash"
+                placeholder="SHA-256 of a file or folder"
+                value={filters.fileHash ?? ""}
+                onChange={(e) => updateFilter({ fileHash: e.target.value || undefined })}
+                className="font-mono"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Blocks</CardTitle>
+            <CardDescription>
+              {total} block{total === 1 ? "" : "s"} found. Select a block to inspect it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin" />
+              </div>
+            ) : blocks.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No blocks match these filters</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Block</TableHead>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Sender</TableHead>
+                    <TableHead>Receiver</TableHead>
+                    <TableHead>Hash</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {blocks.map((block) => {
+                    const { event } = parseLedgerEvent(block.data_json);
+                    return (
+                      <TableRow key={block.id} className="cursor-pointer" onClick={() => setSelectedBlock(block)}>
+                        <TableCell className="font-mono font-semibold">#{block.block_index}</TableCell>
+                        <TableCell className="whitespace-nowrap">{new Date(block.timestamp).toLocaleString()}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{event ? LEDGER_ACTION_LABELS[event.action] : "Unrecognized"}</Badge>
+                        </TableCell>
+                        <TableCell className="max-w-[200px] truncate">{event ? ledgerEventSubject(event) : "—"}</TableCell>
+                        <TableCell>{nameOf(block.sender_id)}</TableCell>
+                        <TableCell>{nameOf(block.receiver_id)}</TableCell>
+                        <TableCell className="font-mono text-xs">{block.current_hash.substring(0, 12)}...</TableCell>
+                        <TableCell>
+                          {verified[block.id] ? (
+                            <CheckCircle className="w-4 h-4 text-primary" />
+                          ) : (
+                            <AlertCircle className="w-4 h-4 text-destructive" />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                Page {page + 1} of {pageCount}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={loading || page === 0}>
+                  <ChevronLeft className="w-4 h-4 mr-1" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={loading || page + 1 >= pageCount}
+                >
+                  Next
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+
+      <BlockDetailDialog
+        block={selectedBlock}
+        profileNames={profileNames}
+        signingKeys={signingKeys}
+        onOpenChange={(open) => !open && setSelectedBlock(null)}
+      />
+    </div>
+  );
+};
+
+export default Ledger;
@@ -0,0 +1,256 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { ArrowLeft, ClipboardList, Eye, Loader2, Lock, Share2 } from "lucide-react";
+import ViewRecordDialog from "@/components/dashboard/ViewRecordDialog";
+import SharePatientDialog from "@/components/dashboard/SharePatientDialog";
+import { useKeyVault } from "@/hooks/use-key-vault";
+import {
+  Patient,
+  PatientDemographics,
+  PatientItems,
+  decryptDemographics,
+  fetchPatientItems,
+  patientLabel,
+} from "@/lib/patients";
+import { describeShareTerms } from "@/lib/shareTerms";
+import { errorMessage } from "@/lib/utils";
+
+// One row per item, whichever table it is stored in
+interface ChartItem {
+  id: string;
+  type: "Record" | "Image" | "Folder";
+  name: string;
+  detail: string;
+  createdAt: string;
+  record?: PatientItems["records"][number];
+}
+
+const chartItems = ({ records, images, folders }: PatientItems): ChartItem[] =>
+  [
+    ...records.map((record) => ({
+      id: record.id,
+      type: "Record" as const,
+      name: record.file_name,
+      detail: `Hash ${record.file_hash.substring(0, 16)}...`,
+      createdAt: record.created_at,
+      record,
+    })),
+    ...images.map((image) => ({
+      id: image.id,
+      type: "Image" as const,
+      name: image.file_name,
+      detail: image.receiver_id ? `Shared · ${describeShareTerms(image.share_permission, image.share_expires_at)}` : "",
+      createdAt: image.created_at,
+    })),
+    ...folders.map((folder) => ({
+      id: folder.id,
+      type: "Folder" as const,
+      name: folder.folder_name,
+      detail: `${folder.file_count} file(s)`,
+      createdAt: folder.created_at,
+    })),
+  ].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+const PatientChart = () => {
+  const navigate = useNavigate();
+  const { patientId } = useParams();
+  const { unlocked: vaultUnlocked } = useKeyVault();
+  const [profile, setProfile] = useState<Pick<Tables<"profiles">, "id" | "full_name"> | null>(null);
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [demographics, setDemographics] = useState<PatientDemographics | null>(null);
+  const [items, setItems] = useState<ChartItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [shareOpen, setShareOpen] = useState(false);
+  const [viewedRecord, setViewedRecord] = useState<ChartItem["record"] | null>(null);
+
+  // Demographics need the vault, which may be unlocked after the chart loads
+  useEffect(() => {
+    if (patient && profile && vaultUnlocked) {
+      decryptDemographics(patient, profile.id)
+        .then(setDemographics)
+        .catch((error) => {
+          console.error("Error decrypting patient:", error);
+          toast.error(errorMessage(error, "Failed to decrypt patient details"));
+        });
+    } else {
+      setDemographics(null);
+    }
+  }, [patient, profile, vaultUnlocked]);
+
+  const loadItems = useCallback(async () => {
+    try {
+      setItems(chartItems(await fetchPatientItems(patientId)));
+    } catch (error) {
+      console.error("Error loading patient items:", error);
+      toast.error("Error loading the patient's records");
+    }
+  }, [patientId]);
+
+  const loadChart = useCallback(async (userId: string) => {
+    try {
+      const [{ data: profileData, error: profileError }, { data: patientData, error: patientError }] =
+        await Promise.all([
+          supabase.from("profiles").select("id, full_name").eq("user_id", userId).single(),
+          supabase.from("patients").select("*").eq("id", patientId).maybeSingle(),
+        ]);
+
+      if (profileError) throw profileError;
+      if (patientError) throw patientError;
+      if (!patientData) throw new Error("Patient not found, or their share has expired");
+
+      setProfile(profileData);
+      setPatient(patientData);
+      await loadItems();
+    } catch (error) {
+      console.error("Error loading patient chart:", error);
+      toast.error(errorMessage(error, "Error loading patient chart"));
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId, loadItems]);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+      loadChart(session.user.id);
+    });
+  }, [navigate, loadChart]);
+
+  const isOwner = !!patient && patient.owner_id === profile?.id;
+  const title = patient ? patientLabel({ patient, demographics }) : "Patient Chart";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-3">
+          <Button variant="outline" size="icon" onClick={() => navigate("/dashboard")} title="Back to dashboard">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div className="p-2 bg-primary/10 rounded-lg">
+            <ClipboardList className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold">{title}</h1>
+            <p className="text-xs text-muted-foreground">
+              {demographics?.dob ? `Born ${demographics.dob}` : "Patient chart"}
+              {patient && !isOwner && " · Shared with you"}
+            </p>
+          </div>
+          {isOwner && (
+            <div className="ml-auto">
+              <Button onClick={() => setShareOpen(true)} disabled={!vaultUnlocked}>
+                <Share2 className="w-4 h-4 mr-2" />
+                Share Patient
+              </Button>
+            </div>
+          )}
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {!vaultUnlocked && (
+          <Alert>
+            <Lock className="w-4 h-4" />
+            <AlertDescription>
+              Unlock your key vault on the dashboard to see this patient's details and open their records.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Chart</CardTitle>
+            <CardDescription>
+              Records, images and folders filed under this patient. Images and folders open from their galleries
+              on the dashboard.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin" />
+              </div>
+            ) : items.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">Nothing is filed under this patient yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead>Added</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => (
+                    <TableRow key={`${item.type}-${item.id}`}>
+                      <TableCell>
+                        <Badge variant="secondary">{item.type}</Badge>
+                      </TableCell>
+                      <TableCell className="font-medium">{item.name}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{item.detail}</TableCell>
+                      <TableCell className="text-sm">{new Date(item.createdAt).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">
+                        {item.record && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setViewedRecord(item.record)}
+                            disabled={!vaultUnlocked}
+                          >
+                            <Eye className="w-4 h-4 mr-1" />
+                            View
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <ViewRecordDialog
+        record={viewedRecord}
+        profile={profile}
+        open={!!viewedRecord}
+        onOpenChange={(open) => !open && setViewedRecord(null)}
+      />
+
+      {isOwner && (
+        <SharePatientDialog
+          patient={patient}
+          patientName={demographics?.name || "this patient"}
+          itemCount={items.length}
+          open={shareOpen}
+          onOpenChange={setShareOpen}
+          onSuccess={loadItems}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PatientChart;
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { AlertCircle, ArrowLeft, CheckCircle, FileCheck, Loader2 } from "lucide-react";
+import {
+  BundleVerification,
+  FileCheck as FileCheckResult,
+  LedgerBundle,
+  readLedgerBundle,
+  verifyFileAgainstBlock,
+  verifyLedgerBundle,
+} from "@/lib/ledgerBundle";
+import { FileHashes } from "@/lib/provenance";
+import { errorMessage } from "@/lib/utils";
+
+const MATCH_LABELS: Record<keyof FileHashes, string> = {
+  bytes: "its SHA-256",
+  dataUrl: "the SHA-256 of its data URL (legacy record)",
+};
+
+// Auditors use this page without an account: everything is checked in the
+// browser from the bundle itself.
+const VerifyBundle = () => {
+  const navigate = useNavigate();
+  const [bundle, setBundle] = useState<LedgerBundle | null>(null);
+  const [verification, setVerification] = useState<BundleVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [blockRef, setBlockRef] = useState("");
+  const [localFile, setLocalFile] = useState<File | null>(null);
+  const [fileCheck, setFileCheck] = useState<FileCheckResult | null>(null);
+  const [checkingFile, setCheckingFile] = useState(false);
+
+  const handleBundleChange = async (file: File | undefined) => {
+    setBundle(null);
+    setVerification(null);
+    setFileCheck(null);
+    if (!file) return;
+
+    setVerifying(true);
+    try {
+      const loaded = await readLedgerBundle(file);
+      setBundle(loaded);
+      setVerification(await verifyLedgerBundle(loaded));
+    } catch (error) {
+      console.error("Error verifying bundle:", error);
+      toast.error(errorMessage(error, "Error verifying bundle"));
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleFileCheck = async () => {
+    if (!bundle || !localFile || !blockRef.trim()) return;
+
+    setCheckingFile(true);
+    setFileCheck(null);
+    try {
+      setFileCheck(await verifyFileAgainstBlock(bundle, blockRef, localFile));
+    } catch (error) {
+      console.error("Error checking file:", error);
+      toast.error(errorMessage(error, "Error checking file"));
+    } finally {
+      setCheckingFile(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-3">
+          <Button variant="outline" size="icon" onClick={() => navigate(-1)} title="Back">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div className="p-2 bg-primary/10 rounded-lg">
+            <FileCheck className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold">Verify Ledger Bundle</h1>
+            <p className="text-xs text-muted-foreground">Offline verification of an exported MediChain ledger</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6 max-w-3xl">
+        <Card>
+          <CardHeader>
+            <CardTitle>Bundle</CardTitle>
+            <CardDescription>
+              Choose a bundle exported from the ledger explorer. Nothing is uploaded; it is checked in this browser.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              type="file"
+              accept=".zip,application/zip"
+              onChange={(e) => handleBundleChange(e.target.files?.[0])}
+              disabled={verifying}
+            />
+
+            {verifying && (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin" />
+              </div>
+            )}
+
+            {bundle && verification && (
+              <div className="space-y-4">
+                <div
+                  className={`p-3 rounded-lg border text-sm ${
+                    verification.valid ? "bg-primary/5 border-primary/30" : "bg-destructive/5 border-destructive/30"
+                  }`}
+                >
+                  {verification.valid
+                    ? `All ${bundle.manifest.blockCount} blocks link from genesis to tip, and the ${bundle.blocks.length} held in full verify.`
+                    : "This bundle failed verification. Do not rely on its contents."}
+                </div>
+
+                <ul className="space-y-2">
+                  {verification.checks.map((check) => (
+                    <li key={check.label} className="flex items-start gap-2 text-sm">
+                      {check.passed ? (
+                        <CheckCircle className="w-4 h-4 text-primary shrink-0 mt-0.5" />
+                      ) : (
+                        <AlertCircle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+                      )}
+                      <div className="min-w-0">
+                        <p>{check.label}</p>
+                        {check.detail && (
+                          <p className="text-xs font-mono text-muted-foreground break-all">{check.detail}</p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+
+                {verification.chain.failures.length > 0 && (
+                  <ul className="space-y-1 text-xs text-destructive">
+                    {verification.chain.failures.map((failure, i) => (
+                      <li key={i}>
+                        Block #{failure.blockIndex}: {failure.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <p className="text-xs text-muted-foreground">
+                  Exported {new Date(bundle.manifest.exportedAt).toLocaleString()}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {bundle && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Check a File</CardTitle>
+              <CardDescription>
+                Compare a local file's SHA-256 with the hash recorded in a block, found by its id or hash
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="bundle-block-ref">Block ID or Hash</Label>
+                  <Input
+                    id="bundle-block-ref"
+                    className="font-mono"
+                    value={blockRef}
+                    onChange={(e) => setBlockRef(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bundle-local-file">File</Label>
+                  <Input
+                    id="bundle-local-file"
+                    type="file"
+                    onChange={(e) => setLocalFile(e.target.files?.[0] ?? null)}
+                  />
+                </div>
+              </div>
+
+              <Button onClick={handleFileCheck} disabled={checkingFile || !localFile || !blockRef.trim()}>
+                {checkingFile && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Check File
+              </Button>
+
+              {fileCheck && (
+                <div
+                  className={`p-3 rounded-lg border text-sm space-y-1 ${
+                    fileCheck.matchedBy ? "bg-primary/5 border-primary/30" : "bg-destructive/5 border-destructive/30"
+                  }`}
+                >
+                  <p>
+                    {fileCheck.matchedBy
+                      ? `This file matches the hash recorded in block #${fileCheck.blockIndex} by ${MATCH_LABELS[fileCheck.matchedBy]}.`
+                      : fileCheck.expectedHash
+                        ? `This file does not match the hash recorded in block #${fileCheck.blockIndex}.`
+                        : `Block #${fileCheck.blockIndex} does not record a file hash.`}
+                  </p>
+                  <p className="text-xs font-mono text-muted-foreground break-all">
+                    Block {fileCheck.blockId}: {fileCheck.blockHash}
+                  </p>
+                  <p className="text-xs font-mono text-muted-foreground break-all">
+                    File: {fileCheck.hashes.bytes}
+                  </p>
+                  {fileCheck.hashes.dataUrl && (
+                    <p className="text-xs font-mono text-muted-foreground break-all">
+                      File as data URL: {fileCheck.hashes.dataUrl}
+                    </p>
+                  )}
+                  {fileCheck.expectedHash && (
+                    <p className="text-xs font-mono text-muted-foreground break-all">
+                      Recorded: {fileCheck.expectedHash}
+                    </p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default VerifyBundle;
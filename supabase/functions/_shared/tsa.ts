@@ -0,0 +1,165 @@
+// RFC 3161 timestamping. The authority is chosen by the TSA_URL secret: a
+// TSA endpoint, "stub" for the local stub used in testing, or unset to skip
+// timestamping.
+
+export interface TimestampToken {
+  url: string;
+  // Base64 DER TimeStampResp, or the stub's own token
+  token: string;
+  time: string;
+}
+
+export interface TimestampAuthority {
+  timestamp(digest: Uint8Array): Promise<TimestampToken>;
+}
+
+// DER object identifier 2.16.840.1.101.3.4.2.1 (SHA-256)
+const SHA256_OID = new Uint8Array([0x06, 0x09, 0x60, 0x86, 0x48, 0x01, 0x65, 0x03, 0x04, 0x02, 0x01]);
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function tlv(tag: number, content: Uint8Array): Uint8Array {
+  const length = content.length;
+  if (length < 0x80) return concat(new Uint8Array([tag, length]), content);
+
+  const lengthBytes: number[] = [];
+  for (let n = length; n > 0; n >>= 8) lengthBytes.unshift(n & 0xff);
+  return concat(new Uint8Array([tag, 0x80 | lengthBytes.length, ...lengthBytes]), content);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+// TimeStampReq { version 1, messageImprint { sha256, digest }, nonce, certReq TRUE }
+function timeStampRequest(digest: Uint8Array): Uint8Array {
+  const nonce = crypto.getRandomValues(new Uint8Array(8));
+  nonce[0] &= 0x7f; // keep the INTEGER positive
+
+  return tlv(
+    0x30,
+    concat(
+      tlv(0x02, new Uint8Array([1])),
+      tlv(0x30, concat(tlv(0x30, concat(SHA256_OID, new Uint8Array([0x05, 0x00]))), tlv(0x04, digest))),
+      tlv(0x02, nonce),
+      tlv(0x01, new Uint8Array([0xff]))
+    )
+  );
+}
+
+interface DerElement {
+  tag: number;
+  content: Uint8Array;
+  end: number;
+}
+
+function readElement(bytes: Uint8Array, offset: number): DerElement | null {
+  if (offset + 2 > bytes.length) return null;
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let start = offset + 2;
+
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0 || count > 4 || start + count > bytes.length) return null;
+    length = 0;
+    for (let i = 0; i < count; i++) length = (length << 8) | bytes[start + i];
+    start += count;
+  }
+
+  if (start + length > bytes.length) return null;
+  return { tag, content: bytes.subarray(start, start + length), end: start + length };
+}
+
+function readAll(bytes: Uint8Array): DerElement[] | null {
+  const elements: DerElement[] = [];
+  for (let offset = 0; offset < bytes.length; ) {
+    const element = readElement(bytes, offset);
+    if (!element) return null;
+    elements.push(element);
+    offset = element.end;
+  }
+  return elements;
+}
+
+// The first GeneralizedTime in the token, depth first. That is TSTInfo's
+// genTime: TSTInfo is the signed content, wrapped in an OCTET STRING, and it
+// precedes the certificates and signer info.
+function findGenTime(bytes: Uint8Array): string | null {
+  for (const element of readAll(bytes) ?? []) {
+    if (element.tag === 0x18) {
+      return new TextDecoder().decode(element.content);
+    }
+    const constructed = (element.tag & 0x20) !== 0;
+    if (constructed || element.tag === 0x04) {
+      const found = findGenTime(element.content);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+function generalizedTimeToIso(value: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\.\d+)?Z$/);
+  if (!match) throw new Error(`Unrecognised TSA time ${value}`);
+  const [, year, month, day, hour, minute, second, fraction = ""] = match;
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${fraction}Z`).toISOString();
+}
+
+export function rfc3161Authority(url: string): TimestampAuthority {
+  return {
+    async timestamp(digest) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/timestamp-query" },
+        body: timeStampRequest(digest),
+      });
+      if (!response.ok) {
+        throw new Error(`TSA responded ${response.status}`);
+      }
+
+      const reply = new Uint8Array(await response.arrayBuffer());
+      const resp = readElement(reply, 0);
+      const statusInfo = resp && readElement(resp.content, 0);
+      const status = statusInfo && readElement(statusInfo.content, 0);
+      // PKIStatus granted (0) or grantedWithMods (1)
+      if (!status || status.tag !== 0x02 || status.content[status.content.length - 1] > 1) {
+        throw new Error("TSA did not grant the timestamp");
+      }
+
+      const genTime = findGenTime(resp.content.subarray(statusInfo.end));
+      if (!genTime) {
+        throw new Error("TSA reply has no timestamp token");
+      }
+
+      return { url, token: toBase64(reply), time: generalizedTimeToIso(genTime) };
+    },
+  };
+}
+
+// Stands in for a TSA in local and test deployments. Its tokens prove
+// nothing and are marked as such.
+export function stubAuthority(): TimestampAuthority {
+  return {
+    async timestamp(digest) {
+      const time = new Date().toISOString();
+      const digestHex = Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+      const token = toBase64(new TextEncoder().encode(JSON.stringify({ stub: true, digest: digestHex, time })));
+      return { url: "stub", token, time };
+    },
+  };
+}
+
+export function authorityFromEnv(): TimestampAuthority | null {
+  const url = Deno.env.get("TSA_URL");
+  if (!url) return null;
+  return url === "stub" ? stubAuthority() : rfc3161Authority(url);
+}
@@ -0,0 +1,130 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authorityFromEnv } from "../_shared/tsa.ts";
+
+// Records a signed checkpoint of the ledger tip. Invoked hourly by pg_cron
+// with the service role key; see the ledger_checkpoints migration.
+//
+// Secrets:
+//   CHECKPOINT_SIGNING_KEY  PKCS#8 PEM ECDSA P-256 key. Its public half is
+//                           VITE_CHECKPOINT_PUBLIC_KEY in the web client.
+//   TSA_URL                 RFC 3161 endpoint, "stub", or unset
+
+// Must stay in sync with src/lib/signing.ts
+const CHECKPOINT_SIGNATURE_CONTEXT = "doc-link-chain/checkpoint/v1\n";
+const SIGNING_KEY_ALGORITHM = { name: "ECDSA", namedCurve: "P-256" } as const;
+
+// Must stay in sync with canonicalJson in src/lib/blockchain.ts
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item === undefined ? null : item)).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function fromPem(pem: string): Uint8Array {
+  const base64 = pem.replace(/-----(BEGIN|END) [A-Z ]+-----/g, "").replace(/\s/g, "");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function toBase64(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)));
+}
+
+// The key and the SHA-256 fingerprint of its SPKI public half
+async function loadSystemKey(pem: string): Promise<{ key: CryptoKey; fingerprint: string }> {
+  const key = await crypto.subtle.importKey("pkcs8", fromPem(pem), SIGNING_KEY_ALGORITHM, true, ["sign"]);
+  const { kty, crv, x, y } = await crypto.subtle.exportKey("jwk", key);
+  const publicKey = await crypto.subtle.importKey("jwk", { kty, crv, x, y }, SIGNING_KEY_ALGORITHM, true, ["verify"]);
+  const spki = await crypto.subtle.exportKey("spki", publicKey);
+  return { key, fingerprint: toHex(await crypto.subtle.digest("SHA-256", spki)) };
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: "Checkpoints are taken by the scheduler only" }, 401);
+  }
+
+  const signingKeyPem = Deno.env.get("CHECKPOINT_SIGNING_KEY");
+  if (!signingKeyPem) {
+    return json({ error: "CHECKPOINT_SIGNING_KEY is not configured" }, 500);
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+    // One statement, so the count covers exactly the blocks up to the tip
+    const { data: tip, error: tipError } = await supabase.rpc("ledger_tip").maybeSingle();
+    if (tipError) throw tipError;
+    if (!tip) return json({ skipped: "The ledger is empty" });
+
+    const { data: latest, error: latestError } = await supabase
+      .from("ledger_checkpoints")
+      .select("tip_hash")
+      .order("block_index", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (latestError) throw latestError;
+    if (latest?.tip_hash === tip.current_hash) return json({ skipped: "No new blocks since the last checkpoint" });
+
+    const checkpoint = {
+      blockIndex: tip.block_index,
+      tipHash: tip.current_hash,
+      blockCount: tip.block_count,
+      createdAt: new Date().toISOString(),
+    };
+    const payload = new TextEncoder().encode(CHECKPOINT_SIGNATURE_CONTEXT + canonicalJson(checkpoint));
+
+    const { key, fingerprint } = await loadSystemKey(signingKeyPem);
+    const signature = await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-256" }, key, payload);
+
+    // A failing TSA must not stop the checkpoint itself
+    let timestamp = null;
+    const authority = authorityFromEnv();
+    if (authority) {
+      try {
+        timestamp = await authority.timestamp(new Uint8Array(await crypto.subtle.digest("SHA-256", payload)));
+      } catch (error) {
+        console.error("Error timestamping checkpoint:", error);
+      }
+    }
+
+    const { data: row, error } = await supabase
+      .from("ledger_checkpoints")
+      .insert({
+        block_index: checkpoint.blockIndex,
+        tip_hash: checkpoint.tipHash,
+        block_count: checkpoint.blockCount,
+        created_at: checkpoint.createdAt,
+        signature: toBase64(signature),
+        key_fingerprint: fingerprint,
+        tsa_url: timestamp?.url ?? null,
+        tsa_token: timestamp?.token ?? null,
+        tsa_time: timestamp?.time ?? null,
+      })
+      .select()
+      .single();
+    if (error) throw error;
+
+    return json(row);
+  } catch (error) {
+    console.error("Error taking checkpoint:", error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
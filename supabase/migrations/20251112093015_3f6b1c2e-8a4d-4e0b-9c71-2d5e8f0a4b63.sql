@@ -0,0 +1,11 @@
+-- Keys are now real RSA-OAEP (SHA-256) key pairs stored as PEM
+COMMENT ON COLUMN public.profiles.public_key_pem IS 'RSA-OAEP (SHA-256) public key, SPKI PEM';
+COMMENT ON COLUMN public.profiles.private_key_pem IS 'RSA-OAEP (SHA-256) private key, PKCS#8 PEM';
+
+-- Keep the retired demo key so AES keys wrapped before the upgrade still decrypt.
+-- The demo scheme derived the same secret from both halves, so this holds only
+-- what public_key_pem already exposed.
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS legacy_public_key_pem text;
+
+COMMENT ON COLUMN public.profiles.legacy_public_key_pem IS 'Retired demo key (PUBLIC_x) used to unwrap AES keys shared before the RSA-OAEP upgrade';
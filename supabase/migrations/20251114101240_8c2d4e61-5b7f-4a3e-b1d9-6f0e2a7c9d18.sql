@@ -0,0 +1,137 @@
+-- Client-side key vault: private keys are wrapped in the browser with a key
+-- derived from the user's passphrase before they are ever stored
+CREATE TABLE public.key_vaults (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id uuid NOT NULL UNIQUE REFERENCES public.profiles(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  wrapped_private_key text NOT NULL,
+  wrap_iv text NOT NULL,
+  kdf text NOT NULL DEFAULT 'PBKDF2-SHA256',
+  kdf_salt text NOT NULL,
+  kdf_iterations integer NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.key_vaults.wrapped_private_key IS 'PKCS#8 private key encrypted client-side with AES-256-GCM under a passphrase-derived key';
+
+-- Enable RLS
+ALTER TABLE public.key_vaults ENABLE ROW LEVEL SECURITY;
+
+-- Only the owner can ever see their own vault
+CREATE POLICY "Users can view their own key vault"
+ON public.key_vaults
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own key vault"
+ON public.key_vaults
+FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND profile_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own key vault"
+ON public.key_vaults
+FOR UPDATE
+USING (user_id = auth.uid());
+
+CREATE TRIGGER update_key_vaults_updated_at
+BEFORE UPDATE ON public.key_vaults
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Stop exposing plaintext private keys through "Doctors can view all profiles"
+REVOKE SELECT ON public.profiles FROM anon, authenticated;
+GRANT SELECT (
+  id,
+  user_id,
+  full_name,
+  specialization,
+  public_key_pem,
+  legacy_public_key_pem,
+  face_encoding_data,
+  created_at,
+  updated_at
+) ON public.profiles TO authenticated;
+
+-- Plaintext private keys may only be cleared, never written
+CREATE OR REPLACE FUNCTION public.prevent_plaintext_private_key()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.private_key_pem IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.private_key_pem IS DISTINCT FROM OLD.private_key_pem) THEN
+    RAISE EXCEPTION 'Private keys must be stored in the key vault';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_plaintext_private_key
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_plaintext_private_key();
+
+-- Lets a user read back their own not-yet-migrated plaintext key so the
+-- browser can wrap it into the vault
+CREATE OR REPLACE FUNCTION public.get_own_plaintext_private_key()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT private_key_pem FROM public.profiles WHERE user_id = auth.uid();
+$$;
+
+-- Stores the wrapped key and nulls the plaintext column in one transaction,
+-- so a failed migration can never lose the only copy of a key
+CREATE OR REPLACE FUNCTION public.store_key_vault(
+  p_wrapped_private_key text,
+  p_wrap_iv text,
+  p_kdf text,
+  p_kdf_salt text,
+  p_kdf_iterations integer,
+  p_public_key_pem text DEFAULT NULL,
+  p_legacy_public_key_pem text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_profile_id uuid;
+BEGIN
+  SELECT id INTO v_profile_id FROM public.profiles WHERE user_id = auth.uid();
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  INSERT INTO public.key_vaults (
+    profile_id, user_id, wrapped_private_key, wrap_iv, kdf, kdf_salt, kdf_iterations
+  )
+  VALUES (
+    v_profile_id, auth.uid(), p_wrapped_private_key, p_wrap_iv, p_kdf, p_kdf_salt, p_kdf_iterations
+  )
+  ON CONFLICT (profile_id) DO UPDATE SET
+    wrapped_private_key = EXCLUDED.wrapped_private_key,
+    wrap_iv = EXCLUDED.wrap_iv,
+    kdf = EXCLUDED.kdf,
+    kdf_salt = EXCLUDED.kdf_salt,
+    kdf_iterations = EXCLUDED.kdf_iterations;
+
+  UPDATE public.profiles
+  SET
+    private_key_pem = NULL,
+    public_key_pem = COALESCE(p_public_key_pem, public_key_pem),
+    legacy_public_key_pem = COALESCE(p_legacy_public_key_pem, legacy_public_key_pem)
+  WHERE id = v_profile_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_own_plaintext_private_key() FROM anon;
+REVOKE EXECUTE ON FUNCTION public.store_key_vault(text, text, text, text, integer, text, text) FROM anon;
+
+COMMENT ON COLUMN public.profiles.private_key_pem IS 'Deprecated: plaintext keys are migrated into key_vaults and cleared on first unlock';
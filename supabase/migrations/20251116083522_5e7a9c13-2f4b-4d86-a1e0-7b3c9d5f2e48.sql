@@ -0,0 +1,154 @@
+-- Canonical JSON for block hashing: object keys sorted, no whitespace.
+-- Must stay in sync with canonicalJson in src/lib/blockchain.ts.
+CREATE OR REPLACE FUNCTION public.canonical_json(p_value jsonb)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  CASE jsonb_typeof(p_value)
+    WHEN 'object' THEN
+      RETURN '{' || COALESCE((
+        SELECT string_agg(to_jsonb(key)::text || ':' || public.canonical_json(value), ',' ORDER BY key COLLATE "C")
+        FROM jsonb_each(p_value)
+      ), '') || '}';
+    WHEN 'array' THEN
+      RETURN '[' || COALESCE((
+        SELECT string_agg(public.canonical_json(value), ',' ORDER BY ordinality)
+        FROM jsonb_array_elements(p_value) WITH ORDINALITY
+      ), '') || ']';
+    ELSE
+      RETURN p_value::text;
+  END CASE;
+END;
+$$;
+
+-- Block timestamps are hashed as ISO 8601 UTC with milliseconds, the same
+-- string JavaScript's Date#toISOString produces
+CREATE OR REPLACE FUNCTION public.block_timestamp_text(p_timestamp timestamptz)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_char(p_timestamp AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"');
+$$;
+
+CREATE OR REPLACE FUNCTION public.calculate_block_hash(
+  p_index integer,
+  p_timestamp timestamptz,
+  p_data jsonb,
+  p_previous_hash text
+)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(
+    sha256(convert_to(
+      p_index::text || public.block_timestamp_text(p_timestamp) || public.canonical_json(p_data) || p_previous_hash,
+      'UTF8'
+    )),
+    'hex'
+  );
+$$;
+
+-- Appends a block on top of the current chain tip. Appends are serialized by
+-- a transaction-scoped advisory lock, so concurrent callers can never read
+-- the same tip. The sender is always the caller's own profile.
+CREATE OR REPLACE FUNCTION public.append_block(
+  p_data jsonb,
+  p_receiver_id uuid DEFAULT NULL
+)
+RETURNS public.blockchain_renewed
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_sender_id uuid;
+  v_tip public.blockchain_renewed;
+  v_index integer;
+  v_previous_hash text;
+  v_timestamp timestamptz;
+  v_block public.blockchain_renewed;
+BEGIN
+  SELECT id INTO v_sender_id FROM public.profiles WHERE user_id = auth.uid();
+  IF v_sender_id IS NULL THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF jsonb_typeof(p_data) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Block data must be a JSON object';
+  END IF;
+
+  IF p_data ? 'senderId' AND p_data->>'senderId' IS DISTINCT FROM v_sender_id::text THEN
+    RAISE EXCEPTION 'Block sender does not match the current user';
+  END IF;
+
+  IF p_receiver_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_receiver_id) THEN
+    RAISE EXCEPTION 'Receiver profile not found';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('public.blockchain_renewed'));
+
+  SELECT * INTO v_tip
+  FROM public.blockchain_renewed
+  ORDER BY block_index DESC, created_at DESC
+  LIMIT 1;
+
+  v_index := COALESCE(v_tip.block_index + 1, 0);
+  v_previous_hash := COALESCE(v_tip.current_hash, '0');
+  -- Truncate to the millisecond precision that ends up in the hash
+  v_timestamp := date_trunc('milliseconds', clock_timestamp());
+
+  INSERT INTO public.blockchain_renewed (
+    block_index, timestamp, previous_hash, current_hash, data_json, sender_id, receiver_id
+  )
+  VALUES (
+    v_index,
+    v_timestamp,
+    v_previous_hash,
+    public.calculate_block_hash(v_index, v_timestamp, p_data, v_previous_hash),
+    p_data,
+    v_sender_id,
+    p_receiver_id
+  )
+  RETURNING * INTO v_block;
+
+  RETURN v_block;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.append_block(jsonb, uuid) FROM anon;
+
+-- Blocks can only be written through append_block
+DROP POLICY IF EXISTS "Doctors can insert blockchain blocks" ON public.blockchain_renewed;
+
+-- Client-side appends could already have produced duplicate indices, and
+-- those blocks cannot be renumbered without invalidating their hashes. In
+-- that case uniqueness is enforced from the first index past them.
+DO $$
+DECLARE
+  v_last_duplicate integer;
+BEGIN
+  SELECT max(block_index) INTO v_last_duplicate
+  FROM (
+    SELECT block_index
+    FROM public.blockchain_renewed
+    GROUP BY block_index
+    HAVING count(*) > 1
+  ) duplicates;
+
+  IF v_last_duplicate IS NULL THEN
+    ALTER TABLE public.blockchain_renewed
+      ADD CONSTRAINT blockchain_renewed_block_index_key UNIQUE (block_index);
+  ELSE
+    EXECUTE format(
+      'CREATE UNIQUE INDEX blockchain_renewed_block_index_key ON public.blockchain_renewed (block_index) WHERE block_index > %s',
+      v_last_duplicate
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,11 @@
+-- Verifying the chain means recomputing every block, so doctors need to read
+-- the whole ledger rather than only the blocks they sent or received
+DROP POLICY IF EXISTS "Doctors can view blockchain blocks they're involved in" ON public.blockchain_renewed;
+
+CREATE POLICY "Doctors can view the full ledger"
+ON public.blockchain_renewed
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid())
+);
@@ -0,0 +1,186 @@
+-- Block signing: every doctor holds an ECDSA P-256 signing key. The private
+-- half is wrapped into their key vault; the public half is registered here so
+-- anyone verifying the ledger can check who authored each block.
+CREATE TABLE public.signing_keys (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  fingerprint text NOT NULL UNIQUE,
+  public_key_pem text NOT NULL,
+  algorithm text NOT NULL DEFAULT 'ECDSA-P256-SHA256',
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  revoked_at timestamp with time zone
+);
+
+COMMENT ON COLUMN public.signing_keys.fingerprint IS 'Hex SHA-256 of the SPKI-encoded public key';
+COMMENT ON COLUMN public.signing_keys.revoked_at IS 'Blocks signed after this time are not accepted under this key';
+
+CREATE INDEX signing_keys_profile_id_idx ON public.signing_keys (profile_id);
+
+ALTER TABLE public.signing_keys ENABLE ROW LEVEL SECURITY;
+
+-- Public keys are needed by everyone who verifies the ledger. Keys are only
+-- ever written through register_signing_key.
+CREATE POLICY "Doctors can view signing keys"
+ON public.signing_keys
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid())
+);
+
+ALTER TABLE public.key_vaults
+  ADD COLUMN wrapped_signing_key text,
+  ADD COLUMN signing_key_iv text;
+
+COMMENT ON COLUMN public.key_vaults.wrapped_signing_key IS 'PKCS#8 ECDSA signing key, wrapped under the same passphrase-derived key as wrapped_private_key';
+
+ALTER TABLE public.blockchain_renewed
+  ADD COLUMN signature text,
+  ADD COLUMN signer_fingerprint text;
+
+COMMENT ON COLUMN public.blockchain_renewed.signature IS 'Base64 ECDSA P-256 signature over the canonical JSON of data_json';
+
+CREATE OR REPLACE FUNCTION public.signing_key_fingerprint(p_public_key_pem text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(
+    sha256(decode(regexp_replace(p_public_key_pem, '-----(BEGIN|END) [A-Z ]+-----|\s', '', 'g'), 'base64')),
+    'hex'
+  );
+$$;
+
+-- Registers a new signing key for the caller, retiring any previous one, and
+-- stores its wrapped private half in the caller's vault
+CREATE OR REPLACE FUNCTION public.register_signing_key(
+  p_public_key_pem text,
+  p_wrapped_signing_key text,
+  p_signing_key_iv text
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_profile_id uuid;
+  v_fingerprint text;
+BEGIN
+  SELECT id INTO v_profile_id FROM public.profiles WHERE user_id = auth.uid();
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.key_vaults WHERE profile_id = v_profile_id) THEN
+    RAISE EXCEPTION 'Create a key vault before registering a signing key';
+  END IF;
+
+  v_fingerprint := public.signing_key_fingerprint(p_public_key_pem);
+
+  UPDATE public.signing_keys
+  SET revoked_at = now()
+  WHERE profile_id = v_profile_id AND revoked_at IS NULL;
+
+  INSERT INTO public.signing_keys (profile_id, fingerprint, public_key_pem)
+  VALUES (v_profile_id, v_fingerprint, p_public_key_pem);
+
+  UPDATE public.key_vaults
+  SET
+    wrapped_signing_key = p_wrapped_signing_key,
+    signing_key_iv = p_signing_key_iv
+  WHERE profile_id = v_profile_id;
+
+  RETURN v_fingerprint;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.register_signing_key(text, text, text) FROM anon;
+
+-- append_block now requires a signature from one of the caller's active
+-- signing keys. Postgres cannot check ECDSA itself; the signature is verified
+-- by every client that verifies the chain.
+DROP FUNCTION IF EXISTS public.append_block(jsonb, uuid);
+
+CREATE OR REPLACE FUNCTION public.append_block(
+  p_data jsonb,
+  p_signature text,
+  p_signer_fingerprint text,
+  p_receiver_id uuid DEFAULT NULL
+)
+RETURNS public.blockchain_renewed
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_sender_id uuid;
+  v_tip public.blockchain_renewed;
+  v_index integer;
+  v_previous_hash text;
+  v_timestamp timestamptz;
+  v_block public.blockchain_renewed;
+BEGIN
+  SELECT id INTO v_sender_id FROM public.profiles WHERE user_id = auth.uid();
+  IF v_sender_id IS NULL THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF jsonb_typeof(p_data) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Block data must be a JSON object';
+  END IF;
+
+  IF p_data ? 'senderId' AND p_data->>'senderId' IS DISTINCT FROM v_sender_id::text THEN
+    RAISE EXCEPTION 'Block sender does not match the current user';
+  END IF;
+
+  IF coalesce(p_signature, '') = '' THEN
+    RAISE EXCEPTION 'Blocks must be signed';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.signing_keys
+    WHERE fingerprint = p_signer_fingerprint
+      AND profile_id = v_sender_id
+      AND revoked_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Signing key is not registered to the current user';
+  END IF;
+
+  IF p_receiver_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_receiver_id) THEN
+    RAISE EXCEPTION 'Receiver profile not found';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('public.blockchain_renewed'));
+
+  SELECT * INTO v_tip
+  FROM public.blockchain_renewed
+  ORDER BY block_index DESC, created_at DESC
+  LIMIT 1;
+
+  v_index := COALESCE(v_tip.block_index + 1, 0);
+  v_previous_hash := COALESCE(v_tip.current_hash, '0');
+  -- Truncate to the millisecond precision that ends up in the hash
+  v_timestamp := date_trunc('milliseconds', clock_timestamp());
+
+  INSERT INTO public.blockchain_renewed (
+    block_index, timestamp, previous_hash, current_hash, data_json, sender_id, receiver_id,
+    signature, signer_fingerprint
+  )
+  VALUES (
+    v_index,
+    v_timestamp,
+    v_previous_hash,
+    public.calculate_block_hash(v_index, v_timestamp, p_data, v_previous_hash),
+    p_data,
+    v_sender_id,
+    p_receiver_id,
+    p_signature,
+    p_signer_fingerprint
+  )
+  RETURNING * INTO v_block;
+
+  RETURN v_block;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.append_block(jsonb, text, text, uuid) FROM anon;
@@ -0,0 +1,25 @@
+-- The ledger event type of a block's data_json. Blocks written before the
+-- event schema have no "action"; they are classified the same way
+-- parseLedgerEvent in src/lib/ledgerEvents.ts upgrades them.
+CREATE OR REPLACE FUNCTION public.ledger_event_action(p_data jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_data ? 'action' THEN p_data->>'action'
+    WHEN p_data->>'receiverId' IS NULL THEN 'RECORD_UPLOADED'
+    WHEN p_data->>'fileName' ~ '^Folder: .* \(\d+ files\)$' THEN 'FOLDER_SHARED'
+    ELSE 'RECORD_SHARED'
+  END;
+$$;
+
+-- Derived from data_json, so it is not part of the block hash
+ALTER TABLE public.blockchain_renewed
+  ADD COLUMN event_action text GENERATED ALWAYS AS (public.ledger_event_action(data_json)) STORED;
+
+-- Indexes for the ledger explorer's filters
+CREATE INDEX blockchain_renewed_event_action_idx ON public.blockchain_renewed (event_action);
+CREATE INDEX blockchain_renewed_sender_id_idx ON public.blockchain_renewed (sender_id);
+CREATE INDEX blockchain_renewed_receiver_id_idx ON public.blockchain_renewed (receiver_id);
+CREATE INDEX blockchain_renewed_timestamp_idx ON public.blockchain_renewed (timestamp);
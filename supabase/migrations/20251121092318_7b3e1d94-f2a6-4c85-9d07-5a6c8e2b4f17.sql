@@ -0,0 +1,17 @@
+-- Merkle inclusion proofs: a batch of uploaded files is committed to the
+-- ledger as one Merkle root, and each file keeps the proof that its hash is
+-- under that root. A proof reveals only salted sibling hashes, never the
+-- other files' hashes.
+ALTER TABLE public.encrypted_files
+  ADD COLUMN merkle_proof jsonb,
+  ADD COLUMN ledger_block_id uuid REFERENCES public.blockchain_renewed(id);
+
+ALTER TABLE public.encrypted_images
+  ADD COLUMN merkle_proof jsonb,
+  ADD COLUMN ledger_block_id uuid REFERENCES public.blockchain_renewed(id);
+
+COMMENT ON COLUMN public.encrypted_files.merkle_proof IS 'Inclusion proof of file_hash under the merkleRoot of the block in ledger_block_id (see src/lib/merkle.ts)';
+COMMENT ON COLUMN public.encrypted_images.merkle_proof IS 'Inclusion proof of file_hash under the merkleRoot of the block in ledger_block_id (see src/lib/merkle.ts)';
+
+CREATE INDEX encrypted_files_ledger_block_id_idx ON public.encrypted_files (ledger_block_id);
+CREATE INDEX encrypted_images_ledger_block_id_idx ON public.encrypted_images (ledger_block_id);
@@ -0,0 +1,115 @@
+-- One canonical ledger. The original public.blockchain table has not been
+-- written since blockchain_renewed replaced it. Its blocks cannot be replayed
+-- into blockchain_renewed without rehashing every later block, so they are
+-- kept as a frozen archive instead. A LEGACY_CHAIN_ANCHORED block appended to
+-- the canonical chain commits to that archive.
+ALTER TABLE public.blockchain RENAME TO blockchain_legacy;
+
+ALTER TABLE public.blockchain_legacy RENAME CONSTRAINT blockchain_sender_id_fkey TO blockchain_legacy_sender_id_fkey;
+ALTER TABLE public.blockchain_legacy RENAME CONSTRAINT blockchain_receiver_id_fkey TO blockchain_legacy_receiver_id_fkey;
+
+DROP POLICY IF EXISTS "Doctors can insert blockchain blocks" ON public.blockchain_legacy;
+
+COMMENT ON TABLE public.blockchain_legacy IS 'Read-only archive of the original ledger, anchored into blockchain_renewed';
+
+-- blockchain_renewed was created without the foreign keys the original table
+-- had. Blocks are never deleted, so neither are the profiles they name.
+-- Existing rows may name profiles that are already gone; the constraints are
+-- then left unvalidated and only hold for new blocks.
+ALTER TABLE public.blockchain_renewed
+  ADD CONSTRAINT blockchain_renewed_sender_id_fkey
+    FOREIGN KEY (sender_id) REFERENCES public.profiles(id) ON DELETE RESTRICT NOT VALID,
+  ADD CONSTRAINT blockchain_renewed_receiver_id_fkey
+    FOREIGN KEY (receiver_id) REFERENCES public.profiles(id) ON DELETE RESTRICT NOT VALID;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.blockchain_renewed b
+    WHERE NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = b.sender_id)
+  ) THEN
+    ALTER TABLE public.blockchain_renewed VALIDATE CONSTRAINT blockchain_renewed_sender_id_fkey;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.blockchain_renewed b
+    WHERE b.receiver_id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = b.receiver_id)
+  ) THEN
+    ALTER TABLE public.blockchain_renewed VALIDATE CONSTRAINT blockchain_renewed_receiver_id_fkey;
+  END IF;
+END;
+$$;
+
+-- What an anchor commits to: the archive's size, its first and last hashes,
+-- a digest over every hash in order, and whether each block links to the one
+-- before it. Callers can't see the whole archive through RLS, so it is
+-- summarised here.
+CREATE OR REPLACE FUNCTION public.legacy_chain_summary()
+RETURNS TABLE (
+  block_count integer,
+  genesis_hash text,
+  tip_hash text,
+  chain_digest text,
+  linked boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  WITH ordered AS (
+    SELECT
+      block_index,
+      previous_hash,
+      current_hash,
+      lag(current_hash) OVER (ORDER BY block_index) AS prior_hash
+    FROM public.blockchain_legacy
+  )
+  SELECT
+    count(*)::integer,
+    (array_agg(current_hash ORDER BY block_index))[1],
+    (array_agg(current_hash ORDER BY block_index DESC))[1],
+    CASE WHEN count(*) > 0
+      THEN encode(sha256(convert_to(string_agg(current_hash, '' ORDER BY block_index), 'UTF8')), 'hex')
+    END,
+    COALESCE(bool_and(prior_hash IS NULL OR previous_hash = prior_hash), true)
+  FROM ordered;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.legacy_chain_summary() FROM anon;
+
+-- The archive is anchored once, and only with its actual summary
+CREATE UNIQUE INDEX blockchain_renewed_legacy_anchor_key
+  ON public.blockchain_renewed (event_action)
+  WHERE event_action = 'LEGACY_CHAIN_ANCHORED';
+
+CREATE OR REPLACE FUNCTION public.check_legacy_anchor()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_summary record;
+BEGIN
+  IF public.ledger_event_action(NEW.data_json) IS DISTINCT FROM 'LEGACY_CHAIN_ANCHORED' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_summary FROM public.legacy_chain_summary();
+
+  IF (NEW.data_json->>'legacyBlockCount')::integer IS DISTINCT FROM v_summary.block_count
+     OR NEW.data_json->>'legacyGenesisHash' IS DISTINCT FROM v_summary.genesis_hash
+     OR NEW.data_json->>'legacyTipHash' IS DISTINCT FROM v_summary.tip_hash
+     OR NEW.data_json->>'legacyChainDigest' IS DISTINCT FROM v_summary.chain_digest
+     OR (NEW.data_json->>'legacyLinked')::boolean IS DISTINCT FROM v_summary.linked THEN
+    RAISE EXCEPTION 'Anchor does not match the legacy chain';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_legacy_anchor
+BEFORE INSERT ON public.blockchain_renewed
+FOR EACH ROW
+EXECUTE FUNCTION public.check_legacy_anchor();
@@ -0,0 +1,70 @@
+-- Ledger checkpoints. Anyone with direct database access could rewrite
+-- blockchain_renewed and recompute every hash, and the chain would still
+-- verify. A checkpoint records the tip at a point in time, signed by a system
+-- key that never touches the database, and optionally timestamped by an
+-- RFC 3161 timestamp authority. Clients trust the system public key from
+-- their own build config, so a rewritten chain no longer matches.
+CREATE TABLE public.ledger_checkpoints (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  block_index integer NOT NULL,
+  tip_hash text NOT NULL,
+  block_count integer NOT NULL,
+  created_at timestamp with time zone NOT NULL,
+  signature text NOT NULL,
+  key_fingerprint text NOT NULL,
+  tsa_url text,
+  tsa_token text,
+  tsa_time timestamp with time zone
+);
+
+COMMENT ON COLUMN public.ledger_checkpoints.signature IS 'Base64 ECDSA P-256 signature by the system checkpoint key over blockIndex, tipHash, blockCount and createdAt';
+COMMENT ON COLUMN public.ledger_checkpoints.tsa_token IS 'Base64 DER RFC 3161 TimeStampResp over the signed checkpoint payload; verify with openssl ts -verify';
+
+CREATE INDEX ledger_checkpoints_block_index_idx ON public.ledger_checkpoints (block_index DESC);
+
+ALTER TABLE public.ledger_checkpoints ENABLE ROW LEVEL SECURITY;
+
+-- Checkpoints are written only by the ledger-checkpoint edge function, which
+-- uses the service role
+CREATE POLICY "Doctors can view ledger checkpoints"
+ON public.ledger_checkpoints
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid())
+);
+
+-- The hashes at the given heights, so verifiers can compare the chain with
+-- its checkpoints without fetching every block
+CREATE OR REPLACE FUNCTION public.ledger_block_hashes(p_indices integer[])
+RETURNS TABLE (block_index integer, current_hash text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT block_index, current_hash
+  FROM public.blockchain_renewed
+  WHERE block_index = ANY(p_indices);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ledger_block_hashes(integer[]) FROM anon;
+
+-- Take a checkpoint every hour. The project URL and service role key are read
+-- from Vault, so neither is stored in this migration.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'ledger-checkpoint',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/ledger-checkpoint',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,123 @@
+-- Records can be shared with any number of doctors. medical_records had a
+-- single shared_with_id, and sharing overwrote encrypted_aes_key with the
+-- recipient's wrapped key, which locked the owner out. Each recipient now has
+-- a record_shares row holding the record's AES key wrapped with their own
+-- public key, and encrypted_aes_key is always the owner's.
+CREATE TABLE public.record_shares (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  record_id uuid NOT NULL REFERENCES public.medical_records(id) ON DELETE CASCADE,
+  recipient_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  shared_by uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  wrapped_key text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (record_id, recipient_id)
+);
+
+COMMENT ON COLUMN public.record_shares.wrapped_key IS 'The record''s AES key wrapped with the recipient''s RSA-OAEP public key';
+
+CREATE INDEX record_shares_recipient_id_idx ON public.record_shares (recipient_id);
+
+-- Carry existing shares over. The owner's copy of these keys was overwritten
+-- by the share and cannot be recovered here.
+INSERT INTO public.record_shares (record_id, recipient_id, shared_by, wrapped_key, created_at)
+SELECT id, shared_with_id, owner_id, encrypted_aes_key, COALESCE(updated_at, now())
+FROM public.medical_records
+WHERE shared_with_id IS NOT NULL;
+
+-- Policies on record_shares can't query medical_records directly: its own
+-- policy queries record_shares, and the two would recurse
+CREATE OR REPLACE FUNCTION public.is_record_owner(p_record_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.medical_records
+    WHERE id = p_record_id
+      AND owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_record_owner(uuid) FROM anon;
+
+ALTER TABLE public.record_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Doctors can view shares of their records or with them"
+ON public.record_shares
+FOR SELECT
+TO authenticated
+USING (
+  recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR public.is_record_owner(record_id)
+);
+
+CREATE POLICY "Owners can share their records"
+ON public.record_shares
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.is_record_owner(record_id)
+  AND shared_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+-- Access to a shared record now follows its share rows
+DROP POLICY IF EXISTS "Doctors can view their own records" ON public.medical_records;
+
+CREATE POLICY "Doctors can view their own records"
+ON public.medical_records
+FOR SELECT
+TO authenticated
+USING (
+  owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR EXISTS (
+    SELECT 1
+    FROM public.record_shares
+    WHERE record_shares.record_id = medical_records.id
+      AND record_shares.recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+);
+
+DROP INDEX IF EXISTS public.idx_medical_records_shared_with_id;
+ALTER TABLE public.medical_records DROP COLUMN shared_with_id;
+
+-- Chunked records are stored under the owner's folder in the encrypted-images
+-- bucket; recipients may read the chunks of records shared with them
+CREATE POLICY "Recipients can view shared record files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'encrypted-images'
+  AND EXISTS (
+    SELECT 1
+    FROM public.medical_records
+    JOIN public.record_shares ON record_shares.record_id = medical_records.id
+    WHERE record_shares.recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+      AND starts_with(objects.name, medical_records.encrypted_file_path || '/')
+  )
+);
+
+-- Owner keys used to be stored unwrapped. Existing ones are wrapped by the
+-- owner's browser the next time the record is opened; new ones must arrive
+-- wrapped.
+CREATE OR REPLACE FUNCTION public.prevent_plaintext_record_key()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.encrypted_aes_key ~ '^[0-9a-f]{64}$'
+     AND (TG_OP = 'INSERT' OR NEW.encrypted_aes_key IS DISTINCT FROM OLD.encrypted_aes_key) THEN
+    RAISE EXCEPTION 'Record keys must be wrapped with the owner''s public key';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_plaintext_record_key
+BEFORE INSERT OR UPDATE ON public.medical_records
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_plaintext_record_key();
+
+COMMENT ON COLUMN public.medical_records.encrypted_aes_key IS 'AES key wrapped with the owner''s RSA-OAEP public key; recipients'' copies are in record_shares';
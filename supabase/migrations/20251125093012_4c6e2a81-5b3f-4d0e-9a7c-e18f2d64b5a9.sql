@@ -0,0 +1,25 @@
+-- Owners can revoke what they have shared. Revoking a record deletes the
+-- recipient's share row; revoking a folder or image clears receiver_id and
+-- the receiver's wrapped keys.
+CREATE POLICY "Owners can revoke shares of their records"
+ON public.record_shares
+FOR DELETE
+TO authenticated
+USING (public.is_record_owner(record_id));
+
+-- Rotating a record's key re-wraps it for the recipients who keep access
+CREATE POLICY "Owners can re-wrap shares of their records"
+ON public.record_shares
+FOR UPDATE
+TO authenticated
+USING (public.is_record_owner(record_id))
+WITH CHECK (public.is_record_owner(record_id));
+
+-- Folders had no UPDATE policy, so setting or clearing receiver_id on a
+-- folder silently changed nothing
+CREATE POLICY "Users can update their own folders"
+ON public.encrypted_folders
+FOR UPDATE
+TO authenticated
+USING (owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()))
+WITH CHECK (owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()));
@@ -0,0 +1,134 @@
+-- Shares can expire and can be view-only. Expiry is enforced here: once a
+-- share has expired the recipient can no longer read the row, their wrapped
+-- key or the stored chunks. The permission is enforced by the recipient's
+-- browser, which hides downloads and exports for view-only shares.
+ALTER TABLE public.record_shares
+  ADD COLUMN permission text NOT NULL DEFAULT 'download' CHECK (permission IN ('view', 'download')),
+  ADD COLUMN expires_at timestamp with time zone;
+
+ALTER TABLE public.encrypted_folders
+  ADD COLUMN share_permission text NOT NULL DEFAULT 'download' CHECK (share_permission IN ('view', 'download')),
+  ADD COLUMN share_expires_at timestamp with time zone;
+
+COMMENT ON COLUMN public.record_shares.permission IS 'view: in-browser viewing only; download: the recipient may also save the decrypted file';
+COMMENT ON COLUMN public.record_shares.expires_at IS 'After this the recipient loses access; null means the share does not expire';
+COMMENT ON COLUMN public.encrypted_folders.share_permission IS 'Permission of the share with receiver_id; see record_shares.permission';
+COMMENT ON COLUMN public.encrypted_folders.share_expires_at IS 'When the share with receiver_id expires; null means it does not';
+
+-- Records
+DROP POLICY IF EXISTS "Doctors can view shares of their records or with them" ON public.record_shares;
+
+CREATE POLICY "Doctors can view shares of their records or with them"
+ON public.record_shares
+FOR SELECT
+TO authenticated
+USING (
+  (
+    recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    AND (expires_at IS NULL OR expires_at > now())
+  )
+  OR public.is_record_owner(record_id)
+);
+
+DROP POLICY IF EXISTS "Doctors can view their own records" ON public.medical_records;
+
+CREATE POLICY "Doctors can view their own records"
+ON public.medical_records
+FOR SELECT
+TO authenticated
+USING (
+  owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR EXISTS (
+    SELECT 1
+    FROM public.record_shares
+    WHERE record_shares.record_id = medical_records.id
+      AND record_shares.recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+      AND (record_shares.expires_at IS NULL OR record_shares.expires_at > now())
+  )
+);
+
+DROP POLICY IF EXISTS "Recipients can view shared record files" ON storage.objects;
+
+CREATE POLICY "Recipients can view shared record files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'encrypted-images'
+  AND EXISTS (
+    SELECT 1
+    FROM public.medical_records
+    JOIN public.record_shares ON record_shares.record_id = medical_records.id
+    WHERE record_shares.recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+      AND (record_shares.expires_at IS NULL OR record_shares.expires_at > now())
+      AND starts_with(objects.name, medical_records.encrypted_file_path || '/')
+  )
+);
+
+-- Folders
+
+-- Before encrypted_folders had an UPDATE policy, sharing set the receiver on
+-- each file but not on the folder. Those folders take the files' receiver, as
+-- shared files now follow their folder's share.
+UPDATE public.encrypted_folders
+SET receiver_id = shared.receiver_id
+FROM (
+  SELECT DISTINCT ON (folder_id) folder_id, receiver_id
+  FROM public.encrypted_files
+  WHERE receiver_id IS NOT NULL
+  ORDER BY folder_id, updated_at DESC
+) AS shared
+WHERE encrypted_folders.id = shared.folder_id
+  AND encrypted_folders.receiver_id IS NULL;
+
+DROP POLICY IF EXISTS "Users can view folders shared with them" ON public.encrypted_folders;
+
+CREATE POLICY "Users can view folders shared with them"
+ON public.encrypted_folders
+FOR SELECT
+USING (
+  receiver_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+  AND (share_expires_at IS NULL OR share_expires_at > now())
+);
+
+-- A shared file follows the terms of its folder's share
+DROP POLICY IF EXISTS "Users can view their own files or files shared with them" ON public.encrypted_files;
+
+CREATE POLICY "Users can view their own files or files shared with them"
+ON public.encrypted_files
+FOR SELECT
+USING (
+  owner_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+  OR (
+    receiver_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+    AND EXISTS (
+      SELECT 1
+      FROM public.encrypted_folders
+      WHERE encrypted_folders.id = encrypted_files.folder_id
+        AND encrypted_folders.receiver_id = encrypted_files.receiver_id
+        AND (encrypted_folders.share_expires_at IS NULL OR encrypted_folders.share_expires_at > now())
+    )
+  )
+);
+
+-- Folder files are stored under the owner's folder in the bucket, which only
+-- the owner could read until now
+CREATE POLICY "Recipients can view shared folder files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'encrypted-images'
+  AND EXISTS (
+    SELECT 1
+    FROM public.encrypted_files
+    JOIN public.encrypted_folders ON encrypted_folders.id = encrypted_files.folder_id
+    WHERE encrypted_files.receiver_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+      AND encrypted_folders.receiver_id = encrypted_files.receiver_id
+      AND (encrypted_folders.share_expires_at IS NULL OR encrypted_folders.share_expires_at > now())
+      AND (
+        objects.name = encrypted_files.encrypted_path
+        OR starts_with(objects.name, encrypted_files.encrypted_path || '/')
+      )
+  )
+);
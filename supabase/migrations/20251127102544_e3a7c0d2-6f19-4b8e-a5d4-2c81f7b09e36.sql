@@ -0,0 +1,60 @@
+-- A doctor can ask another doctor for access to a record or a patient's
+-- files. The requester can't see the owner's records, so the request names
+-- its subject in free text; the owner picks what to share when approving.
+CREATE TABLE public.access_requests (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  requester_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  owner_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  subject text NOT NULL CHECK (length(trim(subject)) > 0),
+  reason text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'denied')),
+  resource_type text CHECK (resource_type IN ('record', 'folder')),
+  resource_id uuid,
+  responded_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (requester_id <> owner_id),
+  -- An approved request says what was shared
+  CHECK (status <> 'approved' OR (resource_type IS NOT NULL AND resource_id IS NOT NULL))
+);
+
+COMMENT ON COLUMN public.access_requests.subject IS 'The record or patient the requester named';
+COMMENT ON COLUMN public.access_requests.resource_id IS 'The medical_records or encrypted_folders row shared on approval';
+
+CREATE INDEX access_requests_owner_id_idx ON public.access_requests (owner_id, status);
+CREATE INDEX access_requests_requester_id_idx ON public.access_requests (requester_id);
+
+ALTER TABLE public.access_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Doctors can view requests they made or received"
+ON public.access_requests
+FOR SELECT
+TO authenticated
+USING (
+  requester_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Doctors can request access"
+ON public.access_requests
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  requester_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND status = 'pending'
+  AND resource_id IS NULL
+  AND responded_at IS NULL
+);
+
+-- Only the owner answers, and only once
+CREATE POLICY "Owners can answer pending requests"
+ON public.access_requests
+FOR UPDATE
+TO authenticated
+USING (
+  owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND status = 'pending'
+)
+WITH CHECK (
+  owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND status IN ('approved', 'denied')
+);
@@ -0,0 +1,299 @@
+-- Care teams: named groups of doctors that folders can be shared with in one
+-- step. Each team has its own RSA key pair. File keys shared with the team
+-- are wrapped once with the team public key, and every member holds the team
+-- private key wrapped for them, so membership changes only touch
+-- care_team_members.
+CREATE TABLE public.care_teams (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_by uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  public_key_pem text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- The team private key PEM is too long for RSA-OAEP, so it is encrypted with
+-- a fresh AES key and that key is wrapped with the member's public key
+CREATE TABLE public.care_team_members (
+  team_id uuid NOT NULL REFERENCES public.care_teams(id) ON DELETE CASCADE,
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  wrapped_key text NOT NULL,
+  encrypted_private_key text NOT NULL,
+  added_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (team_id, profile_id)
+);
+
+COMMENT ON COLUMN public.care_team_members.wrapped_key IS 'AES key for encrypted_private_key, wrapped with the member''s RSA public key';
+COMMENT ON COLUMN public.care_team_members.encrypted_private_key IS 'The team''s RSA private key PEM, AES-GCM encrypted';
+
+CREATE INDEX care_team_members_profile_id_idx ON public.care_team_members (profile_id);
+
+-- A folder shared with a team, on the same terms as a share with one doctor
+CREATE TABLE public.folder_team_shares (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  folder_id uuid NOT NULL REFERENCES public.encrypted_folders(id) ON DELETE CASCADE,
+  team_id uuid NOT NULL REFERENCES public.care_teams(id) ON DELETE CASCADE,
+  shared_by uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  permission text NOT NULL DEFAULT 'download' CHECK (permission IN ('view', 'download')),
+  expires_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (folder_id, team_id)
+);
+
+CREATE INDEX folder_team_shares_team_id_idx ON public.folder_team_shares (team_id);
+
+-- Each file's AES key wrapped with the team public key
+CREATE TABLE public.team_file_keys (
+  file_id uuid NOT NULL REFERENCES public.encrypted_files(id) ON DELETE CASCADE,
+  team_id uuid NOT NULL REFERENCES public.care_teams(id) ON DELETE CASCADE,
+  wrapped_key text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (file_id, team_id)
+);
+
+CREATE INDEX team_file_keys_team_id_idx ON public.team_file_keys (team_id);
+
+-- Membership checks for policies. Policies on care_team_members can't query
+-- the table themselves without recursing, as with is_record_owner.
+CREATE OR REPLACE FUNCTION public.is_team_member(p_team_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.care_team_members
+    WHERE team_id = p_team_id
+      AND profile_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_team_admin(p_team_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.care_teams
+    WHERE id = p_team_id
+      AND created_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_folder_owner(p_folder_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.encrypted_folders
+    WHERE id = p_folder_id
+      AND owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_team_member(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.is_team_admin(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.is_folder_owner(uuid) FROM anon;
+
+ALTER TABLE public.care_teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.care_team_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.folder_team_shares ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_file_keys ENABLE ROW LEVEL SECURITY;
+
+-- Teams. Owners who shared a folder with a team keep seeing it after
+-- leaving, so a key rotation can still re-wrap for the team.
+CREATE POLICY "Members can view their teams"
+ON public.care_teams
+FOR SELECT
+TO authenticated
+USING (
+  public.is_team_member(id)
+  OR created_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR EXISTS (
+    SELECT 1
+    FROM public.folder_team_shares
+    WHERE folder_team_shares.team_id = care_teams.id
+      AND public.is_folder_owner(folder_team_shares.folder_id)
+  )
+);
+
+CREATE POLICY "Doctors can create teams"
+ON public.care_teams
+FOR INSERT
+TO authenticated
+WITH CHECK (created_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()));
+
+CREATE POLICY "Creators can delete their teams"
+ON public.care_teams
+FOR DELETE
+TO authenticated
+USING (created_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()));
+
+-- Members. The team's creator manages membership; anyone else may leave.
+CREATE POLICY "Members can view their team's members"
+ON public.care_team_members
+FOR SELECT
+TO authenticated
+USING (public.is_team_member(team_id));
+
+CREATE POLICY "Team creators can add members"
+ON public.care_team_members
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.is_team_admin(team_id)
+  AND added_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Team creators can remove members and members can leave"
+ON public.care_team_members
+FOR DELETE
+TO authenticated
+USING (
+  (
+    public.is_team_admin(team_id)
+    OR profile_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+  AND profile_id <> (SELECT created_by FROM public.care_teams WHERE care_teams.id = care_team_members.team_id)
+);
+
+-- Folder shares. Owners can only share with teams they belong to.
+CREATE POLICY "Owners and team members can view team folder shares"
+ON public.folder_team_shares
+FOR SELECT
+TO authenticated
+USING (
+  public.is_folder_owner(folder_id)
+  OR (
+    public.is_team_member(team_id)
+    AND (expires_at IS NULL OR expires_at > now())
+  )
+);
+
+CREATE POLICY "Owners can share folders with their teams"
+ON public.folder_team_shares
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.is_folder_owner(folder_id)
+  AND public.is_team_member(team_id)
+  AND shared_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Owners can renew team folder shares"
+ON public.folder_team_shares
+FOR UPDATE
+TO authenticated
+USING (public.is_folder_owner(folder_id))
+WITH CHECK (
+  public.is_folder_owner(folder_id)
+  AND public.is_team_member(team_id)
+  AND shared_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Owners can unshare folders from teams"
+ON public.folder_team_shares
+FOR DELETE
+TO authenticated
+USING (public.is_folder_owner(folder_id));
+
+-- Team-wrapped file keys
+CREATE POLICY "Owners and team members can view team file keys"
+ON public.team_file_keys
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.encrypted_files
+    WHERE encrypted_files.id = team_file_keys.file_id
+      AND encrypted_files.owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+  OR (
+    public.is_team_member(team_id)
+    AND EXISTS (
+      SELECT 1
+      FROM public.encrypted_files
+      JOIN public.folder_team_shares ON folder_team_shares.folder_id = encrypted_files.folder_id
+      WHERE encrypted_files.id = team_file_keys.file_id
+        AND folder_team_shares.team_id = team_file_keys.team_id
+        AND (folder_team_shares.expires_at IS NULL OR folder_team_shares.expires_at > now())
+    )
+  )
+);
+
+CREATE POLICY "Owners can manage team file keys"
+ON public.team_file_keys
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.encrypted_files
+    WHERE encrypted_files.id = team_file_keys.file_id
+      AND encrypted_files.owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1
+    FROM public.encrypted_files
+    WHERE encrypted_files.id = team_file_keys.file_id
+      AND encrypted_files.owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+);
+
+-- Team members read shared folders, their files and the stored chunks while
+-- the team share is active. A removed member fails is_team_member at once.
+CREATE POLICY "Team members can view folders shared with their teams"
+ON public.encrypted_folders
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.folder_team_shares
+    WHERE folder_team_shares.folder_id = encrypted_folders.id
+      AND public.is_team_member(folder_team_shares.team_id)
+      AND (folder_team_shares.expires_at IS NULL OR folder_team_shares.expires_at > now())
+  )
+);
+
+CREATE POLICY "Team members can view files in folders shared with their teams"
+ON public.encrypted_files
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.folder_team_shares
+    WHERE folder_team_shares.folder_id = encrypted_files.folder_id
+      AND public.is_team_member(folder_team_shares.team_id)
+      AND (folder_team_shares.expires_at IS NULL OR folder_team_shares.expires_at > now())
+  )
+);
+
+CREATE POLICY "Team members can view team folder files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'encrypted-images'
+  AND EXISTS (
+    SELECT 1
+    FROM public.encrypted_files
+    JOIN public.folder_team_shares ON folder_team_shares.folder_id = encrypted_files.folder_id
+    WHERE public.is_team_member(folder_team_shares.team_id)
+      AND (folder_team_shares.expires_at IS NULL OR folder_team_shares.expires_at > now())
+      AND (
+        objects.name = encrypted_files.encrypted_path
+        OR starts_with(objects.name, encrypted_files.encrypted_path || '/')
+      )
+  )
+);
@@ -0,0 +1,147 @@
+-- Single images and single folder files can be shared on their own. Images
+-- keep their one receiver in encrypted_images, now with the same terms as
+-- other shares. A folder file's receiver columns belong to its folder's
+-- share, so individual file shares get their own table, like record_shares.
+ALTER TABLE public.encrypted_images
+  ADD COLUMN share_permission text NOT NULL DEFAULT 'download' CHECK (share_permission IN ('view', 'download')),
+  ADD COLUMN share_expires_at timestamp with time zone;
+
+COMMENT ON COLUMN public.encrypted_images.share_permission IS 'Permission of the share with receiver_id; see record_shares.permission';
+COMMENT ON COLUMN public.encrypted_images.share_expires_at IS 'When the share with receiver_id expires; null means it does not';
+
+DROP POLICY IF EXISTS "Users can view their own images or images shared with them" ON public.encrypted_images;
+
+CREATE POLICY "Users can view their own images or images shared with them"
+ON public.encrypted_images
+FOR SELECT
+USING (
+  owner_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+  OR (
+    receiver_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+    AND (share_expires_at IS NULL OR share_expires_at > now())
+  )
+);
+
+-- Images are stored under the owner's folder in the bucket, which only the
+-- owner could read until now
+CREATE POLICY "Recipients can view shared images"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'encrypted-images'
+  AND EXISTS (
+    SELECT 1
+    FROM public.encrypted_images
+    WHERE encrypted_images.receiver_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+      AND (encrypted_images.share_expires_at IS NULL OR encrypted_images.share_expires_at > now())
+      AND (
+        objects.name = encrypted_images.encrypted_path
+        OR starts_with(objects.name, encrypted_images.encrypted_path || '/')
+      )
+  )
+);
+
+-- Folder files
+CREATE TABLE public.file_shares (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id uuid NOT NULL REFERENCES public.encrypted_files(id) ON DELETE CASCADE,
+  recipient_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  shared_by uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  wrapped_key text NOT NULL,
+  permission text NOT NULL DEFAULT 'download' CHECK (permission IN ('view', 'download')),
+  expires_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (file_id, recipient_id)
+);
+
+COMMENT ON COLUMN public.file_shares.wrapped_key IS 'The file''s AES key wrapped with the recipient''s RSA public key';
+
+CREATE INDEX file_shares_recipient_id_idx ON public.file_shares (recipient_id);
+
+-- Policies on file_shares can't query encrypted_files directly: its policy
+-- below queries file_shares, and the two would recurse
+CREATE OR REPLACE FUNCTION public.is_file_owner(p_file_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.encrypted_files
+    WHERE id = p_file_id
+      AND owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_file_owner(uuid) FROM anon;
+
+ALTER TABLE public.file_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Doctors can view shares of their files or with them"
+ON public.file_shares
+FOR SELECT
+TO authenticated
+USING (
+  (
+    recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    AND (expires_at IS NULL OR expires_at > now())
+  )
+  OR public.is_file_owner(file_id)
+);
+
+CREATE POLICY "Owners can share their files"
+ON public.file_shares
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.is_file_owner(file_id)
+  AND shared_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Owners can renew or re-wrap shares of their files"
+ON public.file_shares
+FOR UPDATE
+TO authenticated
+USING (public.is_file_owner(file_id))
+WITH CHECK (public.is_file_owner(file_id));
+
+CREATE POLICY "Owners can revoke shares of their files"
+ON public.file_shares
+FOR DELETE
+TO authenticated
+USING (public.is_file_owner(file_id));
+
+CREATE POLICY "Recipients can view files shared with them individually"
+ON public.encrypted_files
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.file_shares
+    WHERE file_shares.file_id = encrypted_files.id
+      AND file_shares.recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+      AND (file_shares.expires_at IS NULL OR file_shares.expires_at > now())
+  )
+);
+
+CREATE POLICY "Recipients can view individually shared files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'encrypted-images'
+  AND EXISTS (
+    SELECT 1
+    FROM public.encrypted_files
+    JOIN public.file_shares ON file_shares.file_id = encrypted_files.id
+    WHERE file_shares.recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+      AND (file_shares.expires_at IS NULL OR file_shares.expires_at > now())
+      AND (
+        objects.name = encrypted_files.encrypted_path
+        OR starts_with(objects.name, encrypted_files.encrypted_path || '/')
+      )
+  )
+);
@@ -0,0 +1,75 @@
+-- Recipients may re-share a record when the share they hold allows it. The
+-- owner picks a policy per share: none, once (the recipient may re-share,
+-- but their recipients may not) or free. A re-share points at the share it
+-- was made from, so the shares of a record form a tree under the owner, and
+-- revoking a share also revokes everything re-shared from it.
+ALTER TABLE public.record_shares
+  ADD COLUMN reshare_policy text NOT NULL DEFAULT 'none' CHECK (reshare_policy IN ('none', 'once', 'free')),
+  ADD COLUMN parent_share_id uuid REFERENCES public.record_shares(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN public.record_shares.reshare_policy IS 'none: the recipient may not re-share; once: they may, on policy none; free: they may, on any policy';
+COMMENT ON COLUMN public.record_shares.parent_share_id IS 'The share this one was re-shared from; null for shares made by the owner';
+
+CREATE INDEX record_shares_parent_share_id_idx ON public.record_shares (parent_share_id);
+
+-- Whether the caller may re-share from p_parent_share_id on these terms. A
+-- re-share can't outlast or widen the share it comes from. SECURITY DEFINER
+-- for the same reason as is_record_owner.
+CREATE OR REPLACE FUNCTION public.can_reshare_record(
+  p_parent_share_id uuid,
+  p_record_id uuid,
+  p_permission text,
+  p_expires_at timestamp with time zone,
+  p_reshare_policy text
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.record_shares parent
+    WHERE parent.id = p_parent_share_id
+      AND parent.record_id = p_record_id
+      AND parent.recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+      AND (parent.expires_at IS NULL OR parent.expires_at > now())
+      AND (
+        parent.reshare_policy = 'free'
+        OR (parent.reshare_policy = 'once' AND p_reshare_policy = 'none')
+      )
+      AND (parent.permission = 'download' OR p_permission = 'view')
+      AND (parent.expires_at IS NULL OR (p_expires_at IS NOT NULL AND p_expires_at <= parent.expires_at))
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_reshare_record(uuid, uuid, text, timestamp with time zone, text) FROM anon;
+
+CREATE POLICY "Recipients can re-share records their share allows"
+ON public.record_shares
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  parent_share_id IS NOT NULL
+  AND shared_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND recipient_id <> shared_by
+  AND NOT public.is_record_owner(record_id)
+  AND public.can_reshare_record(parent_share_id, record_id, permission, expires_at, reshare_policy)
+);
+
+-- Doctors also see the shares they re-shared, so they know who they passed
+-- a record on to
+DROP POLICY IF EXISTS "Doctors can view shares of their records or with them" ON public.record_shares;
+
+CREATE POLICY "Doctors can view shares of their records or with them"
+ON public.record_shares
+FOR SELECT
+TO authenticated
+USING (
+  (
+    recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    AND (expires_at IS NULL OR expires_at > now())
+  )
+  OR shared_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR public.is_record_owner(record_id)
+);
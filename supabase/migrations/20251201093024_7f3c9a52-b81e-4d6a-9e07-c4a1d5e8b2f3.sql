@@ -0,0 +1,170 @@
+-- Patients. Records, images and folders were only grouped by the doctor who
+-- owns them; each can now point at the patient it belongs to. Demographics
+-- (name, date of birth, MRN) are PHI, so they are stored as one AES-GCM
+-- envelope whose key is wrapped for the owner, the same way file keys are.
+CREATE TABLE public.patients (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  encrypted_demographics text NOT NULL,
+  encrypted_aes_key text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.patients.encrypted_demographics IS 'JSON {name, dob, mrn}, AES-GCM encrypted';
+COMMENT ON COLUMN public.patients.encrypted_aes_key IS 'AES key for encrypted_demographics, wrapped with the owner''s RSA public key';
+
+CREATE INDEX patients_owner_id_idx ON public.patients (owner_id);
+
+-- Unlinking on delete keeps the items; they just stop belonging to a chart
+ALTER TABLE public.medical_records
+  ADD COLUMN patient_id uuid REFERENCES public.patients(id) ON DELETE SET NULL;
+ALTER TABLE public.encrypted_images
+  ADD COLUMN patient_id uuid REFERENCES public.patients(id) ON DELETE SET NULL;
+ALTER TABLE public.encrypted_folders
+  ADD COLUMN patient_id uuid REFERENCES public.patients(id) ON DELETE SET NULL;
+
+CREATE INDEX medical_records_patient_id_idx ON public.medical_records (patient_id);
+CREATE INDEX encrypted_images_patient_id_idx ON public.encrypted_images (patient_id);
+CREATE INDEX encrypted_folders_patient_id_idx ON public.encrypted_folders (patient_id);
+
+-- A patient shared with a doctor. The demographics key is wrapped for them;
+-- the patient's items are shared through their own tables on the same terms.
+CREATE TABLE public.patient_shares (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id uuid NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  recipient_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  shared_by uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  wrapped_key text NOT NULL,
+  permission text NOT NULL DEFAULT 'download' CHECK (permission IN ('view', 'download')),
+  expires_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (patient_id, recipient_id)
+);
+
+CREATE INDEX patient_shares_recipient_id_idx ON public.patient_shares (recipient_id);
+
+-- Policies on patient_shares check ownership through patients, whose own
+-- policy reads patient_shares, so as with is_record_owner this bypasses RLS
+CREATE OR REPLACE FUNCTION public.is_patient_owner(p_patient_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.patients
+    WHERE id = p_patient_id
+      AND owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_patient_owner(uuid) FROM anon;
+
+-- An item can only be filed under one of its owner's own patients
+CREATE OR REPLACE FUNCTION public.check_item_patient_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.patient_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.patients WHERE id = NEW.patient_id AND owner_id = NEW.owner_id
+  ) THEN
+    RAISE EXCEPTION 'Items can only be linked to their owner''s patients';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_medical_record_patient_owner
+BEFORE INSERT OR UPDATE OF patient_id, owner_id ON public.medical_records
+FOR EACH ROW EXECUTE FUNCTION public.check_item_patient_owner();
+
+CREATE TRIGGER check_encrypted_image_patient_owner
+BEFORE INSERT OR UPDATE OF patient_id, owner_id ON public.encrypted_images
+FOR EACH ROW EXECUTE FUNCTION public.check_item_patient_owner();
+
+CREATE TRIGGER check_encrypted_folder_patient_owner
+BEFORE INSERT OR UPDATE OF patient_id, owner_id ON public.encrypted_folders
+FOR EACH ROW EXECUTE FUNCTION public.check_item_patient_owner();
+
+CREATE TRIGGER update_patients_updated_at
+BEFORE UPDATE ON public.patients
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.patients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.patient_shares ENABLE ROW LEVEL SECURITY;
+
+-- Patients. Doctors a patient is shared with see it until the share expires.
+CREATE POLICY "Doctors can view their patients or patients shared with them"
+ON public.patients
+FOR SELECT
+TO authenticated
+USING (
+  owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR EXISTS (
+    SELECT 1
+    FROM public.patient_shares
+    WHERE patient_shares.patient_id = patients.id
+      AND patient_shares.recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+      AND (patient_shares.expires_at IS NULL OR patient_shares.expires_at > now())
+  )
+);
+
+CREATE POLICY "Doctors can create their own patients"
+ON public.patients
+FOR INSERT
+TO authenticated
+WITH CHECK (owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()));
+
+CREATE POLICY "Owners can update their patients"
+ON public.patients
+FOR UPDATE
+TO authenticated
+USING (owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()))
+WITH CHECK (owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()));
+
+CREATE POLICY "Owners can delete their patients"
+ON public.patients
+FOR DELETE
+TO authenticated
+USING (owner_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()));
+
+-- Patient shares. Only the owner shares a patient; recipients see their own
+-- share until it expires.
+CREATE POLICY "Doctors can view shares of their patients or with them"
+ON public.patient_shares
+FOR SELECT
+TO authenticated
+USING (
+  (
+    recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    AND (expires_at IS NULL OR expires_at > now())
+  )
+  OR public.is_patient_owner(patient_id)
+);
+
+CREATE POLICY "Owners can share their patients"
+ON public.patient_shares
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.is_patient_owner(patient_id)
+  AND shared_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND recipient_id <> shared_by
+);
+
+CREATE POLICY "Owners can renew shares of their patients"
+ON public.patient_shares
+FOR UPDATE
+TO authenticated
+USING (public.is_patient_owner(patient_id))
+WITH CHECK (public.is_patient_owner(patient_id));
+
+CREATE POLICY "Owners can revoke shares of their patients"
+ON public.patient_shares
+FOR DELETE
+TO authenticated
+USING (public.is_patient_owner(patient_id));
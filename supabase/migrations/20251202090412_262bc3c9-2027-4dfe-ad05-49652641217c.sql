@@ -0,0 +1,6 @@
+-- encrypted_folders.owner_id never got a foreign key, so the shared folders
+-- gallery's sender embed (profiles!encrypted_folders_owner_id_fkey) had no
+-- relationship to follow.
+ALTER TABLE public.encrypted_folders
+  ADD CONSTRAINT encrypted_folders_owner_id_fkey
+  FOREIGN KEY (owner_id) REFERENCES public.profiles(id) ON DELETE CASCADE;
@@ -0,0 +1,16 @@
+-- The tip and the number of blocks under it, read in one statement so a
+-- block appended between two separate reads can't make them disagree. Only
+-- the ledger-checkpoint function needs it.
+CREATE OR REPLACE FUNCTION public.ledger_tip()
+RETURNS TABLE (block_index integer, current_hash text, block_count integer)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT tip.block_index, tip.current_hash, (SELECT count(*)::integer FROM public.blockchain_renewed)
+  FROM public.blockchain_renewed AS tip
+  ORDER BY tip.block_index DESC, tip.created_at DESC
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ledger_tip() FROM PUBLIC, anon, authenticated;
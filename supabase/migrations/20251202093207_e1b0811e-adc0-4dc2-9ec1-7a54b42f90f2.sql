@@ -0,0 +1,47 @@
+-- Opening the whole ledger to every doctor exposed the file and folder names
+-- and the sender and receiver of every block. Blocks are visible only to the
+-- doctors involved in them again. The chain itself is verified from the
+-- functions below, which return each block's index, hashes and signature but
+-- none of its contents.
+DROP POLICY IF EXISTS "Doctors can view the full ledger" ON public.blockchain_renewed;
+
+CREATE POLICY "Doctors can view blockchain blocks they're involved in"
+ON public.blockchain_renewed
+FOR SELECT
+TO authenticated
+USING (
+  sender_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR receiver_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+-- One page of the chain in ledger order, for verifying every link from
+-- genesis to tip
+CREATE OR REPLACE FUNCTION public.ledger_chain(p_offset integer, p_limit integer)
+RETURNS TABLE (block_index integer, previous_hash text, current_hash text, signature text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT block_index, previous_hash, current_hash, signature
+  FROM public.blockchain_renewed
+  ORDER BY block_index, "timestamp", created_at
+  OFFSET p_offset
+  LIMIT p_limit;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ledger_chain(integer, integer) FROM anon;
+
+-- The same for the blocks at the given heights, e.g. a block's neighbours
+CREATE OR REPLACE FUNCTION public.ledger_block_links(p_indices integer[])
+RETURNS TABLE (block_index integer, previous_hash text, current_hash text, signature text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT block_index, previous_hash, current_hash, signature
+  FROM public.blockchain_renewed
+  WHERE block_index = ANY(p_indices)
+  ORDER BY block_index, "timestamp", created_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ledger_block_links(integer[]) FROM anon;
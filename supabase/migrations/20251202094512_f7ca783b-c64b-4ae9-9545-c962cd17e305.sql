@@ -0,0 +1,120 @@
+-- Block signatures covered only data_json, so a signed block could be moved
+-- to another index, or after another block, and still verify. Signatures now
+-- cover the block's index and previous hash too. The client signs against
+-- the tip it read from ledger_next_block, and append_block refuses the block
+-- if the tip has moved since, so the client can re-sign and retry.
+COMMENT ON COLUMN public.blockchain_renewed.signature IS 'Base64 ECDSA P-256 signature over the canonical JSON of {index, previousHash, data}; blocks written before 2025-12-02 were signed over data_json alone';
+
+-- Where the next block will go: its index and the hash it will link to
+CREATE OR REPLACE FUNCTION public.ledger_next_block()
+RETURNS TABLE (block_index integer, previous_hash text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE(tip.block_index + 1, 0), COALESCE(tip.current_hash, '0')
+  FROM (SELECT 1) AS one
+  LEFT JOIN LATERAL (
+    SELECT block_index, current_hash
+    FROM public.blockchain_renewed
+    ORDER BY block_index DESC, created_at DESC
+    LIMIT 1
+  ) AS tip ON true;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ledger_next_block() FROM anon;
+
+DROP FUNCTION IF EXISTS public.append_block(jsonb, text, text, uuid);
+
+CREATE OR REPLACE FUNCTION public.append_block(
+  p_data jsonb,
+  p_signature text,
+  p_signer_fingerprint text,
+  p_index integer,
+  p_previous_hash text,
+  p_receiver_id uuid DEFAULT NULL
+)
+RETURNS public.blockchain_renewed
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_sender_id uuid;
+  v_tip public.blockchain_renewed;
+  v_index integer;
+  v_previous_hash text;
+  v_timestamp timestamptz;
+  v_block public.blockchain_renewed;
+BEGIN
+  SELECT id INTO v_sender_id FROM public.profiles WHERE user_id = auth.uid();
+  IF v_sender_id IS NULL THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF jsonb_typeof(p_data) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Block data must be a JSON object';
+  END IF;
+
+  IF p_data ? 'senderId' AND p_data->>'senderId' IS DISTINCT FROM v_sender_id::text THEN
+    RAISE EXCEPTION 'Block sender does not match the current user';
+  END IF;
+
+  IF coalesce(p_signature, '') = '' THEN
+    RAISE EXCEPTION 'Blocks must be signed';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.signing_keys
+    WHERE fingerprint = p_signer_fingerprint
+      AND profile_id = v_sender_id
+      AND revoked_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Signing key is not registered to the current user';
+  END IF;
+
+  IF p_receiver_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_receiver_id) THEN
+    RAISE EXCEPTION 'Receiver profile not found';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('public.blockchain_renewed'));
+
+  SELECT * INTO v_tip
+  FROM public.blockchain_renewed
+  ORDER BY block_index DESC, created_at DESC
+  LIMIT 1;
+
+  v_index := COALESCE(v_tip.block_index + 1, 0);
+  v_previous_hash := COALESCE(v_tip.current_hash, '0');
+
+  -- The signature covers the position the client signed for
+  IF p_index IS DISTINCT FROM v_index OR p_previous_hash IS DISTINCT FROM v_previous_hash THEN
+    RAISE EXCEPTION 'The ledger tip moved while the block was being signed'
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  -- Truncate to the millisecond precision that ends up in the hash
+  v_timestamp := date_trunc('milliseconds', clock_timestamp());
+
+  INSERT INTO public.blockchain_renewed (
+    block_index, timestamp, previous_hash, current_hash, data_json, sender_id, receiver_id,
+    signature, signer_fingerprint
+  )
+  VALUES (
+    v_index,
+    v_timestamp,
+    v_previous_hash,
+    public.calculate_block_hash(v_index, v_timestamp, p_data, v_previous_hash),
+    p_data,
+    v_sender_id,
+    p_receiver_id,
+    p_signature,
+    p_signer_fingerprint
+  )
+  RETURNING * INTO v_block;
+
+  RETURN v_block;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.append_block(jsonb, text, text, integer, text, uuid) FROM anon;
@@ -0,0 +1,49 @@
+-- The record, image and folder shares a patient share created. Revoking the
+-- patient share revokes only these, leaving anything shared with the same
+-- doctor on its own untouched.
+CREATE TABLE public.patient_share_items (
+  patient_share_id uuid NOT NULL REFERENCES public.patient_shares(id) ON DELETE CASCADE,
+  item_type text NOT NULL CHECK (item_type IN ('record', 'image', 'folder')),
+  item_id uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (patient_share_id, item_type, item_id)
+);
+
+ALTER TABLE public.patient_share_items ENABLE ROW LEVEL SECURITY;
+
+-- Only the patient's owner shares and revokes, so only they see the links
+CREATE POLICY "Owners can view the items of their patient shares"
+ON public.patient_share_items
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.patient_shares
+    WHERE patient_shares.id = patient_share_items.patient_share_id
+      AND public.is_patient_owner(patient_shares.patient_id)
+  )
+);
+
+CREATE POLICY "Owners can record the items of their patient shares"
+ON public.patient_share_items
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.patient_shares
+    WHERE patient_shares.id = patient_share_items.patient_share_id
+      AND public.is_patient_owner(patient_shares.patient_id)
+  )
+);
+
+CREATE POLICY "Owners can remove the items of their patient shares"
+ON public.patient_share_items
+FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.patient_shares
+    WHERE patient_shares.id = patient_share_items.patient_share_id
+      AND public.is_patient_owner(patient_shares.patient_id)
+  )
+);
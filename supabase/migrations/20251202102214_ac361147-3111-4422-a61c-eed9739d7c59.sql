@@ -0,0 +1,96 @@
+-- Rotate a team's key pair when a member goes, so the team private key they
+-- held no longer opens anything. The creator generates the new pair, wraps it
+-- for the remaining members and re-wraps the team's file keys; the function
+-- swaps everything in one transaction. A member who leaves on their own can't
+-- be trusted with the new key, so leaving only marks the rotation as due.
+ALTER TABLE public.care_teams
+  ADD COLUMN key_rotation_due boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.care_teams.key_rotation_due IS 'A member left and the creator has not rotated the team key since';
+
+CREATE OR REPLACE FUNCTION public.flag_team_key_rotation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.care_teams SET key_rotation_due = true WHERE id = OLD.team_id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER care_team_members_flag_key_rotation
+AFTER DELETE ON public.care_team_members
+FOR EACH ROW
+EXECUTE FUNCTION public.flag_team_key_rotation();
+
+-- p_member_keys maps each remaining member's profile id to
+-- {wrapped_key, encrypted_private_key}; p_file_keys maps file ids to their
+-- key wrapped with the new public key. File keys the creator couldn't read,
+-- those of expired folder shares, are dropped: sharing the folder again
+-- wraps them with the new key.
+CREATE OR REPLACE FUNCTION public.rotate_team_key(
+  p_team_id uuid,
+  p_public_key_pem text,
+  p_member_keys jsonb,
+  p_file_keys jsonb,
+  p_removed_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_created_by uuid;
+BEGIN
+  IF NOT public.is_team_admin(p_team_id) THEN
+    RAISE EXCEPTION 'Only the team''s creator can rotate its key' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT created_by INTO v_created_by FROM public.care_teams WHERE id = p_team_id FOR UPDATE;
+
+  IF p_removed_id IS NOT NULL THEN
+    IF p_removed_id = v_created_by THEN
+      RAISE EXCEPTION 'The team''s creator can''t be removed';
+    END IF;
+
+    DELETE FROM public.care_team_members WHERE team_id = p_team_id AND profile_id = p_removed_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'That doctor is not a member of this team';
+    END IF;
+  END IF;
+
+  -- Every remaining member gets the new key, or nothing changes
+  IF (SELECT count(*) FROM jsonb_object_keys(p_member_keys))
+      <> (SELECT count(*) FROM public.care_team_members WHERE team_id = p_team_id)
+    OR EXISTS (
+      SELECT 1
+      FROM public.care_team_members
+      WHERE team_id = p_team_id
+        AND NOT p_member_keys ? profile_id::text
+    )
+  THEN
+    RAISE EXCEPTION 'The team''s members changed during the rotation. Try again.' USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  UPDATE public.care_team_members
+  SET wrapped_key = p_member_keys -> profile_id::text ->> 'wrapped_key',
+      encrypted_private_key = p_member_keys -> profile_id::text ->> 'encrypted_private_key'
+  WHERE team_id = p_team_id;
+
+  DELETE FROM public.team_file_keys
+  WHERE team_id = p_team_id
+    AND NOT p_file_keys ? file_id::text;
+
+  UPDATE public.team_file_keys
+  SET wrapped_key = p_file_keys ->> file_id::text
+  WHERE team_id = p_team_id;
+
+  UPDATE public.care_teams
+  SET public_key_pem = p_public_key_pem,
+      key_rotation_due = false
+  WHERE id = p_team_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rotate_team_key(uuid, text, jsonb, jsonb, uuid) FROM anon;